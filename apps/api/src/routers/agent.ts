@@ -9,6 +9,9 @@ import { router, protectedProcedure } from '../trpc.js';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { AgentRoleSchema, AgentLayerSchema, AgentStatusSchema } from '@business-automation/schema';
+import { ensureAgentsLoaded } from '@business-automation/agents';
+import { getRegistry } from '@business-automation/agents/orchestrator';
+import { connectRedis, getLLMRateLimitMetrics } from '@business-automation/agents/shared';
 
 export const agentRouter = router({
   /**
@@ -361,4 +364,24 @@ export const agentRouter = router({
 
       return grouped;
     }),
+
+  /**
+   * List registered agents with their versions and origin (built-in or plugin)
+   */
+  listRegistered: protectedProcedure.query(async () => {
+    await ensureAgentsLoaded();
+
+    return getRegistry().toJSON();
+  }),
+
+  /**
+   * Current utilisation of the LLM rate limits shared by every worker
+   *
+   * Covers the global buckets and the caller's tenant buckets, not other tenants'.
+   */
+  getRateLimits: protectedProcedure.query(async ({ ctx }) => {
+    await connectRedis();
+
+    return getLLMRateLimitMetrics(ctx.user.tenantId);
+  }),
 });
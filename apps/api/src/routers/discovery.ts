@@ -207,7 +207,11 @@ To get started, could you tell me about your business? What's your company name
       // Call Discovery Chat Agent
       // Note: Import at top of file - will need to add this
       const { DiscoveryChatAgent } = await import('@business-automation/agents/discovery/discovery-chat');
-      const agent = new DiscoveryChatAgent();
+      const tenant = await ctx.prisma.tenant.findUnique({
+        where: { id: ctx.user.tenantId },
+        select: { settings: true },
+      });
+      const agent = new DiscoveryChatAgent((tenant?.settings as any)?.llm);
 
       const result = await agent.chat(
         messages,
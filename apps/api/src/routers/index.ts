@@ -14,6 +14,7 @@ import { tenantRouter } from './tenant.js';
 import { workflowRouter } from './workflow.js';
 import { agentRouter } from './agent.js';
 import { discoveryRouter } from './discovery.js';
+import { webhookRouter } from './webhook.js';
 
 /**
  * Main app router combining all feature routers
@@ -27,6 +28,7 @@ export const appRouter = router({
   workflow: workflowRouter,
   agent: agentRouter,
   discovery: discoveryRouter,
+  webhook: webhookRouter,
 });
 
 /**
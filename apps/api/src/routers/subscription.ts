@@ -13,6 +13,37 @@ import { router, protectedProcedure } from '../trpc.js';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 
+/**
+ * Events pushed by the project stream
+ */
+const STREAM_EVENTS = [
+  'connected',
+  'workflow.progress',
+  'workflow.started',
+  'workflow.completed',
+  'workflow.failed',
+  'workflow.paused',
+  'workflow.resumed',
+  'workflow.cancelled',
+  'agent.pending',
+  'agent.running',
+  'agent.progress',
+  'agent.retrying',
+  'agent.completed',
+  'agent.failed',
+  'agent.skipped',
+  'agent.cancelled',
+  'agent.output',
+  'stage.started',
+  'stage.completed',
+  'refinement.started',
+  'refinement.decision',
+  'refinement.completed',
+  'approval.requested',
+  'approval.decided',
+  'cost.updated',
+];
+
 export const subscriptionRouter = router({
   /**
    * Get subscription info for a project
@@ -48,17 +79,11 @@ export const subscriptionRouter = router({
       return {
         project,
         streamEndpoint: `/api/projects/${input.projectId}/stream`,
-        availableEvents: [
-          'connected',
-          'workflow.progress',
-          'agent.pending',
-          'agent.running',
-          'agent.completed',
-          'agent.failed',
-          'agent.cancelled',
-        ],
+        availableEvents: STREAM_EVENTS,
         protocol: 'Server-Sent Events (SSE)',
-        pollingInterval: 2000, // ms
+        resumable: true, // via Last-Event-ID
+        heartbeatInterval: 15000, // ms
+        fallbackPollingInterval: 2000, // ms, only when Redis is unavailable
       };
     }),
 
@@ -97,15 +122,11 @@ export const subscriptionRouter = router({
       return {
         workflow,
         streamEndpoint: `/api/projects/${workflow.projectId}/stream`,
-        availableEvents: [
-          'workflow.progress',
-          'agent.pending',
-          'agent.running',
-          'agent.completed',
-          'agent.failed',
-        ],
+        availableEvents: STREAM_EVENTS.filter((event) => event !== 'connected'),
         protocol: 'Server-Sent Events (SSE)',
-        pollingInterval: 2000, // ms
+        resumable: true, // via Last-Event-ID
+        heartbeatInterval: 15000, // ms
+        fallbackPollingInterval: 2000, // ms, only when Redis is unavailable
       };
     }),
 
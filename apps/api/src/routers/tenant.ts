@@ -8,10 +8,52 @@
 import { router, protectedProcedure, adminProcedure } from '../trpc.js';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
+import { syncPresetEndpoints, validateEndpointUrl } from './webhook.js';
 
 // Inline validation schemas (from apps/web/lib/validations/tenant.ts)
 const subscriptionTierSchema = z.enum(['FREE', 'PRO', 'ENTERPRISE']);
 
+const budgetLimitSchema = z.object({
+  maxCostUsd: z.number().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+
+const tenantBudgetSchema = z.object({
+  perExecution: budgetLimitSchema.optional(),
+  perWorkflow: budgetLimitSchema.optional(),
+  monthly: budgetLimitSchema.optional(),
+  onExceeded: z.enum(['pause', 'stop']).optional(),
+});
+
+const tenantLLMSchema = z.object({
+  provider: z.enum(['anthropic', 'openai-compatible', 'mock']).optional(),
+  model: z.string().min(1).optional(),
+});
+
+const modelRouteSchema = z.object({
+  model: z.string().min(1),
+  fallback: z.string().min(1).optional(),
+});
+
+const modelRoutingSchema = z.object({
+  default: modelRouteSchema.optional(),
+  tiers: z
+    .object({ strategy: modelRouteSchema, build: modelRouteSchema, quality: modelRouteSchema })
+    .partial()
+    .optional(),
+  categories: z
+    .object({
+      orchestrator: modelRouteSchema,
+      planner: modelRouteSchema,
+      builder: modelRouteSchema,
+      grader: modelRouteSchema,
+      monitor: modelRouteSchema,
+    })
+    .partial()
+    .optional(),
+  agents: z.record(z.string(), modelRouteSchema).optional(),
+});
+
 const tenantSettingsSchema = z.object({
   enableAdvancedAnalytics: z.boolean().default(false),
   enableAPIAccess: z.boolean().default(false),
@@ -27,6 +69,9 @@ const tenantSettingsSchema = z.object({
   logoUrl: z.string().url().optional(),
   primaryColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
   companyName: z.string().optional(),
+  budget: tenantBudgetSchema.optional(),
+  llm: tenantLLMSchema.optional(),
+  modelRouting: modelRoutingSchema.optional(),
 });
 
 const updateTenantSettingsSchema = z.object({
@@ -120,6 +165,13 @@ export const tenantRouter = router({
         });
       }
 
+      // Slack and Discord URLs become webhook endpoints, so they get the same checks
+      for (const url of [input.settings.slackWebhook, input.settings.discordWebhook]) {
+        if (url) {
+          await validateEndpointUrl(url);
+        }
+      }
+
       // Merge new settings with existing settings
       const currentSettings = (tenant.settings as object) || {};
       const updatedSettings = {
@@ -134,6 +186,9 @@ export const tenantRouter = router({
         },
       });
 
+      // Slack and Discord URLs are delivered through preset webhook endpoints
+      await syncPresetEndpoints(ctx.prisma, ctx.user.tenantId, input.settings);
+
       return updatedTenant;
     }),
 
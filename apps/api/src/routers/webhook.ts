@@ -0,0 +1,330 @@
+/**
+ * Webhook Router
+ *
+ * tRPC router for outbound webhooks.
+ * Handles endpoint registration, the delivery log and redelivery.
+ */
+
+import { router, protectedProcedure, adminProcedure } from '../trpc.js';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import type { PrismaClient } from '@business-automation/database';
+import {
+  WEBHOOK_EVENT_TYPES,
+  assertPublicWebhookUrl,
+  createWebhookDispatcher,
+  generateWebhookSecret,
+} from '@business-automation/agents/shared';
+
+const webhookFormatSchema = z.enum(['GENERIC', 'SLACK', 'DISCORD']);
+
+const webhookEventTypeSchema = z.enum(WEBHOOK_EVENT_TYPES);
+
+const createEndpointSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  url: z.string().url('Valid URL is required'),
+  format: webhookFormatSchema.default('GENERIC'),
+  eventTypes: z.array(webhookEventTypeSchema).default([]),
+});
+
+const updateEndpointSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100).optional(),
+  url: z.string().url().optional(),
+  format: webhookFormatSchema.optional(),
+  eventTypes: z.array(webhookEventTypeSchema).optional(),
+  enabled: z.boolean().optional(),
+});
+
+const listDeliveriesSchema = z.object({
+  endpointId: z.string().uuid().optional(),
+  status: z.enum(['PENDING', 'RETRYING', 'SUCCEEDED', 'FAILED']).optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  cursor: z.string().uuid().optional(),
+});
+
+/**
+ * Endpoint fields returned by list queries (the secret is only returned on create and rotate)
+ */
+const endpointSelect = {
+  id: true,
+  name: true,
+  url: true,
+  format: true,
+  eventTypes: true,
+  enabled: true,
+  settingsKey: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * Tenant settings that configure a preset chat endpoint
+ */
+const PRESET_SETTINGS = {
+  slackWebhook: { name: 'Slack', format: 'SLACK' },
+  discordWebhook: { name: 'Discord', format: 'DISCORD' },
+} as const;
+
+/**
+ * Reject endpoint URLs that aren't https or resolve to an internal address
+ */
+export async function validateEndpointUrl(url: string): Promise<void> {
+  try {
+    await assertPublicWebhookUrl(url);
+  } catch (error: any) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Invalid webhook URL: ${error.message}`,
+    });
+  }
+}
+
+/**
+ * Keep the Slack and Discord preset endpoints in sync with tenant settings
+ *
+ * A preset subscribes to all events; clearing the setting removes it.
+ */
+export async function syncPresetEndpoints(
+  prisma: PrismaClient,
+  tenantId: string,
+  settings: Partial<Record<keyof typeof PRESET_SETTINGS, string | undefined>>
+): Promise<void> {
+  for (const [settingsKey, preset] of Object.entries(PRESET_SETTINGS)) {
+    if (!(settingsKey in settings)) {
+      continue;
+    }
+
+    const url = settings[settingsKey as keyof typeof PRESET_SETTINGS];
+
+    if (!url) {
+      await prisma.webhookEndpoint.deleteMany({ where: { tenantId, settingsKey } });
+      continue;
+    }
+
+    await prisma.webhookEndpoint.upsert({
+      where: { tenantId_settingsKey: { tenantId, settingsKey } },
+      create: {
+        tenantId,
+        settingsKey,
+        name: preset.name,
+        format: preset.format,
+        url,
+        secret: generateWebhookSecret(),
+        eventTypes: [],
+      },
+      update: { url },
+    });
+  }
+}
+
+export const webhookRouter = router({
+  /**
+   * List subscribable event types
+   */
+  eventTypes: protectedProcedure.query(() => {
+    return WEBHOOK_EVENT_TYPES;
+  }),
+
+  /**
+   * List the tenant's webhook endpoints with their latest delivery
+   */
+  listEndpoints: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.prisma.webhookEndpoint.findMany({
+      where: { tenantId: ctx.user.tenantId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        ...endpointSelect,
+        deliveries: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { status: true, responseStatus: true, createdAt: true },
+        },
+      },
+    });
+  }),
+
+  /**
+   * Register a webhook endpoint
+   * Requires ADMIN or OWNER role
+   */
+  createEndpoint: adminProcedure
+    .input(createEndpointSchema)
+    .mutation(async ({ ctx, input }) => {
+      await validateEndpointUrl(input.url);
+
+      return ctx.prisma.webhookEndpoint.create({
+        data: {
+          ...input,
+          tenantId: ctx.user.tenantId,
+          secret: generateWebhookSecret(),
+        },
+      });
+    }),
+
+  /**
+   * Update a webhook endpoint
+   * Requires ADMIN or OWNER role
+   */
+  updateEndpoint: adminProcedure
+    .input(updateEndpointSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+
+      if (data.url) {
+        await validateEndpointUrl(data.url);
+      }
+
+      const updated = await ctx.prisma.webhookEndpoint.updateMany({
+        where: { id, tenantId: ctx.user.tenantId },
+        data,
+      });
+
+      if (updated.count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook endpoint not found',
+        });
+      }
+
+      return ctx.prisma.webhookEndpoint.findUniqueOrThrow({
+        where: { id },
+        select: endpointSelect,
+      });
+    }),
+
+  /**
+   * Replace an endpoint's signing secret
+   * Requires ADMIN or OWNER role
+   */
+  rotateSecret: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const secret = generateWebhookSecret();
+
+      const updated = await ctx.prisma.webhookEndpoint.updateMany({
+        where: { id: input.id, tenantId: ctx.user.tenantId },
+        data: { secret },
+      });
+
+      if (updated.count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook endpoint not found',
+        });
+      }
+
+      return { id: input.id, secret };
+    }),
+
+  /**
+   * Delete a webhook endpoint and its delivery log
+   * Requires ADMIN or OWNER role
+   */
+  deleteEndpoint: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await ctx.prisma.webhookEndpoint.deleteMany({
+        where: { id: input.id, tenantId: ctx.user.tenantId },
+      });
+
+      if (deleted.count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook endpoint not found',
+        });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * List recent deliveries with pagination
+   */
+  listDeliveries: protectedProcedure
+    .input(listDeliveriesSchema)
+    .query(async ({ ctx, input }) => {
+      const { endpointId, status, limit, cursor } = input;
+
+      const deliveries = await ctx.prisma.webhookDelivery.findMany({
+        where: {
+          tenantId: ctx.user.tenantId,
+          ...(endpointId ? { endpointId } : {}),
+          ...(status ? { status } : {}),
+        },
+        take: limit + 1,
+        cursor: cursor ? { id: cursor } : undefined,
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          eventType: true,
+          status: true,
+          attempts: true,
+          responseStatus: true,
+          error: true,
+          durationMs: true,
+          redeliveryOf: true,
+          nextAttemptAt: true,
+          deliveredAt: true,
+          createdAt: true,
+          endpoint: {
+            select: { id: true, name: true, format: true },
+          },
+        },
+      });
+
+      const hasMore = deliveries.length > limit;
+      const items = hasMore ? deliveries.slice(0, limit) : deliveries;
+      const nextCursor = hasMore && items.length > 0 ? items[items.length - 1]!.id : null;
+
+      return {
+        items,
+        nextCursor,
+      };
+    }),
+
+  /**
+   * Get a delivery with its payload and response
+   */
+  getDelivery: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const delivery = await ctx.prisma.webhookDelivery.findFirst({
+        where: { id: input.id, tenantId: ctx.user.tenantId },
+        include: {
+          endpoint: { select: endpointSelect },
+        },
+      });
+
+      if (!delivery) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook delivery not found',
+        });
+      }
+
+      return delivery;
+    }),
+
+  /**
+   * Send a delivery's event again
+   * Requires ADMIN or OWNER role
+   */
+  redeliver: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const delivery = await ctx.prisma.webhookDelivery.findFirst({
+        where: { id: input.id, tenantId: ctx.user.tenantId },
+        select: { id: true },
+      });
+
+      if (!delivery) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook delivery not found',
+        });
+      }
+
+      return createWebhookDispatcher(ctx.prisma).redeliver(ctx.user.tenantId, delivery.id);
+    }),
+});
@@ -8,8 +8,29 @@
 import { router, protectedProcedure } from '../trpc.js';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
-import { WorkflowTypeSchema } from '@business-automation/schema';
-import { sendWorkflowExecute, sendWebsiteGenerate } from '@business-automation/agents/jobs';
+import {
+  WorkflowTypeSchema,
+  ApprovalDecisionSchema,
+  SiteSpecSchema,
+  DesignSpecSchema,
+} from '@business-automation/schema';
+import {
+  sendWorkflowExecute,
+  sendWorkflowResume,
+  sendWebsiteGenerate,
+  sendApprovalDecided,
+  sendWorkflowCancelled,
+} from '@business-automation/agents/jobs';
+import { ensureAgentsLoaded } from '@business-automation/agents';
+import {
+  validateWorkflow,
+  toWorkflowDefinition,
+  createEventLog,
+  publishWorkflowEvent,
+  WorkflowEventType,
+  MAX_EVENT_PAGE_SIZE,
+} from '@business-automation/agents/orchestrator';
+import { connectRedis, getWorkflowCost } from '@business-automation/agents/shared';
 
 /**
  * Workflow configuration schema
@@ -22,6 +43,14 @@ const WorkflowConfigSchema = z.object({
   maxIterations: z.number().default(3),
 });
 
+/**
+ * Schemas for artifacts a reviewer may edit at an approval gate
+ */
+const ReviewableArtifactSchemas: Record<string, z.ZodTypeAny> = {
+  siteSpec: SiteSpecSchema,
+  designSpec: DesignSpecSchema,
+};
+
 export const workflowRouter = router({
   /**
    * Generate a website using the 3-tier agent architecture
@@ -43,6 +72,8 @@ export const workflowRouter = router({
               .optional(),
           })
           .optional(),
+        // Pause for review of the SiteSpec and DesignSpec before the Build tier
+        requireApproval: z.boolean().default(false),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -82,7 +113,7 @@ export const workflowRouter = router({
           projectId: input.projectId,
           tenantId: ctx.user.tenantId,
           status: {
-            in: ['QUEUED', 'RUNNING'],
+            in: ['QUEUED', 'RUNNING', 'AWAITING_APPROVAL'],
           },
         },
       });
@@ -109,6 +140,7 @@ export const workflowRouter = router({
           input: {
             companyProfileId: input.companyProfileId,
             constraints: input.constraints,
+            requireApproval: input.requireApproval,
           },
           output: {},
           context: {},
@@ -138,6 +170,8 @@ export const workflowRouter = router({
         companyProfileId: input.companyProfileId,
         tenantId: ctx.user.tenantId,
         userId: ctx.user.id,
+        workflowExecutionId: workflowExecution.id,
+        requireApproval: input.requireApproval,
         constraints: input.constraints,
       });
 
@@ -147,6 +181,54 @@ export const workflowRouter = router({
       };
     }),
 
+  /**
+   * Validate a workflow definition without running it
+   *
+   * Returns errors, warnings, the stage plan, the DAG in DOT format and a cost estimate.
+   */
+  validate: protectedProcedure
+    .input(
+      z.object({
+        workflowDefinitionId: z.string().uuid(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const workflowDefinition = await ctx.prisma.workflowDefinition.findFirst({
+        where: {
+          id: input.workflowDefinitionId,
+          tenantId: ctx.user.tenantId,
+        },
+      });
+
+      if (!workflowDefinition) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Workflow definition not found',
+        });
+      }
+
+      // Validation reads manifests from the agent registry
+      await ensureAgentsLoaded();
+
+      // Price the estimate with the provider and models the tenant runs agents on
+      const tenant = await ctx.prisma.tenant.findUnique({
+        where: { id: ctx.user.tenantId },
+        select: { settings: true },
+      });
+
+      try {
+        return validateWorkflow(toWorkflowDefinition(workflowDefinition), {
+          llm: (tenant?.settings as any)?.llm,
+          modelRouting: (tenant?.settings as any)?.modelRouting,
+        });
+      } catch (error: any) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Invalid workflow definition: ${error.message}`,
+        });
+      }
+    }),
+
   /**
    * Execute a new workflow for a project
    */
@@ -296,25 +378,46 @@ export const workflowRouter = router({
         });
       }
 
-      if (existing.status !== 'PAUSED') {
+      // Conditional so two concurrent resumes cannot both start a run
+      const { count } = await ctx.prisma.workflowExecution.updateMany({
+        where: {
+          id: input.workflowExecutionId,
+          status: 'PAUSED',
+        },
+        data: {
+          status: 'RUNNING',
+          pausedAt: null,
+        },
+      });
+
+      if (count === 0) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
           message: 'Can only resume paused workflows',
         });
       }
 
-      const workflow = await ctx.prisma.workflowExecution.update({
+      // The orchestrator restarts execution from the last checkpointed stage,
+      // unless the paused run is still executing and simply carries on
+      try {
+        await sendWorkflowResume({
+          workflowExecutionId: input.workflowExecutionId,
+          tenantId: ctx.user.tenantId,
+        });
+      } catch (error) {
+        await ctx.prisma.workflowExecution.updateMany({
+          where: { id: input.workflowExecutionId, status: 'RUNNING' },
+          data: { status: 'PAUSED', pausedAt: existing.pausedAt },
+        });
+        throw error;
+      }
+
+      const workflow = await ctx.prisma.workflowExecution.findUniqueOrThrow({
         where: {
           id: input.workflowExecutionId,
         },
-        data: {
-          status: 'RUNNING',
-          pausedAt: null,
-        },
       });
 
-      // TODO: Resume workflow engine
-
       return workflow;
     }),
 
@@ -361,6 +464,18 @@ export const workflowRouter = router({
         },
       });
 
+      // Close any review the workflow was waiting on
+      await ctx.prisma.workflowApproval.updateMany({
+        where: {
+          workflowExecutionId: input.workflowExecutionId,
+          status: 'PENDING',
+        },
+        data: {
+          status: 'EXPIRED',
+          decidedAt: new Date(),
+        },
+      });
+
       // Cancel all running agents
       await ctx.prisma.agentExecution.updateMany({
         where: {
@@ -375,11 +490,195 @@ export const workflowRouter = router({
         },
       });
 
+      // Ends Inngest runs of the workflow, including a website generation waiting for approval
+      await sendWorkflowCancelled({
+        workflowExecutionId: input.workflowExecutionId,
+        tenantId: ctx.user.tenantId,
+      });
+
+      // The running orchestrator notices the status change and aborts in-flight agents
+      await publishWorkflowEvent(
+        ctx.user.tenantId,
+        input.workflowExecutionId,
+        ctx.prisma,
+        WorkflowEventType.WORKFLOW_CANCELLED,
+        {}
+      );
+
       return workflow;
     }),
 
+  /**
+   * List approval requests for a project or workflow execution
+   */
+  listApprovals: protectedProcedure
+    .input(
+      z
+        .object({
+          projectId: z.string().uuid().optional(),
+          workflowExecutionId: z.string().uuid().optional(),
+          status: z.enum(['PENDING', 'APPROVED', 'EDITED', 'REJECTED', 'EXPIRED']).optional(),
+        })
+        .refine((input) => !!input.projectId || !!input.workflowExecutionId, {
+          message: 'projectId or workflowExecutionId is required',
+        })
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.prisma.workflowApproval.findMany({
+        where: {
+          tenantId: ctx.user.tenantId,
+          projectId: input.projectId,
+          workflowExecutionId: input.workflowExecutionId,
+          status: input.status,
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      });
+    }),
+
+  /**
+   * Approve, edit or reject the artifacts a workflow is waiting on
+   *
+   * Edited artifacts replace the agent output; rejection comments are fed back to the
+   * agents that produced the rejected artifacts, which then run again for a new review.
+   */
+  decideApproval: protectedProcedure
+    .input(
+      z.object({
+        approvalId: z.string().uuid(),
+        decision: ApprovalDecisionSchema,
+        comments: z.string().max(5000).optional(),
+        editedArtifacts: z.record(z.string(), z.any()).optional(),
+        rejectedArtifacts: z.array(z.string()).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const approval = await ctx.prisma.workflowApproval.findFirst({
+        where: {
+          id: input.approvalId,
+          tenantId: ctx.user.tenantId,
+        },
+        include: {
+          workflowExecution: {
+            select: {
+              status: true,
+            },
+          },
+        },
+      });
+
+      if (!approval) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Approval not found',
+        });
+      }
+
+      if (approval.status !== 'PENDING' || approval.workflowExecution.status !== 'AWAITING_APPROVAL') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Approval is no longer pending',
+        });
+      }
+
+      const artifactNames = Object.keys((approval.artifacts as Record<string, any>) || {});
+
+      if (input.decision === 'reject' && !input.comments?.trim()) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Comments are required when rejecting',
+        });
+      }
+
+      const unknownArtifacts = [
+        ...Object.keys(input.editedArtifacts || {}),
+        ...(input.rejectedArtifacts || []),
+      ].filter((name) => !artifactNames.includes(name));
+
+      if (unknownArtifacts.length > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Unknown artifacts: ${unknownArtifacts.join(', ')}`,
+        });
+      }
+
+      if (input.decision === 'edit') {
+        if (!input.editedArtifacts || Object.keys(input.editedArtifacts).length === 0) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Edited artifacts are required when editing',
+          });
+        }
+
+        for (const [name, artifact] of Object.entries(input.editedArtifacts)) {
+          const result = ReviewableArtifactSchemas[name]?.safeParse(artifact);
+
+          if (result && !result.success) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Edited ${name} is invalid: ${result.error.errors
+                .slice(0, 3)
+                .map((error) => `${error.path.join('.')}: ${error.message}`)
+                .join('; ')}`,
+            });
+          }
+        }
+      }
+
+      const status = {
+        approve: 'APPROVED',
+        edit: 'EDITED',
+        reject: 'REJECTED',
+      }[input.decision] as 'APPROVED' | 'EDITED' | 'REJECTED';
+
+      // Only one reviewer can decide
+      const { count } = await ctx.prisma.workflowApproval.updateMany({
+        where: {
+          id: approval.id,
+          status: 'PENDING',
+        },
+        data: {
+          status,
+          reviewedBy: ctx.user.id,
+          comments: input.comments,
+          editedArtifacts: input.decision === 'edit' ? (input.editedArtifacts as any) : undefined,
+          rejectedArtifacts: input.decision === 'reject' ? input.rejectedArtifacts || [] : [],
+          decidedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Approval was already decided',
+        });
+      }
+
+      // Resume the workflow waiting at the gate
+      await sendApprovalDecided({
+        approvalId: approval.id,
+        workflowExecutionId: approval.workflowExecutionId,
+        tenantId: ctx.user.tenantId,
+        decision: input.decision,
+        reviewedBy: ctx.user.id,
+        comments: input.comments,
+        editedArtifacts: input.decision === 'edit' ? input.editedArtifacts : undefined,
+        rejectedArtifacts: input.decision === 'reject' ? input.rejectedArtifacts : undefined,
+      });
+
+      return ctx.prisma.workflowApproval.findUniqueOrThrow({
+        where: {
+          id: approval.id,
+        },
+      });
+    }),
+
   /**
    * Get workflow status with agent details
+   *
+   * `cost` is the workflow's LLM spend so far, including what prompt caching saved; null when
+   * Redis is unavailable, so the status itself still loads.
    */
   getStatus: protectedProcedure
     .input(
@@ -416,7 +715,58 @@ export const workflowRouter = router({
         });
       }
 
-      return workflow;
+      let cost: { totalCost: number; cacheSavings: number } | null = null;
+      try {
+        await connectRedis();
+        const record = await getWorkflowCost(ctx.user.tenantId, workflow.id);
+        cost = { totalCost: record?.totalCost ?? 0, cacheSavings: record?.cacheSavings ?? 0 };
+      } catch (error) {
+        console.warn(`Cost of workflow ${workflow.id} unavailable`, error);
+      }
+
+      return { ...workflow, cost };
+    }),
+
+  /**
+   * Page through the durable event log of a workflow execution
+   *
+   * Pass the returned `nextSequence` as `afterSequence` to fetch the next page.
+   */
+  listEvents: protectedProcedure
+    .input(
+      z.object({
+        workflowExecutionId: z.string().uuid(),
+        afterSequence: z.number().int().min(0).default(0),
+        limit: z.number().int().min(1).max(MAX_EVENT_PAGE_SIZE).default(100),
+        types: z.array(z.nativeEnum(WorkflowEventType)).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const workflow = await ctx.prisma.workflowExecution.findFirst({
+        where: {
+          id: input.workflowExecutionId,
+          tenantId: ctx.user.tenantId,
+        },
+        select: { id: true, lastEventSequence: true },
+      });
+
+      if (!workflow) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Workflow execution not found',
+        });
+      }
+
+      const page = await createEventLog(ctx.prisma).list(ctx.user.tenantId, workflow.id, {
+        afterSequence: input.afterSequence,
+        limit: input.limit,
+        types: input.types,
+      });
+
+      return {
+        ...page,
+        lastSequence: workflow.lastEventSequence,
+      };
     }),
 
   /**
@@ -0,0 +1,84 @@
+/**
+ * Backfill Preset Webhooks
+ *
+ * One-off script creating the Slack and Discord preset webhook endpoints for tenants
+ * whose `slackWebhook`/`discordWebhook` settings were saved before settings were
+ * synced to endpoints. Safe to run more than once: existing presets only get their
+ * URL refreshed. URLs that fail the webhook URL checks are reported and skipped.
+ *
+ * Usage: pnpm --filter @business-automation/api webhooks:backfill-presets [--dry-run]
+ */
+
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+// Load .env.local file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenv.config({ path: join(__dirname, '../../.env.local') });
+
+import { prisma } from '@business-automation/database';
+import { assertPublicWebhookUrl } from '@business-automation/agents/shared';
+import { syncPresetEndpoints } from '../routers/webhook.js';
+
+const PRESET_KEYS = ['slackWebhook', 'discordWebhook'] as const;
+
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+
+  const tenants = await prisma.tenant.findMany({
+    where: { deletedAt: null },
+    select: { id: true, name: true, settings: true },
+  });
+
+  let synced = 0;
+  let skipped = 0;
+
+  for (const tenant of tenants) {
+    const settings = (tenant.settings || {}) as Record<string, unknown>;
+    const presets: Partial<Record<(typeof PRESET_KEYS)[number], string>> = {};
+
+    for (const key of PRESET_KEYS) {
+      const url = settings[key];
+      if (typeof url !== 'string' || !url) {
+        continue;
+      }
+
+      try {
+        await assertPublicWebhookUrl(url);
+        presets[key] = url;
+      } catch (error: any) {
+        skipped++;
+        console.warn(
+          `[BackfillPresetWebhooks] Skipping ${key} of tenant ${tenant.name} (${tenant.id}): ${error.message}`
+        );
+      }
+    }
+
+    const keys = Object.keys(presets);
+    if (keys.length === 0) {
+      continue;
+    }
+
+    console.log(
+      `[BackfillPresetWebhooks] ${dryRun ? 'Would sync' : 'Syncing'} ${keys.join(', ')} for tenant ${tenant.name} (${tenant.id})`
+    );
+
+    if (!dryRun) {
+      await syncPresetEndpoints(prisma, tenant.id, presets);
+    }
+    synced += keys.length;
+  }
+
+  console.log(
+    `[BackfillPresetWebhooks] ${dryRun ? 'Would sync' : 'Synced'} ${synced} preset endpoint(s), skipped ${skipped}`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('[BackfillPresetWebhooks] Failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,6 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, setTenantContext } from '@business-automation/database';
+import {
+  createEventLog,
+  getOutputStreamName,
+  type LoggedWorkflowEvent,
+} from '@business-automation/agents/orchestrator';
+import {
+  connectRedis,
+  subscribeToStream,
+  type StreamMessage,
+} from '@business-automation/agents/shared';
 import { auth } from '@/lib/auth';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  POLLING_INTERVAL_MS,
+  changesProgress,
+  formatComment,
+  formatEventId,
+  formatSSE,
+  parseEventId,
+  toAgentEvent,
+  toOutputEvent,
+  toSSEEvent,
+  toWorkflowProgress,
+  type AgentInfo,
+  type StreamCursor,
+} from '@/lib/workflow-stream';
+
+type Send = (chunk: string) => void;
 
 // GET /api/projects/[id]/stream - Server-Sent Events endpoint
 export async function GET(
@@ -31,87 +58,41 @@ export async function GET(
     return new Response('Project not found', { status: 404 });
   }
 
+  // EventSource sends Last-Event-ID on its own reconnects; our client passes it as a query param
+  const resumeFrom = parseEventId(
+    request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId')
+  );
+
   // Create readable stream for SSE
   const stream = new ReadableStream({
     async start(controller) {
       const encoder = new TextEncoder();
+      let closed = false;
+      let cleanup = () => {};
 
-      // Send initial connection event
-      const connectionEvent = `event: connected\ndata: ${JSON.stringify({
-        projectId: params.id,
-        timestamp: new Date().toISOString(),
-      })}\n\n`;
-      controller.enqueue(encoder.encode(connectionEvent));
-
-      // Poll for updates every 2 seconds
-      const intervalId = setInterval(async () => {
-        try {
-          await setTenantContext(tenantId!);
-
-          // Get latest workflow execution
-          const latestWorkflow = await prisma.workflowExecution.findFirst({
-            where: {
-              projectId: params.id,
-              tenantId,
-            },
-            orderBy: {
-              createdAt: 'desc',
-            },
-          });
-
-          // Get recent agent executions (last 10)
-          const recentAgents = await prisma.agentExecution.findMany({
-            where: {
-              projectId: params.id,
-              tenantId,
-            },
-            orderBy: {
-              createdAt: 'desc',
-            },
-            take: 10,
-          });
-
-          // Send workflow progress update
-          if (latestWorkflow) {
-            const workflowEvent = `event: workflow.progress\ndata: ${JSON.stringify({
-              workflowExecutionId: latestWorkflow.id,
-              status: latestWorkflow.status,
-              currentStep: latestWorkflow.currentStep,
-              currentStepName: latestWorkflow.currentStepName,
-              totalSteps: latestWorkflow.totalSteps,
-              completedSteps: latestWorkflow.completedSteps,
-              progressPercentage: latestWorkflow.progressPercentage,
-              iteration: latestWorkflow.iteration,
-              timestamp: new Date().toISOString(),
-            })}\n\n`;
-            controller.enqueue(encoder.encode(workflowEvent));
-          }
-
-          // Send agent updates
-          for (const agent of recentAgents) {
-            const agentEvent = `event: agent.${agent.status.toLowerCase()}\ndata: ${JSON.stringify({
-              agentExecutionId: agent.id,
-              agentRole: agent.agentRole,
-              agentName: agent.agentName,
-              layer: agent.layer,
-              status: agent.status,
-              iteration: agent.iteration,
-              executionTimeMs: agent.executionTimeMs,
-              timestamp: agent.updatedAt.toISOString(),
-            })}\n\n`;
-            controller.enqueue(encoder.encode(agentEvent));
-          }
-        } catch (err) {
-          console.error('SSE error:', err);
-          // Don't close the stream on error, just log it
+      const send: Send = (chunk) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
         }
-      }, 2000);
+      };
 
       // Cleanup on connection close
       request.signal.addEventListener('abort', () => {
-        clearInterval(intervalId);
+        closed = true;
+        cleanup();
         controller.close();
       });
+
+      try {
+        cleanup = await streamFromEventBus(tenantId, params.id, resumeFrom, send);
+      } catch (err) {
+        console.error('SSE event bus unavailable, falling back to polling:', err);
+        cleanup = streamByPolling(tenantId, params.id, send);
+      }
+
+      if (closed) {
+        cleanup();
+      }
     },
   });
 
@@ -123,3 +104,223 @@ export async function GET(
     },
   });
 }
+
+/**
+ * Push new events of the project's latest workflow from the workflow event bus
+ *
+ * A resuming client replays the log after its cursor; a new client gets the current
+ * state once and then only new events. Partial agent output is forwarded live from
+ * its own stream and is not resumable. Neither stream holds a Redis read of its own:
+ * every connection of the process shares one blocking read. A newer workflow run is picked up on the next
+ * heartbeat. Throws when Redis is unavailable. Returns a cleanup function.
+ */
+async function streamFromEventBus(
+  tenantId: string,
+  projectId: string,
+  resumeFrom: StreamCursor | null,
+  send: Send
+): Promise<() => void> {
+  await connectRedis();
+
+  const eventLog = createEventLog(prisma);
+  const agents = new Map<string, AgentInfo>();
+  let followed: string | null = null;
+  let switching = false;
+  let unsubscribe = () => {};
+  let unsubscribeOutput = () => {};
+
+  const getAgentInfo = async (agentExecutionId: string) => {
+    if (!agents.has(agentExecutionId)) {
+      const agent = await prisma.agentExecution.findFirst({
+        where: { id: agentExecutionId, tenantId },
+        select: { agentRole: true, agentName: true, layer: true, iteration: true },
+      });
+      if (agent) {
+        agents.set(agentExecutionId, agent);
+      }
+    }
+    return agents.get(agentExecutionId);
+  };
+
+  const sendProgress = async (workflowExecutionId: string, id?: string) => {
+    const workflow = await prisma.workflowExecution.findFirst({
+      where: { id: workflowExecutionId, tenantId },
+    });
+    if (workflow) {
+      send(formatSSE('workflow.progress', toWorkflowProgress(workflow), id));
+    }
+  };
+
+  const forward = async (event: LoggedWorkflowEvent) => {
+    const agent = event.agentExecutionId ? await getAgentInfo(event.agentExecutionId) : undefined;
+    const message = toSSEEvent(event, agent);
+
+    if (message) {
+      send(formatSSE(message.type, message.data, formatEventId(event.workflowExecutionId, event.sequence)));
+    }
+
+    if (changesProgress(event)) {
+      await sendProgress(event.workflowExecutionId);
+    }
+  };
+
+  // Switch to a workflow; without a starting sequence, send its current state and tail from there
+  const follow = async (workflowExecutionId: string, fromSequence?: number) => {
+    unsubscribe();
+    unsubscribeOutput();
+    followed = workflowExecutionId;
+
+    // Like the event log replay, this is served by the process's shared stream reader
+    unsubscribeOutput = await subscribeToStream(
+      tenantId,
+      getOutputStreamName(workflowExecutionId),
+      async (message: StreamMessage) => {
+        const output = toOutputEvent(message);
+        if (output) {
+          send(formatSSE('agent.output', output));
+        }
+      }
+    );
+
+    if (fromSequence === undefined) {
+      const lastSequence = await eventLog.getLastSequence(tenantId, workflowExecutionId);
+      const current = await prisma.agentExecution.findMany({
+        where: { workflowExecutionId, tenantId },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      await sendProgress(workflowExecutionId, formatEventId(workflowExecutionId, lastSequence));
+      for (const agent of current) {
+        const message = toAgentEvent(agent);
+        send(formatSSE(message.type, message.data));
+      }
+
+      fromSequence = lastSequence + 1;
+    }
+
+    unsubscribe = await eventLog.replay(tenantId, workflowExecutionId, forward, { fromSequence });
+  };
+
+  const findLatestWorkflow = () =>
+    prisma.workflowExecution.findFirst({
+      where: { projectId, tenantId },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+
+  const latest = await findLatestWorkflow();
+
+  send(formatSSE('connected', { projectId, mode: 'push', timestamp: new Date().toISOString() }));
+
+  if (latest) {
+    try {
+      await follow(
+        latest.id,
+        resumeFrom?.workflowExecutionId === latest.id ? resumeFrom.sequence + 1 : undefined
+      );
+    } catch (err) {
+      unsubscribeOutput();
+      throw err;
+    }
+  }
+
+  const heartbeatId = setInterval(async () => {
+    send(formatComment('heartbeat'));
+
+    if (switching) {
+      return;
+    }
+
+    try {
+      switching = true;
+      const newest = await findLatestWorkflow();
+
+      // Every event of a run started after the client connected is new to it
+      if (newest && newest.id !== followed) {
+        await follow(newest.id, 1);
+      }
+    } catch (err) {
+      console.error('SSE error:', err);
+    } finally {
+      switching = false;
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    clearInterval(heartbeatId);
+    unsubscribe();
+    unsubscribeOutput();
+  };
+}
+
+/**
+ * Poll Postgres for workflow and agent changes (used when Redis is unavailable)
+ *
+ * Only records updated since the previous poll are sent. Returns a cleanup function.
+ */
+function streamByPolling(tenantId: string, projectId: string, send: Send): () => void {
+  const sent = new Map<string, number>();
+
+  // Whether a record changed since it was last sent
+  const changed = (id: string, updatedAt: Date) => {
+    if (sent.get(id) === updatedAt.getTime()) {
+      return false;
+    }
+    sent.set(id, updatedAt.getTime());
+    return true;
+  };
+
+  send(formatSSE('connected', { projectId, mode: 'polling', timestamp: new Date().toISOString() }));
+
+  const intervalId = setInterval(async () => {
+    try {
+      await setTenantContext(tenantId);
+
+      // Get latest workflow execution
+      const latestWorkflow = await prisma.workflowExecution.findFirst({
+        where: {
+          projectId,
+          tenantId,
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      });
+
+      // Get recent agent executions (last 10)
+      const recentAgents = await prisma.agentExecution.findMany({
+        where: {
+          projectId,
+          tenantId,
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        take: 10,
+      });
+
+      // Send workflow progress update
+      if (latestWorkflow && changed(latestWorkflow.id, latestWorkflow.updatedAt)) {
+        send(formatSSE('workflow.progress', toWorkflowProgress(latestWorkflow)));
+      }
+
+      // Send agent updates
+      for (const agent of recentAgents) {
+        if (changed(agent.id, agent.updatedAt)) {
+          const message = toAgentEvent(agent);
+          send(formatSSE(message.type, message.data));
+        }
+      }
+    } catch (err) {
+      console.error('SSE error:', err);
+      // Don't close the stream on error, just log it
+    }
+  }, POLLING_INTERVAL_MS);
+
+  const heartbeatId = setInterval(() => send(formatComment('heartbeat')), HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    clearInterval(intervalId);
+    clearInterval(heartbeatId);
+  };
+}
@@ -2,6 +2,7 @@ import { requireAuth } from '@/lib/auth-utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RegisteredAgents } from '@/components/agents/registered-agents';
 import { Bot, Brain, Sparkles, CheckCircle2, Clock, XCircle } from 'lucide-react';
 
 export default async function AgentsPage() {
@@ -115,6 +116,7 @@ export default async function AgentsPage() {
         <TabsList>
           <TabsTrigger value="executions">Recent Executions</TabsTrigger>
           <TabsTrigger value="layers">Agent Layers</TabsTrigger>
+          <TabsTrigger value="registered">Registered Agents</TabsTrigger>
         </TabsList>
 
         <TabsContent value="executions" className="space-y-4">
@@ -184,6 +186,10 @@ export default async function AgentsPage() {
             ))}
           </div>
         </TabsContent>
+
+        <TabsContent value="registered" className="space-y-4">
+          <RegisteredAgents />
+        </TabsContent>
       </Tabs>
     </div>
   );
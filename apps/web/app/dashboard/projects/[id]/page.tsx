@@ -5,6 +5,7 @@ import { useProjectDetail } from '@/hooks/use-project-detail';
 import { useProjectStream } from '@/hooks/use-project-stream';
 import { ProjectHeader } from '@/components/projects/project-header';
 import { WorkflowProgress } from '@/components/projects/workflow-progress';
+import { ApprovalGateCard } from '@/components/projects/approval-gate-card';
 import { ExecutionTimeline } from '@/components/projects/execution-timeline';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -50,8 +51,10 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
     <div className="space-y-6">
       <ProjectHeader project={project} />
 
+      <ApprovalGateCard projectId={project.id} workflowStatus={streamData.workflow?.status} />
+
       <div className="grid gap-6 md:grid-cols-2">
-        <WorkflowProgress workflow={streamData.workflow} />
+        <WorkflowProgress workflow={streamData.workflow} cost={streamData.cost} />
 
         <Card>
           <CardHeader>
@@ -99,7 +102,7 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
         </TabsList>
 
         <TabsContent value="timeline" className="mt-6">
-          <ExecutionTimeline agents={streamData.agents} />
+          <ExecutionTimeline agents={streamData.agents} outputs={streamData.outputs} />
         </TabsContent>
 
         <TabsContent value="output" className="mt-6">
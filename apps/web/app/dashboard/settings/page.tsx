@@ -8,6 +8,7 @@ import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { WebhookSettings } from '@/components/settings/webhook-settings';
 
 export default async function SettingsPage() {
   const user = await requireAuth();
@@ -202,20 +203,7 @@ export default async function SettingsPage() {
             </CardContent>
           </Card>
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Webhooks</CardTitle>
-              <CardDescription>
-                Configure webhook endpoints for event notifications
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <p className="text-sm text-muted-foreground">
-                Receive real-time notifications when events occur
-              </p>
-              <Button className="mt-4">Add Webhook</Button>
-            </CardContent>
-          </Card>
+          <WebhookSettings />
         </TabsContent>
       </Tabs>
     </div>
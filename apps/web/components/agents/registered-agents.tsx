@@ -0,0 +1,75 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { trpc } from '@/lib/trpc/react';
+import type { RegisteredAgentInfo } from '@business-automation/agents/orchestrator';
+import { Package, Puzzle } from 'lucide-react';
+
+export function RegisteredAgents() {
+  const { data: agents, isLoading } = trpc.agent.listRegistered.useQuery();
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {Array.from({ length: 6 }).map((_, i) => (
+          <Skeleton key={i} className="h-32 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!agents || agents.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">
+          No agents are registered
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+      {agents.map((agent: RegisteredAgentInfo) => {
+        const isPlugin = agent.origin.type === 'plugin';
+        const OriginIcon = isPlugin ? Puzzle : Package;
+
+        return (
+          <Card key={agent.role}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <CardTitle className="text-base">{agent.name}</CardTitle>
+                  <CardDescription className="text-xs">
+                    {agent.role} • v{agent.version}
+                    {agent.versions.length > 1 && ` (${agent.versions.length} versions)`}
+                  </CardDescription>
+                </div>
+                <Badge variant={isPlugin ? 'info' : 'secondary'} className="gap-1 whitespace-nowrap">
+                  <OriginIcon className="h-3 w-3" />
+                  {isPlugin ? 'Plugin' : 'Built-in'}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-muted-foreground">{agent.description}</p>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="outline" className="text-xs">
+                  {agent.layer}
+                </Badge>
+                {isPlugin && (
+                  <span className="truncate" title={agent.origin.path}>
+                    {agent.origin.name}
+                    {agent.origin.version && `@${agent.origin.version}`}
+                  </span>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,15 +1,28 @@
 'use client';
 
+import { useEffect, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Clock, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { Clock, CheckCircle2, XCircle, Loader2, SkipForward } from 'lucide-react';
 import type { AgentEvent } from '@/types/events';
 
 interface AgentExecutionCardProps {
   agent: AgentEvent;
+  /** Text the agent's model has generated so far */
+  liveOutput?: string;
 }
 
-export function AgentExecutionCard({ agent }: AgentExecutionCardProps) {
+export function AgentExecutionCard({ agent, liveOutput }: AgentExecutionCardProps) {
+  const outputRef = useRef<HTMLPreElement>(null);
+  const showLiveOutput = agent.status === 'RUNNING' && !!liveOutput;
+
+  // Keep the newest text in view as it streams in
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [liveOutput]);
+
   const getStatusIcon = () => {
     switch (agent.status) {
       case 'COMPLETED':
@@ -20,6 +33,8 @@ export function AgentExecutionCard({ agent }: AgentExecutionCardProps) {
         return <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />;
       case 'PENDING':
         return <Clock className="h-4 w-4 text-muted-foreground" />;
+      case 'SKIPPED':
+        return <SkipForward className="h-4 w-4 text-muted-foreground" />;
       default:
         return <Clock className="h-4 w-4 text-muted-foreground" />;
     }
@@ -35,6 +50,8 @@ export function AgentExecutionCard({ agent }: AgentExecutionCardProps) {
         return 'info';
       case 'PENDING':
         return 'outline';
+      case 'SKIPPED':
+        return 'secondary';
       default:
         return 'outline';
     }
@@ -62,6 +79,15 @@ export function AgentExecutionCard({ agent }: AgentExecutionCardProps) {
             {agent.status}
           </Badge>
         </div>
+        {showLiveOutput && (
+          <pre
+            ref={outputRef}
+            aria-live="polite"
+            className="mt-3 max-h-48 overflow-auto whitespace-pre-wrap break-words rounded-md bg-muted p-3 font-mono text-xs text-muted-foreground"
+          >
+            {liveOutput}
+          </pre>
+        )}
       </CardContent>
     </Card>
   );
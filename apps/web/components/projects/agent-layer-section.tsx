@@ -13,6 +13,7 @@ import type { AgentEvent } from '@/types/events';
 interface AgentLayerSectionProps {
   layer: string;
   agents: AgentEvent[];
+  outputs?: Map<string, string>;
 }
 
 const layerLabels: Record<string, string> = {
@@ -33,7 +34,7 @@ const layerDescriptions: Record<string, string> = {
   QUALITY: 'Evaluates output quality and provides feedback',
 };
 
-export function AgentLayerSection({ layer, agents }: AgentLayerSectionProps) {
+export function AgentLayerSection({ layer, agents, outputs }: AgentLayerSectionProps) {
   const label = layerLabels[layer] || layer;
   const description = layerDescriptions[layer] || '';
 
@@ -72,7 +73,11 @@ export function AgentLayerSection({ layer, agents }: AgentLayerSectionProps) {
               </p>
             ) : (
               agents.map((agent) => (
-                <AgentExecutionCard key={agent.agentExecutionId} agent={agent} />
+                <AgentExecutionCard
+                  key={agent.agentExecutionId}
+                  agent={agent}
+                  liveOutput={outputs?.get(agent.agentExecutionId)}
+                />
               ))
             )}
           </div>
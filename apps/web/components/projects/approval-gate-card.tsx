@@ -0,0 +1,216 @@
+'use client';
+
+import * as React from 'react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { trpc } from '@/lib/trpc/react';
+import { CheckCircle2, Loader2, Pencil, UserCheck, XCircle } from 'lucide-react';
+
+const ARTIFACT_LABELS: Record<string, string> = {
+  siteSpec: 'SiteSpec',
+  designSpec: 'DesignSpec',
+};
+
+interface ApprovalGateCardProps {
+  projectId: string;
+  workflowStatus?: string;
+}
+
+export function ApprovalGateCard({ projectId, workflowStatus }: ApprovalGateCardProps) {
+  const utils = trpc.useUtils();
+  const { data: approvals, refetch } = trpc.workflow.listApprovals.useQuery(
+    { projectId, status: 'PENDING' },
+    { enabled: !!projectId }
+  );
+
+  // The stream reports AWAITING_APPROVAL before this query knows about the new approval
+  React.useEffect(() => {
+    refetch();
+  }, [workflowStatus, refetch]);
+
+  const approval = approvals?.[0];
+
+  const [drafts, setDrafts] = React.useState<Record<string, string>>({});
+  const [comments, setComments] = React.useState('');
+  const [rejected, setRejected] = React.useState<string[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const artifacts = (approval?.artifacts as Record<string, any>) || {};
+  const artifactNames = Object.keys(artifacts);
+
+  React.useEffect(() => {
+    setDrafts(
+      Object.fromEntries(
+        Object.entries((approval?.artifacts as Record<string, any>) || {}).map(([name, artifact]) => [
+          name,
+          JSON.stringify(artifact, null, 2),
+        ])
+      )
+    );
+    setComments('');
+    setRejected([]);
+    setError(null);
+  }, [approval?.id]);
+
+  const decideMutation = trpc.workflow.decideApproval.useMutation({
+    onSuccess: (_, variables) => {
+      utils.workflow.listApprovals.invalidate();
+      toast.success(
+        variables.decision === 'reject'
+          ? 'Feedback sent, regenerating artifacts'
+          : 'Approved, workflow resumed'
+      );
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  if (!approval) {
+    return null;
+  }
+
+  const editedNames = artifactNames.filter(
+    (name) => drafts[name] !== undefined && drafts[name] !== JSON.stringify(artifacts[name], null, 2)
+  );
+
+  const handleApprove = () => {
+    setError(null);
+
+    if (editedNames.length === 0) {
+      decideMutation.mutate({ approvalId: approval.id, decision: 'approve', comments: comments || undefined });
+      return;
+    }
+
+    const editedArtifacts: Record<string, any> = {};
+    for (const name of editedNames) {
+      try {
+        editedArtifacts[name] = JSON.parse(drafts[name]!);
+      } catch {
+        setError(`${ARTIFACT_LABELS[name] || name} is not valid JSON`);
+        return;
+      }
+    }
+
+    decideMutation.mutate({
+      approvalId: approval.id,
+      decision: 'edit',
+      editedArtifacts,
+      comments: comments || undefined,
+    });
+  };
+
+  const handleReject = () => {
+    setError(null);
+
+    if (!comments.trim()) {
+      setError('Add comments so the agents know what to change');
+      return;
+    }
+
+    decideMutation.mutate({
+      approvalId: approval.id,
+      decision: 'reject',
+      comments,
+      rejectedArtifacts: rejected.length > 0 ? rejected : undefined,
+    });
+  };
+
+  const toggleRejected = (name: string, checked: boolean) => {
+    setRejected((current) => (checked ? [...current, name] : current.filter((n) => n !== name)));
+  };
+
+  return (
+    <Card className="border-yellow-500">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <UserCheck className="h-5 w-5 text-yellow-500" />
+            Review Required
+          </CardTitle>
+          <Badge variant="warning">
+            {approval.gate} • attempt {approval.attempt}
+          </Badge>
+        </div>
+        <CardDescription>
+          The workflow is paused until the strategy artifacts are approved. Edit the JSON to
+          correct them directly, or reject with comments to have the agents regenerate them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs defaultValue={artifactNames[0]} className="w-full">
+          <TabsList>
+            {artifactNames.map((name) => (
+              <TabsTrigger key={name} value={name} className="flex items-center gap-2">
+                {ARTIFACT_LABELS[name] || name}
+                {editedNames.includes(name) && <Pencil className="h-3 w-3" />}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {artifactNames.map((name) => (
+            <TabsContent key={name} value={name} className="mt-4">
+              <Textarea
+                value={drafts[name] ?? ''}
+                onChange={(e) => setDrafts((current) => ({ ...current, [name]: e.target.value }))}
+                className="h-80 font-mono text-xs"
+                spellCheck={false}
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        <div className="space-y-2">
+          <Label htmlFor="approval-comments">Comments</Label>
+          <Textarea
+            id="approval-comments"
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            placeholder="Feedback for the agents (required when rejecting)"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <span className="text-muted-foreground">Regenerate on reject:</span>
+          {artifactNames.map((name) => (
+            <div key={name} className="flex items-center gap-2">
+              <Checkbox
+                id={`reject-${name}`}
+                checked={rejected.includes(name)}
+                onCheckedChange={(checked) => toggleRejected(name, checked === true)}
+              />
+              <Label htmlFor={`reject-${name}`}>{ARTIFACT_LABELS[name] || name}</Label>
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleReject} disabled={decideMutation.isPending}>
+            <XCircle className="mr-2 h-4 w-4" />
+            Reject
+          </Button>
+          <Button onClick={handleApprove} disabled={decideMutation.isPending}>
+            {decideMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+            )}
+            {editedNames.length > 0 ? 'Approve with Edits' : 'Approve'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
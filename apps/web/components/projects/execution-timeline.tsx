@@ -6,6 +6,8 @@ import type { AgentEvent } from '@/types/events';
 
 interface ExecutionTimelineProps {
   agents: Map<string, AgentEvent>;
+  /** Live output text of running agents, by agent execution */
+  outputs?: Map<string, string>;
 }
 
 const layerOrder = [
@@ -17,7 +19,7 @@ const layerOrder = [
   'QUALITY',
 ];
 
-export function ExecutionTimeline({ agents }: ExecutionTimelineProps) {
+export function ExecutionTimeline({ agents, outputs }: ExecutionTimelineProps) {
   // Group agents by layer
   const agentsByLayer = new Map<string, AgentEvent[]>();
 
@@ -52,6 +54,7 @@ export function ExecutionTimeline({ agents }: ExecutionTimelineProps) {
               key={layer}
               layer={layer}
               agents={layerAgents}
+              outputs={outputs}
             />
           );
         })}
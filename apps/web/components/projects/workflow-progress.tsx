@@ -1,16 +1,32 @@
 'use client';
 
+import { toast } from 'sonner';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { Clock, CheckCircle2, XCircle } from 'lucide-react';
-import type { WorkflowProgressEvent } from '@/types/events';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/lib/trpc/react';
+import { Clock, CheckCircle2, XCircle, UserCheck, Loader2, Ban } from 'lucide-react';
+import type { CostEvent, WorkflowProgressEvent } from '@/types/events';
 
 interface WorkflowProgressProps {
   workflow: WorkflowProgressEvent | null;
+  /** Latest cost event from the stream; the stored cost is shown until one arrives */
+  cost?: CostEvent | null;
 }
 
-export function WorkflowProgress({ workflow }: WorkflowProgressProps) {
+const CANCELLABLE_STATUSES = ['PENDING', 'RUNNING', 'PAUSED', 'AWAITING_APPROVAL'];
+
+export function WorkflowProgress({ workflow, cost }: WorkflowProgressProps) {
+  const cancelMutation = trpc.workflow.cancel.useMutation({
+    onSuccess: () => toast.success('Workflow cancelled'),
+    onError: (err) => toast.error(err.message),
+  });
+  const { data: status } = trpc.workflow.getStatus.useQuery(
+    { workflowExecutionId: workflow?.workflowExecutionId || '' },
+    { enabled: !!workflow?.workflowExecutionId }
+  );
+
   if (!workflow) {
     return (
       <Card>
@@ -32,13 +48,20 @@ export function WorkflowProgress({ workflow }: WorkflowProgressProps) {
         return <CheckCircle2 className="h-5 w-5 text-green-500" />;
       case 'FAILED':
         return <XCircle className="h-5 w-5 text-destructive" />;
+      case 'CANCELLED':
+        return <Ban className="h-5 w-5 text-muted-foreground" />;
       case 'RUNNING':
         return <Clock className="h-5 w-5 text-blue-500 animate-pulse" />;
+      case 'AWAITING_APPROVAL':
+        return <UserCheck className="h-5 w-5 text-yellow-500" />;
       default:
         return <Clock className="h-5 w-5 text-muted-foreground" />;
     }
   };
 
+  const totalCost = cost?.totalCost ?? status?.cost?.totalCost ?? 0;
+  const cacheSavings = cost?.cacheSavings ?? status?.cost?.cacheSavings ?? 0;
+
   const getStatusVariant = () => {
     switch (workflow.status) {
       case 'COMPLETED':
@@ -47,6 +70,8 @@ export function WorkflowProgress({ workflow }: WorkflowProgressProps) {
         return 'destructive';
       case 'RUNNING':
         return 'info';
+      case 'AWAITING_APPROVAL':
+        return 'warning';
       default:
         return 'outline';
     }
@@ -60,9 +85,22 @@ export function WorkflowProgress({ workflow }: WorkflowProgressProps) {
             {getStatusIcon()}
             Workflow Progress
           </CardTitle>
-          <Badge variant={getStatusVariant() as any}>
-            {workflow.status}
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Badge variant={getStatusVariant() as any}>
+              {workflow.status}
+            </Badge>
+            {CANCELLABLE_STATUSES.includes(workflow.status) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => cancelMutation.mutate({ workflowExecutionId: workflow.workflowExecutionId })}
+                disabled={cancelMutation.isPending}
+              >
+                {cancelMutation.isPending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                Cancel
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -88,6 +126,14 @@ export function WorkflowProgress({ workflow }: WorkflowProgressProps) {
             <p className="text-muted-foreground">Iteration</p>
             <p className="font-medium">{workflow.iteration}</p>
           </div>
+          <div>
+            <p className="text-muted-foreground">Cost</p>
+            <p className="font-medium">${totalCost.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Cache Savings</p>
+            <p className="font-medium">${cacheSavings.toFixed(2)}</p>
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,318 @@
+'use client';
+
+import * as React from 'react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/lib/trpc/react';
+import { Loader2, Plus, RotateCw, Trash2 } from 'lucide-react';
+
+const EVENT_LABELS = {
+  'workflow.started': 'Workflow started',
+  'workflow.completed': 'Workflow completed',
+  'workflow.failed': 'Workflow failed',
+  'workflow.cancelled': 'Workflow cancelled',
+  'agent.failed': 'Agent failed',
+  'refinement.decision': 'Refinement decision',
+  'approval.requested': 'Approval requested',
+  'budget.approaching': 'Budget approaching',
+  'budget.exceeded': 'Budget exceeded',
+} as const;
+
+type WebhookEventType = keyof typeof EVENT_LABELS;
+
+const FORMAT_LABELS = {
+  GENERIC: 'Generic (signed JSON)',
+  SLACK: 'Slack',
+  DISCORD: 'Discord',
+} as const;
+
+type WebhookFormat = keyof typeof FORMAT_LABELS;
+
+/**
+ * Display label of an event type
+ */
+function eventLabel(type: string): string {
+  return (EVENT_LABELS as Record<string, string>)[type] || type;
+}
+
+const STATUS_VARIANTS = {
+  PENDING: 'secondary',
+  RETRYING: 'warning',
+  SUCCEEDED: 'success',
+  FAILED: 'destructive',
+} as const;
+
+/**
+ * Webhook endpoints and their recent deliveries
+ */
+export function WebhookSettings() {
+  const utils = trpc.useUtils();
+  const { data: endpoints, isLoading } = trpc.webhook.listEndpoints.useQuery();
+  const { data: deliveries } = trpc.webhook.listDeliveries.useQuery({ limit: 20 });
+
+  const [adding, setAdding] = React.useState(false);
+  const [name, setName] = React.useState('');
+  const [url, setUrl] = React.useState('');
+  const [format, setFormat] = React.useState<WebhookFormat>('GENERIC');
+  const [eventTypes, setEventTypes] = React.useState<WebhookEventType[]>([]);
+  const [secret, setSecret] = React.useState<string | null>(null);
+
+  const invalidate = () => {
+    utils.webhook.listEndpoints.invalidate();
+    utils.webhook.listDeliveries.invalidate();
+  };
+
+  const createMutation = trpc.webhook.createEndpoint.useMutation({
+    onSuccess: (endpoint) => {
+      invalidate();
+      setSecret(endpoint.secret);
+      setAdding(false);
+      setName('');
+      setUrl('');
+      setFormat('GENERIC');
+      setEventTypes([]);
+      toast.success('Webhook added');
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const updateMutation = trpc.webhook.updateEndpoint.useMutation({
+    onSuccess: invalidate,
+    onError: (err) => toast.error(err.message),
+  });
+
+  const deleteMutation = trpc.webhook.deleteEndpoint.useMutation({
+    onSuccess: () => {
+      invalidate();
+      toast.success('Webhook removed');
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const redeliverMutation = trpc.webhook.redeliver.useMutation({
+    onSuccess: (delivery) => {
+      invalidate();
+      if (delivery.status === 'SUCCEEDED') {
+        toast.success('Redelivered');
+      } else {
+        toast.error(`Redelivery failed: ${delivery.error ?? delivery.status}`);
+      }
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const toggleEventType = (type: WebhookEventType, checked: boolean) => {
+    setEventTypes((current) => (checked ? [...current, type] : current.filter((t) => t !== type)));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({ name, url, format, eventTypes });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Webhooks</CardTitle>
+            <CardDescription>
+              Configure webhook endpoints for event notifications
+            </CardDescription>
+          </div>
+          {!adding && (
+            <Button onClick={() => setAdding(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Webhook
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {secret && (
+          <Alert>
+            <AlertDescription className="space-y-1">
+              <p>Signing secret (shown once). Verify the X-Webhook-Signature header with it:</p>
+              <code className="block break-all font-mono text-xs">{secret}</code>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {adding && (
+          <form onSubmit={handleCreate} className="space-y-4 rounded-lg border p-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-name">Name</Label>
+                <Input id="webhook-name" value={name} onChange={(e) => setName(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">URL</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  placeholder="https://example.com/webhooks"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as WebhookFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Events (none selected sends all)</Label>
+              <div className="grid gap-2 sm:grid-cols-2 md:grid-cols-3">
+                {(Object.keys(EVENT_LABELS) as WebhookEventType[]).map((type) => (
+                  <div key={type} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`webhook-event-${type}`}
+                      checked={eventTypes.includes(type)}
+                      onCheckedChange={(checked) => toggleEventType(type, checked === true)}
+                    />
+                    <Label htmlFor={`webhook-event-${type}`} className="font-normal">
+                      {EVENT_LABELS[type]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setAdding(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add Webhook
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading webhooks...</p>
+        ) : !endpoints?.length ? (
+          <p className="text-sm text-muted-foreground">
+            Receive real-time notifications when events occur
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{endpoint.name}</span>
+                    <Badge variant="outline">{FORMAT_LABELS[endpoint.format]}</Badge>
+                    {endpoint.deliveries[0] && (
+                      <Badge variant={STATUS_VARIANTS[endpoint.deliveries[0].status]}>
+                        {endpoint.deliveries[0].responseStatus ?? endpoint.deliveries[0].status}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="truncate text-sm text-muted-foreground">{endpoint.url}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {endpoint.eventTypes.length === 0
+                      ? 'All events'
+                      : endpoint.eventTypes.map(eventLabel).join(', ')}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Switch
+                    checked={endpoint.enabled}
+                    onCheckedChange={(enabled) => updateMutation.mutate({ id: endpoint.id, enabled })}
+                    aria-label={`Enable ${endpoint.name}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate({ id: endpoint.id })}
+                    disabled={deleteMutation.isPending}
+                    aria-label={`Delete ${endpoint.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!!deliveries?.items.length && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent Deliveries</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.items.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{delivery.endpoint.name}</TableCell>
+                    <TableCell className="text-xs">
+                      {eventLabel(delivery.eventType)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs" title={delivery.error ?? undefined}>
+                      {delivery.responseStatus ?? (delivery.error ? 'Error' : '—')}
+                      {delivery.durationMs !== null && (
+                        <span className="text-muted-foreground"> · {delivery.durationMs}ms</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{delivery.attempts}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => redeliverMutation.mutate({ id: delivery.id })}
+                        disabled={redeliverMutation.isPending}
+                      >
+                        <RotateCw className="mr-2 h-3 w-3" />
+                        Redeliver
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,11 +2,25 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { SSEClient } from '@/lib/sse-client';
-import type { SSEEvent, WorkflowProgressEvent, AgentEvent } from '@/types/events';
+import type {
+  SSEEvent,
+  WorkflowProgressEvent,
+  AgentEvent,
+  StageEvent,
+  RefinementDecisionEvent,
+  CostEvent,
+} from '@/types/events';
 
 export interface ProjectStreamData {
   workflow: WorkflowProgressEvent | null;
   agents: Map<string, AgentEvent>;
+  /** Live output text of running agents, by agent execution */
+  outputs: Map<string, string>;
+  /** Most recent stage event */
+  stage: StageEvent | null;
+  /** Most recent refinement decision */
+  refinement: RefinementDecisionEvent | null;
+  cost: CostEvent | null;
   isConnected: boolean;
   error: Error | null;
 }
@@ -18,6 +32,10 @@ export function useProjectStream(projectId: string | null) {
   const [data, setData] = useState<ProjectStreamData>({
     workflow: null,
     agents: new Map(),
+    outputs: new Map(),
+    stage: null,
+    refinement: null,
+    cost: null,
     isConnected: false,
     error: null,
   });
@@ -46,15 +64,48 @@ export function useProjectStream(projectId: string | null) {
               newData.workflow = event.data;
               break;
 
+            case 'stage.started':
+            case 'stage.completed':
+              newData.stage = event.data;
+              break;
+
+            case 'refinement.decision':
+              newData.refinement = event.data;
+              break;
+
+            case 'cost.updated':
+              newData.cost = event.data;
+              break;
+
+            case 'agent.output': {
+              const { agentExecutionId, delta, offset } = event.data;
+              const newOutputs = new Map(prev.outputs);
+              // A new generation (e.g. a retry) starts over at offset 0
+              const current = offset === 0 ? '' : prev.outputs.get(agentExecutionId) || '';
+              newOutputs.set(agentExecutionId, current + delta);
+              newData.outputs = newOutputs;
+              break;
+            }
+
             case 'agent.pending':
             case 'agent.running':
+            case 'agent.progress':
+            case 'agent.retrying':
             case 'agent.completed':
             case 'agent.failed':
             case 'agent.cancelled':
+            case 'agent.skipped':
               const agentData = event.data;
               const newAgents = new Map(prev.agents);
               newAgents.set(agentData.agentExecutionId, agentData);
               newData.agents = newAgents;
+
+              // Live text is only shown while the agent runs
+              if (agentData.status !== 'RUNNING' && prev.outputs.has(agentData.agentExecutionId)) {
+                const newOutputs = new Map(prev.outputs);
+                newOutputs.delete(agentData.agentExecutionId);
+                newData.outputs = newOutputs;
+              }
               break;
           }
 
@@ -25,6 +25,7 @@ export class SSEClient {
   private reconnectAttempts = 0;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private isClosed = false;
+  private lastEventId: string | null = null;
 
   constructor(options: SSEClientOptions) {
     this.url = options.url;
@@ -43,7 +44,7 @@ export class SSEClient {
     }
 
     try {
-      this.eventSource = new EventSource(this.url);
+      this.eventSource = new EventSource(this.buildUrl());
 
       // Connection opened
       this.eventSource.onopen = () => {
@@ -53,6 +54,7 @@ export class SSEClient {
 
       // Generic message handler
       this.eventSource.onmessage = (event) => {
+        this.trackEventId(event);
         try {
           const data = JSON.parse(event.data);
           this.onEvent({
@@ -68,15 +70,34 @@ export class SSEClient {
       const eventTypes: SSEEventType[] = [
         'connected',
         'workflow.progress',
+        'workflow.started',
+        'workflow.completed',
+        'workflow.failed',
+        'workflow.paused',
+        'workflow.resumed',
+        'workflow.cancelled',
         'agent.pending',
         'agent.running',
+        'agent.progress',
+        'agent.retrying',
         'agent.completed',
         'agent.failed',
         'agent.cancelled',
+        'agent.skipped',
+        'agent.output',
+        'stage.started',
+        'stage.completed',
+        'refinement.started',
+        'refinement.decision',
+        'refinement.completed',
+        'approval.requested',
+        'approval.decided',
+        'cost.updated',
       ];
 
       eventTypes.forEach((eventType) => {
         this.eventSource!.addEventListener(eventType, (event: any) => {
+          this.trackEventId(event);
           try {
             const data = JSON.parse(event.data);
             this.onEvent({
@@ -120,13 +141,38 @@ export class SSEClient {
       `Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${delay}ms`
     );
 
-    this.close();
+    // Drop the failed connection but keep the client open so connect() can run again
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
 
     this.reconnectTimeout = setTimeout(() => {
       this.connect();
     }, delay);
   }
 
+  /**
+   * Remember the id of the last event so a reconnect resumes after it
+   */
+  private trackEventId(event: MessageEvent) {
+    if (event.lastEventId) {
+      this.lastEventId = event.lastEventId;
+    }
+  }
+
+  /**
+   * Stream URL, carrying the last event id on reconnect (a new EventSource doesn't send it)
+   */
+  private buildUrl(): string {
+    if (!this.lastEventId) {
+      return this.url;
+    }
+
+    const separator = this.url.includes('?') ? '&' : '?';
+    return `${this.url}${separator}lastEventId=${encodeURIComponent(this.lastEventId)}`;
+  }
+
   close() {
     this.isClosed = true;
 
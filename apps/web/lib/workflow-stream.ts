@@ -0,0 +1,232 @@
+import type { AgentExecution, WorkflowExecution } from '@business-automation/database';
+import type { LoggedWorkflowEvent } from '@business-automation/agents/orchestrator';
+import type { StreamMessage } from '@business-automation/agents/shared';
+import type { AgentOutputEvent, SSEEvent, SSEEventType } from '@/types/events';
+
+/**
+ * Interval between heartbeat comments, which keep proxies from closing idle connections
+ */
+export const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Interval between database polls when Redis is unavailable
+ */
+export const POLLING_INTERVAL_MS = 2000;
+
+/**
+ * Agent fields the stream reports alongside bus events
+ */
+export type AgentInfo = Pick<AgentExecution, 'agentRole' | 'agentName' | 'layer' | 'iteration'>;
+
+/**
+ * Position of a client in a workflow's event log, carried in the SSE event id
+ */
+export interface StreamCursor {
+  workflowExecutionId: string;
+  sequence: number;
+}
+
+/**
+ * Agent events of the workflow event bus, by SSE event type and resulting agent status
+ */
+const AGENT_EVENTS: Record<string, { type: SSEEventType; status: string }> = {
+  'agent.queued': { type: 'agent.pending', status: 'PENDING' },
+  'agent.started': { type: 'agent.running', status: 'RUNNING' },
+  'agent.progress': { type: 'agent.progress', status: 'RUNNING' },
+  'agent.retrying': { type: 'agent.retrying', status: 'RUNNING' },
+  'agent.completed': { type: 'agent.completed', status: 'COMPLETED' },
+  'agent.failed': { type: 'agent.failed', status: 'FAILED' },
+  'agent.skipped': { type: 'agent.skipped', status: 'SKIPPED' },
+  'agent.cancelled': { type: 'agent.cancelled', status: 'CANCELLED' },
+};
+
+/**
+ * Workflow, stage, refinement, approval and cost events forwarded with their payload
+ */
+const FORWARDED_EVENTS = new Set<string>([
+  'workflow.started',
+  'workflow.completed',
+  'workflow.failed',
+  'workflow.paused',
+  'workflow.resumed',
+  'workflow.cancelled',
+  'stage.started',
+  'stage.completed',
+  'refinement.started',
+  'refinement.decision',
+  'refinement.completed',
+  'approval.requested',
+  'approval.decided',
+  'cost.updated',
+]);
+
+/**
+ * Events after which the workflow progress snapshot has changed
+ */
+const PROGRESS_EVENTS = new Set<string>([
+  'workflow.started',
+  'workflow.completed',
+  'workflow.failed',
+  'workflow.paused',
+  'workflow.resumed',
+  'workflow.cancelled',
+  'stage.completed',
+  'refinement.started',
+  'approval.requested',
+  'approval.decided',
+]);
+
+/**
+ * Format an SSE message
+ */
+export function formatSSE(type: SSEEventType, data: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Format an SSE comment (ignored by EventSource)
+ */
+export function formatComment(text: string): string {
+  return `: ${text}\n\n`;
+}
+
+/**
+ * Build the SSE event id of a logged event
+ */
+export function formatEventId(workflowExecutionId: string, sequence: number): string {
+  return `${workflowExecutionId}:${sequence}`;
+}
+
+/**
+ * Parse a `Last-Event-ID` value, or null when it isn't one of ours
+ */
+export function parseEventId(value: string | null | undefined): StreamCursor | null {
+  const match = value?.match(/^([^:]+):(\d+)$/);
+  if (!match) {
+    return null;
+  }
+
+  return { workflowExecutionId: match[1]!, sequence: Number(match[2]) };
+}
+
+/**
+ * Whether an event changes the workflow progress snapshot
+ */
+export function changesProgress(event: LoggedWorkflowEvent): boolean {
+  return PROGRESS_EVENTS.has(event.type);
+}
+
+/**
+ * Convert a logged workflow event to the SSE event sent to the browser
+ *
+ * Agent inputs and outputs are not forwarded. Returns null for events the
+ * browser doesn't consume.
+ */
+export function toSSEEvent(event: LoggedWorkflowEvent, agent?: AgentInfo): SSEEvent | null {
+  const timestamp = new Date(event.timestamp).toISOString();
+  const data = event.data || {};
+
+  const agentEvent = AGENT_EVENTS[event.type];
+  if (agentEvent) {
+    if (!event.agentExecutionId) {
+      return null;
+    }
+
+    return {
+      type: agentEvent.type,
+      data: {
+        agentExecutionId: event.agentExecutionId,
+        agentRole: event.agentRole || agent?.agentRole || '',
+        agentName: agent?.agentName || event.agentRole || '',
+        layer: agent?.layer || '',
+        status: agentEvent.status,
+        iteration: agent?.iteration ?? 1,
+        executionTimeMs: data.duration,
+        workflowExecutionId: event.workflowExecutionId,
+        sequence: event.sequence,
+        progress:
+          event.type === 'agent.progress'
+            ? { message: data.message, percentage: data.percentage }
+            : undefined,
+        error: data.error,
+        attempt: data.attempt,
+        timestamp,
+      },
+    } as SSEEvent;
+  }
+
+  if (!FORWARDED_EVENTS.has(event.type)) {
+    return null;
+  }
+
+  return {
+    type: event.type,
+    data: {
+      ...data,
+      workflowExecutionId: event.workflowExecutionId,
+      sequence: event.sequence,
+      timestamp,
+    },
+  } as SSEEvent;
+}
+
+/**
+ * Convert a message of a workflow's partial output stream to an SSE event
+ */
+export function toOutputEvent(message: StreamMessage): AgentOutputEvent | null {
+  if (!message.data.agentExecutionId || !message.data.data) {
+    return null;
+  }
+
+  try {
+    const output = JSON.parse(message.data.data);
+
+    return {
+      workflowExecutionId: message.data.workflowExecutionId!,
+      agentExecutionId: message.data.agentExecutionId,
+      agentRole: message.data.agentRole || '',
+      delta: output.delta,
+      offset: output.offset,
+      done: output.done,
+      timestamp: message.data.timestamp || new Date().toISOString(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a progress event from a workflow execution record
+ */
+export function toWorkflowProgress(workflow: WorkflowExecution) {
+  return {
+    workflowExecutionId: workflow.id,
+    status: workflow.status,
+    currentStep: workflow.currentStep,
+    currentStepName: workflow.currentStepName,
+    totalSteps: workflow.totalSteps,
+    completedSteps: workflow.completedSteps,
+    progressPercentage: workflow.progressPercentage,
+    iteration: workflow.iteration,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Build an agent event from an agent execution record
+ */
+export function toAgentEvent(agent: AgentExecution): SSEEvent {
+  return {
+    type: `agent.${agent.status.toLowerCase()}` as SSEEventType,
+    data: {
+      agentExecutionId: agent.id,
+      agentRole: agent.agentRole,
+      agentName: agent.agentName,
+      layer: agent.layer,
+      status: agent.status,
+      iteration: agent.iteration,
+      executionTimeMs: agent.executionTimeMs,
+      timestamp: agent.updatedAt.toISOString(),
+    },
+  } as SSEEvent;
+}
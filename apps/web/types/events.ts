@@ -5,18 +5,47 @@
 export type SSEEventType =
   | 'connected'
   | 'workflow.progress'
+  | 'workflow.started'
+  | 'workflow.completed'
+  | 'workflow.failed'
+  | 'workflow.paused'
+  | 'workflow.resumed'
+  | 'workflow.cancelled'
   | 'agent.pending'
   | 'agent.running'
+  | 'agent.progress'
+  | 'agent.retrying'
   | 'agent.completed'
   | 'agent.failed'
-  | 'agent.cancelled';
+  | 'agent.cancelled'
+  | 'agent.skipped'
+  | 'agent.output'
+  | 'stage.started'
+  | 'stage.completed'
+  | 'refinement.started'
+  | 'refinement.decision'
+  | 'refinement.completed'
+  | 'approval.requested'
+  | 'approval.decided'
+  | 'cost.updated';
 
 export interface SSEBaseEvent {
   timestamp: string;
 }
 
+/**
+ * Event read from a workflow's event log
+ */
+export interface SSEWorkflowEvent extends SSEBaseEvent {
+  workflowExecutionId: string;
+  /** Position in the workflow's event log */
+  sequence?: number;
+}
+
 export interface ConnectedEvent extends SSEBaseEvent {
   projectId: string;
+  /** `push` when events come from the event bus, `polling` when Redis is unavailable */
+  mode: 'push' | 'polling';
 }
 
 export interface WorkflowProgressEvent extends SSEBaseEvent {
@@ -30,6 +59,15 @@ export interface WorkflowProgressEvent extends SSEBaseEvent {
   iteration: number;
 }
 
+export interface WorkflowStatusEvent extends SSEWorkflowEvent {
+  error?: string;
+  totalAgents?: number;
+  completedAgents?: number;
+  failedAgents?: number;
+  iterations?: number;
+  selectedIteration?: number;
+}
+
 export interface AgentEvent extends SSEBaseEvent {
   agentExecutionId: string;
   agentRole: string;
@@ -38,15 +76,123 @@ export interface AgentEvent extends SSEBaseEvent {
   status: string;
   iteration: number;
   executionTimeMs?: number;
+  workflowExecutionId?: string;
+  sequence?: number;
+  progress?: {
+    message: string;
+    percentage: number;
+  };
+  error?: string;
+  /** Retry attempt, for `agent.retrying` */
+  attempt?: number;
+}
+
+/**
+ * Partial LLM output of a running agent (live only, not resumable)
+ */
+export interface AgentOutputEvent extends SSEWorkflowEvent {
+  agentExecutionId: string;
+  agentRole: string;
+  /** Text generated since the previous delta */
+  delta: string;
+  /** Length of the output before this delta */
+  offset: number;
+  /** True on the last delta of a generation */
+  done: boolean;
+}
+
+export interface StageEvent extends SSEWorkflowEvent {
+  stage: number;
+  iteration: number;
+  /** Agents about to run, for `stage.started` */
+  agents?: string[];
+  completedAgents?: string[];
+  failedAgents?: string[];
+  /** Agents whose output was reused from an earlier iteration */
+  reusedAgents?: string[];
+  cost?: number;
+}
+
+export interface RefinementStartedEvent extends SSEWorkflowEvent {
+  iteration: number;
+  targetAgents: string[];
+  rerunAgents: string[];
+  reusedAgents: string[];
+}
+
+export interface RefinementDecisionEvent extends SSEWorkflowEvent {
+  decision: 'refine' | 'accept';
+  reason: string;
+  iteration: number;
+  stoppedBy?: string;
+  targetAgents: string[];
+  findingCounts: Record<string, number>;
+  metrics: {
+    overallScore: number;
+    failedDimensions: number;
+  };
+}
+
+export interface RefinementCompletedEvent extends SSEWorkflowEvent {
+  iterations: number;
+  selectedIteration: number;
+  overallScore: number;
+  refinementCost: number;
+}
+
+export interface ApprovalRequestedEvent extends SSEWorkflowEvent {
+  approvalId: string;
+  gate: string;
+  attempt: number;
+  projectId: string;
+  /** Users asked to review */
+  requestedFor: string[];
+}
+
+export interface ApprovalDecidedEvent extends SSEWorkflowEvent {
+  approvalId: string;
+  gate: string;
+  decision: 'approve' | 'edit' | 'reject';
+  reviewedBy?: string | null;
+}
+
+export interface CostEvent extends SSEWorkflowEvent {
+  iteration: number;
+  stage: number;
+  stageCost: number;
+  iterationCost: number;
+  totalCost: number;
+  /** Saved by prompt caching in this stage */
+  stageCacheSavings?: number;
+  /** Saved by prompt caching across the workflow so far */
+  cacheSavings?: number;
 }
 
 export type SSEEvent =
   | { type: 'connected'; data: ConnectedEvent }
   | { type: 'workflow.progress'; data: WorkflowProgressEvent }
+  | { type: 'workflow.started'; data: WorkflowStatusEvent }
+  | { type: 'workflow.completed'; data: WorkflowStatusEvent }
+  | { type: 'workflow.failed'; data: WorkflowStatusEvent }
+  | { type: 'workflow.paused'; data: WorkflowStatusEvent }
+  | { type: 'workflow.resumed'; data: WorkflowStatusEvent }
+  | { type: 'workflow.cancelled'; data: WorkflowStatusEvent }
   | { type: 'agent.pending'; data: AgentEvent }
   | { type: 'agent.running'; data: AgentEvent }
+  | { type: 'agent.progress'; data: AgentEvent }
+  | { type: 'agent.retrying'; data: AgentEvent }
   | { type: 'agent.completed'; data: AgentEvent }
   | { type: 'agent.failed'; data: AgentEvent }
-  | { type: 'agent.cancelled'; data: AgentEvent };
+  | { type: 'agent.cancelled'; data: AgentEvent }
+  | { type: 'agent.skipped'; data: AgentEvent }
+  | { type: 'agent.output'; data: AgentOutputEvent }
+  | { type: 'stage.started'; data: StageEvent }
+  | { type: 'stage.completed'; data: StageEvent }
+  | { type: 'refinement.started'; data: RefinementStartedEvent }
+  | { type: 'refinement.decision'; data: RefinementDecisionEvent }
+  | { type: 'refinement.completed'; data: RefinementCompletedEvent }
+  | { type: 'approval.requested'; data: ApprovalRequestedEvent }
+  | { type: 'approval.decided'; data: ApprovalDecidedEvent }
+  | { type: 'cost.updated'; data: CostEvent };
 
 export type SSEEventHandler = (event: SSEEvent) => void;
@@ -0,0 +1,132 @@
+// packages/agents/__tests__/approval-gate.test.ts
+/**
+ * Approval Gate Tests
+ *
+ * Covers resuming a workflow from the decision stored on the approval when its
+ * event is missed, and expiring a gate nobody decided. Inngest steps run inline,
+ * Prisma is an in-memory stand-in and events go nowhere.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { waitForApproval, type ApprovalGateRequest } from '../jobs/approval-gate';
+
+vi.mock('../orchestrator/events', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../orchestrator/events')>()),
+  getEventBus: () => ({ emitWorkflowEvent: async () => {} }),
+}));
+
+vi.mock('../shared/redis-client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../shared/redis-client')>()),
+  publishToStream: async () => '0-0',
+}));
+
+const request: ApprovalGateRequest = {
+  gate: 'strategy-review',
+  attempt: 1,
+  tenantId: 'tenant_test',
+  projectId: 'project_test',
+  workflowExecutionId: 'workflow_test',
+  artifacts: { siteSpec: { pages: [] }, designSpec: {} },
+};
+
+/**
+ * In-memory approvals and a workflow execution running at the gate
+ */
+function createFakePrisma() {
+  const approvals = new Map<string, any>();
+  const execution = { id: request.workflowExecutionId, status: 'RUNNING' };
+
+  const prisma = {
+    approvals,
+    execution,
+    user: { findMany: async () => [] },
+    workflowApproval: {
+      create: async ({ data }: any) => {
+        const approval = { id: `approval_${approvals.size + 1}`, status: 'PENDING', ...data };
+        approvals.set(approval.id, approval);
+        return approval;
+      },
+      findUnique: async ({ where }: any) => approvals.get(where.id) ?? null,
+      update: async ({ where, data }: any) => Object.assign(approvals.get(where.id), data),
+      updateMany: async ({ where, data }: any) => {
+        const approval = approvals.get(where.id);
+        if (!approval || (where.status && approval.status !== where.status)) {
+          return { count: 0 };
+        }
+        Object.assign(approval, data);
+        return { count: 1 };
+      },
+    },
+    workflowExecution: {
+      updateMany: async ({ where, data }: any) => {
+        const statuses = where.status?.in || [where.status];
+        if (!statuses.includes(execution.status)) {
+          return { count: 0 };
+        }
+        Object.assign(execution, data);
+        return { count: 1 };
+      },
+    },
+  };
+
+  return prisma;
+}
+
+/**
+ * Record a reviewer's decision the way the API does
+ */
+function decide(prisma: ReturnType<typeof createFakePrisma>, status: string) {
+  for (const approval of prisma.approvals.values()) {
+    Object.assign(approval, { status, reviewedBy: 'user_reviewer', comments: 'Looks good', decidedAt: new Date() });
+  }
+}
+
+/**
+ * Inngest step tools that run inline; `onWait` stands in for the wait timing out
+ */
+function createStep(onWait: () => void = () => {}) {
+  return {
+    run: async (_id: string, fn: () => unknown) => fn(),
+    sendEvent: async () => {},
+    waitForEvent: vi.fn(async () => {
+      onWait();
+      return null;
+    }),
+  } as any;
+}
+
+describe('waitForApproval', () => {
+  it('resumes with a decision made before the wait started', async () => {
+    const prisma = createFakePrisma();
+    const step = createStep();
+    step.sendEvent = async () => decide(prisma, 'APPROVED');
+
+    const result = await waitForApproval(step, prisma as any, request);
+
+    expect(step.waitForEvent).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ decision: 'approve', reviewedBy: 'user_reviewer', comments: 'Looks good' });
+    expect(prisma.execution.status).toBe('RUNNING');
+  });
+
+  it('resumes with the stored decision when its event was missed', async () => {
+    const prisma = createFakePrisma();
+    const step = createStep(() => decide(prisma, 'REJECTED'));
+
+    const result = await waitForApproval(step, prisma as any, request);
+
+    expect(result.decision).toBe('reject');
+    // No artifacts picked, so every submitted one is regenerated
+    expect(result.rejectedArtifacts).toEqual(['siteSpec', 'designSpec']);
+    expect([...prisma.approvals.values()][0].status).toBe('REJECTED');
+  });
+
+  it('expires the approval and fails the workflow when nobody decides', async () => {
+    const prisma = createFakePrisma();
+
+    await expect(waitForApproval(createStep(), prisma as any, request)).rejects.toThrow(
+      'Approval gate "strategy-review" expired after 7d without a decision'
+    );
+    expect([...prisma.approvals.values()][0].status).toBe('EXPIRED');
+    expect(prisma.execution.status).toBe('FAILED');
+  });
+});
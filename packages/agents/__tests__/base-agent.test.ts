@@ -0,0 +1,198 @@
+// packages/agents/__tests__/base-agent.test.ts
+/**
+ * Base Agent Tests
+ *
+ * Covers schema validation around BaseAgent.run, for agents with and without
+ * manifest schemas, and the repair request made when model output fails its
+ * schema, with the usage of every repair call. The LLM is the mock provider
+ * and execution records are kept in memory.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import type { AgentLayer, AgentRole } from '@business-automation/database';
+import { BaseAgent, type ExtendedAgentContext } from '../shared/base-agent';
+import { CLAUDE_3_5_SONNET } from '../shared/claude-client';
+import { registerLLMProvider } from '../shared/llm-provider';
+import { createMockLLMProvider, type MockLLMProvider } from '../shared/mock-llm-provider';
+
+vi.mock('../shared/cost-tracker', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../shared/cost-tracker')>()),
+  trackAgentCost: async () => {},
+}));
+
+const PROVIDER = 'base-agent-test';
+
+/**
+ * Agent asking the model for a page outline
+ */
+abstract class OutlineAgent extends BaseAgent {
+  protected async execute(input: any) {
+    const systemPrompt = 'Write a page outline as JSON';
+    const messages = [{ role: 'user' as const, content: `Outline a page about ${input.topic}` }];
+
+    const response = await this.sendMessage(messages, systemPrompt);
+    const { output, usage } = await this.parseOutput<any>(response, messages, systemPrompt);
+
+    return {
+      success: true,
+      output,
+      tokensUsed: usage.inputTokens + usage.outputTokens,
+      cost: this.getUsageCost(),
+    };
+  }
+
+  protected getAgentRole(): AgentRole {
+    return 'HERO_COPY';
+  }
+
+  protected getAgentLayer(): AgentLayer {
+    return 'CONTENT';
+  }
+}
+
+class ValidatedOutlineAgent extends OutlineAgent {
+  static manifest = {
+    name: 'validated-outline',
+    version: '1.0.0',
+    inputSchema: z.object({ topic: z.string() }),
+    outputSchema: z.object({ sections: z.array(z.string()).min(1) }),
+  } as any;
+}
+
+class UnvalidatedOutlineAgent extends OutlineAgent {
+  static manifest = { name: 'unvalidated-outline', version: '1.0.0' } as any;
+}
+
+/**
+ * Prisma fake recording agent execution updates
+ */
+function createFakePrisma() {
+  const executions = new Map<string, any>();
+
+  const prisma: any = {
+    agentExecution: {
+      create: async ({ data }: any) => {
+        executions.set(data.id, { ...data });
+        return data;
+      },
+      update: async ({ where, data }: any) => {
+        const execution = executions.get(where.id);
+        for (const [key, value] of Object.entries(data)) {
+          if (value !== undefined) {
+            execution[key] = value;
+          }
+        }
+        return execution;
+      },
+    },
+  };
+
+  return { prisma, executions };
+}
+
+function createContext(prisma: any): ExtendedAgentContext {
+  return {
+    runId: 'wf_1',
+    projectId: 'project_1',
+    tenantId: 'tenant_1',
+    workflowExecutionId: 'wf_1',
+    agentExecutionId: 'ae_1',
+    traceId: 'trace_1',
+    spanId: 'span_1',
+    prisma,
+    llm: { provider: PROVIDER, model: CLAUDE_3_5_SONNET },
+  } as ExtendedAgentContext;
+}
+
+describe('BaseAgent.run', () => {
+  let mock: MockLLMProvider;
+  let fake: ReturnType<typeof createFakePrisma>;
+
+  beforeEach(() => {
+    mock = createMockLLMProvider({ name: PROVIDER });
+    registerLLMProvider(mock);
+    fake = createFakePrisma();
+  });
+
+  it('runs agents whose manifest declares no schemas', async () => {
+    mock.script([{ text: '{"headline":"Fast roof repairs"}' }]);
+
+    const result = await new UnvalidatedOutlineAgent(createContext(fake.prisma)).run({ topic: 42 });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toMatchObject({ headline: 'Fast roof repairs' });
+    expect(fake.executions.get('ae_1').status).toBe('COMPLETED');
+  });
+
+  it("gives agents on other providers the provider's default model instead of a routed Claude model", async () => {
+    const context = { ...createContext(fake.prisma), llm: { provider: PROVIDER } };
+
+    await new UnvalidatedOutlineAgent(context).run({ topic: 'roofing' });
+
+    expect(mock.getRequests()[0]!.model).toBe('mock');
+  });
+
+  it('rejects input that fails the manifest schema before calling the model', async () => {
+    const result = await new ValidatedOutlineAgent(createContext(fake.prisma)).run({ topic: 42 });
+
+    expect(result.success).toBe(false);
+    expect(mock.getRequests()).toHaveLength(0);
+    expect(fake.executions.get('ae_1')).toMatchObject({
+      status: 'FAILED',
+      error: { type: 'validation', stage: 'input', issues: [{ path: 'topic' }] },
+    });
+  });
+
+  it('asks the model to repair output that fails the schema', async () => {
+    mock.script([
+      { text: '{"sections":[]}', usage: { inputTokens: 100, outputTokens: 10 } },
+      { text: '{"sections":["Hero","Services"]}', usage: { inputTokens: 150, outputTokens: 20 } },
+    ]);
+
+    const result = await new ValidatedOutlineAgent(createContext(fake.prisma)).run({
+      topic: 'roofing',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toMatchObject({ sections: ['Hero', 'Services'] });
+    expect(result.tokensUsed).toBe(280);
+
+    const [, repair] = mock.getRequests();
+    expect(repair!.messages).toHaveLength(3);
+    expect(repair!.messages[1]).toEqual({ role: 'assistant', content: '{"sections":[]}' });
+    expect(JSON.stringify(repair!.messages[2]!.content)).toContain('sections');
+  });
+
+  it('adds the usage of repair calls, cache tokens included', async () => {
+    mock.script([
+      {
+        text: '{"sections":["Hero"]}',
+        usage: { inputTokens: 150, outputTokens: 20, cacheCreationTokens: 0, cacheReadTokens: 900 },
+      },
+    ]);
+    const agent = new ValidatedOutlineAgent(createContext(fake.prisma));
+    const response = {
+      text: '{"sections":[]}',
+      usage: { inputTokens: 100, outputTokens: 10, cacheCreationTokens: 900 },
+    };
+
+    const { usage } = await (agent as any).parseOutput(response, [{ role: 'user', content: 'Outline a page' }]);
+
+    expect(usage).toEqual({ inputTokens: 250, outputTokens: 30, cacheCreationTokens: 900, cacheReadTokens: 900 });
+  });
+
+  it('fails once the repair attempts are used up', async () => {
+    mock.script([{ text: '{"sections":[]}' }, { text: 'still not an outline' }]);
+
+    const agent = new ValidatedOutlineAgent(createContext(fake.prisma), { maxRetries: 1 });
+    const result = await agent.run({ topic: 'roofing' });
+
+    expect(result.success).toBe(false);
+    expect(mock.getRequests()).toHaveLength(2);
+    expect(fake.executions.get('ae_1')).toMatchObject({
+      status: 'FAILED',
+      error: { type: 'validation', stage: 'output', issues: [{ code: 'invalid_json' }] },
+    });
+  });
+});
@@ -11,6 +11,7 @@ import {
   BudgetMonitor,
   createBudgetMonitor,
   DEFAULT_BUDGET_LIMITS,
+  resolveBudgetLimits,
   type BudgetLimits,
 } from '../shared/budget-monitor';
 
@@ -219,6 +220,68 @@ describe('Budget Monitor', () => {
       expect(result.status.nearingLimit).toBe(true); // But we're nearing limit (95%)
     });
 
+    it('should block an execution estimated above the per-execution limit', async () => {
+      const result = await budgetMonitor.checkBudget({
+        tenantId: TEST_TENANT_ID,
+        projectId: TEST_PROJECT_ID,
+        estimatedCost: 12,
+        estimatedTokens: 50000,
+        limits: {
+          perExecution: { maxCostUsd: 10, maxTokens: 100000 },
+        },
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.scope).toBe('execution');
+      expect(result.reason).toContain('Execution budget exceeded');
+    });
+
+    it('should block execution when the workflow budget would be exceeded', async () => {
+      // Workflow has spent $45 so far
+      await prisma.workflowExecution.create({
+        data: {
+          id: `${TEST_WORKFLOW_EXECUTION_ID}_limit`,
+          workflowType: 'WEBSITE_GENERATION',
+          workflowVersion: '1.0',
+          tenantId: TEST_TENANT_ID,
+          projectId: TEST_PROJECT_ID,
+          status: 'RUNNING',
+        },
+      });
+
+      await prisma.agentExecution.create({
+        data: {
+          id: `${TEST_AGENT_EXECUTION_ID}_limit`,
+          agentName: 'planner',
+          agentRole: 'BUSINESS_REQUIREMENTS',
+          tenantId: TEST_TENANT_ID,
+          projectId: TEST_PROJECT_ID,
+          workflowExecutionId: `${TEST_WORKFLOW_EXECUTION_ID}_limit`,
+          status: 'COMPLETED',
+          input: {},
+          cost: 45,
+          tokensUsed: 450000,
+        },
+      });
+
+      // $10 more would take it to $55, over the $50 workflow limit
+      const result = await budgetMonitor.checkBudget({
+        tenantId: TEST_TENANT_ID,
+        projectId: TEST_PROJECT_ID,
+        workflowExecutionId: `${TEST_WORKFLOW_EXECUTION_ID}_limit`,
+        estimatedCost: 10,
+        estimatedTokens: 10000,
+        limits: {
+          perWorkflow: { maxCostUsd: 50 },
+        },
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.scope).toBe('workflow');
+      expect(result.reason).toContain('Workflow budget exceeded');
+      expect(result.status.used.costUsd).toBe(45);
+    });
+
     it('should warn when nearing budget limit (>80%)', async () => {
       // Set tenant usage to $850 (85% of $1000)
       await prisma.workflowExecution.create({
@@ -520,3 +583,17 @@ describe('Budget Monitor', () => {
     });
   });
 });
+
+describe('resolveBudgetLimits', () => {
+  it('layers overrides on the defaults limit by limit', () => {
+    const limits = resolveBudgetLimits(
+      { monthly: { maxCostUsd: 200 } },
+      { perWorkflow: { maxCostUsd: 5, maxTokens: undefined } }
+    );
+
+    expect(limits.monthly).toEqual({ maxCostUsd: 200, maxTokens: DEFAULT_BUDGET_LIMITS.monthly!.maxTokens });
+    expect(limits.perWorkflow).toEqual({ maxCostUsd: 5, maxTokens: DEFAULT_BUDGET_LIMITS.perWorkflow!.maxTokens });
+    expect(limits.perExecution).toEqual(DEFAULT_BUDGET_LIMITS.perExecution);
+    expect(DEFAULT_BUDGET_LIMITS.monthly!.maxCostUsd).toBe(1000);
+  });
+});
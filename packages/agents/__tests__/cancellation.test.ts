@@ -0,0 +1,68 @@
+// packages/agents/__tests__/cancellation.test.ts
+/**
+ * Cancellation Tests
+ *
+ * Covers agent timeouts, workflow cancellation and abortable backoff.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createAgentSignal,
+  createCancellationReason,
+  getAbortMessage,
+  isCancelled,
+  sleep,
+} from '../shared/cancellation';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createAgentSignal', () => {
+  it('times out after the manifest timeout', () => {
+    vi.useFakeTimers();
+    const { signal } = createAgentSignal('PLANNER', 1000);
+
+    vi.advanceTimersByTime(999);
+    expect(signal.aborted).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(signal.aborted).toBe(true);
+    expect(isCancelled(signal)).toBe(false);
+    expect(getAbortMessage(signal)).toBe('PLANNER timed out after 1000ms');
+  });
+
+  it('follows workflow cancellation', () => {
+    const workflow = new AbortController();
+    const { signal, dispose } = createAgentSignal('PLANNER', 60000, workflow.signal);
+
+    workflow.abort(createCancellationReason());
+
+    expect(signal.aborted).toBe(true);
+    expect(isCancelled(signal)).toBe(true);
+    expect(getAbortMessage(signal)).toBe('Workflow cancelled');
+    dispose();
+  });
+
+  it('stops the timer once disposed', () => {
+    vi.useFakeTimers();
+    const { signal, dispose } = createAgentSignal('PLANNER', 1000);
+
+    dispose();
+    vi.advanceTimersByTime(2000);
+
+    expect(signal.aborted).toBe(false);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects as soon as the signal aborts', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const pending = sleep(60000, controller.signal);
+
+    controller.abort(createCancellationReason());
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
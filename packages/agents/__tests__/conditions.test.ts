@@ -0,0 +1,66 @@
+// packages/agents/__tests__/conditions.test.ts
+/**
+ * Step Condition Tests
+ *
+ * Covers predicate evaluation and fan-out item resolution for conditional
+ * and looping workflow steps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateCondition, resolveFanOutItems, resolvePath } from '../orchestrator/conditions';
+
+const input = {
+  clientSchema: { locations: [{ city: 'Austin' }, { city: 'Dallas' }] },
+  previousOutputs: {
+    BUSINESS_REQUIREMENTS: { industry: 'plumbing', componentSpecs: ['hero', 'faq', 'cta'] },
+  },
+};
+
+describe('step conditions', () => {
+  it('resolves dot paths including array length', () => {
+    expect(resolvePath(input, 'clientSchema.locations.length')).toBe(2);
+    expect(resolvePath(input, 'previousOutputs.MISSING.value')).toBeUndefined();
+  });
+
+  it('evaluates structured predicates', () => {
+    expect(
+      evaluateCondition({ path: 'clientSchema.locations.length', operator: 'gt', value: 1 }, input)
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { path: 'previousOutputs.BUSINESS_REQUIREMENTS.industry', operator: 'in', value: ['hvac'] },
+        input
+      )
+    ).toBe(false);
+    expect(
+      evaluateCondition(
+        { path: 'previousOutputs.BUSINESS_REQUIREMENTS.componentSpecs', operator: 'contains', value: 'faq' },
+        input
+      )
+    ).toBe(true);
+  });
+
+  it('treats a bare string as a truthy path', () => {
+    expect(evaluateCondition('clientSchema.locations', input)).toBe(true);
+    expect(evaluateCondition('clientSchema.services', input)).toBe(false);
+  });
+});
+
+describe('fan-out items', () => {
+  it('returns the array at the path, capped by maxItems', () => {
+    const forEach = {
+      path: 'previousOutputs.BUSINESS_REQUIREMENTS.componentSpecs',
+      itemKey: 'componentSpec',
+      maxItems: 2,
+    };
+
+    expect(resolveFanOutItems(forEach, input)).toEqual(['hero', 'faq']);
+  });
+
+  it('returns no items for a missing path and rejects non-arrays', () => {
+    expect(resolveFanOutItems({ path: 'previousOutputs.PLANNER.pages', itemKey: 'item' }, input)).toEqual([]);
+    expect(() =>
+      resolveFanOutItems({ path: 'previousOutputs.BUSINESS_REQUIREMENTS.industry', itemKey: 'item' }, input)
+    ).toThrow('does not resolve to an array');
+  });
+});
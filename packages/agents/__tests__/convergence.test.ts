@@ -0,0 +1,91 @@
+// packages/agents/__tests__/convergence.test.ts
+/**
+ * Convergence Strategy Tests
+ *
+ * Covers the refinement loop stop conditions and the selection of the
+ * iteration whose output a workflow keeps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createConvergenceStrategies,
+  selectIteration,
+  type ConvergenceState,
+  type IterationScore,
+} from '../orchestrator/convergence';
+import type { QualityMetrics } from '../orchestrator/refinement';
+
+function iteration(index: number, overallScore: number, cost = 1, success = true): IterationScore {
+  return { iteration: index, overallScore, dimensionScores: {}, cost, success, agentExecutions: {} };
+}
+
+function state(history: IterationScore[], metrics: Partial<QualityMetrics> = {}): ConvergenceState {
+  const current = history[history.length - 1]!;
+
+  return {
+    iteration: current.iteration,
+    history,
+    refinementCost: history.filter((h) => h.iteration > 0).reduce((sum, h) => sum + h.cost, 0),
+    metrics: {
+      overallScore: current.overallScore,
+      dimensionScores: new Map([['design', current.overallScore]]),
+      failedDimensions: [],
+      passedDimensions: [],
+      totalEvaluations: 1,
+      ...metrics,
+    },
+  };
+}
+
+function firstVerdict(strategies: ReturnType<typeof createConvergenceStrategies>, s: ConvergenceState) {
+  return strategies.map((strategy) => strategy.evaluate(s)).find(Boolean) || null;
+}
+
+describe('convergence strategies', () => {
+  it('stops an oscillating run once improvement falls below the minimum', () => {
+    const strategies = createConvergenceStrategies({ qualityThreshold: 0.8, minImprovement: 0.03 });
+
+    expect(firstVerdict(strategies, state([iteration(0, 0.74)]))).toBeNull();
+    expect(firstVerdict(strategies, state([iteration(0, 0.74), iteration(1, 0.76)]))).toMatchObject({
+      strategy: 'minimum-improvement',
+      accepted: false,
+    });
+  });
+
+  it('uses per-dimension thresholds instead of the overall threshold when configured', () => {
+    const strategies = createConvergenceStrategies({
+      qualityThreshold: 0.7,
+      dimensionThresholds: new Map([['accessibility', 0.95]]),
+    });
+    const failing = state([iteration(0, 0.9)], {
+      failedDimensions: [{ dimension: 'accessibility', score: 0.9, threshold: 0.95 }],
+    });
+
+    expect(firstVerdict(strategies, failing)).toBeNull();
+    expect(firstVerdict(strategies, state([iteration(0, 0.9)]))).toMatchObject({
+      strategy: 'dimension-thresholds',
+      accepted: true,
+    });
+  });
+
+  it('stops before the next iteration would exceed the cost ceiling', () => {
+    const strategies = createConvergenceStrategies({ qualityThreshold: 0.8, maxRefinementCost: 2.5 });
+
+    expect(firstVerdict(strategies, state([iteration(0, 0.5, 3), iteration(1, 0.6, 1)]))).toBeNull();
+    expect(
+      firstVerdict(strategies, state([iteration(0, 0.5, 3), iteration(1, 0.6, 1), iteration(2, 0.65, 1)]))
+    ).toMatchObject({ strategy: 'cost-ceiling' });
+  });
+});
+
+describe('selectIteration', () => {
+  const history = [iteration(0, 0.7), iteration(1, 0.78), iteration(2, 0.74), iteration(3, 0.9, 1, false)];
+
+  it('keeps the highest-scoring successful iteration', () => {
+    expect(selectIteration(history, 'best')?.iteration).toBe(1);
+  });
+
+  it('keeps the last iteration by default', () => {
+    expect(selectIteration(history, 'last')?.iteration).toBe(3);
+  });
+});
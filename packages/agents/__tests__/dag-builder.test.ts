@@ -0,0 +1,197 @@
+// packages/agents/__tests__/dag-builder.test.ts
+/**
+ * DAG Builder Tests
+ *
+ * Covers failure-policy resolution, blast-radius and refinement-scope calculation,
+ * critical-path ranking used by the execution engine, input mapping validation and
+ * approval gates declared by workflow steps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  DAG,
+  DEFAULT_FAILURE_POLICY,
+  buildWorkflowGraph,
+  resolveFailurePolicy,
+} from '../orchestrator/dag-builder';
+import { validateInputMappings } from '../orchestrator/input-mapping';
+import { getRegistry } from '../orchestrator/registry';
+
+describe('DAG failure handling', () => {
+  it('returns transitive dependents as the blast radius', () => {
+    const dag = new DAG();
+    dag.addNode('BUSINESS_REQUIREMENTS');
+    dag.addNode('COLOR_PALETTE', ['BUSINESS_REQUIREMENTS']);
+    dag.addNode('TYPOGRAPHY', ['BUSINESS_REQUIREMENTS']);
+    dag.addNode('COMPONENT_DESIGN', ['COLOR_PALETTE', 'TYPOGRAPHY']);
+
+    expect(dag.getTransitiveDependents('COLOR_PALETTE')).toEqual(['COMPONENT_DESIGN']);
+    expect(dag.getTransitiveDependents('BUSINESS_REQUIREMENTS').sort()).toEqual(
+      ['COLOR_PALETTE', 'COMPONENT_DESIGN', 'TYPOGRAPHY'].sort()
+    );
+    expect(dag.getTransitiveDependents('COMPONENT_DESIGN')).toEqual([]);
+  });
+
+  it('scopes refinement to the targets and their dependents in execution order', () => {
+    const dag = new DAG();
+    dag.addNode('BUSINESS_REQUIREMENTS');
+    dag.addNode('COLOR_PALETTE', ['BUSINESS_REQUIREMENTS']);
+    dag.addNode('HERO_COPY', ['BUSINESS_REQUIREMENTS']);
+    dag.addNode('COMPONENT_DESIGN', ['COLOR_PALETTE']);
+    dag.addNode('CODE_QUALITY_EVALUATOR', ['COMPONENT_DESIGN', 'HERO_COPY']);
+
+    expect(dag.getAffectedAgents(['COMPONENT_DESIGN', 'COLOR_PALETTE', 'SEO_STRATEGY'])).toEqual([
+      'COLOR_PALETTE',
+      'COMPONENT_DESIGN',
+      'CODE_QUALITY_EVALUATOR',
+    ]);
+    expect(dag.getAffectedAgents(['SEO_STRATEGY'])).toEqual([]);
+  });
+
+  it('ranks nodes on the longest remaining path first', () => {
+    const dag = new DAG();
+    dag.addNode('BUSINESS_REQUIREMENTS');
+    dag.addNode('COLOR_PALETTE', ['BUSINESS_REQUIREMENTS']);
+    dag.addNode('COMPONENT_DESIGN', ['COLOR_PALETTE']);
+    dag.addNode('HERO_COPY', ['BUSINESS_REQUIREMENTS']);
+
+    const lengths = dag.getCriticalPathLengths();
+
+    expect(lengths.get('BUSINESS_REQUIREMENTS')).toBe(3);
+    expect(lengths.get('COLOR_PALETTE')).toBe(2);
+    expect(lengths.get('HERO_COPY')).toBe(1);
+    expect(lengths.get('COMPONENT_DESIGN')).toBe(1);
+  });
+
+  it('links dependents added before their dependency', () => {
+    const dag = new DAG();
+    dag.addNode('COMPONENT_DESIGN', ['COLOR_PALETTE']);
+    dag.addNode('COLOR_PALETTE');
+
+    expect(dag.getTransitiveDependents('COLOR_PALETTE')).toEqual(['COMPONENT_DESIGN']);
+  });
+
+  it('prefers the workflow step policy over the default', () => {
+    const steps = [
+      {
+        id: 'design',
+        name: 'Design',
+        type: 'parallel',
+        children: [
+          {
+            id: 'palette',
+            name: 'Palette',
+            type: 'agent',
+            agentRole: 'COLOR_PALETTE',
+            onFailure: { type: 'fallback', fallbackAgentRole: 'TYPOGRAPHY' },
+          },
+        ],
+      },
+    ];
+
+    expect(resolveFailurePolicy('COLOR_PALETTE', steps)).toEqual({
+      type: 'fallback',
+      fallbackAgentRole: 'TYPOGRAPHY',
+    });
+    expect(resolveFailurePolicy('TYPOGRAPHY', steps)).toEqual(DEFAULT_FAILURE_POLICY);
+  });
+});
+
+describe('input mapping validation', () => {
+  function fakeAgent(role: string, inputSchema?: z.ZodTypeAny, outputSchema?: z.ZodTypeAny): any {
+    const manifest = {
+      role,
+      layer: 'BUILD',
+      name: role,
+      description: `Fake ${role}`,
+      version: '1.0.0',
+      inputSchema,
+      outputSchema,
+    };
+
+    return { manifest, getManifest: () => manifest };
+  }
+
+  it('does not require fan-out instance fields to be mapped', () => {
+    const registry = getRegistry();
+    registry.clear();
+    registry.register(fakeAgent('LAYOUT_ARCHITECTURE', undefined, z.object({ componentSpecs: z.array(z.any()) })));
+    registry.register(
+      fakeAgent(
+        'COMPONENT_CODE',
+        z.object({
+          designSpec: z.any(),
+          componentSpec: z.object({ name: z.string() }),
+          fanOut: z.object({ index: z.number(), total: z.number() }),
+        })
+      )
+    );
+
+    const dag = new DAG();
+    dag.addNode('LAYOUT_ARCHITECTURE');
+    dag.addNode('COMPONENT_CODE', ['LAYOUT_ARCHITECTURE'], {
+      forEach: { path: 'previousOutputs.LAYOUT_ARCHITECTURE.componentSpecs', itemKey: 'componentSpec' },
+      inputs: { designSpec: { from: 'input' } },
+    });
+
+    expect(validateInputMappings(dag)).toEqual([]);
+
+    dag.getNode('COMPONENT_CODE')!.forEach = undefined;
+    expect(validateInputMappings(dag)).toEqual([
+      'COMPONENT_CODE.componentSpec: required input field is not mapped',
+      'COMPONENT_CODE.fanOut: required input field is not mapped',
+    ]);
+  });
+});
+
+describe('approval gates', () => {
+  function fakeAgent(role: string, dependencies: string[] = []): any {
+    const manifest = { role, layer: 'DESIGN', name: role, description: `Fake ${role}`, version: '1.0.0', dependencies };
+    return { manifest, getManifest: () => manifest };
+  }
+
+  function workflow(steps: any[]): any {
+    return { id: 'workflow', name: 'Gated', type: 'website_generation', version: '1.0.0', steps, config: {} };
+  }
+
+  it('holds the dependents of the reviewed agents', () => {
+    const registry = getRegistry();
+    registry.clear();
+    registry.register(fakeAgent('BUSINESS_REQUIREMENTS'));
+    registry.register(fakeAgent('COLOR_PALETTE', ['BUSINESS_REQUIREMENTS']));
+    registry.register(fakeAgent('TYPOGRAPHY'));
+
+    const dag = buildWorkflowGraph(
+      workflow([
+        { id: 'requirements', name: 'Requirements', type: 'agent', agentRole: 'BUSINESS_REQUIREMENTS' },
+        {
+          id: 'brief-review',
+          name: 'Brief review',
+          type: 'approval',
+          approval: { reviews: ['BUSINESS_REQUIREMENTS'], timeout: '12h' },
+        },
+        { id: 'palette', name: 'Palette', type: 'agent', agentRole: 'COLOR_PALETTE' },
+        { id: 'typography', name: 'Typography', type: 'agent', agentRole: 'TYPOGRAPHY' },
+      ])
+    );
+
+    expect(dag.getGates()).toEqual([
+      { id: 'brief-review', name: 'Brief review', reviews: ['BUSINESS_REQUIREMENTS'], timeout: '12h' },
+    ]);
+    expect(dag.getGatesHolding('COLOR_PALETTE').map((gate) => gate.id)).toEqual(['brief-review']);
+    expect(dag.getGatesHolding('BUSINESS_REQUIREMENTS')).toEqual([]);
+    expect(dag.getGatesHolding('TYPOGRAPHY')).toEqual([]);
+    expect(dag.validate().valid).toBe(true);
+  });
+
+  it('rejects a gate that reviews an agent outside the workflow', () => {
+    const dag = new DAG();
+    dag.addNode('BUSINESS_REQUIREMENTS');
+    dag.addGate({ id: 'palette-review', name: 'Palette review', reviews: ['COLOR_PALETTE'] });
+
+    expect(dag.validate().errors).toEqual([
+      'Approval gate palette-review reviews COLOR_PALETTE which is not in the graph',
+    ]);
+  });
+});
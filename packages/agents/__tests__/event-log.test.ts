@@ -0,0 +1,293 @@
+// packages/agents/__tests__/event-log.test.ts
+/**
+ * Event Log Tests
+ *
+ * Covers sequence allocation, paging cursors and replaying the log into live
+ * events, including a live event that skips ahead of the log. Prisma is an
+ * in-memory fake and the Redis stream is mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { StreamMessage } from '../shared/redis-client';
+
+const stream = vi.hoisted(() => ({
+  handler: null as null | ((message: StreamMessage) => Promise<void>),
+  published: [] as Array<Record<string, string>>,
+}));
+
+vi.mock('../shared/redis-client', () => ({
+  getStreamLastId: async () => '0-0',
+  subscribeToStream: async (
+    _tenantId: string,
+    _stream: string,
+    handler: (message: StreamMessage) => Promise<void>
+  ) => {
+    stream.handler = handler;
+    return () => {
+      stream.handler = null;
+    };
+  },
+  publishToStream: async (_tenantId: string, _stream: string, data: Record<string, string>) => {
+    stream.published.push(data);
+  },
+}));
+
+import { createEventLog, type LoggedWorkflowEvent } from '../orchestrator/event-log';
+import { WorkflowEventBus, WorkflowEventType } from '../orchestrator/events';
+
+/**
+ * Prisma fake holding executions and event records in memory
+ */
+function createFakePrisma() {
+  const executions = new Map<string, { id: string; tenantId: string; lastEventSequence: number }>();
+  const records: any[] = [];
+
+  const workflowExecution = {
+    update: async ({ where, data }: any) => {
+      const execution = executions.get(where.id);
+      if (!execution) {
+        throw new Error(`Execution ${where.id} not found`);
+      }
+      execution.lastEventSequence += data.lastEventSequence.increment;
+      return { lastEventSequence: execution.lastEventSequence };
+    },
+    findFirst: async ({ where }: any) => {
+      const execution = executions.get(where.id);
+      return execution?.tenantId === where.tenantId ? execution : null;
+    },
+  };
+
+  const workflowEventRecord = {
+    create: async ({ data }: any) => {
+      const record = {
+        ...data,
+        agentRole: data.agentRole ?? null,
+        agentExecutionId: data.agentExecutionId ?? null,
+        createdAt: new Date(),
+      };
+      records.push(record);
+      return record;
+    },
+    findMany: async ({ where, take }: any) =>
+      records
+        .filter(
+          (record) =>
+            record.tenantId === where.tenantId &&
+            record.workflowExecutionId === where.workflowExecutionId &&
+            record.sequence > where.sequence.gt &&
+            (!where.type || where.type.in.includes(record.type))
+        )
+        .sort((a, b) => a.sequence - b.sequence)
+        .slice(0, take),
+  };
+
+  const prisma: any = {
+    workflowExecution,
+    workflowEventRecord,
+    $transaction: async (fn: (tx: any) => Promise<any>) =>
+      fn({ workflowExecution, workflowEventRecord }),
+  };
+
+  return {
+    prisma,
+    records,
+    addExecution: (id: string, tenantId = 'tenant_1') =>
+      executions.set(id, { id, tenantId, lastEventSequence: 0 }),
+  };
+}
+
+/**
+ * Stream message as published by WorkflowEventBus
+ */
+function liveMessage(
+  sequence: number,
+  type: WorkflowEventType = WorkflowEventType.AGENT_PROGRESS
+): StreamMessage {
+  return {
+    id: `${sequence}-0`,
+    data: {
+      eventType: type,
+      workflowExecutionId: 'wf_1',
+      timestamp: new Date().toISOString(),
+      data: JSON.stringify({ sequence }),
+      sequence: String(sequence),
+    },
+  };
+}
+
+describe('WorkflowEventLog', () => {
+  let fake: ReturnType<typeof createFakePrisma>;
+
+  beforeEach(() => {
+    fake = createFakePrisma();
+    fake.addExecution('wf_1');
+    fake.addExecution('wf_2');
+    stream.handler = null;
+    stream.published = [];
+  });
+
+  it('allocates gap-free sequences per execution', async () => {
+    const log = createEventLog(fake.prisma);
+
+    const first = await log.append('tenant_1', 'wf_1', WorkflowEventType.WORKFLOW_STARTED, {});
+    const other = await log.append('tenant_1', 'wf_2', WorkflowEventType.WORKFLOW_STARTED, {});
+    const second = await log.append(
+      'tenant_1',
+      'wf_1',
+      WorkflowEventType.AGENT_STARTED,
+      { input: 1 },
+      {
+        agentRole: 'TYPOGRAPHY',
+        agentExecutionId: 'ae_1',
+      }
+    );
+
+    expect([first.sequence, second.sequence]).toEqual([1, 2]);
+    expect(other.sequence).toBe(1);
+    expect(second).toMatchObject({
+      agentRole: 'TYPOGRAPHY',
+      agentExecutionId: 'ae_1',
+      data: { input: 1 },
+    });
+    expect(await log.getLastSequence('tenant_1', 'wf_1')).toBe(2);
+    expect(await log.getLastSequence('tenant_2', 'wf_1')).toBe(0);
+  });
+
+  it('pages with a cursor until caught up', async () => {
+    const log = createEventLog(fake.prisma);
+    for (let i = 0; i < 5; i++) {
+      await log.append('tenant_1', 'wf_1', WorkflowEventType.AGENT_PROGRESS, { i });
+    }
+
+    const first = await log.list('tenant_1', 'wf_1', { limit: 2 });
+    expect(first.events.map((event) => event.sequence)).toEqual([1, 2]);
+    expect(first.nextSequence).toBe(2);
+
+    const second = await log.list('tenant_1', 'wf_1', {
+      limit: 2,
+      afterSequence: first.nextSequence!,
+    });
+    expect(second.events.map((event) => event.sequence)).toEqual([3, 4]);
+
+    const last = await log.list('tenant_1', 'wf_1', {
+      limit: 2,
+      afterSequence: second.nextSequence!,
+    });
+    expect(last.events.map((event) => event.sequence)).toEqual([5]);
+    expect(last.nextSequence).toBeNull();
+
+    expect((await log.list('tenant_2', 'wf_1')).events).toEqual([]);
+  });
+
+  it('filters pages by event type', async () => {
+    const log = createEventLog(fake.prisma);
+    await log.append('tenant_1', 'wf_1', WorkflowEventType.WORKFLOW_STARTED, {});
+    await log.append('tenant_1', 'wf_1', WorkflowEventType.AGENT_PROGRESS, {});
+    await log.append('tenant_1', 'wf_1', WorkflowEventType.WORKFLOW_COMPLETED, {});
+
+    const page = await log.list('tenant_1', 'wf_1', {
+      types: [WorkflowEventType.WORKFLOW_STARTED, WorkflowEventType.WORKFLOW_COMPLETED],
+    });
+
+    expect(page.events.map((event) => event.sequence)).toEqual([1, 3]);
+  });
+
+  it('replays the log, then delivers buffered live events once and in order', async () => {
+    const log = createEventLog(fake.prisma);
+    for (let i = 0; i < 3; i++) {
+      await log.append('tenant_1', 'wf_1', WorkflowEventType.AGENT_PROGRESS, { i });
+    }
+
+    const received: LoggedWorkflowEvent[] = [];
+    // Publish live events while the log is still being read
+    const list = log.list.bind(log);
+    vi.spyOn(log, 'list').mockImplementationOnce(async (...args) => {
+      await stream.handler!(liveMessage(4));
+      await stream.handler!(liveMessage(3));
+      return list(...args);
+    });
+
+    const unsubscribe = await log.replay('tenant_1', 'wf_1', (event) => {
+      received.push(event);
+    });
+
+    expect(received.map((event) => event.sequence)).toEqual([1, 2, 3, 4]);
+
+    await stream.handler!(liveMessage(5));
+    await stream.handler!(liveMessage(5));
+    expect(received.map((event) => event.sequence)).toEqual([1, 2, 3, 4, 5]);
+
+    unsubscribe();
+    expect(stream.handler).toBeNull();
+  });
+
+  it('fills a gap from the log when a live event skips ahead', async () => {
+    const log = createEventLog(fake.prisma);
+    await log.append('tenant_1', 'wf_1', WorkflowEventType.AGENT_PROGRESS, {});
+
+    const received: number[] = [];
+    await log.replay('tenant_1', 'wf_1', (event) => {
+      received.push(event.sequence);
+    });
+    expect(received).toEqual([1]);
+
+    // 2 and 3 were committed but their live messages have not arrived yet
+    await log.append('tenant_1', 'wf_1', WorkflowEventType.AGENT_PROGRESS, {});
+    await log.append('tenant_1', 'wf_1', WorkflowEventType.AGENT_PROGRESS, {});
+    await log.append('tenant_1', 'wf_1', WorkflowEventType.AGENT_PROGRESS, {});
+    await stream.handler!(liveMessage(4));
+
+    expect(received).toEqual([1, 2, 3, 4]);
+
+    await stream.handler!(liveMessage(2));
+    await stream.handler!(liveMessage(3));
+    expect(received).toEqual([1, 2, 3, 4]);
+  });
+
+  it('replays from a sequence without following', async () => {
+    const log = createEventLog(fake.prisma);
+    for (let i = 0; i < 4; i++) {
+      await log.append('tenant_1', 'wf_1', WorkflowEventType.AGENT_PROGRESS, { i });
+    }
+
+    const received: number[] = [];
+    await log.replay(
+      'tenant_1',
+      'wf_1',
+      (event) => {
+        received.push(event.sequence);
+      },
+      { fromSequence: 3, follow: false }
+    );
+
+    expect(received).toEqual([3, 4]);
+    expect(stream.handler).toBeNull();
+  });
+});
+
+describe('WorkflowEventBus event log', () => {
+  it('appends and publishes sequenced events', async () => {
+    const fake = createFakePrisma();
+    fake.addExecution('wf_1');
+    stream.published = [];
+
+    const bus = new WorkflowEventBus('tenant_1', 'wf_1', createEventLog(fake.prisma));
+    await bus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_STARTED, {});
+    await bus.emitAgentEvent(WorkflowEventType.AGENT_STARTED, 'TYPOGRAPHY' as any, 'ae_1', {});
+
+    expect(fake.records.map((record) => record.sequence)).toEqual([1, 2]);
+    expect(stream.published.map((message) => message.sequence)).toEqual(['1', '2']);
+  });
+
+  it('skips the durable append without a workflow execution', async () => {
+    const fake = createFakePrisma();
+    stream.published = [];
+
+    const bus = new WorkflowEventBus('tenant_1', undefined as any, createEventLog(fake.prisma));
+    await bus.emitAgentEvent(WorkflowEventType.AGENT_STARTED, 'HERO_COPY' as any, 'ae_1', {});
+
+    expect(fake.records).toEqual([]);
+    expect(stream.published).toHaveLength(1);
+    expect(stream.published[0]!.sequence).toBeUndefined();
+  });
+});
@@ -0,0 +1,178 @@
+// packages/agents/__tests__/input-mapping.test.ts
+/**
+ * Input Mapping Tests
+ *
+ * Covers building agent input from declared mappings, including paths that
+ * resolve to nothing at runtime, and the static checks on mappings whose source
+ * or path can't resolve against the graph and the manifest schemas. Agents are
+ * fakes registered in the registry.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import type { AgentRole } from '@business-automation/database';
+import { DAG } from '../orchestrator/dag-builder';
+import { resolveStepInputs, validateInputMappings } from '../orchestrator/input-mapping';
+import { getRegistry } from '../orchestrator/registry';
+
+function fakeAgent(role: string, inputSchema?: z.ZodTypeAny, outputSchema?: z.ZodTypeAny): any {
+  const manifest = {
+    role,
+    layer: 'DESIGN',
+    name: role,
+    description: `Fake ${role}`,
+    version: '1.0.0',
+    inputSchema,
+    outputSchema,
+  };
+  return { manifest, getManifest: () => manifest };
+}
+
+describe('resolveStepInputs', () => {
+  const previousOutputs = new Map<AgentRole, any>([
+    ['BUSINESS_REQUIREMENTS', { brand: { name: 'Acme Roofing', colors: null } }],
+  ]);
+
+  it('reads fields from the workflow input and upstream outputs', () => {
+    const input = resolveStepInputs(
+      {
+        projectId: { from: 'input', path: 'projectId' },
+        brandName: { from: 'BUSINESS_REQUIREMENTS', path: 'brand.name' },
+        requirements: { from: 'BUSINESS_REQUIREMENTS' },
+      },
+      { projectId: 'project_test' },
+      previousOutputs
+    );
+
+    expect(input).toEqual({
+      projectId: 'project_test',
+      brandName: 'Acme Roofing',
+      requirements: { brand: { name: 'Acme Roofing', colors: null } },
+    });
+  });
+
+  it('falls back to the default when a path does not resolve', () => {
+    const input = resolveStepInputs(
+      {
+        tagline: { from: 'BUSINESS_REQUIREMENTS', path: 'brand.tagline', default: 'Roofs done right' },
+        primary: { from: 'BUSINESS_REQUIREMENTS', path: 'brand.colors.primary', default: '#000000' },
+        palette: { from: 'COLOR_PALETTE', path: 'primary' },
+        locale: { from: 'input', path: 'settings.locale' },
+      },
+      {},
+      previousOutputs
+    );
+
+    // Paths through missing values or agents that didn't run resolve to the default, or undefined
+    expect(input).toEqual({
+      tagline: 'Roofs done right',
+      primary: '#000000',
+      palette: undefined,
+      locale: undefined,
+    });
+  });
+
+  it('keeps falsy values that do resolve', () => {
+    const input = resolveStepInputs(
+      { colors: { from: 'BUSINESS_REQUIREMENTS', path: 'brand.colors', default: ['#ffffff'] } },
+      {},
+      previousOutputs
+    );
+
+    expect(input).toEqual({ colors: null });
+  });
+});
+
+describe('validateInputMappings', () => {
+  beforeEach(() => {
+    const registry = getRegistry();
+    registry.clear();
+    registry.register(
+      fakeAgent(
+        'BUSINESS_REQUIREMENTS',
+        undefined,
+        z.object({
+          brand: z.object({ name: z.string(), colors: z.array(z.string()).optional() }),
+          pages: z.array(z.object({ slug: z.string() })),
+          extra: z.any(),
+        })
+      )
+    );
+    registry.register(
+      fakeAgent(
+        'COLOR_PALETTE',
+        z.object({ brandName: z.string(), brandColors: z.array(z.string()).optional(), mood: z.string().optional() })
+      )
+    );
+    registry.register(fakeAgent('TYPOGRAPHY'));
+  });
+
+  function mapped(inputs: Record<string, any>): DAG {
+    const dag = new DAG();
+    dag.addNode('BUSINESS_REQUIREMENTS');
+    dag.addNode('TYPOGRAPHY');
+    dag.addNode('COLOR_PALETTE', ['BUSINESS_REQUIREMENTS'], { inputs });
+    return dag;
+  }
+
+  it('accepts paths that exist with a compatible type', () => {
+    const dag = mapped({
+      brandName: { from: 'BUSINESS_REQUIREMENTS', path: 'brand.name' },
+      brandColors: { from: 'BUSINESS_REQUIREMENTS', path: 'brand.colors' },
+      mood: { from: 'BUSINESS_REQUIREMENTS', path: 'extra.mood' },
+    });
+
+    expect(validateInputMappings(dag)).toEqual([]);
+  });
+
+  it('reports source paths missing from the upstream outputSchema', () => {
+    const dag = mapped({
+      brandName: { from: 'BUSINESS_REQUIREMENTS', path: 'brand.title' },
+      mood: { from: 'BUSINESS_REQUIREMENTS', path: 'tone.mood' },
+    });
+
+    expect(validateInputMappings(dag)).toEqual([
+      'COLOR_PALETTE.brandName: BUSINESS_REQUIREMENTS outputSchema has no field at "brand.title"',
+      'COLOR_PALETTE.mood: BUSINESS_REQUIREMENTS outputSchema has no field at "tone.mood"',
+    ]);
+  });
+
+  it('does not check paths beyond what the schema describes', () => {
+    // Array elements and z.any() values can't be walked, so any path below them passes
+    const dag = mapped({
+      brandName: { from: 'BUSINESS_REQUIREMENTS', path: 'pages.0.slug' },
+      mood: { from: 'BUSINESS_REQUIREMENTS', path: 'extra.anything.at.all' },
+    });
+
+    expect(validateInputMappings(dag)).toEqual([]);
+  });
+
+  it('reports paths that resolve to the wrong type', () => {
+    const dag = mapped({ brandName: { from: 'BUSINESS_REQUIREMENTS', path: 'brand' } });
+
+    expect(validateInputMappings(dag)).toEqual([
+      'COLOR_PALETTE.brandName: BUSINESS_REQUIREMENTS.brand is ZodObject, expected ZodString',
+    ]);
+  });
+
+  it('reports sources that are missing or do not run first', () => {
+    const dag = mapped({
+      brandName: { from: 'SEO_STRATEGY', path: 'keywords' },
+      mood: { from: 'TYPOGRAPHY', path: 'mood' },
+    });
+
+    expect(validateInputMappings(dag)).toEqual([
+      'COLOR_PALETTE.brandName: source agent SEO_STRATEGY is not part of the workflow',
+      'COLOR_PALETTE.mood: source agent TYPOGRAPHY does not run before COLOR_PALETTE',
+    ]);
+  });
+
+  it('reports target fields the inputSchema lacks and required fields left unmapped', () => {
+    const dag = mapped({ palette: { from: 'input', path: 'palette' } });
+
+    expect(validateInputMappings(dag)).toEqual([
+      'COLOR_PALETTE.palette: COLOR_PALETTE inputSchema has no field "palette"',
+      'COLOR_PALETTE.brandName: required input field is not mapped',
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+// packages/agents/__tests__/llm-provider.test.ts
+/**
+ * LLM Provider Tests
+ *
+ * Covers provider selection, default models, leaving Anthropic retries to the
+ * shared rate limiter, the scripted mock provider behind
+ * sendClaudeMessage/streamClaudeMessage, and per-provider pricing.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { sendClaudeMessage, streamClaudeMessage } from '../shared/claude-client';
+import {
+  getDefaultLLMModel,
+  getLLMProvider,
+  registerLLMProvider,
+  resolveLLMSelection,
+} from '../shared/llm-provider';
+import { createMockLLMProvider, type MockLLMProvider } from '../shared/mock-llm-provider';
+import { OpenAICompatibleProvider } from '../shared/openai-compatible-provider';
+import { AnthropicProvider } from '../shared/anthropic-provider';
+import { calculateTokenCost, getModelPricing } from '../shared/cost-tracker';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('resolveLLMSelection', () => {
+  it('resolves provider and model independently, earlier selections winning', () => {
+    expect(
+      resolveLLMSelection(
+        { provider: 'mock' },
+        undefined,
+        { provider: 'anthropic', model: 'claude-3-5-haiku-20241022' }
+      )
+    ).toEqual({ provider: 'mock', model: 'claude-3-5-haiku-20241022' });
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => getLLMProvider('nope')).toThrow('Unknown LLM provider: nope');
+  });
+});
+
+describe('default models', () => {
+  it('falls back to the provider\'s own model', () => {
+    expect(getDefaultLLMModel('anthropic')).toBe('claude-3-5-sonnet-20241022');
+    expect(getDefaultLLMModel('mock')).toBe('mock');
+    expect(new OpenAICompatibleProvider({ model: 'llama3.1:8b' }).defaultModel).toBe('llama3.1:8b');
+  });
+
+  it('requires a model for OpenAI-compatible servers', () => {
+    vi.stubEnv('OPENAI_COMPATIBLE_MODEL', '');
+    expect(() => getDefaultLLMModel('openai-compatible')).toThrow(
+      'No model selected for LLM provider openai-compatible'
+    );
+
+    vi.stubEnv('OPENAI_COMPATIBLE_MODEL', 'qwen2.5:14b');
+    expect(getDefaultLLMModel('openai-compatible')).toBe('qwen2.5:14b');
+  });
+});
+
+describe('anthropic provider', () => {
+  it('leaves retrying to the rate limiter and model fallback', () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant-test');
+
+    expect(new AnthropicProvider().getClient().maxRetries).toBe(0);
+  });
+});
+
+describe('mock provider', () => {
+  let mock: MockLLMProvider;
+
+  beforeEach(() => {
+    mock = createMockLLMProvider({
+      name: 'scripted',
+      chunkSize: 4,
+      responses: [
+        { match: /site spec/i, text: '{"pages":[]}' },
+        { text: 'first' },
+        { text: 'second', usage: { inputTokens: 10, outputTokens: 2 } },
+      ],
+    });
+    registerLLMProvider(mock);
+  });
+
+  it('answers from the script without an API key', async () => {
+    const options = {
+      provider: 'scripted',
+      model: 'claude-3-5-sonnet-20241022',
+      max_tokens: 100,
+      messages: [{ role: 'user' as const, content: 'Hello' }],
+    };
+
+    expect((await sendClaudeMessage(options)).text).toBe('first');
+
+    const second = await sendClaudeMessage(options);
+    expect(second.text).toBe('second');
+    expect(second.usage).toMatchObject({ inputTokens: 10, outputTokens: 2 });
+
+    // Script exhausted
+    expect((await sendClaudeMessage(options)).text).toBe('{}');
+
+    // Matching rules apply every time, ahead of the queue
+    const spec = await sendClaudeMessage({
+      ...options,
+      system: 'Write the SITE SPEC',
+    });
+    expect(spec.text).toBe('{"pages":[]}');
+    expect(mock.getRequests()).toHaveLength(4);
+  });
+
+  it('streams the scripted text in chunks', async () => {
+    const chunks: string[] = [];
+
+    const response = await streamClaudeMessage(
+      {
+        provider: 'scripted',
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 100,
+        messages: [{ role: 'user', content: 'Draft the site spec' }],
+      },
+      (text) => chunks.push(text)
+    );
+
+    expect(chunks).toEqual(['{"pa', 'ges"', ':[]}']);
+    expect(response.text).toBe('{"pages":[]}');
+  });
+});
+
+describe('provider pricing', () => {
+  it('looks up model pricing per provider', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 0 };
+
+    expect(calculateTokenCost(usage, 'claude-3-5-haiku-20241022', 'anthropic').totalCost).toBe(1);
+    expect(calculateTokenCost(usage, 'llama3.1:8b', 'openai-compatible').totalCost).toBe(0);
+    expect(calculateTokenCost(usage, 'claude-3-5-haiku-20241022', 'mock').totalCost).toBe(0);
+  });
+
+  it('prices models of the LLM_PROVIDER provider when none is given', () => {
+    vi.stubEnv('LLM_PROVIDER', 'openai-compatible');
+    expect(getModelPricing('claude-3-5-haiku-20241022').input).toBe(0);
+
+    vi.stubEnv('LLM_PROVIDER', '');
+    expect(getModelPricing('claude-3-5-haiku-20241022').input).toBe(1);
+  });
+});
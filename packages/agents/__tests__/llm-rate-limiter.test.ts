@@ -0,0 +1,134 @@
+// packages/agents/__tests__/llm-rate-limiter.test.ts
+/**
+ * LLM Rate Limiter Tests
+ *
+ * Covers limit lookup (including leaving requests unlimited without
+ * LLM_RATE_LIMITS), retry-after parsing, retrying rate-limited calls and
+ * scoping metrics to a tenant. Redis is not connected here, so the shared
+ * buckets are skipped; metrics are read from an in-memory fake.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+const redis = vi.hoisted(() => ({ client: null as any }));
+
+vi.mock('../shared/redis-client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../shared/redis-client')>()),
+  getRedisClient: () => {
+    if (!redis.client) {
+      throw new Error('Redis not connected');
+    }
+    return redis.client;
+  },
+}));
+
+import { createLLMRateLimiter, parseRetryAfter } from '../shared/llm-rate-limiter';
+
+describe('parseRetryAfter', () => {
+  it('reads milliseconds, seconds and HTTP dates', () => {
+    expect(parseRetryAfter({ 'retry-after-ms': '1500', 'retry-after': '2' })).toBe(1500);
+    expect(parseRetryAfter({ 'retry-after': '2' })).toBe(2000);
+    expect(parseRetryAfter(new Headers({ 'retry-after': '3' }))).toBe(3000);
+
+    const date = parseRetryAfter({ 'retry-after': new Date(Date.now() + 60_000).toUTCString() });
+    expect(date).toBeGreaterThan(55_000);
+    expect(date).toBeLessThanOrEqual(60_000);
+
+    expect(parseRetryAfter({})).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
+
+describe('LLMRateLimiter', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const limiter = createLLMRateLimiter({
+    limits: {
+      anthropic: { requestsPerMinute: 50, tokensPerMinute: 40_000 },
+      'anthropic/claude-3-5-haiku-20241022': { requestsPerMinute: 100 },
+      local: { maxConcurrent: 0 },
+    },
+  });
+
+  it('prefers a model entry over the provider entry', () => {
+    expect(limiter.getLimit('anthropic', 'claude-3-5-haiku-20241022')).toEqual({ requestsPerMinute: 100 });
+    expect(limiter.getLimit('anthropic', 'claude-3-5-sonnet-20241022')?.tokensPerMinute).toBe(40_000);
+    expect(limiter.getLimit('local', 'llama3.1:8b')).toBeUndefined();
+    expect(limiter.getLimit('mock', 'claude-3-5-sonnet-20241022')).toBeUndefined();
+  });
+
+  it('limits nothing unless LLM_RATE_LIMITS configures it', () => {
+    vi.stubEnv('LLM_RATE_LIMITS', '');
+    expect(createLLMRateLimiter().getLimit('anthropic', 'claude-3-5-sonnet-20241022')).toBeUndefined();
+
+    vi.stubEnv('LLM_RATE_LIMITS', '{"anthropic":{"requestsPerMinute":50}}');
+    expect(createLLMRateLimiter().getLimit('anthropic', 'claude-3-5-sonnet-20241022')).toEqual({
+      requestsPerMinute: 50,
+    });
+  });
+
+  it('retries a rate-limited call after its retry-after', async () => {
+    let calls = 0;
+    const call = async () => {
+      calls++;
+      if (calls === 1) {
+        throw Object.assign(new Error('Too many requests'), { status: 429, headers: { 'retry-after-ms': '5' } });
+      }
+      return { tokens: 10 };
+    };
+
+    const result = await limiter.run(
+      { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022', estimatedTokens: 10 },
+      call,
+      (response) => response.tokens
+    );
+
+    expect(result).toEqual({ tokens: 10 });
+    expect(calls).toBe(2);
+  });
+
+  it('passes other errors straight through', async () => {
+    const call = async () => {
+      throw Object.assign(new Error('Bad request'), { status: 400 });
+    };
+
+    await expect(
+      limiter.run({ provider: 'anthropic', model: 'claude-3-5-sonnet-20241022', estimatedTokens: 10 }, call, () => 0)
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('LLMRateLimiter metrics', () => {
+  afterEach(() => {
+    redis.client = null;
+  });
+
+  it("returns the global buckets and the caller's tenant buckets only", async () => {
+    const bucket = (tenantId = '') => ({ provider: 'anthropic', model: 'claude-3-5-sonnet-20241022', tenantId });
+    const buckets: Record<string, Record<string, string>> = {
+      'llm:ratelimit:anthropic:claude-3-5-sonnet-20241022': bucket(),
+      'llm:ratelimit:anthropic:claude-3-5-sonnet-20241022:tenant:tenant_a': bucket('tenant_a'),
+      'llm:ratelimit:anthropic:claude-3-5-sonnet-20241022:tenant:tenant_b': bucket('tenant_b'),
+    };
+    redis.client = {
+      smembers: async () => Object.keys(buckets),
+      time: async () => [String(Math.floor(Date.now() / 1000)), '0'],
+      hgetall: async (key: string) => buckets[key],
+      zcount: async () => 0,
+      srem: async () => 0,
+    };
+
+    const limiter = createLLMRateLimiter({
+      limits: { anthropic: { requestsPerMinute: 50 } },
+      tenantShare: 0.5,
+    });
+
+    const metrics = await limiter.getMetrics('tenant_a');
+    expect(metrics.map((metric) => metric.tenantId)).toEqual([undefined, 'tenant_a']);
+    expect(metrics[1]!.limit.requestsPerMinute).toBe(25);
+
+    expect(await limiter.getMetrics()).toHaveLength(3);
+  });
+});
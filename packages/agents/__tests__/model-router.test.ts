@@ -0,0 +1,146 @@
+// packages/agents/__tests__/model-router.test.ts
+/**
+ * Model Router Tests
+ *
+ * Covers picking a model from the routing policy, resolving an agent's provider
+ * and model, pricing workflow estimates with them, and falling back to the secondary model when the primary one is
+ * overloaded.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveAgentModel, routeModel } from '../shared/model-router';
+import { estimateWorkflowCost } from '../orchestrator/validation';
+import { CLAUDE_3_5_HAIKU, CLAUDE_3_5_SONNET, sendClaudeMessage } from '../shared/claude-client';
+import { registerLLMProvider, type LLMProvider } from '../shared/llm-provider';
+import { createMockLLMProvider } from '../shared/mock-llm-provider';
+
+const planner = { id: 'planner', tier: 'strategy', category: 'planner' } as const;
+const backlogManager = { id: 'backlog-manager', tier: 'strategy', category: 'planner' } as const;
+const scaffolder = { id: 'scaffolder', tier: 'build', category: 'builder' } as const;
+
+describe('routeModel', () => {
+  it('routes backlog summaries to the cheap model and planning to the strong one', () => {
+    expect(routeModel(backlogManager)).toEqual({ model: CLAUDE_3_5_HAIKU, fallback: CLAUDE_3_5_SONNET });
+    expect(routeModel(planner)).toEqual({ model: CLAUDE_3_5_SONNET, fallback: CLAUDE_3_5_HAIKU });
+  });
+
+  it('prefers the most specific tenant entry', () => {
+    const policy = {
+      default: { model: 'claude-3-haiku-20240307' },
+      tiers: { build: { model: 'claude-3-opus-20240229' } },
+      agents: { planner: { model: 'claude-3-opus-20240229' } },
+    };
+
+    expect(routeModel(planner, policy).model).toBe('claude-3-opus-20240229');
+    expect(routeModel(scaffolder, policy).model).toBe('claude-3-opus-20240229');
+    // A tenant default beats built-in agent entries
+    expect(routeModel(backlogManager, policy).model).toBe('claude-3-haiku-20240307');
+    expect(routeModel(undefined, policy).model).toBe('claude-3-haiku-20240307');
+  });
+
+  it('routes by tenant tier ahead of built-in category entries', () => {
+    const policy = { tiers: { strategy: { model: 'claude-3-opus-20240229' } } };
+
+    expect(routeModel(planner, policy).model).toBe('claude-3-opus-20240229');
+    // Agents the tenant policy doesn't cover keep the built-in routing
+    expect(routeModel(scaffolder, policy)).toEqual({ model: CLAUDE_3_5_SONNET, fallback: CLAUDE_3_5_HAIKU });
+  });
+});
+
+describe('resolveAgentModel', () => {
+  it('routes agents that select no model on Anthropic', () => {
+    const policy = { agents: { planner: { model: 'claude-3-opus-20240229' } } };
+
+    expect(resolveAgentModel(planner, { llm: { provider: 'anthropic' }, modelRouting: policy })).toEqual({
+      provider: 'anthropic',
+      model: 'claude-3-opus-20240229',
+      fallbackModel: undefined,
+    });
+  });
+
+  it("uses the provider's default model instead of routing elsewhere", () => {
+    registerLLMProvider(createMockLLMProvider({ name: 'routed-elsewhere', defaultModel: 'local-model' }));
+
+    expect(resolveAgentModel(planner, { llm: { provider: 'routed-elsewhere' } })).toEqual({
+      provider: 'routed-elsewhere',
+      model: 'local-model',
+    });
+  });
+
+  it('prefers the tenant selection over the manifest and the agent config', () => {
+    const manifest = { ...planner, provider: 'mock', model: 'manifest-model' };
+
+    const config = { provider: 'anthropic', model: 'config-model' };
+
+    expect(resolveAgentModel(manifest, { llm: { model: 'tenant-model' }, config })).toMatchObject({
+      provider: 'mock',
+      model: 'tenant-model',
+    });
+  });
+});
+
+describe('estimateWorkflowCost', () => {
+  it("prices agents with the tenant's routing policy", () => {
+    const dag = { getNodes: () => [{ role: 'UNREGISTERED_AGENT' }] } as any;
+    const workflow = { config: { iterativeRefinement: false } } as any;
+
+    const routed = estimateWorkflowCost(dag, workflow, { modelRouting: { default: { model: CLAUDE_3_5_HAIKU } } });
+    const unrouted = estimateWorkflowCost(dag, workflow);
+
+    expect(routed.model).toBe(CLAUDE_3_5_HAIKU);
+    expect(unrouted.model).toBe(CLAUDE_3_5_SONNET);
+    expect(routed.maxTotal).toBeLessThan(unrouted.maxTotal);
+  });
+
+  it("prices agents on the tenant's provider", () => {
+    const dag = { getNodes: () => [{ role: 'UNREGISTERED_AGENT' }] } as any;
+    const workflow = { config: { iterativeRefinement: false } } as any;
+
+    // The mock provider has no pricing, even for a model Anthropic would charge for
+    const estimate = estimateWorkflowCost(dag, workflow, { llm: { provider: 'mock', model: CLAUDE_3_5_SONNET } });
+
+    expect(estimate).toMatchObject({ provider: 'mock', model: CLAUDE_3_5_SONNET, maxTotal: 0 });
+  });
+});
+
+describe('fallback', () => {
+  const answers = createMockLLMProvider({ defaultText: 'ok' });
+
+  /**
+   * Provider whose primary model is overloaded (or rejects the request)
+   */
+  const unavailable = (status: number): LLMProvider => ({
+    name: `unavailable-${status}`,
+    createMessage: async (params, signal) => {
+      if (params.model === CLAUDE_3_5_SONNET) {
+        throw Object.assign(new Error('Overloaded'), { status });
+      }
+      return answers.createMessage(params, signal);
+    },
+    streamMessage: (params, onChunk, signal) => answers.streamMessage(params, onChunk, signal),
+  });
+
+  const options = {
+    model: CLAUDE_3_5_SONNET,
+    fallbackModel: CLAUDE_3_5_HAIKU,
+    max_tokens: 100,
+    messages: [{ role: 'user' as const, content: 'Summarise the backlog' }],
+  };
+
+  it('retries on the fallback model when the primary is overloaded', async () => {
+    registerLLMProvider(unavailable(529));
+
+    const response = await sendClaudeMessage({ ...options, provider: 'unavailable-529' });
+
+    expect(response.text).toBe('ok');
+    expect(response.message.model).toBe(CLAUDE_3_5_HAIKU);
+  });
+
+  it('does not fall back on client errors', async () => {
+    registerLLMProvider(unavailable(400));
+
+    await expect(sendClaudeMessage({ ...options, provider: 'unavailable-400' })).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+});
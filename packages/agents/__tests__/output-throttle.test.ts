@@ -0,0 +1,76 @@
+// packages/agents/__tests__/output-throttle.test.ts
+/**
+ * Output Throttle Tests
+ *
+ * Covers how streamed LLM chunks are batched into the partial output
+ * deltas published to the browser.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createOutputThrottle } from '../shared/output-throttle';
+import type { AgentOutputDelta } from '../shared/output-throttle';
+
+function collect() {
+  const deltas: AgentOutputDelta[] = [];
+  return { deltas, publish: async (delta: AgentOutputDelta) => void deltas.push(delta) };
+}
+
+describe('OutputThrottle', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('batches chunks arriving within the interval into one delta', async () => {
+    vi.useFakeTimers();
+    const { deltas, publish } = collect();
+    const throttle = createOutputThrottle(publish, { intervalMs: 100 });
+
+    throttle.push('{"pages"');
+    throttle.push(': [');
+    await vi.advanceTimersByTimeAsync(100);
+    throttle.push(']}');
+    await throttle.finish();
+
+    expect(deltas).toEqual([
+      { delta: '{"pages": [', offset: 0, done: false },
+      { delta: ']}', offset: 11, done: true },
+    ]);
+  });
+
+  it('publishes early once the buffer limit is reached', async () => {
+    vi.useFakeTimers();
+    const { deltas, publish } = collect();
+    const throttle = createOutputThrottle(publish, { intervalMs: 1000, maxBufferChars: 5 });
+
+    throttle.push('abc');
+    throttle.push('defg');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(deltas).toEqual([{ delta: 'abcdefg', offset: 0, done: false }]);
+
+    await throttle.finish();
+    expect(deltas[1]).toEqual({ delta: '', offset: 7, done: true });
+  });
+
+  it('keeps publishing after a failed delta', async () => {
+    const deltas: string[] = [];
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const throttle = createOutputThrottle(
+      async (delta) => {
+        if (delta.offset === 0) {
+          throw new Error('redis down');
+        }
+        deltas.push(delta.delta);
+      },
+      { maxBufferChars: 1 }
+    );
+
+    throttle.push('a');
+    throttle.push('b');
+    await throttle.finish();
+
+    expect(deltas).toEqual(['b', '']);
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+});
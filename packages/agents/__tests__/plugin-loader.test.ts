@@ -0,0 +1,188 @@
+// packages/agents/__tests__/plugin-loader.test.ts
+/**
+ * Plugin Loader Tests
+ *
+ * Covers plugin discovery, loading and registration, manifest validation and
+ * JSON Schema conversion for third-party agent packages.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { z } from 'zod';
+import {
+  discoverAgentPlugins,
+  jsonSchemaToZod,
+  loadAgentPlugins,
+  validatePluginManifest,
+} from '../orchestrator/plugin-loader';
+import { getRegistry } from '../orchestrator/registry';
+
+describe('plugin discovery', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'agent-plugins-'));
+
+    await mkdir(path.join(root, 'seo-agents'));
+    await writeFile(
+      path.join(root, 'seo-agents', 'package.json'),
+      JSON.stringify({ name: 'seo-agents', version: '0.2.0', main: 'dist/index.js', agentPlugin: true })
+    );
+
+    await mkdir(path.join(root, 'not-a-plugin'));
+    await writeFile(path.join(root, 'not-a-plugin', 'package.json'), JSON.stringify({ name: 'utils' }));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('finds packages that declare agentPlugin', async () => {
+    const plugins = await discoverAgentPlugins({ pluginDirs: [root] });
+
+    expect(plugins).toEqual([
+      {
+        name: 'seo-agents',
+        version: '0.2.0',
+        path: path.join(root, 'seo-agents'),
+        entry: path.join(root, 'seo-agents', 'dist', 'index.js'),
+      },
+    ]);
+  });
+});
+
+/**
+ * Write a plugin package whose entry module exports one agent class per manifest
+ */
+async function writePlugin(root: string, name: string, manifests: object[]): Promise<void> {
+  const classes = manifests.map(
+    (manifest, i) => `export class Agent${i} {
+  static manifest = ${JSON.stringify(manifest)};
+  static getManifest() { return Agent${i}.manifest; }
+}`
+  );
+
+  await mkdir(path.join(root, name));
+  await writeFile(
+    path.join(root, name, 'package.json'),
+    JSON.stringify({ name, version: '1.0.0', main: 'index.mjs', agentPlugin: true })
+  );
+  await writeFile(path.join(root, name, 'index.mjs'), classes.join('\n'));
+}
+
+describe('plugin loading', () => {
+  const registry = getRegistry();
+  const agentManifest = (role: string) => ({
+    role,
+    layer: 'DESIGN',
+    name: role,
+    description: `Plugin ${role}`,
+    version: '1.0.0',
+    inputSchema: { type: 'object', properties: { industry: { type: 'string' } } },
+    outputSchema: { type: 'object', properties: {} },
+  });
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'agent-plugins-'));
+
+    await writePlugin(root, 'typography-agents', [agentManifest('TYPOGRAPHY')]);
+    // COLOR_PALETTE is built in, ICON_DESIGN is free
+    await writePlugin(root, 'palette-agents', [agentManifest('COLOR_PALETTE'), agentManifest('ICON_DESIGN')]);
+
+    await mkdir(path.join(root, 'broken-agents'));
+    await writeFile(
+      path.join(root, 'broken-agents', 'package.json'),
+      JSON.stringify({ name: 'broken-agents', main: 'index.mjs', agentPlugin: true })
+    );
+    await writeFile(path.join(root, 'broken-agents', 'index.mjs'), "throw new Error('missing peer dependency');");
+
+    registry.clear();
+    const builtin = { ...agentManifest('COLOR_PALETTE'), description: 'Built-in palette' };
+    registry.register({ manifest: builtin, getManifest: () => builtin } as any);
+  });
+
+  afterAll(async () => {
+    registry.clear();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('registers plugin agents with their origin and Zod schemas', async () => {
+    const result = await loadAgentPlugins({ pluginDirs: [root] });
+
+    expect(result.loaded).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'typography-agents', roles: ['TYPOGRAPHY'] }),
+        expect.objectContaining({ name: 'palette-agents', roles: ['ICON_DESIGN'] }),
+      ])
+    );
+
+    const entry = registry.get('TYPOGRAPHY')!;
+    expect(entry.origin).toEqual({
+      type: 'plugin',
+      name: 'typography-agents',
+      version: '1.0.0',
+      path: path.join(root, 'typography-agents'),
+    });
+    expect(entry.manifest.inputSchema.safeParse({ industry: 'roofing' }).success).toBe(true);
+  });
+
+  it('keeps built-in agents and other plugins when a plugin conflicts or fails', async () => {
+    const result = await loadAgentPlugins({ pluginDirs: [root] });
+
+    expect(result.errors).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          plugin: 'palette-agents',
+          error: expect.stringContaining('COLOR_PALETTE is already provided by built-in'),
+        }),
+        expect.objectContaining({ plugin: 'broken-agents', error: 'missing peer dependency' }),
+      ])
+    );
+
+    expect(registry.get('COLOR_PALETTE')?.origin).toEqual({ type: 'builtin' });
+    expect(registry.get('COLOR_PALETTE')?.manifest.description).toBe('Built-in palette');
+    expect(registry.get('ICON_DESIGN')?.origin).toMatchObject({ type: 'plugin', name: 'palette-agents' });
+  });
+});
+
+describe('plugin manifests', () => {
+  const manifest = {
+    role: 'TYPOGRAPHY',
+    layer: 'DESIGN',
+    name: 'Typography',
+    description: 'Picks font pairings',
+    version: '1.0.0',
+    inputSchema: z.object({ industry: z.string() }),
+    outputSchema: { type: 'object', properties: { headingFont: { type: 'string' } } },
+  };
+
+  it('accepts Zod and JSON Schema input/output schemas', () => {
+    expect(validatePluginManifest(manifest)).toEqual([]);
+  });
+
+  it('rejects unknown roles and missing schemas', () => {
+    const errors = validatePluginManifest({ ...manifest, role: 'SEO_WIZARD', inputSchema: undefined });
+
+    expect(errors).toContain('role "SEO_WIZARD" is not a known agent role');
+    expect(errors).toContain('inputSchema must be a Zod schema or a JSON Schema object');
+  });
+
+  it('converts JSON Schema to Zod honouring required fields', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      required: ['fonts'],
+      properties: {
+        fonts: { type: 'array', items: { type: 'string' } },
+        weight: { type: ['integer', 'null'] },
+        style: { enum: ['serif', 'sans'] },
+      },
+    });
+
+    expect(schema.safeParse({ fonts: ['Inter'], weight: null, style: 'sans' }).success).toBe(true);
+    expect(schema.safeParse({ weight: 400 }).success).toBe(false);
+    expect(schema.safeParse({ fonts: [], style: 'mono' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+// packages/agents/__tests__/prompt-caching.test.ts
+/**
+ * Prompt Caching Tests
+ *
+ * Covers billing of cache-write and cache-read tokens, the savings reported
+ * for them, and cache breakpoints reaching the provider.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sendClaudeMessage, CLAUDE_3_5_SONNET } from '../shared/claude-client';
+import { registerLLMProvider } from '../shared/llm-provider';
+import { createMockLLMProvider } from '../shared/mock-llm-provider';
+import { calculateTokenCost } from '../shared/cost-tracker';
+
+describe('cache billing', () => {
+  it('bills cache writes and reads at their own rates and reports the savings', () => {
+    const cost = calculateTokenCost(
+      { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 1_000_000, cacheReadTokens: 2_000_000 },
+      CLAUDE_3_5_SONNET
+    );
+
+    expect(cost.cacheWriteCost).toBeCloseTo(3.75);
+    expect(cost.cacheReadCost).toBeCloseTo(0.6);
+    expect(cost.totalCost).toBeCloseTo(4.35);
+    // 3M tokens as plain input would have cost $9
+    expect(cost.cacheSavings).toBeCloseTo(4.65);
+  });
+
+  it('reports the write premium as a loss when the cache is never read', () => {
+    const cost = calculateTokenCost(
+      { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 1_000_000 },
+      CLAUDE_3_5_SONNET
+    );
+
+    expect(cost.cacheSavings).toBeCloseTo(-0.75);
+    expect(calculateTokenCost({ inputTokens: 1000, outputTokens: 1000 }, CLAUDE_3_5_SONNET).cacheSavings).toBe(0);
+  });
+});
+
+describe('cache breakpoints', () => {
+  it('passes cacheable system and context blocks through to the provider', async () => {
+    const mock = createMockLLMProvider({
+      name: 'caching',
+      responses: [{ match: 'SiteSpec', text: '{"ok":true}' }],
+    });
+    registerLLMProvider(mock);
+
+    const cached = { type: 'text' as const, text: 'Company profile', cache_control: { type: 'ephemeral' as const } };
+    const response = await sendClaudeMessage({
+      provider: 'caching',
+      model: CLAUDE_3_5_SONNET,
+      max_tokens: 100,
+      system: [{ ...cached, text: 'Write the SiteSpec' }],
+      messages: [{ role: 'user', content: [cached, { type: 'text', text: 'Address the review feedback' }] }],
+    });
+
+    expect(response.text).toBe('{"ok":true}');
+
+    const [request] = mock.getRequests();
+    expect(request.system).toEqual([{ ...cached, text: 'Write the SiteSpec' }]);
+    expect(request.messages[0].content).toEqual([cached, { type: 'text', text: 'Address the review feedback' }]);
+  });
+});
@@ -0,0 +1,62 @@
+// packages/agents/__tests__/provenance.test.ts
+/**
+ * Provenance Tests
+ *
+ * Covers artifact tagging and tracing quality findings back to the agent
+ * executions that produced the affected file, section or route.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createProvenanceIndex, tagProvenance } from '../shared/provenance';
+
+const palette = { agentExecutionId: 'exec-palette', agentRole: 'COLOR_PALETTE' };
+const page = { agentExecutionId: 'exec-page', agentRole: 'PAGE_ASSEMBLER' };
+
+describe('tagProvenance', () => {
+  it('tags the output and its files without overriding upstream provenance', () => {
+    const tagged = tagProvenance(
+      {
+        files: [
+          { path: 'app/page.tsx', content: '' },
+          { path: 'styles/theme.css', content: '', producedBy: palette },
+        ],
+      },
+      page
+    );
+
+    expect(tagged.producedBy).toEqual(page);
+    expect(tagged.files[0]!.producedBy).toEqual(page);
+    expect(tagged.files[1]!.producedBy).toEqual(palette);
+  });
+});
+
+describe('ProvenanceIndex', () => {
+  const index = createProvenanceIndex();
+  index.add({ files: [{ path: './styles/theme.css' }] }, palette);
+  index.add({ route: '/about', sections: [{ id: 'hero' }], files: [{ path: 'app/about/page.tsx' }] }, page);
+
+  it('resolves absolute file paths by suffix', () => {
+    expect(index.resolve({ file: '/workspace/site/styles/theme.css' })).toEqual(palette);
+  });
+
+  it('falls back to section and then route', () => {
+    expect(index.resolve({ section: 'hero' })).toEqual(page);
+    expect(index.resolve({ route: '/about/' })).toEqual(page);
+    expect(index.resolve({ route: '/contact' })).toBeUndefined();
+  });
+
+  it('keeps responsible agents already set on a finding', () => {
+    const [finding] = index.resolveFindings([
+      {
+        id: 'f1',
+        severity: 'major',
+        category: 'design',
+        description: 'Low contrast',
+        location: { file: 'app/about/page.tsx' },
+        responsibleAgent: palette,
+      } as any,
+    ]);
+
+    expect(finding!.responsibleAgent).toEqual(palette);
+  });
+});
@@ -0,0 +1,86 @@
+// packages/agents/__tests__/refinement-envelope.test.ts
+/**
+ * Refinement Envelope Tests
+ *
+ * Covers the revision prompt and the diffs agents attach against their
+ * previous output on refinement iterations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRefinementPrompt, diffOutputs, isRefinementEnvelope } from '../shared/refinement-envelope';
+
+describe('diffOutputs', () => {
+  it('reports changed, added and removed fields', () => {
+    const changes = diffOutputs(
+      { headline: 'Old', seoKeywords: ['a'], rationale: 'r' },
+      { headline: 'New', seoKeywords: ['a', 'b'], rationale: 'r' }
+    );
+
+    expect(changes).toEqual([
+      { path: 'headline', type: 'changed', before: 'Old', after: 'New' },
+      { path: 'seoKeywords[1]', type: 'added', after: 'b' },
+    ]);
+  });
+
+  it('matches files by path and ignores provenance', () => {
+    const changes = diffOutputs(
+      {
+        files: [
+          { path: 'app/page.tsx', content: 'a', producedBy: { agentExecutionId: '1', agentRole: 'X' } },
+          { path: 'app/error.tsx', content: 'e' },
+        ],
+      },
+      {
+        files: [
+          { path: 'app/loading.tsx', content: 'l' },
+          { path: 'app/page.tsx', content: 'b', producedBy: { agentExecutionId: '2', agentRole: 'X' } },
+        ],
+      }
+    );
+
+    expect(changes.map((c) => `${c.type} ${c.path}`)).toEqual([
+      'changed files[path=app/page.tsx].content',
+      'removed files[path=app/error.tsx]',
+      'added files[path=app/loading.tsx]',
+    ]);
+  });
+});
+
+describe('buildRefinementPrompt', () => {
+  const envelope = {
+    iteration: 2,
+    previousOutput: { headline: 'Old', producedBy: { agentExecutionId: '1', agentRole: 'HERO_COPY' } },
+    findings: [
+      {
+        id: 'f1',
+        severity: 'high',
+        ruleId: 'readability',
+        ruleName: 'Readability',
+        location: { section: 'hero' },
+        message: 'Headline is vague',
+        suggestion: 'Lead with the outcome',
+        autoFixable: false,
+        estimatedCost: 1,
+      },
+    ],
+    instructions: ['content: tighten the hero copy'],
+    scoreDeltas: [{ dimension: 'content', score: 0.7, previousScore: 0.6, delta: 0.1, threshold: 0.8 }],
+  };
+
+  it('recognises the envelope shape', () => {
+    expect(isRefinementEnvelope(envelope)).toBe(true);
+    expect(isRefinementEnvelope({ iteration: 1 })).toBe(false);
+  });
+
+  it('includes previous output, findings, instructions and score deltas', () => {
+    const prompt = buildRefinementPrompt(envelope as any);
+
+    expect(prompt).toContain('Revision Request (iteration 2)');
+    expect(prompt).toContain('"headline": "Old"');
+    expect(prompt).not.toContain('producedBy');
+    expect(prompt).toContain('- [high] Headline is vague (section hero)');
+    expect(prompt).toContain('Suggestion: Lead with the outcome');
+    expect(prompt).toContain('- content: tighten the hero copy');
+    expect(prompt).toContain('- content: 0.70 (+0.10), target 0.80');
+  });
+});
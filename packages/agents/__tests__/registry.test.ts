@@ -0,0 +1,58 @@
+// packages/agents/__tests__/registry.test.ts
+/**
+ * Agent Registry Tests
+ *
+ * Covers side-by-side agent versions, version pinning and percentage rollouts.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getRegistry } from '../orchestrator/registry';
+
+function fakeAgent(version: string): any {
+  const manifest = {
+    role: 'HERO_COPY',
+    layer: 'BUILD',
+    name: 'Hero Copy',
+    description: 'Writes hero copy',
+    version,
+  };
+
+  return { manifest, getManifest: () => manifest };
+}
+
+describe('AgentRegistry versions', () => {
+  const registry = getRegistry();
+
+  beforeEach(() => {
+    registry.clear();
+    registry.register(fakeAgent('1.0.0'));
+    registry.register(fakeAgent('2.0.0'), { rolloutPercentage: 0 });
+  });
+
+  it('keeps versions side by side without replacing the default', () => {
+    expect(registry.getVersions('HERO_COPY')).toEqual(['1.0.0', '2.0.0']);
+    expect(registry.get('HERO_COPY')?.version).toBe('1.0.0');
+    expect(registry.get('HERO_COPY', '2.0.0')?.version).toBe('2.0.0');
+  });
+
+  it('prefers workflow pins over tenant pins', () => {
+    expect(
+      registry.selectVersion('HERO_COPY', {
+        pins: { workflow: { HERO_COPY: '2.0.0' }, tenant: { HERO_COPY: '1.0.0' } },
+      })
+    ).toEqual({ version: '2.0.0', source: 'workflow_pin' });
+    expect(() =>
+      registry.selectVersion('HERO_COPY', { pins: { tenant: { HERO_COPY: '3.0.0' } } })
+    ).toThrow('not registered');
+  });
+
+  it('routes rollout traffic by percentage', () => {
+    expect(registry.selectVersion('HERO_COPY', { rolloutKey: 'exec-1' }).source).toBe('default');
+
+    registry.setRollout('HERO_COPY', '2.0.0', 100);
+    expect(registry.selectVersion('HERO_COPY', { rolloutKey: 'exec-1' })).toEqual({
+      version: '2.0.0',
+      source: 'rollout',
+    });
+  });
+});
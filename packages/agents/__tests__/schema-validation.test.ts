@@ -0,0 +1,75 @@
+// packages/agents/__tests__/schema-validation.test.ts
+/**
+ * Schema Validation Tests
+ *
+ * Covers JSON extraction from model responses and the structured errors
+ * recorded when agent input or output fails its manifest schema.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  AgentValidationError,
+  buildRepairPrompt,
+  extractJson,
+  validateAgentSchema,
+} from '../shared/schema-validation';
+
+const RouteSchema = z.object({
+  routes: z.array(z.object({ path: z.string(), name: z.string() })).min(1),
+});
+
+describe('extractJson', () => {
+  it('accepts bare, fenced and prose-wrapped JSON', () => {
+    expect(extractJson('{"a":1}')).toEqual({ a: 1 });
+    expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('```\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here is the spec:\n{"a":1}\nLet me know!')).toEqual({ a: 1 });
+  });
+
+  it('reports invalid JSON as an output validation error', () => {
+    expect(() => extractJson('{"a":')).toThrow(AgentValidationError);
+
+    try {
+      extractJson('not json');
+    } catch (error: any) {
+      expect(error.stage).toBe('output');
+      expect(error.issues[0].code).toBe('invalid_json');
+    }
+  });
+});
+
+describe('validateAgentSchema', () => {
+  it('returns the parsed value when valid', () => {
+    const value = { routes: [{ path: '/', name: 'Home' }] };
+    expect(validateAgentSchema(RouteSchema, value, 'output')).toEqual(value);
+  });
+
+  it('lists every issue with its path', () => {
+    try {
+      validateAgentSchema(RouteSchema, { routes: [{ path: 1 }] }, 'input');
+      expect.unreachable();
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(AgentValidationError);
+      expect(error.toJSON()).toMatchObject({
+        type: 'validation',
+        stage: 'input',
+        issues: [
+          { path: 'routes.0.path', code: 'invalid_type' },
+          { path: 'routes.0.name', code: 'invalid_type' },
+        ],
+      });
+      expect(error.message).toContain('routes.0.path');
+    }
+  });
+
+  it('sends the issues back to the model in the repair prompt', () => {
+    const prompt = buildRepairPrompt([
+      { path: 'routes', code: 'too_small', message: 'Array must contain at least 1 element(s)' },
+      { path: '', code: 'invalid_json', message: 'Response is not valid JSON' },
+    ]);
+
+    expect(prompt).toContain('- routes: Array must contain at least 1 element(s)');
+    expect(prompt).toContain('- (root): Response is not valid JSON');
+  });
+});
@@ -0,0 +1,138 @@
+// packages/agents/__tests__/stream-reader.test.ts
+/**
+ * Stream Reader Tests
+ *
+ * Covers serving several stream subscribers from one blocking read and fanning
+ * messages out by cursor. The Redis connection is an in-memory fake.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StreamReader, type StreamMessage } from '../shared/redis-client';
+
+/**
+ * Connection fake answering XREAD from in-memory streams
+ */
+function createFakeConnection() {
+  const streams = new Map<string, Array<[string, string[]]>>();
+  const reads: string[][] = [];
+  let nextId = 1;
+
+  const connection: any = {
+    xread: async (...args: Array<string | number>) => {
+      const keys = args.slice(args.indexOf('STREAMS') + 1).map(String);
+      const half = keys.length / 2;
+      reads.push(keys.slice(0, half));
+
+      const result: Array<[string, Array<[string, string[]]>]> = [];
+      for (let i = 0; i < half; i++) {
+        const after = Number(keys[half + i]!.split('-')[0]);
+        const messages = (streams.get(keys[i]!) || []).filter(
+          ([id]) => Number(id.split('-')[0]) > after
+        );
+        if (messages.length > 0) {
+          result.push([keys[i]!, messages]);
+        }
+      }
+
+      if (result.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return null;
+      }
+      return result;
+    },
+  };
+
+  return {
+    connection,
+    reads,
+    add: (key: string, value: string) => {
+      const id = `${nextId++}-0`;
+      streams.set(key, [...(streams.get(key) || []), [id, ['value', value]]]);
+      return id;
+    },
+  };
+}
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('StreamReader', () => {
+  it('serves every subscriber from one read and fans out by cursor', async () => {
+    const fake = createFakeConnection();
+    const reader = new StreamReader(() => fake.connection, { blockMs: 5 });
+
+    const first = fake.add('a', 'old');
+    const received: Record<string, string[]> = { early: [], late: [], other: [] };
+    const collect = (name: string) => async (message: StreamMessage) => {
+      received[name]!.push(message.data.value!);
+    };
+
+    const stops = [
+      reader.subscribe('a', '0', collect('early')),
+      reader.subscribe('a', first, collect('late')),
+      reader.subscribe('b', '0', collect('other')),
+    ];
+
+    fake.add('a', 'new');
+    fake.add('b', 'b1');
+
+    await waitFor(() => received.early!.length === 2 && received.other!.length === 1);
+    await waitFor(() => received.late!.length === 1);
+
+    expect(received).toEqual({ early: ['old', 'new'], late: ['new'], other: ['b1'] });
+    // Both subscribers of "a" share its read
+    expect(fake.reads.every((keys) => keys.length === new Set(keys).size)).toBe(true);
+
+    stops.forEach((stop) => stop());
+    expect(reader.getSubscriptionCount()).toBe(0);
+  });
+
+  it('keeps delivering to others while a handler is slow', async () => {
+    const fake = createFakeConnection();
+    const reader = new StreamReader(() => fake.connection, { blockMs: 5 });
+
+    let release = () => {};
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const slow: string[] = [];
+    const fast: string[] = [];
+
+    const stopSlow = reader.subscribe('a', '0', async (message) => {
+      await blocked;
+      slow.push(message.data.value!);
+    });
+    const stopFast = reader.subscribe('a', '0', async (message) => {
+      fast.push(message.data.value!);
+    });
+
+    fake.add('a', '1');
+    fake.add('a', '2');
+
+    await waitFor(() => fast.length === 2);
+    expect(slow).toEqual([]);
+
+    release();
+    await waitFor(() => slow.length === 2);
+    expect(slow).toEqual(['1', '2']);
+
+    stopSlow();
+    stopFast();
+  });
+
+  it('stops reading once nobody is subscribed', async () => {
+    const fake = createFakeConnection();
+    const reader = new StreamReader(() => fake.connection, { blockMs: 5 });
+
+    const stop = reader.subscribe('a', '0', async () => {});
+    await waitFor(() => fake.reads.length > 0);
+    stop();
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const reads = fake.reads.length;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(fake.reads.length).toBe(reads);
+  });
+});
@@ -0,0 +1,183 @@
+// packages/agents/__tests__/validation.test.ts
+/**
+ * Workflow Validation Tests
+ *
+ * Covers which findings make a workflow invalid and which only warn, the stage
+ * plan and DOT graph returned for a sound workflow, and the cost estimate being
+ * dropped when the graph or the models can't be resolved. Agents are fakes
+ * registered in the registry.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { validateWorkflow } from '../orchestrator/validation';
+import { getRegistry } from '../orchestrator/registry';
+import { registerLLMProvider } from '../shared/llm-provider';
+import { createMockLLMProvider } from '../shared/mock-llm-provider';
+
+function fakeAgent(role: string, manifest: Record<string, any> = {}): any {
+  const full = {
+    role,
+    layer: 'DESIGN',
+    name: role,
+    description: `Fake ${role}`,
+    version: '1.0.0',
+    requiredEnvVars: [],
+    mcpServers: [],
+    ...manifest,
+  };
+  return { manifest: full, getManifest: () => full };
+}
+
+function workflow(steps: any[], config: Record<string, any> = {}): any {
+  return { id: 'workflow', name: 'Design', type: 'website_generation', version: '1.0.0', steps, config };
+}
+
+const agentStep = (agentRole: string, step: Record<string, any> = {}) => ({
+  id: agentRole.toLowerCase(),
+  name: agentRole,
+  type: 'agent',
+  agentRole,
+  ...step,
+});
+
+/**
+ * Options with every environment check satisfied
+ */
+const satisfied = { env: {}, availableMCPServers: [] };
+
+beforeEach(() => {
+  const registry = getRegistry();
+  registry.clear();
+  registry.register(fakeAgent('BUSINESS_REQUIREMENTS'));
+  registry.register(fakeAgent('COLOR_PALETTE', { dependencies: ['BUSINESS_REQUIREMENTS'] }));
+  registry.register(fakeAgent('TYPOGRAPHY', { dependencies: ['BUSINESS_REQUIREMENTS'] }));
+});
+
+describe('validateWorkflow', () => {
+  it('plans a sound workflow in stages and draws it', () => {
+    const result = validateWorkflow(
+      workflow([agentStep('BUSINESS_REQUIREMENTS'), agentStep('COLOR_PALETTE'), agentStep('TYPOGRAPHY')]),
+      satisfied
+    );
+
+    expect(result).toMatchObject({ valid: true, errors: [], warnings: [] });
+    expect(result.plan!.stages).toEqual([
+      { stage: 0, agents: ['BUSINESS_REQUIREMENTS'], parallelizable: false },
+      { stage: 1, agents: ['COLOR_PALETTE', 'TYPOGRAPHY'], parallelizable: true },
+    ]);
+    expect(result.dot).toContain('"BUSINESS_REQUIREMENTS" -> "COLOR_PALETTE";');
+    expect(result.dot).toContain('"BUSINESS_REQUIREMENTS" -> "TYPOGRAPHY";');
+    expect(result.estimatedCost!.maxTotal).toBeGreaterThan(0);
+  });
+
+  it('fails on missing env vars and MCP servers unless asked only to warn', () => {
+    getRegistry().register(
+      fakeAgent('BUSINESS_REQUIREMENTS', { requiredEnvVars: ['SERP_API_KEY'], mcpServers: ['brave-search'] })
+    );
+    const definition = workflow([agentStep('BUSINESS_REQUIREMENTS')]);
+
+    const strict = validateWorkflow(definition, satisfied);
+    expect(strict.valid).toBe(false);
+    expect(strict.errors.map((issue) => issue.code)).toEqual(['missing_env_var', 'missing_mcp_server']);
+    // Environment findings don't stop the plan
+    expect(strict.plan).not.toBeNull();
+
+    const lenient = validateWorkflow(definition, { ...satisfied, environmentSeverity: 'warning' });
+    expect(lenient.valid).toBe(true);
+    expect(lenient.warnings.map((issue) => issue.code)).toEqual(['missing_env_var', 'missing_mcp_server']);
+
+    const configured = validateWorkflow(definition, {
+      env: { SERP_API_KEY: 'key' },
+      availableMCPServers: ['brave-search'],
+    });
+    expect(configured).toMatchObject({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('warns about fan-out without maxItems', () => {
+    const result = validateWorkflow(
+      workflow([
+        agentStep('BUSINESS_REQUIREMENTS'),
+        agentStep('COLOR_PALETTE', { forEach: { path: 'previousOutputs.BUSINESS_REQUIREMENTS.pages' } }),
+      ]),
+      satisfied
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: 'unbounded_fan_out', role: 'COLOR_PALETTE' }),
+    ]);
+    expect(result.dot).toContain('shape=box3d');
+  });
+
+  it('returns no plan for a graph that does not hold together', () => {
+    getRegistry().register(fakeAgent('TYPOGRAPHY', { dependencies: ['FONT_PAIRING'] }));
+
+    const result = validateWorkflow(
+      workflow([agentStep('BUSINESS_REQUIREMENTS'), agentStep('TYPOGRAPHY'), agentStep('SEO_STRATEGY')]),
+      satisfied
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((issue) => issue.code)).toEqual([
+      'missing_dependency',
+      'unregistered_agent',
+      'invalid_graph',
+    ]);
+    expect(result).toMatchObject({ plan: null, dot: null, estimatedCost: null });
+  });
+
+  it('rejects pinned versions that are not registered', () => {
+    const result = validateWorkflow(
+      workflow([agentStep('BUSINESS_REQUIREMENTS')], { agentVersions: { BUSINESS_REQUIREMENTS: '2.0.0' } }),
+      satisfied
+    );
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ code: 'unregistered_agent_version', role: 'BUSINESS_REQUIREMENTS' }),
+    ]);
+  });
+
+  it('rejects input mappings that do not resolve', () => {
+    getRegistry().register(
+      fakeAgent('BUSINESS_REQUIREMENTS', { outputSchema: z.object({ brand: z.object({ name: z.string() }) }) })
+    );
+
+    const result = validateWorkflow(
+      workflow([
+        agentStep('BUSINESS_REQUIREMENTS'),
+        agentStep('COLOR_PALETTE', {
+          inputs: { brandColors: { from: 'BUSINESS_REQUIREMENTS', path: 'brand.colors' } },
+        }),
+      ]),
+      satisfied
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      {
+        severity: 'error',
+        code: 'invalid_input_mapping',
+        message: 'COLOR_PALETTE.brandColors: BUSINESS_REQUIREMENTS outputSchema has no field at "brand.colors"',
+      },
+    ]);
+  });
+
+  it('fails when the provider agents run on has no model to use', () => {
+    const answers = createMockLLMProvider();
+    registerLLMProvider({
+      name: 'no-default-model',
+      createMessage: (params, signal) => answers.createMessage(params, signal),
+      streamMessage: (params, onChunk, signal) => answers.streamMessage(params, onChunk, signal),
+    });
+
+    const result = validateWorkflow(workflow([agentStep('BUSINESS_REQUIREMENTS')]), {
+      ...satisfied,
+      llm: { provider: 'no-default-model' },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((issue) => issue.code)).toEqual(['unresolved_model']);
+    expect(result.estimatedCost).toBeNull();
+  });
+});
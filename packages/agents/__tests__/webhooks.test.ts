@@ -0,0 +1,375 @@
+// packages/agents/__tests__/webhooks.test.ts
+/**
+ * Webhook Tests
+ *
+ * Covers delivery signing, retry backoff, the Slack/Discord preset formats, URL
+ * checks, connecting to checked addresses only, and the dispatcher's delivery
+ * lifecycle against an in-memory Prisma fake.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_FORMATTERS,
+  assertPublicWebhookUrl,
+  createPinnedLookup,
+  createWebhookDispatcher,
+  getWebhookRetryDelay,
+  isInternalAddress,
+  matchesEventFilter,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type WebhookEvent,
+} from '../shared/webhooks';
+
+const event: WebhookEvent = {
+  id: 'wf_1:7',
+  type: 'agent.failed',
+  tenantId: 'tenant_1',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  workflowExecutionId: 'wf_1',
+  agentRole: 'PLANNER',
+  agentExecutionId: 'ae_1',
+  data: { error: 'Rate limited' },
+};
+
+describe('Webhook signing', () => {
+  it('verifies its own signature and rejects a tampered body', () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signWebhookPayload('whsec_test', timestamp, '{"a":1}');
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('whsec_test', timestamp, '{"a":1}', signature)).toBe(true);
+    expect(verifyWebhookSignature('whsec_test', timestamp, '{"a":2}', signature)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', timestamp, '{"a":1}', signature)).toBe(false);
+  });
+
+  it('rejects stale timestamps', () => {
+    const timestamp = Math.floor(Date.now() / 1000) - 600;
+    const signature = signWebhookPayload('whsec_test', timestamp, '{}');
+
+    expect(verifyWebhookSignature('whsec_test', timestamp, '{}', signature)).toBe(false);
+  });
+});
+
+describe('Webhook delivery', () => {
+  it('backs off exponentially up to an hour', () => {
+    expect(getWebhookRetryDelay(1)).toBe(30000);
+    expect(getWebhookRetryDelay(2)).toBe(60000);
+    expect(getWebhookRetryDelay(4)).toBe(240000);
+    expect(getWebhookRetryDelay(20)).toBe(3600000);
+  });
+
+  it('treats an empty event filter as all events', () => {
+    expect(matchesEventFilter([], 'workflow.completed')).toBe(true);
+    expect(matchesEventFilter(['agent.failed'], 'agent.failed')).toBe(true);
+    expect(matchesEventFilter(['agent.failed'], 'workflow.completed')).toBe(false);
+  });
+});
+
+describe('Webhook formatters', () => {
+  it('sends the raw event to generic endpoints', () => {
+    expect(WEBHOOK_FORMATTERS.GENERIC(event)).toEqual(event);
+  });
+
+  it('formats Slack and Discord messages', () => {
+    expect(WEBHOOK_FORMATTERS.SLACK(event)).toEqual({
+      text: '*Agent PLANNER failed*\nWorkflow: wf_1\nError: Rate limited',
+    });
+
+    const discord = WEBHOOK_FORMATTERS.DISCORD(event);
+    expect(discord.embeds[0]).toMatchObject({
+      title: 'Agent PLANNER failed',
+      description: 'Workflow: wf_1\nError: Rate limited',
+      timestamp: event.timestamp,
+    });
+  });
+});
+
+describe('Webhook URL checks', () => {
+  const resolveTo =
+    (...addresses: string[]) =>
+    async () =>
+      addresses;
+
+  it('recognizes internal addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      expect(isInternalAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111']) {
+      expect(isInternalAddress(address)).toBe(false);
+    }
+  });
+
+  it('accepts https hosts resolving to public addresses only', async () => {
+    await expect(
+      assertPublicWebhookUrl('https://hooks.example.com/x', resolveTo('93.184.216.34'))
+    ).resolves.toEqual(['93.184.216.34']);
+
+    await expect(
+      assertPublicWebhookUrl('http://hooks.example.com/x', resolveTo('93.184.216.34'))
+    ).rejects.toThrow('https');
+    await expect(assertPublicWebhookUrl('https://127.0.0.1/x', resolveTo())).rejects.toThrow(
+      'internal'
+    );
+    await expect(assertPublicWebhookUrl('https://[::1]/x', resolveTo())).rejects.toThrow(
+      'internal'
+    );
+    await expect(
+      assertPublicWebhookUrl('https://hooks.example.com/x', resolveTo('93.184.216.34', '10.0.0.5'))
+    ).rejects.toThrow('internal');
+  });
+
+  it('answers lookups with the checked addresses whatever the host resolves to now', () => {
+    const lookup = createPinnedLookup(['93.184.216.34', '2606:4700::1111']);
+    const answers: any[] = [];
+
+    lookup('hooks.example.com', { all: true }, (_error, addresses) => answers.push(addresses));
+    lookup('hooks.example.com', {}, (_error, address, family) => answers.push([address, family]));
+
+    expect(answers).toEqual([
+      [
+        { address: '93.184.216.34', family: 4 },
+        { address: '2606:4700::1111', family: 6 },
+      ],
+      ['93.184.216.34', 4],
+    ]);
+  });
+});
+
+/**
+ * Prisma fake holding webhook endpoints and deliveries in memory
+ */
+function createFakePrisma(endpoints: any[]) {
+  const deliveries = new Map<string, any>();
+  let nextId = 1;
+
+  const prisma: any = {
+    webhookEndpoint: {
+      findMany: async ({ where }: any) =>
+        endpoints.filter(
+          (endpoint) => endpoint.tenantId === where.tenantId && endpoint.enabled === where.enabled
+        ),
+    },
+    webhookDelivery: {
+      create: async ({ data }: any) => {
+        const delivery = {
+          id: `dlv_${nextId++}`,
+          status: 'PENDING',
+          attempts: 0,
+          responseStatus: null,
+          responseBody: null,
+          error: null,
+          redeliveryOf: null,
+          ...data,
+        };
+        deliveries.set(delivery.id, delivery);
+        return { ...delivery };
+      },
+      findUnique: async ({ where }: any) => {
+        const delivery = deliveries.get(where.id);
+        return (
+          delivery && {
+            ...delivery,
+            endpoint: endpoints.find((endpoint) => endpoint.id === delivery.endpointId),
+          }
+        );
+      },
+      findFirst: async ({ where }: any) => {
+        const delivery = deliveries.get(where.id);
+        return delivery?.tenantId === where.tenantId ? { ...delivery } : null;
+      },
+      updateMany: async ({ where, data }: any) => {
+        const delivery = deliveries.get(where.id);
+        if (!delivery || delivery.status !== where.status || delivery.attempts !== where.attempts) {
+          return { count: 0 };
+        }
+        Object.assign(delivery, data, { attempts: delivery.attempts + data.attempts.increment });
+        return { count: 1 };
+      },
+      update: async ({ where, data }: any) => {
+        const delivery = deliveries.get(where.id);
+        Object.assign(delivery, data);
+        return { ...delivery };
+      },
+    },
+  };
+
+  return { prisma, deliveries };
+}
+
+const endpoint = (overrides: Record<string, any> = {}) => ({
+  id: 'ep_1',
+  tenantId: 'tenant_1',
+  name: 'Ops',
+  url: 'https://hooks.example.com/ops',
+  secret: 'whsec_test',
+  format: 'GENERIC',
+  eventTypes: [],
+  enabled: true,
+  ...overrides,
+});
+
+const resolveHost = async () => ['93.184.216.34'];
+
+const respond = (status: number, body = '') => vi.fn(async () => new Response(body, { status }));
+
+describe('WebhookDispatcher', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('creates a delivery per matching endpoint and sends it', async () => {
+    const fetch = respond(200, 'ok');
+    vi.stubGlobal('fetch', fetch);
+
+    const { prisma, deliveries } = createFakePrisma([
+      endpoint(),
+      endpoint({ id: 'ep_2', eventTypes: ['workflow.completed'] }),
+      endpoint({ id: 'ep_3', tenantId: 'tenant_2' }),
+    ]);
+    const dispatcher = createWebhookDispatcher(prisma, { resolveHost });
+
+    expect(
+      await dispatcher.dispatch({ type: 'workflow.paused' as any, tenantId: 'tenant_1', data: {} })
+    ).toEqual([]);
+
+    const created = await dispatcher.dispatch({
+      type: 'agent.failed',
+      tenantId: 'tenant_1',
+      workflowExecutionId: 'wf_1',
+      data: { error: 'boom' },
+    });
+
+    expect(created.map((delivery) => delivery.endpointId)).toEqual(['ep_1']);
+    expect(created[0]!.payload).toMatchObject({
+      type: 'agent.failed',
+      workflowExecutionId: 'wf_1',
+    });
+
+    await vi.waitFor(() => expect(deliveries.get(created[0]!.id)!.status).toBe('SUCCEEDED'));
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    const [url, init] = fetch.mock.calls[0] as any;
+    expect(url).toBe('https://hooks.example.com/ops');
+    expect(init.redirect).toBe('manual');
+    // Connects through a dispatcher pinned to the checked address
+    expect(init.dispatcher).toBeDefined();
+    expect(init.headers['X-Webhook-Delivery']).toBe(created[0]!.id);
+  });
+
+  it('sends a delivery once when the inline attempt and the retrier race', async () => {
+    const fetch = respond(200);
+    vi.stubGlobal('fetch', fetch);
+
+    const { prisma, deliveries } = createFakePrisma([endpoint()]);
+    const dispatcher = createWebhookDispatcher(prisma, { resolveHost });
+    const delivery = await prisma.webhookDelivery.create({
+      data: { tenantId: 'tenant_1', endpointId: 'ep_1', eventType: 'agent.failed', payload: {} },
+    });
+
+    await Promise.all([dispatcher.deliver(delivery.id), dispatcher.deliver(delivery.id)]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(deliveries.get(delivery.id)).toMatchObject({ status: 'SUCCEEDED', attempts: 1 });
+  });
+
+  it('retries server errors with backoff and fails after the last attempt', async () => {
+    vi.stubGlobal('fetch', respond(503));
+
+    const { prisma, deliveries } = createFakePrisma([endpoint()]);
+    const dispatcher = createWebhookDispatcher(prisma, { resolveHost });
+    const { id } = await prisma.webhookDelivery.create({
+      data: { tenantId: 'tenant_1', endpointId: 'ep_1', eventType: 'agent.failed', payload: {} },
+    });
+
+    const first = await dispatcher.deliver(id);
+    expect(first).toMatchObject({ status: 'RETRYING', attempts: 1, responseStatus: 503 });
+    expect(first.nextAttemptAt!.getTime()).toBeGreaterThan(
+      Date.now() + getWebhookRetryDelay(1) - 1000
+    );
+
+    for (let attempt = 2; attempt <= MAX_WEBHOOK_ATTEMPTS; attempt++) {
+      await dispatcher.deliver(id);
+    }
+
+    expect(deliveries.get(id)).toMatchObject({
+      status: 'FAILED',
+      attempts: MAX_WEBHOOK_ATTEMPTS,
+      nextAttemptAt: null,
+    });
+    expect((await dispatcher.deliver(id)).attempts).toBe(MAX_WEBHOOK_ATTEMPTS);
+  });
+
+  it('fails client errors and redirects without retrying', async () => {
+    const { prisma } = createFakePrisma([endpoint()]);
+    const dispatcher = createWebhookDispatcher(prisma, { resolveHost });
+
+    for (const status of [400, 302]) {
+      vi.stubGlobal('fetch', respond(status));
+      const { id } = await prisma.webhookDelivery.create({
+        data: { tenantId: 'tenant_1', endpointId: 'ep_1', eventType: 'agent.failed', payload: {} },
+      });
+
+      expect(await dispatcher.deliver(id)).toMatchObject({
+        status: 'FAILED',
+        responseStatus: status,
+      });
+    }
+  });
+
+  it('never contacts an endpoint that resolves to an internal address', async () => {
+    const fetch = respond(200, 'secret');
+    vi.stubGlobal('fetch', fetch);
+
+    const { prisma } = createFakePrisma([endpoint()]);
+    const dispatcher = createWebhookDispatcher(prisma, {
+      resolveHost: async () => ['169.254.169.254'],
+    });
+    const { id } = await prisma.webhookDelivery.create({
+      data: { tenantId: 'tenant_1', endpointId: 'ep_1', eventType: 'agent.failed', payload: {} },
+    });
+
+    const delivery = await dispatcher.deliver(id);
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(delivery).toMatchObject({ status: 'FAILED', responseBody: null, nextAttemptAt: null });
+    expect(delivery.error).toContain('internal address');
+  });
+
+  it('redelivers an event as a new delivery of the same tenant', async () => {
+    vi.stubGlobal('fetch', respond(200));
+
+    const { prisma } = createFakePrisma([endpoint()]);
+    const dispatcher = createWebhookDispatcher(prisma, { resolveHost });
+    const original = await prisma.webhookDelivery.create({
+      data: {
+        tenantId: 'tenant_1',
+        endpointId: 'ep_1',
+        eventType: 'agent.failed',
+        payload: { id: 'evt_1' },
+      },
+    });
+
+    const redelivery = await dispatcher.redeliver('tenant_1', original.id);
+
+    expect(redelivery).toMatchObject({
+      status: 'SUCCEEDED',
+      redeliveryOf: original.id,
+      payload: { id: 'evt_1' },
+    });
+    expect(redelivery.id).not.toBe(original.id);
+    await expect(dispatcher.redeliver('tenant_2', original.id)).rejects.toThrow('not found');
+  });
+});
@@ -104,7 +104,6 @@ For each component:
     super(context, {
       enableMCP: true,
       mcpServers: ['filesystem', 'memory'],
-      model: 'claude-3-5-sonnet-20241022',
       temperature: 0.4,
       maxTokens: 8000,
     });
@@ -134,13 +133,14 @@ For each component:
 
     // Build prompt for component generation
     const systemPrompt = this.buildSystemPrompt(designSpec);
-    const userPrompt = this.buildUserPrompt(input.componentSpec, designSpec);
+    const requirementsPrompt = this.buildRequirementsPrompt(designSpec);
+    const userPrompt = this.buildUserPrompt(input.componentSpec);
 
     await this.logProgress('Generating component code...', 50);
 
-    // Call Claude to generate the component
+    // Call Claude to generate the component (the design requirements are cached across components)
     const response = await this.sendMessageWithTools(
-      [{ role: 'user', content: userPrompt }],
+      [{ role: 'user', content: [this.cacheable(requirementsPrompt), { type: 'text', text: userPrompt }] }],
       systemPrompt
     );
 
@@ -163,7 +163,7 @@ For each component:
       success: true,
       output: componentFiles,
       tokensUsed: response.usage.inputTokens + response.usage.outputTokens,
-      cost: this.calculateCost(response.usage),
+      cost: this.getUsageCost(),
       artifacts,
     };
   }
@@ -223,19 +223,10 @@ Return a JSON object with this structure:
   }
 
   /**
-   * Build user prompt for component generation
+   * Build the component requirements shared by every component of the design system
    */
-  private buildUserPrompt(componentSpec: any, designSpec: DesignSpec): string {
-    return `Generate a production-ready React component with the following specifications:
-
-## Component Details
-- **ID**: ${componentSpec.id}
-- **Type**: ${componentSpec.type}
-- **Variants**: ${componentSpec.variants.join(', ')}
-- **Props**: ${JSON.stringify(componentSpec.props, null, 2)}
-${componentSpec.slots ? `- **Slots**: ${componentSpec.slots.join(', ')}` : ''}
-
-## Requirements
+  private buildRequirementsPrompt(designSpec: DesignSpec): string {
+    return `## Requirements
 
 ### 1. TypeScript Interface
 Create a comprehensive prop interface with:
@@ -303,8 +294,23 @@ interface ServiceGridProps {
   columns?: 2 | 3 | 4;
 }
 \`\`\`
+`;
+  }
 
-Generate the complete component following these specifications.
+  /**
+   * Build user prompt for component generation
+   */
+  private buildUserPrompt(componentSpec: any): string {
+    return `Generate a production-ready React component with the following specifications:
+
+## Component Details
+- **ID**: ${componentSpec.id}
+- **Type**: ${componentSpec.type}
+- **Variants**: ${componentSpec.variants.join(', ')}
+- **Props**: ${JSON.stringify(componentSpec.props, null, 2)}
+${componentSpec.slots ? `- **Slots**: ${componentSpec.slots.join(', ')}` : ''}
+
+Follow the requirements above.
 Return ONLY the JSON object with the component files.`;
   }
 
@@ -412,15 +418,6 @@ Return ONLY the JSON object with the component files.`;
 
     return artifacts;
   }
-
-  /**
-   * Calculate cost based on token usage
-   */
-  private calculateCost(usage: { inputTokens: number; outputTokens: number }): number {
-    const INPUT_COST_PER_1K = 0.003;
-    const OUTPUT_COST_PER_1K = 0.015;
-    return (usage.inputTokens / 1000) * INPUT_COST_PER_1K + (usage.outputTokens / 1000) * OUTPUT_COST_PER_1K;
-  }
 }
 
 // Export factory function
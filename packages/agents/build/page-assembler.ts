@@ -1,5 +1,6 @@
 // packages/agents/build/page-assembler.ts
-import { BaseAgent, ExtendedAgentContext } from '../shared/base-agent';
+import { BaseAgent, ExtendedAgentContext, type SystemPrompt } from '../shared/base-agent';
+import type { RefinementEnvelope } from '../shared/refinement-envelope';
 import { AgentManifest, AgentResult, AgentRole, AgentLayer } from '@business-automation/schema';
 import { PageFilesSchema, type PageFiles, type SiteSpec, type DesignSpec, type IAPlan } from '@business-automation/schema';
 import { z } from 'zod';
@@ -121,7 +122,6 @@ Component Composition:
     super(context, {
       enableMCP: true,
       mcpServers: ['filesystem', 'memory'],
-      model: 'claude-3-5-sonnet-20241022',
       temperature: 0.3,
       maxTokens: 10000,
     });
@@ -142,6 +142,10 @@ Component Composition:
     // Validate input
     PageAssemblerInputSchema.parse(input);
 
+    // On refinement iterations, revise the page this route produced last time
+    const refinement = this.getRefinement(input);
+    const previousPage = refinement ? this.findPreviousPage(refinement.previousOutput, input.route.path) : undefined;
+
     await this.logProgress('Loading specifications...', 10);
 
     // Load design and IA specs
@@ -152,7 +156,13 @@ Component Composition:
 
     // Build prompt for page generation
     const systemPrompt = this.buildSystemPrompt(input.route, iaPlan);
-    const userPrompt = this.buildUserPrompt(input.route, designSpec, iaPlan, input.availableComponents);
+    let userPrompt = this.buildUserPrompt(input.route, designSpec, iaPlan, input.availableComponents);
+    if (refinement) {
+      userPrompt += `\n\n${this.buildRefinementPrompt(
+        { ...refinement, findings: this.findingsForRoute(refinement.findings, input.route.path, previousPage) },
+        previousPage
+      )}`;
+    }
 
     await this.logProgress('Generating page files...', 50);
 
@@ -165,7 +175,7 @@ Component Composition:
     await this.logProgress('Parsing and validating page...', 75);
 
     // Parse page files from response
-    const pageFiles = await this.parsePageFiles(response.text, input.route);
+    const pageFiles = this.withRevision(await this.parsePageFiles(response.text, input.route), refinement, previousPage);
 
     // Validate output
     await this.validatePageFiles(pageFiles);
@@ -181,11 +191,36 @@ Component Composition:
       success: true,
       output: pageFiles,
       tokensUsed: response.usage.inputTokens + response.usage.outputTokens,
-      cost: this.calculateCost(response.usage),
+      cost: this.getUsageCost(),
       artifacts,
     };
   }
 
+  /**
+   * Pick this route's page from the previous output (an array when pages fanned out)
+   */
+  private findPreviousPage(previousOutput: any, routePath: string): PageFiles | undefined {
+    const pages: PageFiles[] = Array.isArray(previousOutput) ? previousOutput : previousOutput ? [previousOutput] : [];
+    return pages.find((page) => page?.route === routePath);
+  }
+
+  /**
+   * Keep the findings located in this route or one of its previous files
+   */
+  private findingsForRoute(
+    findings: RefinementEnvelope['findings'],
+    routePath: string,
+    previousPage?: PageFiles
+  ): RefinementEnvelope['findings'] {
+    const paths = new Set(previousPage?.files.map((file) => file.path) || []);
+
+    return findings.filter(
+      (finding) =>
+        finding.location.route === routePath ||
+        (finding.location.file && Array.from(paths).some((path) => finding.location.file!.endsWith(path)))
+    );
+  }
+
   /**
    * Load specification from storage
    */
@@ -201,15 +236,19 @@ Component Composition:
 
   /**
    * Build system prompt with page context
+   *
+   * The site-wide part is cached across the pages of the site; the page context follows it.
    */
-  private buildSystemPrompt(route: any, iaPlan: IAPlan): string {
+  private buildSystemPrompt(route: any, iaPlan: IAPlan): SystemPrompt {
     // Find navigation context for this route
     const navItem = iaPlan.navigation.primary.find(item => item.route === route.path);
     const internalLinks = iaPlan.internalLinks.filter(link => link.fromRoute === route.path);
 
-    return `${PageAssemblerAgent.manifest.systemPrompt}
+    const siteContext = `${PageAssemblerAgent.manifest.systemPrompt}
+
+Breadcrumbs: ${iaPlan.navigation.breadcrumbs ? 'Enabled' : 'Disabled'}`;
 
-Page Context:
+    const pageContext = `Page Context:
 - Route: ${route.path}
 - Name: ${route.name}
 - Purpose: ${route.purpose}
@@ -221,8 +260,6 @@ Navigation Context:
 - Has Children: ${navItem?.children ? 'Yes' : 'No'}
 - Internal Links: ${internalLinks.length} links to other pages
 
-Breadcrumbs: ${iaPlan.navigation.breadcrumbs ? 'Enabled' : 'Disabled'}
-
 Output Format:
 Return a JSON object with this structure:
 {
@@ -244,6 +281,8 @@ Return a JSON object with this structure:
     }
   ]
 }`;
+
+    return [this.cacheable(siteContext), { type: 'text', text: pageContext }];
   }
 
   /**
@@ -487,15 +526,6 @@ Return ONLY the JSON object with the page files.`;
 
     return artifacts;
   }
-
-  /**
-   * Calculate cost based on token usage
-   */
-  private calculateCost(usage: { inputTokens: number; outputTokens: number }): number {
-    const INPUT_COST_PER_1K = 0.003;
-    const OUTPUT_COST_PER_1K = 0.015;
-    return (usage.inputTokens / 1000) * INPUT_COST_PER_1K + (usage.outputTokens / 1000) * OUTPUT_COST_PER_1K;
-  }
 }
 
 // Export factory function
@@ -1,5 +1,6 @@
 // packages/agents/build/scaffolder.ts
 import { BaseAgent, ExtendedAgentContext } from '../shared/base-agent';
+import { isStorageEnabled } from '../shared/storage-client';
 import { AgentManifest, AgentResult, AgentRole, AgentLayer } from '@business-automation/schema';
 import { type SiteSpec, type DesignSpec } from '@business-automation/schema';
 import { z } from 'zod';
@@ -99,7 +100,6 @@ Technical Requirements:
     super(context, {
       enableMCP: true,
       mcpServers: ['filesystem'],
-      model: 'claude-3-5-sonnet-20241022',
       temperature: 0.3,
       maxTokens: 12000,
     });
@@ -605,9 +605,12 @@ This project can be deployed to Vercel:
       },
     });
 
-    // Store each generated file
+    // Store each generated file, uploading it when storage is configured
+    const upload = isStorageEnabled();
     for (const file of output.files) {
-      const fileKey = `${this.context.projectId}/build/${file.path}`;
+      const fileKey = upload
+        ? await this.uploadProjectFile(`build/${file.path}`, file.content)
+        : `${this.context.projectId}/build/${file.path}`;
       artifacts.push({
         type: 'generated-file',
         url: fileKey,
@@ -7,17 +7,24 @@
  * Usage:
  *   pnpm agent test planner --project-id=<uuid>
  *   pnpm agent test-workflow website-generator --project-id=<uuid> --profile-id=<uuid>
- *   pnpm agent list
+ *   pnpm agent test-workflow website-generator --replay ./recordings/run.json
+ *   pnpm agent list --plugin-dir ./plugins
  *   pnpm agent info planner
+ *   pnpm agent dry-run <workflow-definition-id>
+ *   pnpm agent dry-run --file ./workflow.json
  */
 
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import ora from 'ora';
 import chalk from 'chalk';
-import { PrismaClient } from '@business-automation/database';
-import { getRegistryStats, getAgentClass } from '../orchestrator/registry';
+import { PrismaClient, type AgentLayer, type AgentRole } from '@business-automation/database';
+import { getRegistry, getRegistryStats, getAgentVersions, describeOrigin } from '../orchestrator/registry';
+import { loadAgentPlugins } from '../orchestrator/plugin-loader';
+import { configureLLMRecording, flushLLMRecording } from '../shared/llm-recorder';
+import { validateWorkflow } from '../orchestrator/validation';
 import {
+  registerAllAgents,
   PlannerAgent,
   IAArchitectAgent,
   BrandInterpreterAgent,
@@ -49,28 +56,43 @@ async function initializeServices() {
   return { prisma };
 }
 
+/**
+ * Register built-in agents, then any plugins from the given directories (or AGENT_PLUGIN_DIRS)
+ */
+async function loadAgents(pluginDirs?: string[]) {
+  registerAllAgents();
+
+  const { errors } = await loadAgentPlugins({ pluginDirs });
+  for (const error of errors) {
+    console.warn(chalk.yellow(`Plugin ${error.plugin} (${error.path}): ${error.error}`));
+  }
+}
+
 /**
  * List all available agents
  */
 program
   .command('list')
   .description('List all registered agents')
-  .action(async () => {
+  .option('-p, --plugin-dir <dirs...>', 'Directories to load agent plugins from')
+  .action(async (options) => {
+    await loadAgents(options.pluginDir);
     const stats = getRegistryStats();
 
     console.log(chalk.bold('\n📋 Registered Agents\n'));
     console.log(`Total: ${chalk.cyan(stats.total)} agents\n`);
 
-    for (const [layer, agents] of Object.entries(stats.byLayer)) {
+    for (const layer of Object.keys(stats.byLayer) as AgentLayer[]) {
       console.log(chalk.bold(`${layer.toUpperCase()} Tier:`));
-      agents.forEach((agentId: string) => {
-        const AgentClass = getAgentClass(agentId);
-        if (AgentClass) {
-          const manifest = (AgentClass as any).manifest;
-          console.log(`  • ${chalk.cyan(agentId)} - ${manifest.name} (${manifest.type})`);
+      getRegistry()
+        .getByLayer(layer)
+        .forEach((entry) => {
+          const { manifest } = entry;
+          const origin =
+            entry.origin.type === 'plugin' ? chalk.magenta(describeOrigin(entry.origin)) : chalk.gray('built-in');
+          console.log(`  • ${chalk.cyan(entry.role)} - ${manifest.name} (${manifest.type}) [${origin}]`);
           console.log(`    ${chalk.gray(manifest.description)}`);
-        }
-      });
+        });
       console.log();
     }
   });
@@ -81,19 +103,30 @@ program
 program
   .command('info <agent-id>')
   .description('Show detailed information about an agent')
-  .action(async (agentId: string) => {
-    const AgentClass = getAgentClass(agentId);
+  .option('-p, --plugin-dir <dirs...>', 'Directories to load agent plugins from')
+  .action(async (agentId: string, options) => {
+    await loadAgents(options.pluginDir);
+    const entry = getRegistry().get(agentId.toUpperCase() as AgentRole);
 
-    if (!AgentClass) {
+    if (!entry) {
       console.error(chalk.red(`Agent '${agentId}' not found`));
       process.exit(1);
     }
 
-    const manifest = (AgentClass as any).manifest;
+    const { manifest } = entry;
 
     console.log(chalk.bold(`\n🤖 ${manifest.name}\n`));
     console.log(`ID: ${chalk.cyan(manifest.id)}`);
     console.log(`Version: ${chalk.cyan(manifest.version)}`);
+
+    const versions = getAgentVersions(entry.role);
+    if (versions.length > 1) {
+      console.log(`Registered Versions: ${versions.map((v) => chalk.cyan(v)).join(', ')}`);
+    }
+    console.log(`Origin: ${chalk.cyan(describeOrigin(entry.origin))}`);
+    if (entry.origin.type === 'plugin') {
+      console.log(`Plugin Path: ${chalk.gray(entry.origin.path)}`);
+    }
     console.log(`Category: ${chalk.cyan(manifest.category)}`);
     console.log(`Tier: ${chalk.cyan(manifest.tier)}`);
     console.log(`Type: ${chalk.cyan(manifest.type)}`);
@@ -146,7 +179,8 @@ program
 
     try {
       // Get agent class
-      const AgentClass = getAgentClass(agentId);
+      await loadAgents();
+      const AgentClass = getRegistry().get(agentId.toUpperCase() as any)?.agentClass;
       if (!AgentClass) {
         spinner.fail(`Agent '${agentId}' not found`);
         process.exit(1);
@@ -219,7 +253,7 @@ program
 
         console.log(chalk.bold('\n📊 Results:\n'));
         console.log(`Tokens Used: ${chalk.cyan(result.tokensUsed)}`);
-        console.log(`Cost: ${chalk.green(`$${result.cost.toFixed(4)}`)}`);
+        console.log(`Cost: ${chalk.green(`$${(result.cost || 0).toFixed(4)}`)}`);
 
         if (result.artifacts && result.artifacts.length > 0) {
           console.log(`\nArtifacts:`);
@@ -255,12 +289,26 @@ program
   .option('-u, --user-id <id>', 'User ID (UUID)')
   .option('--max-pages <number>', 'Maximum pages to generate', '10')
   .option('--max-cost <number>', 'Maximum cost in USD', '50')
+  .option('--record <file>', 'Record every LLM request/response to a file')
+  .option('--replay <file>', 'Serve LLM responses from a recording instead of the API')
   .action(async (workflowName: string, options: any) => {
     if (workflowName !== 'website-generator') {
       console.error(chalk.red(`Workflow '${workflowName}' not supported yet`));
       process.exit(1);
     }
 
+    if (options.record && options.replay) {
+      console.error(chalk.red('Use either --record or --replay, not both'));
+      process.exit(1);
+    }
+
+    if (options.record || options.replay) {
+      await configureLLMRecording({
+        mode: options.record ? 'record' : 'replay',
+        path: options.record || options.replay,
+      });
+    }
+
     const spinner = ora('Initializing website generator workflow...').start();
 
     try {
@@ -474,6 +522,10 @@ program
       console.log(`Total Tokens: ${chalk.cyan(totalTokens)}`);
       console.log(`Total Cost: ${chalk.green(`$${totalCost.toFixed(4)}`)}`);
       console.log(`\nArtifacts stored in: ${chalk.cyan(`/tmp/${projectId}/`)}`);
+      if (options.record) {
+        await flushLLMRecording();
+        console.log(`LLM recording saved to: ${chalk.cyan(options.record)}`);
+      }
       console.log();
 
       await prisma.$disconnect();
@@ -484,6 +536,85 @@ program
     }
   });
 
+/**
+ * Validate a workflow definition and print its execution plan without running it
+ */
+program
+  .command('dry-run [workflow-definition-id]')
+  .description('Validate a workflow and print its stage plan, cost estimate and DAG')
+  .option('-f, --file <path>', 'Read the workflow definition from a JSON file instead of the database')
+  .action(async (workflowDefinitionId: string | undefined, options: any) => {
+    let workflow: any;
+
+    if (options.file) {
+      const fs = require('fs');
+      workflow = JSON.parse(fs.readFileSync(options.file, 'utf-8'));
+    } else if (workflowDefinitionId) {
+      const { prisma } = await initializeServices();
+      workflow = await prisma.workflowDefinition.findUnique({ where: { id: workflowDefinitionId } });
+      await prisma.$disconnect();
+
+      if (!workflow) {
+        console.error(chalk.red(`Workflow definition ${workflowDefinitionId} not found`));
+        process.exit(1);
+      }
+    } else {
+      console.error(chalk.red('Provide a workflow definition ID or --file <path>'));
+      process.exit(1);
+    }
+
+    await loadAgents();
+
+    let result: ReturnType<typeof validateWorkflow>;
+    try {
+      result = validateWorkflow(workflow);
+    } catch (error: any) {
+      console.error(chalk.red(`Failed to build workflow: ${error.message}`));
+      process.exit(1);
+    }
+
+    console.log(chalk.bold(`\n🧪 Dry run: ${workflow.name || workflowDefinitionId || options.file}\n`));
+
+    if (result.plan) {
+      console.log(chalk.bold('Stage Plan:'));
+      for (const stage of result.plan.stages) {
+        const mode = stage.parallelizable ? chalk.gray('parallel') : chalk.gray('sequential');
+        console.log(`  Stage ${stage.stage} (${mode}): ${stage.agents.map((a) => chalk.cyan(a)).join(', ')}`);
+      }
+      console.log(`  Total: ${chalk.cyan(result.plan.totalAgents)} agents\n`);
+    }
+
+    if (result.estimatedCost) {
+      const cost = result.estimatedCost;
+      console.log(chalk.bold('Estimated Cost:'));
+      console.log(`  Model: ${cost.model}`);
+      console.log(`  Per iteration: ${chalk.green(`$${cost.perIteration.toFixed(4)}`)}`);
+      console.log(
+        `  Max (${cost.maxIterations} iterations): ${chalk.green(`$${cost.maxTotal.toFixed(4)}`)}\n`
+      );
+    }
+
+    for (const warning of result.warnings) {
+      console.log(chalk.yellow(`  ⚠ ${warning.message}`));
+    }
+
+    for (const error of result.errors) {
+      console.log(chalk.red(`  ✗ ${error.message}`));
+    }
+
+    if (result.dot) {
+      console.log(chalk.bold('\nDAG (DOT):\n'));
+      console.log(result.dot);
+    }
+
+    if (!result.valid) {
+      console.log(chalk.red(`Workflow is invalid (${result.errors.length} errors)\n`));
+      process.exit(1);
+    }
+
+    console.log(chalk.green('✓ Workflow is valid\n'));
+  });
+
 /**
  * Get agent-specific input via interactive prompts
  */
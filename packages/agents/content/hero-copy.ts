@@ -89,14 +89,18 @@ export class HeroCopyAgent extends BaseAgent {
       maxHeadlineLength = 60,
       includeVariants = true,
     } = input;
+    const refinement = this.getRefinement(input);
 
     await this.logProgress('Analyzing brand messaging...', 10);
 
     // Build system prompt
     const systemPrompt = this.buildSystemPrompt(tone, maxHeadlineLength);
 
-    // Build user message
-    const userMessage = this.buildUserMessage(businessRequirements, includeVariants);
+    // Build user message (revising the previous copy on refinement iterations)
+    let userMessage = this.buildUserMessage(businessRequirements, includeVariants);
+    if (refinement) {
+      userMessage += `\n\n${this.buildRefinementPrompt(refinement)}`;
+    }
 
     // Send to Claude
     await this.logProgress('Generating hero copy...', 30);
@@ -112,7 +116,7 @@ export class HeroCopyAgent extends BaseAgent {
     await this.logProgress('Processing copy variations...', 70);
 
     // Parse response
-    const output = this.parseResponse(response.text);
+    const output = this.withRevision(this.parseResponse(response.text), refinement);
 
     // Save to database
     await this.saveToDatabase(output);
@@ -90,14 +90,18 @@ export class ColorPaletteAgent extends BaseAgent {
    */
   protected async execute(input: any): Promise<AgentResult> {
     const { businessRequirements, brandColors, accessibilityLevel = 'AA' } = input;
+    const refinement = this.getRefinement(input);
 
     await this.logProgress('Analyzing brand attributes...', 10);
 
     // Build system prompt
     const systemPrompt = this.buildSystemPrompt(accessibilityLevel);
 
-    // Build user message
-    const userMessage = this.buildUserMessage(businessRequirements, brandColors);
+    // Build user message (revising the previous palette on refinement iterations)
+    let userMessage = this.buildUserMessage(businessRequirements, brandColors);
+    if (refinement) {
+      userMessage += `\n\n${this.buildRefinementPrompt(refinement)}`;
+    }
 
     // Send to Claude
     await this.logProgress('Generating color palette...', 30);
@@ -113,7 +117,7 @@ export class ColorPaletteAgent extends BaseAgent {
     await this.logProgress('Processing color palette...', 70);
 
     // Parse response
-    const output = this.parseResponse(response.text);
+    const output = this.withRevision(this.parseResponse(response.text), refinement);
 
     // Save to database
     await this.saveToDatabase(output);
@@ -6,8 +6,9 @@
  * through natural conversation.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { ClientProfileSchema } from '@business-automation/schema';
+import { sendClaudeMessage, type ClaudeMessageOptions } from '../shared/claude-client';
+import { getDefaultLLMModel, getDefaultLLMProvider, type LLMSelection } from '../shared/llm-provider';
 
 /**
  * Message in conversation history
@@ -32,13 +33,12 @@ export interface DiscoveryChatResult {
  * Handles conversational schema collection
  */
 export class DiscoveryChatAgent {
-  private anthropic: Anthropic;
-  private model = 'claude-3-5-sonnet-20241022';
+  private provider: string;
+  private model: string;
 
-  constructor(apiKey?: string) {
-    this.anthropic = new Anthropic({
-      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
-    });
+  constructor(llm: LLMSelection = {}) {
+    this.provider = llm.provider || getDefaultLLMProvider();
+    this.model = llm.model || getDefaultLLMModel(this.provider);
   }
 
   /**
@@ -51,25 +51,22 @@ export class DiscoveryChatAgent {
     // Build system prompt with schema context
     const systemPrompt = this.buildSystemPrompt(existingData);
 
-    // Convert messages to Anthropic format
-    const anthropicMessages: Anthropic.MessageParam[] = messages.map((msg) => ({
+    // Drop timestamps for the LLM
+    const conversation: ClaudeMessageOptions['messages'] = messages.map((msg) => ({
       role: msg.role,
       content: msg.content,
     }));
 
     // Call Claude
-    const response = await this.anthropic.messages.create({
+    const { text: responseText } = await sendClaudeMessage({
+      provider: this.provider,
       model: this.model,
       max_tokens: 2000,
       temperature: 0.7, // Conversational but focused
       system: systemPrompt,
-      messages: anthropicMessages,
+      messages: conversation,
     });
 
-    const responseText = response.content[0].type === 'text'
-      ? response.content[0].text
-      : '';
-
     // Extract schema data from the conversation
     const extractedData = await this.extractSchemaData(messages, responseText, existingData);
 
@@ -184,7 +181,8 @@ Based on this conversation, extract any NEW information and merge it with the ex
 Only include sections that have NEW data. Merge with existing data. Be specific and extract real values, not placeholders.`;
 
     // Call Claude for extraction
-    const extractionResponse = await this.anthropic.messages.create({
+    const { text: extractedText } = await sendClaudeMessage({
+      provider: this.provider,
       model: this.model,
       max_tokens: 4000,
       temperature: 0.3, // Lower temp for structured extraction
@@ -196,10 +194,6 @@ Only include sections that have NEW data. Merge with existing data. Be specific
       ],
     });
 
-    const extractedText = extractionResponse.content[0].type === 'text'
-      ? extractionResponse.content[0].text
-      : '{}';
-
     // Parse JSON from response
     const jsonMatch = extractedText.match(/```json\n([\s\S]*?)\n```/) || extractedText.match(/\{[\s\S]*\}/);
     const jsonText = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : '{}';
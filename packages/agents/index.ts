@@ -31,7 +31,8 @@ export { ColorPaletteAgent } from './design/color-palette';
 export { HeroCopyAgent } from './content/hero-copy';
 
 // Auto-register all agents
-import { registerAgents } from './orchestrator/registry';
+import { registerAgents, getRegisteredRoles } from './orchestrator/registry';
+import { loadAgentPlugins, type PluginLoaderOptions } from './orchestrator/plugin-loader';
 import { BusinessRequirementsAgent } from './discovery/business-requirements';
 import { ColorPaletteAgent } from './design/color-palette';
 import { HeroCopyAgent } from './content/hero-copy';
@@ -74,23 +75,41 @@ export function registerAllAgents(): void {
   console.log('[Agents] Registered 12 agents (9 production + 3 POC)');
 }
 
+/**
+ * Register built-in agents and plugins unless the registry is already populated
+ *
+ * For processes (like the API) that read the registry without running initializeAgents.
+ */
+export async function ensureAgentsLoaded(plugins?: PluginLoaderOptions): Promise<void> {
+  if (getRegisteredRoles().length > 0) {
+    return;
+  }
+
+  registerAllAgents();
+  await loadAgentPlugins(plugins);
+}
+
 /**
  * Initialize agents package
  *
  * This should be called once at application startup to:
  * 1. Register all agents
- * 2. Initialize Redis connection
- * 3. Initialize storage client
- * 4. Initialize MCP servers
+ * 2. Load third-party agent plugins
+ * 3. Initialize Redis connection
+ * 4. Initialize storage client
+ * 5. Initialize MCP servers
  */
 export async function initializeAgents(options: {
   autoRegister?: boolean;
+  loadPlugins?: boolean;
+  plugins?: PluginLoaderOptions;
   initializeRedis?: boolean;
   initializeStorage?: boolean;
   initializeMCP?: boolean;
 } = {}): Promise<void> {
   const {
     autoRegister = true,
+    loadPlugins = true,
     initializeRedis = true,
     initializeStorage = true,
     initializeMCP = true,
@@ -103,6 +122,11 @@ export async function initializeAgents(options: {
     registerAllAgents();
   }
 
+  // Load plugins (after built-ins so they can't take over built-in roles)
+  if (loadPlugins) {
+    await loadAgentPlugins(options.plugins);
+  }
+
   // Initialize Redis
   if (initializeRedis) {
     const { connectRedis } = await import('./shared/redis-client');
@@ -19,6 +19,7 @@ export const agentExecutor = inngest.createFunction(
       limit: 10, // Max 10 concurrent agent executions
       period: '1s',
     },
+    cancelOn: [{ event: 'workflow/cancelled', match: 'data.workflowExecutionId' }],
   },
   { event: 'agent/execute' },
   async ({ event, step }) => {
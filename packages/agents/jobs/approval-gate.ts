@@ -0,0 +1,186 @@
+// packages/agents/jobs/approval-gate.ts
+import { NonRetriableError, type GetStepTools } from 'inngest';
+import type { PrismaClient } from '@business-automation/database';
+import { inngest, type InngestEvents } from './inngest-client';
+import { getEventBus, WorkflowEventType } from '../orchestrator/events';
+import {
+  DEFAULT_APPROVAL_TIMEOUT,
+  expireApproval,
+  openApproval,
+  type ApprovalRequest,
+} from '../orchestrator/approvals';
+
+/**
+ * Reviews per gate before a workflow gives up on regenerating rejected artifacts
+ */
+export const MAX_APPROVAL_ATTEMPTS = 3;
+
+type StepTools = GetStepTools<typeof inngest>;
+
+export type ApprovalDecisionData = InngestEvents['workflow/approval.decided']['data'];
+
+/**
+ * Reviewer decision recorded by each decided approval status
+ */
+const DECISIONS: Partial<Record<string, ApprovalDecisionData['decision']>> = {
+  APPROVED: 'approve',
+  EDITED: 'edit',
+  REJECTED: 'reject',
+};
+
+/**
+ * Artifacts a workflow submits for review at a gate
+ */
+export interface ApprovalGateRequest extends ApprovalRequest {
+  timeout?: string;
+}
+
+/**
+ * Reviewer decision returned to the workflow
+ */
+export interface ApprovalGateResult {
+  approvalId: string;
+  decision: ApprovalDecisionData['decision'];
+  reviewedBy: string;
+  comments?: string;
+  editedArtifacts?: Record<string, any>;
+  /** Artifacts to regenerate on rejection (all submitted artifacts when the reviewer didn't pick) */
+  rejectedArtifacts: string[];
+}
+
+/**
+ * Pause a workflow at an approval gate until a reviewer decides
+ *
+ * Opens a WorkflowApproval, moves the execution to AWAITING_APPROVAL, notifies the
+ * reviewers and waits for the matching `workflow/approval.decided` event. Step IDs
+ * include the attempt so a regenerated artifact gets a fresh review. The approval
+ * row is read before waiting and again on timeout, so a decision whose event came
+ * too early to be caught still resumes the workflow. A gate that times out
+ * undecided expires the approval and fails the workflow; a cancelled workflow
+ * ends the wait through the function's `cancelOn`.
+ */
+export async function waitForApproval(
+  step: StepTools,
+  prisma: PrismaClient,
+  request: ApprovalGateRequest
+): Promise<ApprovalGateResult> {
+  const stepPrefix = `approval-${request.gate}-${request.attempt}`;
+  const timeout = request.timeout || DEFAULT_APPROVAL_TIMEOUT;
+
+  const approval = await step.run(`${stepPrefix}-request`, () =>
+    openApproval(prisma, request, timeout)
+  );
+
+  await step.sendEvent(`${stepPrefix}-notify`, {
+    name: 'workflow/approval.requested',
+    data: {
+      approvalId: approval.approvalId,
+      workflowExecutionId: request.workflowExecutionId,
+      projectId: request.projectId,
+      tenantId: request.tenantId,
+      gate: request.gate,
+      attempt: request.attempt,
+      requestedFor: approval.requestedFor,
+    },
+  });
+
+  // A reviewer may decide before the wait starts, and its event is then never matched
+  let decision = (await step.run(`${stepPrefix}-check`, () =>
+    readApprovalDecision(prisma, approval.approvalId, request)
+  )) as ApprovalDecisionData | null;
+
+  if (!decision) {
+    const decided = await step.waitForEvent(`${stepPrefix}-wait`, {
+      event: 'workflow/approval.decided',
+      timeout,
+      if: `async.data.approvalId == '${approval.approvalId}'`,
+    });
+
+    decision =
+      decided?.data ??
+      ((await step.run(`${stepPrefix}-recheck`, () =>
+        readApprovalDecision(prisma, approval.approvalId, request)
+      )) as ApprovalDecisionData | null);
+  }
+
+  if (!decision) {
+    await step.run(`${stepPrefix}-expire`, () =>
+      expireApproval(prisma, approval.approvalId, request.workflowExecutionId)
+    );
+    throw new NonRetriableError(`Approval gate "${request.gate}" expired after ${timeout} without a decision`);
+  }
+
+  const data = decision;
+  await step.run(`${stepPrefix}-resume`, () => resumeFromApproval(prisma, request, data));
+
+  return {
+    approvalId: approval.approvalId,
+    decision: data.decision,
+    reviewedBy: data.reviewedBy,
+    comments: data.comments,
+    editedArtifacts: data.editedArtifacts,
+    rejectedArtifacts: data.rejectedArtifacts?.length ? data.rejectedArtifacts : Object.keys(request.artifacts),
+  };
+}
+
+/**
+ * Decision stored on an approval, or null while it is undecided (or expired)
+ */
+async function readApprovalDecision(
+  prisma: PrismaClient,
+  approvalId: string,
+  request: ApprovalGateRequest
+): Promise<ApprovalDecisionData | null> {
+  const approval = await prisma.workflowApproval.findUnique({ where: { id: approvalId } });
+  const decision = approval && DECISIONS[approval.status];
+
+  if (!approval || !decision) {
+    return null;
+  }
+
+  return {
+    approvalId,
+    workflowExecutionId: request.workflowExecutionId,
+    tenantId: request.tenantId,
+    decision,
+    reviewedBy: approval.reviewedBy || '',
+    comments: approval.comments ?? undefined,
+    editedArtifacts: (approval.editedArtifacts as Record<string, any> | null) ?? undefined,
+    rejectedArtifacts: approval.rejectedArtifacts,
+  };
+}
+
+/**
+ * Put the execution back to RUNNING once a decision arrives
+ */
+async function resumeFromApproval(
+  prisma: PrismaClient,
+  request: ApprovalGateRequest,
+  decision: ApprovalDecisionData
+): Promise<void> {
+  // Conditional so a workflow cancelled while waiting stays cancelled
+  const { count } = await prisma.workflowExecution.updateMany({
+    where: { id: request.workflowExecutionId, status: 'AWAITING_APPROVAL' },
+    data: {
+      status: 'RUNNING',
+      currentStepName: `Approval ${decision.decision}: ${request.gate}`,
+      pausedAt: null,
+    },
+  });
+
+  if (count === 0) {
+    throw new NonRetriableError(`Workflow ${request.workflowExecutionId} is no longer awaiting approval`);
+  }
+
+  await getEventBus(request.tenantId, request.workflowExecutionId, prisma).emitWorkflowEvent(
+    WorkflowEventType.APPROVAL_DECIDED,
+    {
+      approvalId: decision.approvalId,
+      gate: request.gate,
+      decision: decision.decision,
+      reviewedBy: decision.reviewedBy,
+    }
+  );
+
+  console.log(`[ApprovalGate] "${request.gate}" ${decision.decision} by ${decision.reviewedBy}`);
+}
@@ -9,17 +9,23 @@ export * from './inngest-client';
 // Re-export workflow functions
 export * from './workflow-processor';
 export * from './website-generator-workflow';
+export * from './approval-gate';
 
 // Re-export agent functions
 export * from './agent-executor';
 
+// Re-export webhook functions
+export * from './webhook-delivery';
+
 // Export all functions for Inngest serve()
 import { workflowFunctions } from './workflow-processor';
 import { agentFunctions } from './agent-executor';
 import { websiteGeneratorWorkflow } from './website-generator-workflow';
+import { webhookFunctions } from './webhook-delivery';
 
 export const allFunctions = [
   ...workflowFunctions,
   ...agentFunctions,
   websiteGeneratorWorkflow,
+  ...webhookFunctions,
 ];
@@ -13,12 +13,26 @@ export type InngestEvents = {
       input?: any;
     };
   };
+  'workflow/resume': {
+    data: {
+      workflowExecutionId: string;
+      tenantId: string;
+    };
+  };
+  'workflow/cancelled': {
+    data: {
+      workflowExecutionId: string;
+      tenantId: string;
+    };
+  };
   'website/generate': {
     data: {
       projectId: string;
       companyProfileId: string;
       tenantId: string;
       userId: string;
+      workflowExecutionId?: string;
+      requireApproval?: boolean;
       constraints?: {
         maxPages?: number;
         maxComponents?: number;
@@ -61,6 +75,29 @@ export type InngestEvents = {
       previousStatus?: string;
     };
   };
+  'workflow/approval.requested': {
+    data: {
+      approvalId: string;
+      workflowExecutionId: string;
+      projectId: string;
+      tenantId: string;
+      gate: string;
+      attempt: number;
+      requestedFor: string[];
+    };
+  };
+  'workflow/approval.decided': {
+    data: {
+      approvalId: string;
+      workflowExecutionId: string;
+      tenantId: string;
+      decision: 'approve' | 'edit' | 'reject';
+      reviewedBy: string;
+      comments?: string;
+      editedArtifacts?: Record<string, any>;
+      rejectedArtifacts?: string[];
+    };
+  };
   'refinement/check': {
     data: {
       workflowExecutionId: string;
@@ -90,6 +127,26 @@ export async function sendWorkflowExecute(data: InngestEvents['workflow/execute'
   });
 }
 
+/**
+ * Send workflow resume event
+ */
+export async function sendWorkflowResume(data: InngestEvents['workflow/resume']['data']) {
+  return inngest.send({
+    name: 'workflow/resume',
+    data,
+  });
+}
+
+/**
+ * Send workflow cancelled event (ends Inngest runs of the workflow, including approval waits)
+ */
+export async function sendWorkflowCancelled(data: InngestEvents['workflow/cancelled']['data']) {
+  return inngest.send({
+    name: 'workflow/cancelled',
+    data,
+  });
+}
+
 /**
  * Send website generation event
  */
@@ -132,6 +189,28 @@ export async function sendAgentStatusChanged(data: InngestEvents['agent/status.c
   });
 }
 
+/**
+ * Send approval requested event
+ */
+export async function sendApprovalRequested(
+  data: InngestEvents['workflow/approval.requested']['data']
+) {
+  return inngest.send({
+    name: 'workflow/approval.requested',
+    data,
+  });
+}
+
+/**
+ * Send approval decided event (resumes a workflow waiting at an approval gate)
+ */
+export async function sendApprovalDecided(data: InngestEvents['workflow/approval.decided']['data']) {
+  return inngest.send({
+    name: 'workflow/approval.decided',
+    data,
+  });
+}
+
 /**
  * Send refinement check event
  */
@@ -0,0 +1,45 @@
+import { PrismaClient } from '@business-automation/database';
+import { inngest } from './inngest-client';
+import { createWebhookDispatcher } from '../shared/webhooks';
+
+/**
+ * Deliveries attempted per run of the retry job
+ */
+const RETRY_BATCH_SIZE = 100;
+
+/**
+ * Webhook retry Inngest function
+ *
+ * Runs every minute and attempts deliveries whose backoff has elapsed, as well as
+ * deliveries whose inline attempt never recorded a result.
+ */
+export const webhookRetrier = inngest.createFunction(
+  {
+    id: 'webhook-retrier',
+    name: 'Webhook Retrier',
+    concurrency: { limit: 1 },
+  },
+  { cron: '* * * * *' },
+  async ({ step }) => {
+    const attempted = await step.run('retry-due-deliveries', async () => {
+      const prisma = new PrismaClient();
+
+      try {
+        return await createWebhookDispatcher(prisma).retryDue(RETRY_BATCH_SIZE);
+      } finally {
+        await prisma.$disconnect();
+      }
+    });
+
+    if (attempted > 0) {
+      console.log(`[WebhookRetrier] Attempted ${attempted} due deliveries`);
+    }
+
+    return { attempted };
+  }
+);
+
+/**
+ * All webhook-related Inngest functions
+ */
+export const webhookFunctions = [webhookRetrier];
@@ -1,6 +1,9 @@
 // packages/agents/jobs/website-generator-workflow.ts
+import { randomUUID } from 'crypto';
 import { PrismaClient } from '@business-automation/database';
+import { NonRetriableError } from 'inngest';
 import { inngest } from './inngest-client';
+import { waitForApproval, MAX_APPROVAL_ATTEMPTS } from './approval-gate';
 import { connectRedis } from '../shared/redis-client';
 import { initializeStorage } from '../shared/storage-client';
 import { initializeMCP, getDefaultMCPConfigs } from '../shared/mcp-manager';
@@ -15,18 +18,32 @@ import {
   StaticAnalyzerAgent,
   FixerAgent,
 } from '../index';
-import type { ExtendedAgentContext } from '../shared/base-agent';
+import type { AgentExecutionResult, BaseAgent, ExtendedAgentContext } from '../shared/base-agent';
+import {
+  createAgentSignal,
+  DEFAULT_AGENT_TIMEOUT_MS,
+  getAbortMessage,
+  isBudgetExceeded,
+} from '../shared/cancellation';
+import type { RoutableAgent } from '../shared/model-router';
+import { createBudgetGuard, loadBudgetPolicy, type BudgetGuard } from '../orchestrator/budget-guard';
+
+/**
+ * Gate between the Strategy and Build tiers where a reviewer checks the SiteSpec and DesignSpec
+ */
+export const STRATEGY_REVIEW_GATE = 'strategy-review';
 
 /**
  * Website Generator Workflow - 3-Tier Architecture
  *
  * This Inngest function orchestrates the complete pipeline:
  * 1. Strategy Tier - Generate specs from CompanyProfile
+ *    (optionally paused for human approval of the SiteSpec and DesignSpec)
  * 2. Build Tier - Generate Next.js code
  * 3. Quality Tier - Validate and fix
  *
  * The workflow uses Inngest's step.run() for atomic operations
- * and step.waitForEvent() for parallel execution coordination.
+ * and step.waitForEvent() to wait for approval decisions.
  */
 export const websiteGeneratorWorkflow = inngest.createFunction(
   {
@@ -37,10 +54,12 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
       limit: 10, // Max 10 concurrent website generations
       key: 'event.data.tenantId', // Per-tenant concurrency
     },
+    // Cancelling the execution ends the run, including a wait at an approval gate
+    cancelOn: [{ event: 'workflow/cancelled', match: 'data.workflowExecutionId' }],
   },
   { event: 'website/generate' },
   async ({ event, step }) => {
-    const { projectId, companyProfileId, tenantId, userId } = event.data;
+    const { projectId, companyProfileId, tenantId, userId, workflowExecutionId, requireApproval } = event.data;
 
     console.log(`[WebsiteGenerator] Starting for project: ${projectId}`);
 
@@ -61,61 +80,117 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
       return { prisma };
     });
 
-    // ================================================================
-    // TIER 1: STRATEGY AGENTS
-    // ================================================================
+    // Tenant and request budget limits, loaded once per invocation with the spend so far
+    let budgetGuard: Promise<BudgetGuard> | undefined;
+    const getBudgetGuard = () =>
+      (budgetGuard ??= (async () => {
+        const prisma = services.prisma as unknown as PrismaClient;
+        const policy = await loadBudgetPolicy(prisma, tenantId, workflowExecutionId, event.data.constraints?.budget);
+        const guard = createBudgetGuard(prisma, { tenantId, projectId, workflowExecutionId }, policy);
+        await guard.loadSpend();
+        return guard;
+      })());
+
+    // The generator has no resume point, so a budget stop fails the run instead of pausing it
+    const haltForBudget = async (reason: string): Promise<never> => {
+      console.warn(`[WebsiteGenerator] Stopped by budget: ${reason}`);
+
+      if (workflowExecutionId) {
+        await (services.prisma as unknown as PrismaClient).workflowExecution.updateMany({
+          where: { id: workflowExecutionId, status: { in: ['QUEUED', 'RUNNING', 'AWAITING_APPROVAL'] } },
+          data: { status: 'FAILED', error: reason as any, completedAt: new Date() },
+        });
+      }
 
-    // Run Planner Agent
-    const siteSpec = await step.run('strategy-planner', async () => {
-      console.log('[Strategy] Running Planner Agent...');
+      throw new NonRetriableError(`Budget exceeded: ${reason}`);
+    };
+
+    // Each run is checked against the budget first and gets its own signal, aborted once the
+    // agent's manifest timeout elapses or its spend crosses a limit. Cancelling the workflow
+    // ends the run between steps (see cancelOn above).
+    const runAgent = async (
+      AgentClass: (new (context: ExtendedAgentContext) => Pick<BaseAgent, 'run'>) & {
+        getManifest(): RoutableAgent & { name: string; timeout?: number; maxTokens?: number };
+      },
+      input: any
+    ): Promise<AgentExecutionResult> => {
+      const manifest = AgentClass.getManifest();
+      const budget = await getBudgetGuard();
+
+      const blocked = await budget.checkDispatch(manifest.id, manifest, input);
+      if (blocked) {
+        return haltForBudget(blocked);
+      }
 
-      const context: ExtendedAgentContext = {
-        projectId,
-        tenantId,
-        userId,
-        prisma: services.prisma,
-      };
+      const { signal, abort, dispose } = createAgentSignal(
+        manifest.name,
+        manifest.timeout || DEFAULT_AGENT_TIMEOUT_MS
+      );
 
-      const planner = new PlannerAgent(context);
-      const result = await planner.run({
-        companyProfileId,
-        constraints: event.data.constraints,
-      });
+      try {
+        const agent = new AgentClass({
+          projectId,
+          tenantId,
+          userId,
+          // Unset when triggered outside the API; the run then has no execution to attribute to
+          workflowExecutionId: workflowExecutionId as string,
+          agentExecutionId: randomUUID(),
+          prisma: services.prisma,
+          signal,
+          onUsage: budget.createSpendTracker(manifest.id, abort),
+        });
+        const result = await agent.run(input);
 
-      if (!result.success) {
-        throw new Error(`Planner failed: ${result.error}`);
+        if (isBudgetExceeded(signal)) {
+          return haltForBudget(getAbortMessage(signal));
+        }
+
+        return result;
+      } finally {
+        dispose();
       }
+    };
 
-      // Store SiteSpec
-      const fs = require('fs');
-      const siteSpecPath = `/tmp/${projectId}/specs/site-spec.json`;
-      fs.mkdirSync(`/tmp/${projectId}/specs`, { recursive: true });
-      fs.writeFileSync(siteSpecPath, JSON.stringify(result.output, null, 2));
+    // ================================================================
+    // TIER 1: STRATEGY AGENTS
+    // ================================================================
 
-      return {
-        siteSpec: result.output,
-        siteSpecPath,
-        cost: result.cost,
-        tokensUsed: result.tokensUsed,
-      };
-    });
+    // Strategy agents are wrapped so a rejected review can re-run them under new step IDs
+    const runPlanner = (stepId: string, reviewFeedback?: string) =>
+      step.run(stepId, async () => {
+        console.log('[Strategy] Running Planner Agent...');
 
-    // Run IA Architect and Brand Interpreter in parallel
-    const [iaPlan, designSpec] = await Promise.all([
-      step.run('strategy-ia-architect', async () => {
-        console.log('[Strategy] Running IA Architect Agent...');
+        const result = await runAgent(PlannerAgent, {
+          companyProfileId,
+          constraints: event.data.constraints,
+          reviewFeedback,
+        });
 
-        const context: ExtendedAgentContext = {
-          projectId,
-          tenantId,
-          userId,
-          prisma: services.prisma,
+        if (!result.success) {
+          throw new Error(`Planner failed: ${result.error}`);
+        }
+
+        // Store SiteSpec
+        const fs = require('fs');
+        const siteSpecPath = `/tmp/${projectId}/specs/site-spec.json`;
+        fs.mkdirSync(`/tmp/${projectId}/specs`, { recursive: true });
+        fs.writeFileSync(siteSpecPath, JSON.stringify(result.output, null, 2));
+
+        return {
+          siteSpec: result.output,
+          siteSpecPath,
+          cost: result.cost,
+          tokensUsed: result.tokensUsed,
         };
+      });
+
+    const runIAArchitect = (stepId: string, siteSpecPath: string) =>
+      step.run(stepId, async () => {
+        console.log('[Strategy] Running IA Architect Agent...');
 
-        const iaArchitect = new IAArchitectAgent(context);
-        const result = await iaArchitect.run({
+        const result = await runAgent(IAArchitectAgent, {
           projectId,
-          siteSpecPath: siteSpec.siteSpecPath,
+          siteSpecPath,
         });
 
         if (!result.success) {
@@ -133,23 +208,17 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
           cost: result.cost,
           tokensUsed: result.tokensUsed,
         };
-      }),
+      });
 
-      step.run('strategy-brand-interpreter', async () => {
+    const runBrandInterpreter = (stepId: string, siteSpecPath: string, reviewFeedback?: string) =>
+      step.run(stepId, async () => {
         console.log('[Strategy] Running Brand Interpreter Agent...');
 
-        const context: ExtendedAgentContext = {
-          projectId,
-          tenantId,
-          userId,
-          prisma: services.prisma,
-        };
-
-        const brandInterpreter = new BrandInterpreterAgent(context);
-        const result = await brandInterpreter.run({
+        const result = await runAgent(BrandInterpreterAgent, {
           projectId,
           companyProfileId,
-          siteSpecPath: siteSpec.siteSpecPath,
+          siteSpecPath,
+          reviewFeedback,
         });
 
         if (!result.success) {
@@ -167,22 +236,104 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
           cost: result.cost,
           tokensUsed: result.tokensUsed,
         };
-      }),
+      });
+
+    // Run Planner Agent
+    let siteSpec = await runPlanner('strategy-planner');
+
+    // Run IA Architect and Brand Interpreter in parallel
+    let [iaPlan, designSpec] = await Promise.all([
+      runIAArchitect('strategy-ia-architect', siteSpec.siteSpecPath),
+      runBrandInterpreter('strategy-brand-interpreter', siteSpec.siteSpecPath),
     ]);
 
+    // ================================================================
+    // APPROVAL GATE: STRATEGY REVIEW
+    // ================================================================
+
+    // Cost of strategy runs superseded by a rejection or edit
+    let reviewCost = 0;
+    let reviewTokens = 0;
+
+    if (requireApproval && workflowExecutionId) {
+      for (let attempt = 1; ; attempt++) {
+        const review = await waitForApproval(step, services.prisma as unknown as PrismaClient, {
+          gate: STRATEGY_REVIEW_GATE,
+          attempt,
+          tenantId,
+          projectId,
+          workflowExecutionId,
+          userId,
+          artifacts: {
+            siteSpec: siteSpec.siteSpec,
+            designSpec: designSpec.designSpec,
+          },
+        });
+
+        if (review.decision === 'approve') {
+          break;
+        }
+
+        if (review.decision === 'edit') {
+          const edits = review.editedArtifacts || {};
+
+          await step.run(`strategy-apply-edits-${attempt}`, async () => {
+            const fs = require('fs');
+            if (edits.siteSpec) {
+              fs.writeFileSync(siteSpec.siteSpecPath, JSON.stringify(edits.siteSpec, null, 2));
+            }
+            if (edits.designSpec) {
+              fs.writeFileSync(designSpec.designSpecPath, JSON.stringify(edits.designSpec, null, 2));
+            }
+          });
+
+          if (edits.siteSpec) {
+            siteSpec = { ...siteSpec, siteSpec: edits.siteSpec };
+
+            // The IA plan is derived from the SiteSpec, so rebuild it from the edited one
+            reviewCost += iaPlan.cost || 0;
+            reviewTokens += iaPlan.tokensUsed || 0;
+            iaPlan = await runIAArchitect(`strategy-ia-architect-edit-${attempt}`, siteSpec.siteSpecPath);
+          }
+          if (edits.designSpec) {
+            designSpec = { ...designSpec, designSpec: edits.designSpec };
+          }
+          break;
+        }
+
+        if (attempt >= MAX_APPROVAL_ATTEMPTS) {
+          throw new NonRetriableError(
+            `Strategy review rejected ${attempt} times; last feedback: ${review.comments || 'none'}`
+          );
+        }
+
+        // Rejected: feed the comments back to the agents that produced the rejected artifacts
+        const revision = attempt + 1;
+
+        if (review.rejectedArtifacts.includes('siteSpec')) {
+          reviewCost += (siteSpec.cost || 0) + (iaPlan.cost || 0);
+          reviewTokens += (siteSpec.tokensUsed || 0) + (iaPlan.tokensUsed || 0);
+          siteSpec = await runPlanner(`strategy-planner-revision-${revision}`, review.comments);
+          iaPlan = await runIAArchitect(`strategy-ia-architect-revision-${revision}`, siteSpec.siteSpecPath);
+        }
+
+        if (review.rejectedArtifacts.includes('siteSpec') || review.rejectedArtifacts.includes('designSpec')) {
+          reviewCost += designSpec.cost || 0;
+          reviewTokens += designSpec.tokensUsed || 0;
+          designSpec = await runBrandInterpreter(
+            `strategy-brand-interpreter-revision-${revision}`,
+            siteSpec.siteSpecPath,
+            review.rejectedArtifacts.includes('designSpec') ? review.comments : undefined
+          );
+        }
+      }
+    }
+
     // Run Backlog Manager
     const workQueue = await step.run('strategy-backlog-manager', async () => {
       console.log('[Strategy] Running Backlog Manager Agent...');
 
-      const context: ExtendedAgentContext = {
-        projectId,
-        tenantId,
-        userId,
-        prisma: services.prisma,
-      };
-
-      const backlogManager = new BacklogManagerAgent(context);
-      const result = await backlogManager.run({
+      const result = await runAgent(BacklogManagerAgent, {
         projectId,
         siteSpecPath: siteSpec.siteSpecPath,
         designSpecPath: designSpec.designSpecPath,
@@ -208,15 +359,7 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
     const scaffold = await step.run('build-scaffolder', async () => {
       console.log('[Build] Running Scaffolder Agent...');
 
-      const context: ExtendedAgentContext = {
-        projectId,
-        tenantId,
-        userId,
-        prisma: services.prisma,
-      };
-
-      const scaffolder = new ScaffolderAgent(context);
-      const result = await scaffolder.run({
+      const result = await runAgent(ScaffolderAgent, {
         projectId,
         siteSpecPath: siteSpec.siteSpecPath,
         designSpecPath: designSpec.designSpecPath,
@@ -240,15 +383,7 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
 
       const componentResults = await Promise.all(
         componentTasks.map(async (task) => {
-          const context: ExtendedAgentContext = {
-            projectId,
-            tenantId,
-            userId,
-            prisma: services.prisma,
-          };
-
-          const componentWorker = new ComponentWorkerAgent(context);
-          const result = await componentWorker.run(task.input);
+          const result = await runAgent(ComponentWorkerAgent, task.input);
 
           if (!result.success) {
             console.warn(`Component Worker failed for ${task.id}: ${result.error}`);
@@ -275,15 +410,7 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
 
       const pageResults = await Promise.all(
         pageTasks.map(async (task) => {
-          const context: ExtendedAgentContext = {
-            projectId,
-            tenantId,
-            userId,
-            prisma: services.prisma,
-          };
-
-          const pageAssembler = new PageAssemblerAgent(context);
-          const result = await pageAssembler.run({
+          const result = await runAgent(PageAssemblerAgent, {
             ...task.input,
             availableComponents: components.map(c => c!.componentId),
           });
@@ -313,15 +440,7 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
     const findings = await step.run('quality-static-analyzer', async () => {
       console.log('[Quality] Running Static Analyzer Agent...');
 
-      const context: ExtendedAgentContext = {
-        projectId,
-        tenantId,
-        userId,
-        prisma: services.prisma,
-      };
-
-      const staticAnalyzer = new StaticAnalyzerAgent(context);
-      const result = await staticAnalyzer.run({
+      const result = await runAgent(StaticAnalyzerAgent, {
         projectId,
         projectRoot: scaffold.projectRoot,
         runLighthouse: true,
@@ -362,15 +481,7 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
 
       console.log(`[Quality] Running Fixer Agent (${findings.findings.summary.autoFixable} auto-fixable issues)...`);
 
-      const context: ExtendedAgentContext = {
-        projectId,
-        tenantId,
-        userId,
-        prisma: services.prisma,
-      };
-
-      const fixer = new FixerAgent(context);
-      const result = await fixer.run({
+      const result = await runAgent(FixerAgent, {
         projectId,
         projectRoot: scaffold.projectRoot,
         findingsPath: findings.findingsPath,
@@ -411,6 +522,7 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
         iaPlan.cost +
         designSpec.cost +
         workQueue.cost +
+        reviewCost +
         components.reduce((sum, c) => sum + (c?.cost || 0), 0) +
         pages.reduce((sum, p) => sum + (p?.cost || 0), 0) +
         (patches.cost || 0);
@@ -420,6 +532,7 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
         iaPlan.tokensUsed +
         designSpec.tokensUsed +
         workQueue.tokensUsed +
+        reviewTokens +
         components.reduce((sum, c) => sum + (c?.tokensUsed || 0), 0) +
         pages.reduce((sum, p) => sum + (p?.tokensUsed || 0), 0) +
         (patches.tokensUsed || 0);
@@ -439,7 +552,7 @@ export const websiteGeneratorWorkflow = inngest.createFunction(
           total: totalCost,
           tokens: totalTokens,
           breakdown: {
-            strategy: siteSpec.cost + iaPlan.cost + designSpec.cost + workQueue.cost,
+            strategy: siteSpec.cost + iaPlan.cost + designSpec.cost + workQueue.cost + reviewCost,
             build: components.reduce((sum, c) => sum + (c?.cost || 0), 0) +
                    pages.reduce((sum, p) => sum + (p?.cost || 0), 0),
             quality: patches.cost || 0,
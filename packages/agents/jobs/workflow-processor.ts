@@ -100,6 +100,135 @@ export const workflowProcessor = inngest.createFunction(
   }
 );
 
+/**
+ * Workflow resumer Inngest function
+ *
+ * Resumes a paused or orphaned workflow from its last checkpointed stage,
+ * typically on a different worker than the one that started it.
+ */
+export const workflowResumer = inngest.createFunction(
+  {
+    id: 'workflow-resumer',
+    name: 'Workflow Resumer',
+    retries: 2,
+    cancelOn: [{ event: 'workflow/cancelled', match: 'data.workflowExecutionId' }],
+  },
+  { event: 'workflow/resume' },
+  async ({ event, step }) => {
+    const { workflowExecutionId } = event.data;
+
+    console.log(`[WorkflowResumer] Resuming workflow: ${workflowExecutionId}`);
+
+    await step.run('resume-workflow', async () => {
+      const prisma = new PrismaClient();
+
+      await connectRedis();
+      initializeStorage();
+
+      const mcpConfigs = getDefaultMCPConfigs();
+      if (mcpConfigs.length > 0) {
+        await initializeMCP(mcpConfigs);
+      }
+
+      const orchestrator = createOrchestrator(prisma, {
+        maxConcurrency: 5,
+        refinement: {
+          enabled: true,
+          maxIterations: 3,
+          qualityThreshold: 0.8,
+        },
+      });
+
+      await orchestrator.resumeWorkflow(workflowExecutionId);
+    });
+
+    return {
+      workflowExecutionId,
+      resumed: true,
+    };
+  }
+);
+
+/**
+ * Approval decision Inngest function
+ *
+ * Resumes (or fails) an orchestrated workflow held at an approval gate once a
+ * reviewer decides. Website generator approvals are ignored here: that function
+ * waits for the same event itself.
+ */
+export const workflowApprovalHandler = inngest.createFunction(
+  {
+    id: 'workflow-approval-handler',
+    name: 'Workflow Approval Handler',
+    retries: 2,
+  },
+  { event: 'workflow/approval.decided' },
+  async ({ event, step }) => {
+    const { approvalId, workflowExecutionId } = event.data;
+
+    await step.run('apply-decision', async () => {
+      const prisma = new PrismaClient();
+
+      await connectRedis();
+      initializeStorage();
+
+      const mcpConfigs = getDefaultMCPConfigs();
+      if (mcpConfigs.length > 0) {
+        await initializeMCP(mcpConfigs);
+      }
+
+      const orchestrator = createOrchestrator(prisma, {
+        maxConcurrency: 5,
+        refinement: {
+          enabled: true,
+          maxIterations: 3,
+          qualityThreshold: 0.8,
+        },
+      });
+
+      await orchestrator.applyApprovalDecision(approvalId);
+    });
+
+    return {
+      workflowExecutionId,
+      approvalId,
+    };
+  }
+);
+
+/**
+ * Approval expiry Inngest function
+ *
+ * Runs every five minutes and fails orchestrated workflows whose approval gate
+ * timed out without a decision.
+ */
+export const approvalExpiry = inngest.createFunction(
+  {
+    id: 'approval-expiry',
+    name: 'Approval Expiry',
+    concurrency: { limit: 1 },
+  },
+  { cron: '*/5 * * * *' },
+  async ({ step }) => {
+    const expired = await step.run('expire-due-approvals', async () => {
+      const prisma = new PrismaClient();
+
+      try {
+        await connectRedis();
+        return await createOrchestrator(prisma).expireApprovals();
+      } finally {
+        await prisma.$disconnect();
+      }
+    });
+
+    if (expired > 0) {
+      console.log(`[ApprovalExpiry] Failed ${expired} workflow(s) at expired approval gates`);
+    }
+
+    return { expired };
+  }
+);
+
 /**
  * Workflow status monitor Inngest function
  *
@@ -192,6 +321,9 @@ export const refinementChecker = inngest.createFunction(
  */
 export const workflowFunctions = [
   workflowProcessor,
+  workflowResumer,
+  workflowApprovalHandler,
+  approvalExpiry,
   workflowStatusMonitor,
   refinementChecker,
 ];
@@ -0,0 +1,163 @@
+import type { PrismaClient } from '@business-automation/database';
+import { getEventBus, WorkflowEventType } from './events';
+import { publishToStream } from '../shared/redis-client';
+
+/**
+ * How long a gate waits for a reviewer before the workflow fails
+ */
+export const DEFAULT_APPROVAL_TIMEOUT = '7d';
+
+/**
+ * Tenant stream that carries reviewer notifications
+ */
+export const APPROVAL_NOTIFICATION_STREAM = 'notifications';
+
+/**
+ * Artifacts a workflow submits for review at a gate
+ */
+export interface ApprovalRequest {
+  gate: string;
+  attempt: number;
+  tenantId: string;
+  projectId: string;
+  workflowExecutionId: string;
+  /** User who started the workflow (notified alongside the tenant owners) */
+  userId?: string;
+  artifacts: Record<string, any>;
+}
+
+/**
+ * Create the approval, move the execution to AWAITING_APPROVAL and notify reviewers
+ *
+ * Throws when the execution is no longer running (e.g. it was cancelled meanwhile).
+ */
+export async function openApproval(
+  prisma: PrismaClient,
+  request: ApprovalRequest,
+  timeout: string = DEFAULT_APPROVAL_TIMEOUT
+): Promise<{ approvalId: string; requestedFor: string[] }> {
+  const requestedFor = await resolveReviewers(prisma, request);
+
+  const approval = await prisma.workflowApproval.create({
+    data: {
+      tenantId: request.tenantId,
+      projectId: request.projectId,
+      workflowExecutionId: request.workflowExecutionId,
+      gate: request.gate,
+      attempt: request.attempt,
+      artifacts: request.artifacts as any,
+      requestedFor,
+      rejectedArtifacts: [],
+      expiresAt: new Date(Date.now() + parseApprovalTimeout(timeout)),
+    },
+  });
+
+  // Conditional so a concurrent cancel is never overwritten
+  const { count } = await prisma.workflowExecution.updateMany({
+    where: { id: request.workflowExecutionId, status: { in: ['QUEUED', 'RUNNING'] } },
+    data: {
+      status: 'AWAITING_APPROVAL',
+      currentStepName: `Awaiting approval: ${request.gate}`,
+      pausedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    await prisma.workflowApproval.update({
+      where: { id: approval.id },
+      data: { status: 'EXPIRED', decidedAt: new Date() },
+    });
+    throw new Error(`Workflow ${request.workflowExecutionId} is no longer running`);
+  }
+
+  const notification = {
+    approvalId: approval.id,
+    gate: request.gate,
+    attempt: request.attempt,
+    projectId: request.projectId,
+    requestedFor,
+  };
+
+  await getEventBus(request.tenantId, request.workflowExecutionId, prisma).emitWorkflowEvent(
+    WorkflowEventType.APPROVAL_REQUESTED,
+    notification
+  );
+
+  try {
+    await publishToStream(request.tenantId, APPROVAL_NOTIFICATION_STREAM, {
+      type: 'approval.requested',
+      workflowExecutionId: request.workflowExecutionId,
+      timestamp: new Date().toISOString(),
+      data: JSON.stringify(notification),
+    });
+  } catch (error) {
+    console.error('[Approvals] Failed to publish reviewer notification:', error);
+  }
+
+  console.log(
+    `[Approvals] Waiting for approval of "${request.gate}" (attempt ${request.attempt}) ` +
+      `for workflow ${request.workflowExecutionId}`
+  );
+
+  return { approvalId: approval.id, requestedFor };
+}
+
+/**
+ * Expire an undecided approval and fail the execution if it is still waiting on it
+ *
+ * Both updates are conditional, so a decision or cancel that got there first wins.
+ * Returns whether the execution was failed.
+ */
+export async function expireApproval(
+  prisma: PrismaClient,
+  approvalId: string,
+  workflowExecutionId: string
+): Promise<boolean> {
+  await prisma.workflowApproval.updateMany({
+    where: { id: approvalId, status: 'PENDING' },
+    data: { status: 'EXPIRED', decidedAt: new Date() },
+  });
+
+  const { count } = await prisma.workflowExecution.updateMany({
+    where: { id: workflowExecutionId, status: 'AWAITING_APPROVAL' },
+    data: {
+      status: 'FAILED',
+      completedAt: new Date(),
+      error: { message: 'Approval gate expired without a decision', approvalId } as any,
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Reviewers are the user who started the workflow plus the tenant owners
+ */
+async function resolveReviewers(prisma: PrismaClient, request: ApprovalRequest): Promise<string[]> {
+  const owners = await prisma.user.findMany({
+    where: { tenantId: request.tenantId, role: 'OWNER', deletedAt: null },
+    select: { id: true },
+  });
+
+  return Array.from(new Set([...(request.userId ? [request.userId] : []), ...owners.map((owner) => owner.id)]));
+}
+
+/**
+ * Convert an Inngest duration ("30m", "12h", "7d") to milliseconds
+ */
+export function parseApprovalTimeout(duration: string): number {
+  const match = duration.match(/^(\d+)([smhdw])$/);
+  if (!match) {
+    throw new Error(`Invalid approval timeout: ${duration}`);
+  }
+
+  const units: Record<string, number> = {
+    s: 1000,
+    m: 60_000,
+    h: 3_600_000,
+    d: 86_400_000,
+    w: 604_800_000,
+  };
+
+  return Number(match[1]) * units[match[2]!]!;
+}
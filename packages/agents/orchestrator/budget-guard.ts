@@ -0,0 +1,245 @@
+import type { PrismaClient } from '@business-automation/database';
+import type { TokenUsage } from '../shared/claude-client';
+import { createBudgetExceededReason } from '../shared/cancellation';
+import {
+  createBudgetMonitor,
+  resolveBudgetLimits,
+  type BudgetLimits,
+  type BudgetMonitor,
+  type BudgetPolicy,
+} from '../shared/budget-monitor';
+import { estimateCost } from '../shared/cost-tracker';
+import type { LLMSelection } from '../shared/llm-provider';
+import { resolveAgentModel, type AgentModelSources, type RoutableAgent } from '../shared/model-router';
+import { publishWorkflowEvent, WorkflowEventType } from './events';
+
+/**
+ * Output tokens assumed for agents whose manifest declares no maxTokens
+ */
+const DEFAULT_ESTIMATED_OUTPUT_TOKENS = 8000;
+
+/**
+ * Workflow whose spend a guard tracks
+ */
+export interface BudgetGuardScope {
+  tenantId: string;
+  projectId: string;
+  /** Enables the per-workflow limit and budget events */
+  workflowExecutionId?: string;
+}
+
+/**
+ * Manifest fields used to estimate an agent's spend
+ */
+export type BudgetedAgent = RoutableAgent & LLMSelection & { maxTokens?: number };
+
+/**
+ * Enforces a workflow's budget around each agent run
+ *
+ * An agent is not dispatched when its estimated spend would cross a limit, and a
+ * running agent is aborted once its actual spend crosses the per-execution or
+ * per-workflow limit.
+ */
+export class BudgetGuard {
+  private prisma: PrismaClient;
+  private scope: BudgetGuardScope;
+  private policy: BudgetPolicy;
+  /** Tenant LLM settings and model routing, so estimates price the model an agent actually runs on */
+  private models: AgentModelSources;
+  private monitor: BudgetMonitor;
+  /** Running spend of the workflow, including LLM calls of agents still in flight */
+  private spent = { costUsd: 0, tokens: 0 };
+  private warned = false;
+
+  constructor(
+    prisma: PrismaClient,
+    scope: BudgetGuardScope,
+    policy: BudgetPolicy,
+    models: AgentModelSources = {}
+  ) {
+    this.prisma = prisma;
+    this.scope = scope;
+    this.policy = policy;
+    this.models = models;
+    this.monitor = createBudgetMonitor(prisma);
+  }
+
+  /**
+   * Count the spend of earlier runs and iterations towards the workflow limit
+   */
+  async loadSpend(): Promise<void> {
+    if (!this.scope.workflowExecutionId) {
+      return;
+    }
+
+    const usage = await this.monitor.getWorkflowUsage(this.scope.workflowExecutionId);
+    this.spent = { costUsd: usage.costUsd, tokens: usage.tokensUsed };
+  }
+
+  /**
+   * Check the budget before dispatching an agent, estimating its spend from the manifest maxTokens
+   * at the price of the provider and model it runs on
+   *
+   * Returns why the agent may not run, or null when it may.
+   */
+  async checkDispatch(agent: string, manifest: BudgetedAgent | undefined, input: any): Promise<string | null> {
+    // Roughly four characters per token of serialized input
+    const estimatedInputTokens = Math.ceil((JSON.stringify(input ?? {})?.length || 0) / 4);
+    const estimatedOutputTokens = manifest?.maxTokens || DEFAULT_ESTIMATED_OUTPUT_TOKENS;
+    const { provider, model } = resolveAgentModel(manifest, this.models);
+
+    const check = await this.monitor.checkBudget({
+      tenantId: this.scope.tenantId,
+      projectId: this.scope.projectId,
+      workflowExecutionId: this.scope.workflowExecutionId,
+      estimatedCost: estimateCost(model, estimatedInputTokens, estimatedOutputTokens, provider),
+      estimatedTokens: estimatedInputTokens + estimatedOutputTokens,
+      limits: this.policy.limits,
+    });
+
+    if (!check.allowed) {
+      await this.emit(WorkflowEventType.BUDGET_EXCEEDED, {
+        agentRole: agent,
+        scope: check.scope,
+        reason: check.reason,
+        action: this.policy.onExceeded,
+        status: check.status,
+      });
+
+      return check.reason || 'Budget exceeded';
+    }
+
+    if (check.status.nearingLimit && !this.warned) {
+      this.warned = true;
+      await this.emit(WorkflowEventType.BUDGET_APPROACHING, {
+        agentRole: agent,
+        scope: 'monthly',
+        percentUsed: check.status.percentUsed,
+        status: check.status,
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Track an agent's LLM spend as it happens (its context's onUsage), aborting
+   * it once it crosses the per-execution or per-workflow limit
+   */
+  createSpendTracker(agent: string, abort: (reason: unknown) => void): (usage: TokenUsage, costUsd: number) => void {
+    const limits = this.policy.limits;
+    const agentSpent = { costUsd: 0, tokens: 0 };
+    let exceeded = false;
+
+    return (usage, costUsd) => {
+      const tokens = usage.inputTokens + usage.outputTokens;
+      agentSpent.costUsd += costUsd;
+      agentSpent.tokens += tokens;
+      this.spent.costUsd += costUsd;
+      this.spent.tokens += tokens;
+
+      if (exceeded) {
+        return;
+      }
+
+      let scope: 'execution' | 'workflow' | undefined;
+
+      if (
+        agentSpent.costUsd > (limits.perExecution?.maxCostUsd ?? Infinity) ||
+        agentSpent.tokens > (limits.perExecution?.maxTokens ?? Infinity)
+      ) {
+        scope = 'execution';
+      } else if (
+        this.spent.costUsd > (limits.perWorkflow?.maxCostUsd ?? Infinity) ||
+        this.spent.tokens > (limits.perWorkflow?.maxTokens ?? Infinity)
+      ) {
+        scope = 'workflow';
+      }
+
+      if (!scope) {
+        return;
+      }
+
+      const spent = scope === 'execution' ? agentSpent : this.spent;
+      const reason =
+        `${scope === 'execution' ? 'Execution' : 'Workflow'} budget exceeded while running. ` +
+        `Spent: $${spent.costUsd.toFixed(2)} (${spent.tokens} tokens)`;
+
+      exceeded = true;
+      console.warn(`[BudgetGuard] Stopping ${agent}: ${reason}`);
+      abort(createBudgetExceededReason(reason));
+
+      this.emit(WorkflowEventType.BUDGET_EXCEEDED, {
+        agentRole: agent,
+        scope,
+        reason,
+        action: this.policy.onExceeded,
+      });
+    };
+  }
+
+  /**
+   * Emit a budget event to the workflow's event bus
+   */
+  private async emit(type: WorkflowEventType, data: Record<string, any>): Promise<void> {
+    if (!this.scope.workflowExecutionId) {
+      return;
+    }
+
+    try {
+      await publishWorkflowEvent(this.scope.tenantId, this.scope.workflowExecutionId, this.prisma, type, data);
+    } catch (error) {
+      console.error(`[BudgetGuard] Failed to emit ${type}:`, error);
+    }
+  }
+}
+
+/**
+ * Create a budget guard for a workflow
+ */
+export function createBudgetGuard(
+  prisma: PrismaClient,
+  scope: BudgetGuardScope,
+  policy: BudgetPolicy,
+  models?: AgentModelSources
+): BudgetGuard {
+  return new BudgetGuard(prisma, scope, policy, models);
+}
+
+/**
+ * Load budget limits from tenant settings and the workflow's own constraints
+ *
+ * Tenants may set `settings.budget` (limits plus `onExceeded`); a workflow started with
+ * `constraints.budget` gets those as its per-workflow limit. Callers holding the constraints
+ * already (e.g. from the triggering event) may pass the budget directly.
+ */
+export async function loadBudgetPolicy(
+  prisma: PrismaClient,
+  tenantId: string,
+  workflowExecutionId?: string,
+  budget?: { maxCostUsd?: number; maxTokens?: number }
+): Promise<BudgetPolicy> {
+  const [tenant, workflow] = await Promise.all([
+    prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { settings: true },
+    }),
+    workflowExecutionId
+      ? prisma.workflowExecution.findUnique({
+          where: { id: workflowExecutionId },
+          select: { input: true },
+        })
+      : null,
+  ]);
+
+  const tenantBudget = (tenant?.settings as any)?.budget as
+    | (BudgetLimits & { onExceeded?: BudgetPolicy['onExceeded'] })
+    | undefined;
+  const workflowBudget =
+    budget ?? ((workflow?.input as any)?.constraints?.budget as typeof budget | undefined);
+
+  return {
+    limits: resolveBudgetLimits(tenantBudget, workflowBudget && { perWorkflow: workflowBudget }),
+    onExceeded: tenantBudget?.onExceeded === 'stop' ? 'stop' : 'pause',
+  };
+}
@@ -0,0 +1,299 @@
+import { PrismaClient, type AgentRole } from '@business-automation/database';
+import type { AgentExecutionRecord, SkippedAgentRecord, StageCompletion } from './executor';
+import type { ResolvedFinding } from '../shared/provenance';
+import type { ScoreDelta } from '../shared/refinement-envelope';
+import type { IterationScore } from './convergence';
+import type { WorkflowExecutionConfig } from './index';
+
+/**
+ * Current checkpoint format version
+ */
+export const CHECKPOINT_VERSION = 1;
+
+/**
+ * Refinement state captured between iterations
+ */
+export interface CheckpointRefinementState {
+  iteration: number;
+  lastDecision?: {
+    shouldRefine: boolean;
+    reason: string;
+    targetAgents: AgentRole[];
+    overallScore: number;
+    /** Findings traced to each target, handed to that agent on re-run */
+    findingsByAgent?: Partial<Record<AgentRole, ResolvedFinding[]>>;
+    /** WebsiteEvaluation holding the refinement instructions */
+    evaluationId?: string;
+    dimensionScores?: Record<string, number>;
+    scoreDeltas?: ScoreDelta[];
+  };
+  /** Agents re-run this iteration (refinement targets and their dependents) */
+  rerunAgents?: AgentRole[];
+  /** Agents whose previous-iteration execution is reused this iteration */
+  reusedAgents?: AgentRole[];
+  /** Previous-iteration executions of the re-run agents, revised by opted-in agents */
+  previousExecutions?: Partial<Record<AgentRole, string | string[]>>;
+  /** Scores of the evaluated iterations, for convergence checks and final selection */
+  history?: IterationScore[];
+}
+
+/**
+ * Persisted workflow checkpoint
+ *
+ * Stored under `WorkflowExecution.context.checkpoint`. Agent outputs are not
+ * duplicated here - the referenced `AgentExecution` rows are the source of truth.
+ * Fan-out agents reference one row per instance, in instance order.
+ */
+export interface WorkflowCheckpoint {
+  version: number;
+  executionConfig: WorkflowExecutionConfig;
+  iteration: number;
+  completedStages: number[];
+  agentExecutions: Partial<Record<AgentRole, string | string[]>>;
+  errors: Partial<Record<AgentRole, string>>;
+  /** Agent whose abort policy stopped the iteration; a resumed run dispatches nothing more */
+  abortedBy?: AgentRole;
+  /** Agents skipped so far this iteration, so a resumed run doesn't record them again */
+  skippedAgents?: SkippedAgentRecord[];
+  refinement: CheckpointRefinementState;
+  updatedAt: string;
+}
+
+/**
+ * Checkpoint store backed by the WorkflowExecution context column
+ */
+export class CheckpointStore {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Create an empty checkpoint for a new workflow execution
+   */
+  createInitial(executionConfig: WorkflowExecutionConfig): WorkflowCheckpoint {
+    return {
+      version: CHECKPOINT_VERSION,
+      executionConfig,
+      iteration: 0,
+      completedStages: [],
+      agentExecutions: {},
+      errors: {},
+      refinement: { iteration: 0 },
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Load checkpoint for a workflow execution
+   */
+  async load(workflowExecutionId: string): Promise<WorkflowCheckpoint | null> {
+    const workflow = await this.prisma.workflowExecution.findUnique({
+      where: { id: workflowExecutionId },
+      select: { context: true },
+    });
+
+    const context = (workflow?.context || {}) as Record<string, any>;
+    const checkpoint = context.checkpoint as WorkflowCheckpoint | undefined;
+
+    if (!checkpoint || checkpoint.version !== CHECKPOINT_VERSION) {
+      return null;
+    }
+
+    return checkpoint;
+  }
+
+  /**
+   * Persist checkpoint, preserving any other keys in the context column
+   *
+   * The checkpoint key is set in a single UPDATE so concurrent writers of
+   * other context keys are not overwritten by a stale read.
+   */
+  async save(workflowExecutionId: string, checkpoint: WorkflowCheckpoint): Promise<void> {
+    const updated: WorkflowCheckpoint = {
+      ...checkpoint,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.prisma.$executeRaw`
+      UPDATE "workflow_executions"
+      SET "context" = jsonb_set(COALESCE("context", '{}'::jsonb), '{checkpoint}', ${JSON.stringify(updated)}::jsonb),
+          "iteration" = ${checkpoint.iteration},
+          "completedSteps" = ${Object.keys(checkpoint.agentExecutions).length},
+          "updatedAt" = NOW()
+      WHERE "id" = ${workflowExecutionId}
+    `;
+  }
+
+  /**
+   * Record a completed stage on top of an existing checkpoint
+   */
+  recordStage(checkpoint: WorkflowCheckpoint, completion: StageCompletion): WorkflowCheckpoint {
+    const { stage, records, abortedBy, skippedAgents } = completion;
+    const agentExecutions = { ...checkpoint.agentExecutions };
+    const errors = { ...checkpoint.errors };
+
+    for (const record of records) {
+      agentExecutions[record.role] = record.instances
+        ? record.instances.map((instance) => instance.agentExecutionId)
+        : record.agentExecutionId;
+
+      if (record.result.success) {
+        delete errors[record.role];
+      } else {
+        errors[record.role] = record.result.error || 'Unknown error';
+      }
+    }
+
+    return {
+      ...checkpoint,
+      completedStages: Array.from(new Set([...checkpoint.completedStages, stage])),
+      agentExecutions,
+      errors,
+      abortedBy: abortedBy ?? checkpoint.abortedBy,
+      skippedAgents,
+    };
+  }
+
+  /**
+   * Start a new refinement iteration, discarding per-stage progress
+   *
+   * Executions in `reused` are carried over so their outputs can stand in for a re-run;
+   * the previous executions of re-run agents are kept for refinement envelopes.
+   */
+  startIteration(
+    checkpoint: WorkflowCheckpoint,
+    iteration: number,
+    lastDecision?: CheckpointRefinementState['lastDecision'],
+    reused: Partial<Record<AgentRole, string | string[]>> = {},
+    rerunAgents?: AgentRole[]
+  ): WorkflowCheckpoint {
+    return {
+      ...checkpoint,
+      iteration,
+      completedStages: [],
+      agentExecutions: { ...reused },
+      errors: {},
+      abortedBy: undefined,
+      skippedAgents: [],
+      refinement: {
+        iteration,
+        lastDecision,
+        rerunAgents,
+        reusedAgents: Object.keys(reused) as AgentRole[],
+        previousExecutions: Object.fromEntries(
+          Object.entries(checkpoint.agentExecutions).filter(
+            ([role]) => !rerunAgents || rerunAgents.includes(role as AgentRole)
+          )
+        ),
+      },
+    };
+  }
+
+  /**
+   * Rebuild agent execution records for the stages already completed
+   */
+  async restoreRecords(checkpoint: WorkflowCheckpoint): Promise<AgentExecutionRecord[]> {
+    const entries = Object.entries(checkpoint.agentExecutions) as Array<[AgentRole, string | string[]]>;
+
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const rows = await this.prisma.agentExecution.findMany({
+      where: { id: { in: entries.flatMap(([, ids]) => ids) } },
+      select: {
+        id: true,
+        status: true,
+        output: true,
+        tokensUsed: true,
+        cost: true,
+        startedAt: true,
+        completedAt: true,
+      },
+    });
+
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+    const records: AgentExecutionRecord[] = [];
+
+    for (const [role, ids] of entries) {
+      const error = checkpoint.errors[role];
+      const restore = (agentExecutionId: string): AgentExecutionRecord => {
+        const row = rowsById.get(agentExecutionId);
+
+        // A "successful" agent whose row is missing or incomplete cannot be reused
+        if (!error && (!row || row.status !== 'COMPLETED')) {
+          throw new Error(
+            `Checkpoint references agent execution ${agentExecutionId} (${role}) which did not complete`
+          );
+        }
+
+        const startTime = row?.startedAt || new Date(checkpoint.updatedAt);
+        const endTime = row?.completedAt || startTime;
+
+        return {
+          role,
+          agentExecutionId,
+          result: error
+            ? { success: false, error }
+            : {
+                success: true,
+                output: row!.output,
+                tokensUsed: row!.tokensUsed ?? undefined,
+                cost: row!.cost ?? undefined,
+              },
+          startTime,
+          endTime,
+          duration: endTime.getTime() - startTime.getTime(),
+        };
+      };
+
+      if (!Array.isArray(ids)) {
+        records.push(restore(ids));
+        continue;
+      }
+
+      records.push(this.aggregateInstances(role, ids.map(restore), error));
+    }
+
+    return records;
+  }
+
+  /**
+   * Rebuild the aggregate record of a fan-out agent from its instance records
+   */
+  private aggregateInstances(
+    role: AgentRole,
+    instances: AgentExecutionRecord[],
+    error?: string
+  ): AgentExecutionRecord {
+    const total = instances.length;
+    const startTime = new Date(Math.min(...instances.map((i) => i.startTime.getTime())));
+    const endTime = new Date(Math.max(...instances.map((i) => i.endTime.getTime())));
+
+    return {
+      role,
+      agentExecutionId: instances[0]!.agentExecutionId,
+      result: error
+        ? { success: false, error }
+        : {
+            success: true,
+            output: instances.map((i) => i.result.output),
+            tokensUsed: instances.reduce((sum, i) => sum + (i.result.tokensUsed || 0), 0),
+            cost: instances.reduce((sum, i) => sum + (i.result.cost || 0), 0),
+          },
+      startTime,
+      endTime,
+      duration: endTime.getTime() - startTime.getTime(),
+      instances: instances.map((instance, index) => ({ ...instance, instance: { index, total } })),
+    };
+  }
+}
+
+/**
+ * Create checkpoint store
+ */
+export function createCheckpointStore(prisma: PrismaClient): CheckpointStore {
+  return new CheckpointStore(prisma);
+}
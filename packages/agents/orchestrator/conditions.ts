@@ -0,0 +1,100 @@
+import type { StepCondition, StepFanOut } from '@business-automation/schema';
+
+/**
+ * Step condition as declared on a workflow step (a bare string is a truthy path)
+ */
+export type StepConditionInput = StepCondition | string;
+
+/**
+ * Resolve a dot path (e.g. `previousOutputs.PLANNER.pages.length`) against a value
+ */
+export function resolvePath(source: any, path: string): any {
+  let current = source;
+
+  for (const segment of path.split('.').filter(Boolean)) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+
+    current = current[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Normalise a step condition to its structured form
+ */
+export function normalizeCondition(condition: StepConditionInput): StepCondition {
+  if (typeof condition === 'string') {
+    return { path: condition, operator: 'truthy' };
+  }
+
+  return { ...condition, operator: condition.operator || 'truthy' };
+}
+
+/**
+ * Evaluate a step condition against an agent's input
+ */
+export function evaluateCondition(condition: StepConditionInput, source: any): boolean {
+  const { path, operator, value } = normalizeCondition(condition);
+  const actual = resolvePath(source, path);
+
+  switch (operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'truthy':
+      return Array.isArray(actual) ? actual.length > 0 : !!actual;
+    case 'eq':
+      return actual === value;
+    case 'neq':
+      return actual !== value;
+    case 'gt':
+      return typeof actual === 'number' && actual > value;
+    case 'gte':
+      return typeof actual === 'number' && actual >= value;
+    case 'lt':
+      return typeof actual === 'number' && actual < value;
+    case 'lte':
+      return typeof actual === 'number' && actual <= value;
+    case 'in':
+      return Array.isArray(value) && value.includes(actual);
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.includes(value);
+      }
+      return typeof actual === 'string' && typeof value === 'string' && actual.includes(value);
+    default:
+      throw new Error(`Unknown condition operator: ${operator}`);
+  }
+}
+
+/**
+ * Describe a condition for logs and skip reasons
+ */
+export function describeCondition(condition: StepConditionInput): string {
+  const { path, operator, value } = normalizeCondition(condition);
+
+  if (operator === 'exists' || operator === 'truthy') {
+    return `${path} is ${operator === 'exists' ? 'set' : 'truthy'}`;
+  }
+
+  return `${path} ${operator} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Resolve the items a fan-out step runs one agent instance for
+ */
+export function resolveFanOutItems(forEach: StepFanOut, source: any): any[] {
+  const items = resolvePath(source, forEach.path);
+
+  if (items === undefined || items === null) {
+    return [];
+  }
+
+  if (!Array.isArray(items)) {
+    throw new Error(`Fan-out path ${forEach.path} does not resolve to an array`);
+  }
+
+  return forEach.maxItems ? items.slice(0, forEach.maxItems) : items;
+}
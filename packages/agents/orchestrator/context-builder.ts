@@ -2,9 +2,12 @@ import { PrismaClient } from '@business-automation/database';
 import type { ClientSchema } from '@business-automation/schema';
 import type { AgentRole } from '@business-automation/database';
 import type { ExtendedAgentContext } from '../shared/base-agent';
+import type { LLMSelection } from '../shared/llm-provider';
+import type { ModelRoutingPolicy } from '../shared/model-router';
 import { getRedisClient } from '../shared/redis-client';
 import { getStorageClient } from '../shared/storage-client';
 import { getMCPManager } from '../shared/mcp-manager';
+import { getEventBus } from './events';
 import { randomUUID } from 'crypto';
 
 /**
@@ -17,6 +20,10 @@ export interface BaseContextConfig {
   userId?: string;
   traceId: string;
   clientSchema?: ClientSchema;
+  /** Tenant's LLM provider/model */
+  llm?: LLMSelection;
+  /** Tenant's model routing */
+  modelRouting?: ModelRoutingPolicy;
 }
 
 /**
@@ -90,6 +97,9 @@ export class ContextBuilder {
         tenantId: this.baseConfig.tenantId,
         projectId: this.baseConfig.projectId,
       },
+      llm: this.baseConfig.llm,
+      modelRouting: this.baseConfig.modelRouting,
+      events: getEventBus(this.baseConfig.tenantId, this.baseConfig.workflowExecutionId, this.prisma),
     };
 
     return context;
@@ -0,0 +1,221 @@
+import type { AgentRole } from '@business-automation/database';
+import type { QualityMetrics } from './refinement';
+
+/**
+ * Evaluated iteration of the refinement loop
+ */
+export interface IterationScore {
+  iteration: number;
+  overallScore: number;
+  dimensionScores: Record<string, number>;
+  /** Cost of the agents that ran this iteration (reused agents excluded) */
+  cost: number;
+  /** Whether every agent of the iteration succeeded */
+  success: boolean;
+  /** Executions that produced the iteration's outputs (one per instance for fan-out agents) */
+  agentExecutions: Partial<Record<AgentRole, string | string[]>>;
+  evaluationId?: string;
+}
+
+/**
+ * State a convergence strategy decides on
+ */
+export interface ConvergenceState {
+  iteration: number;
+  metrics: QualityMetrics;
+  /** Evaluated iterations so far, including the current one */
+  history: IterationScore[];
+  /** Cost of the refinement iterations so far (iteration 0 excluded) */
+  refinementCost: number;
+}
+
+/**
+ * Verdict of a strategy that wants the loop to stop
+ */
+export interface ConvergenceVerdict {
+  strategy: string;
+  reason: string;
+  /** True when the output is good enough, false when refining further isn't worth it */
+  accepted: boolean;
+}
+
+/**
+ * Stop condition for the refinement loop
+ */
+export interface ConvergenceStrategy {
+  name: string;
+
+  /**
+   * Return a verdict to stop refining, or null to keep going
+   */
+  evaluate(state: ConvergenceState): ConvergenceVerdict | null;
+}
+
+/**
+ * Which iteration's output a workflow keeps when the loop ends
+ */
+export type IterationSelection = 'last' | 'best';
+
+/**
+ * Stop once the overall score reaches the quality threshold
+ */
+export class OverallThresholdStrategy implements ConvergenceStrategy {
+  name = 'overall-threshold';
+
+  constructor(private threshold: number) {}
+
+  /**
+   * Accept when the overall score meets the threshold
+   */
+  evaluate({ metrics }: ConvergenceState): ConvergenceVerdict | null {
+    if (metrics.overallScore < this.threshold) {
+      return null;
+    }
+
+    return {
+      strategy: this.name,
+      reason: `Quality threshold met (${metrics.overallScore.toFixed(2)} >= ${this.threshold})`,
+      accepted: true,
+    };
+  }
+}
+
+/**
+ * Stop once every dimension meets its own threshold
+ */
+export class DimensionThresholdStrategy implements ConvergenceStrategy {
+  name = 'dimension-thresholds';
+
+  /**
+   * Accept when no dimension is below its threshold
+   */
+  evaluate({ metrics }: ConvergenceState): ConvergenceVerdict | null {
+    if (metrics.totalEvaluations === 0 || metrics.failedDimensions.length > 0) {
+      return null;
+    }
+
+    return {
+      strategy: this.name,
+      reason: `All ${metrics.dimensionScores.size} dimensions meet their thresholds`,
+      accepted: true,
+    };
+  }
+}
+
+/**
+ * Stop when an iteration improves the overall score by less than a minimum
+ */
+export class MinimumImprovementStrategy implements ConvergenceStrategy {
+  name = 'minimum-improvement';
+
+  constructor(private minImprovement: number) {}
+
+  /**
+   * Stop when the last iteration barely moved (or lowered) the score
+   */
+  evaluate({ history }: ConvergenceState): ConvergenceVerdict | null {
+    if (history.length < 2) {
+      return null;
+    }
+
+    const current = history[history.length - 1]!;
+    const previous = history[history.length - 2]!;
+    const improvement = current.overallScore - previous.overallScore;
+
+    if (improvement >= this.minImprovement) {
+      return null;
+    }
+
+    return {
+      strategy: this.name,
+      reason:
+        `Score changed by ${improvement >= 0 ? '+' : ''}${improvement.toFixed(3)} ` +
+        `(< ${this.minImprovement} minimum improvement)`,
+      accepted: false,
+    };
+  }
+}
+
+/**
+ * Stop when another refinement iteration would exceed a cost ceiling
+ *
+ * The next iteration is projected to cost as much as the latest one.
+ */
+export class CostCeilingStrategy implements ConvergenceStrategy {
+  name = 'cost-ceiling';
+
+  constructor(private maxRefinementCost: number) {}
+
+  /**
+   * Stop when spent plus projected refinement cost goes over the ceiling
+   */
+  evaluate({ history, refinementCost }: ConvergenceState): ConvergenceVerdict | null {
+    const projected = refinementCost + (history[history.length - 1]?.cost || 0);
+
+    if (projected <= this.maxRefinementCost) {
+      return null;
+    }
+
+    return {
+      strategy: this.name,
+      reason:
+        `Refinement cost ceiling $${this.maxRefinementCost.toFixed(2)} would be exceeded ` +
+        `($${refinementCost.toFixed(2)} spent, next iteration ~$${(projected - refinementCost).toFixed(2)})`,
+      accepted: false,
+    };
+  }
+}
+
+/**
+ * Build the stop conditions for a refinement configuration
+ *
+ * Per-dimension thresholds replace the overall threshold when configured.
+ * Custom strategies run after the built-in ones.
+ */
+export function createConvergenceStrategies(config: {
+  qualityThreshold: number;
+  dimensionThresholds?: Map<string, number>;
+  minImprovement?: number;
+  maxRefinementCost?: number;
+  strategies?: ConvergenceStrategy[];
+}): ConvergenceStrategy[] {
+  const strategies: ConvergenceStrategy[] = [
+    config.dimensionThresholds && config.dimensionThresholds.size > 0
+      ? new DimensionThresholdStrategy()
+      : new OverallThresholdStrategy(config.qualityThreshold),
+  ];
+
+  if (config.minImprovement !== undefined) {
+    strategies.push(new MinimumImprovementStrategy(config.minImprovement));
+  }
+
+  if (config.maxRefinementCost !== undefined) {
+    strategies.push(new CostCeilingStrategy(config.maxRefinementCost));
+  }
+
+  return [...strategies, ...(config.strategies || [])];
+}
+
+/**
+ * Pick the iteration whose output the workflow keeps
+ *
+ * `best` takes the highest-scoring successful iteration (the latest on ties) and falls
+ * back to the last iteration when none succeeded.
+ */
+export function selectIteration(
+  history: IterationScore[],
+  selection: IterationSelection
+): IterationScore | undefined {
+  const last = history[history.length - 1];
+
+  if (selection === 'last') {
+    return last;
+  }
+
+  return history
+    .filter((entry) => entry.success)
+    .reduce<IterationScore | undefined>(
+      (best, entry) => (!best || entry.overallScore >= best.overallScore ? entry : best),
+      undefined
+    ) || last;
+}
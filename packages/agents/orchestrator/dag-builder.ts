@@ -1,6 +1,18 @@
-import type { AgentRole } from '@business-automation/database';
-import type { WorkflowDefinition } from '@business-automation/schema';
+import type { AgentRole, WorkflowDefinition as WorkflowDefinitionRecord } from '@business-automation/database';
+import type {
+  WorkflowDefinition,
+  WorkflowStep,
+  FailurePolicy,
+  StepFanOut,
+} from '@business-automation/schema';
 import { getRegistry } from './registry';
+import type { StepConditionInput } from './conditions';
+import { validateInputMappings, type StepInputMapping } from './input-mapping';
+
+/**
+ * Failure policy applied when neither the workflow step nor the manifest declares one
+ */
+export const DEFAULT_FAILURE_POLICY: FailurePolicy = { type: 'continue' };
 
 /**
  * DAG node representing an agent in the workflow
@@ -11,6 +23,42 @@ export interface DAGNode {
   dependents: AgentRole[];
   stage: number;
   canRunInParallel: AgentRole[];
+  failurePolicy: FailurePolicy;
+  /** Run only when this predicate over the agent's input holds */
+  condition?: StepConditionInput;
+  /** Run one agent instance per item of an array in the agent's input */
+  forEach?: StepFanOut;
+  /** Declared input fields; when set the agent receives only these */
+  inputs?: StepInputMapping;
+  /** Agent-specific config from the workflow step */
+  config?: Record<string, any>;
+}
+
+/**
+ * Approval gate declared by an `approval` workflow step
+ *
+ * Agents that depend on a reviewed agent are held until a reviewer approves
+ * the reviewed outputs.
+ */
+export interface ApprovalGateNode {
+  /** Gate name (the approval step's id) */
+  id: string;
+  name: string;
+  /** Agents whose outputs are submitted for review */
+  reviews: AgentRole[];
+  /** Inngest duration ("12h", "7d"); the approval default when omitted */
+  timeout?: string;
+}
+
+/**
+ * Options for adding a node to the graph
+ */
+export interface DAGNodeOptions {
+  failurePolicy?: FailurePolicy;
+  condition?: StepConditionInput;
+  forEach?: StepFanOut;
+  inputs?: StepInputMapping;
+  config?: Record<string, any>;
 }
 
 /**
@@ -32,11 +80,16 @@ export interface ExecutionPlan {
 export class DAG {
   private nodes: Map<AgentRole, DAGNode> = new Map();
   private edges: Map<AgentRole, Set<AgentRole>> = new Map();
+  private gates: Map<string, ApprovalGateNode> = new Map();
 
   /**
    * Add a node to the graph
    */
-  public addNode(role: AgentRole, dependencies: AgentRole[] = []): void {
+  public addNode(
+    role: AgentRole,
+    dependencies: AgentRole[] = [],
+    options: DAGNodeOptions = {}
+  ): void {
     if (this.nodes.has(role)) {
       throw new Error(`Node ${role} already exists in DAG`);
     }
@@ -47,6 +100,11 @@ export class DAG {
       dependents: [],
       stage: -1,
       canRunInParallel: [],
+      failurePolicy: options.failurePolicy || DEFAULT_FAILURE_POLICY,
+      condition: options.condition,
+      forEach: options.forEach,
+      inputs: options.inputs,
+      config: options.config,
     };
 
     this.nodes.set(role, node);
@@ -59,6 +117,41 @@ export class DAG {
         depNode.dependents.push(role);
       }
     }
+
+    // Link nodes added earlier that depend on this one
+    for (const other of this.nodes.values()) {
+      if (other.role !== role && other.dependencies.includes(role)) {
+        node.dependents.push(other.role);
+      }
+    }
+  }
+
+  /**
+   * Add an approval gate over agents already in (or later added to) the graph
+   */
+  public addGate(gate: ApprovalGateNode): void {
+    if (this.gates.has(gate.id)) {
+      throw new Error(`Approval gate ${gate.id} already exists in DAG`);
+    }
+
+    this.gates.set(gate.id, gate);
+  }
+
+  /**
+   * Get all approval gates
+   */
+  public getGates(): ApprovalGateNode[] {
+    return Array.from(this.gates.values());
+  }
+
+  /**
+   * Get the gates that hold an agent: those reviewing one of its dependencies
+   */
+  public getGatesHolding(role: AgentRole): ApprovalGateNode[] {
+    const dependencies = this.getDependencies(role);
+    return this.getGates().filter(
+      (gate) => !gate.reviews.includes(role) && gate.reviews.some((reviewed) => dependencies.includes(reviewed))
+    );
   }
 
   /**
@@ -82,6 +175,86 @@ export class DAG {
     return Array.from(this.edges.get(role) || []);
   }
 
+  /**
+   * Get failure policy for a node
+   */
+  public getFailurePolicy(role: AgentRole): FailurePolicy {
+    return this.nodes.get(role)?.failurePolicy || DEFAULT_FAILURE_POLICY;
+  }
+
+  /**
+   * Get every node that directly or transitively depends on a node (its blast radius)
+   */
+  public getTransitiveDependents(role: AgentRole): AgentRole[] {
+    const result: AgentRole[] = [];
+    const visited = new Set<AgentRole>([role]);
+    const queue = [...(this.nodes.get(role)?.dependents || [])];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (visited.has(current)) {
+        continue;
+      }
+
+      visited.add(current);
+      result.push(current);
+      queue.push(...(this.nodes.get(current)?.dependents || []));
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the given nodes plus everything downstream of them, in execution order
+   *
+   * Roles that aren't in the DAG are ignored.
+   */
+  public getAffectedAgents(roles: AgentRole[]): AgentRole[] {
+    const affected = new Set<AgentRole>();
+
+    for (const role of roles) {
+      if (!this.nodes.has(role)) {
+        continue;
+      }
+
+      affected.add(role);
+      this.getTransitiveDependents(role).forEach((dependent) => affected.add(dependent));
+    }
+
+    return this.getExecutionPlan()
+      .stages.flatMap((stage) => stage.agents)
+      .filter((role) => affected.has(role));
+  }
+
+  /**
+   * Get the longest weighted path from each node to a sink, including the node itself
+   *
+   * Nodes with longer remaining paths sit on the critical path and should be dispatched first.
+   */
+  public getCriticalPathLengths(weight: (role: AgentRole) => number = () => 1): Map<AgentRole, number> {
+    const lengths = new Map<AgentRole, number>();
+
+    const visit = (role: AgentRole): number => {
+      const cached = lengths.get(role);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const dependents = this.nodes.get(role)?.dependents || [];
+      const longest = dependents.reduce((max, dependent) => Math.max(max, visit(dependent)), 0);
+      const length = weight(role) + longest;
+
+      lengths.set(role, length);
+      return length;
+    };
+
+    for (const role of this.nodes.keys()) {
+      visit(role);
+    }
+
+    return lengths;
+  }
+
   /**
    * Check if there's a path from source to target
    */
@@ -131,6 +304,15 @@ export class DAG {
       }
     }
 
+    // Check that gates review agents of this graph
+    for (const gate of this.gates.values()) {
+      for (const role of gate.reviews) {
+        if (!this.nodes.has(role)) {
+          errors.push(`Approval gate ${gate.id} reviews ${role} which is not in the graph`);
+        }
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -259,7 +441,14 @@ export class DAG {
 
     // Add nodes with stage labels
     for (const node of this.nodes.values()) {
-      dot += `  "${node.role}" [label="${node.role}\\nStage ${node.stage}"];\n`;
+      const attrs = [`label="${node.role}\\nStage ${node.stage}"`];
+      if (node.condition) {
+        attrs.push('style=dashed');
+      }
+      if (node.forEach) {
+        attrs.push('shape=box3d');
+      }
+      dot += `  "${node.role}" [${attrs.join(', ')}];\n`;
     }
 
     dot += '\n';
@@ -305,10 +494,46 @@ export class DAG {
   }
 }
 
+/**
+ * Read a stored workflow definition, whose steps and config are JSON columns
+ */
+export function toWorkflowDefinition(record: WorkflowDefinitionRecord): WorkflowDefinition {
+  return {
+    ...record,
+    type: record.type.toLowerCase() as WorkflowDefinition['type'],
+    steps: (record.steps || []) as WorkflowStep[],
+    config: (record.config || {}) as WorkflowDefinition['config'],
+  };
+}
+
 /**
  * Build DAG from workflow definition
  */
 export function buildDAGFromWorkflow(workflow: WorkflowDefinition): DAG {
+  const dag = buildWorkflowGraph(workflow);
+
+  // Validate DAG
+  const validation = dag.validate();
+  if (!validation.valid) {
+    throw new Error(`Invalid workflow DAG: ${validation.errors.join(', ')}`);
+  }
+
+  // Validate declared input mappings against agent manifests
+  const mappingErrors = validateInputMappings(dag);
+  if (mappingErrors.length > 0) {
+    throw new Error(`Invalid workflow input mapping: ${mappingErrors.join(', ')}`);
+  }
+
+  // Calculate execution stages
+  dag.calculateStages();
+
+  return dag;
+}
+
+/**
+ * Add a workflow's agents and step settings to a DAG without validating it
+ */
+export function buildWorkflowGraph(workflow: WorkflowDefinition): DAG {
   const dag = new DAG();
   const registry = getRegistry();
 
@@ -318,18 +543,26 @@ export function buildDAGFromWorkflow(workflow: WorkflowDefinition): DAG {
   // Add nodes with their dependencies from registry
   for (const role of agentRoles) {
     const dependencies = registry.getDependencies(role);
-    dag.addNode(role, dependencies);
+    const step = findAgentStep(role, workflow.steps || []);
+
+    dag.addNode(role, dependencies, {
+      failurePolicy: resolveFailurePolicy(role, workflow.steps || []),
+      condition: step?.condition,
+      forEach: step?.forEach,
+      inputs: step?.inputs,
+      config: step?.config,
+    });
   }
 
-  // Validate DAG
-  const validation = dag.validate();
-  if (!validation.valid) {
-    throw new Error(`Invalid workflow DAG: ${validation.errors.join(', ')}`);
+  for (const step of collectApprovalSteps(workflow.steps || [])) {
+    dag.addGate({
+      id: step.id,
+      name: step.name,
+      reviews: step.approval.reviews as AgentRole[],
+      timeout: step.approval.timeout,
+    });
   }
 
-  // Calculate execution stages
-  dag.calculateStages();
-
   return dag;
 }
 
@@ -344,7 +577,7 @@ export function buildDAGFromRoles(roles: AgentRole[]): DAG {
     const dependencies = registry.getDependencies(role);
     // Only include dependencies that are in the roles list
     const filteredDeps = dependencies.filter((dep) => roles.includes(dep));
-    dag.addNode(role, filteredDeps);
+    dag.addNode(role, filteredDeps, { failurePolicy: resolveFailurePolicy(role) });
   }
 
   const validation = dag.validate();
@@ -357,6 +590,73 @@ export function buildDAGFromRoles(roles: AgentRole[]): DAG {
   return dag;
 }
 
+/**
+ * Resolve failure policy for an agent: workflow step, then manifest, then default
+ */
+export function resolveFailurePolicy(role: AgentRole, steps: WorkflowStep[] = []): FailurePolicy {
+  const step = findAgentStep(role, steps);
+  if (step?.onFailure) {
+    return step.onFailure;
+  }
+
+  const manifest = getRegistry().getManifest(role);
+  return manifest?.onFailure || DEFAULT_FAILURE_POLICY;
+}
+
+/**
+ * Find the workflow step that runs an agent, searching nested steps
+ */
+function findAgentStep(role: AgentRole, steps: WorkflowStep[]): WorkflowStep | undefined {
+  for (const step of steps) {
+    if (step.agentRole === role) {
+      return step;
+    }
+
+    if (step.children) {
+      const child = findAgentStep(role, step.children);
+      if (child) {
+        return child;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Collect the agent roles referenced by workflow steps, in declaration order
+ */
+function collectStepRoles(steps: WorkflowStep[], roles: AgentRole[] = []): AgentRole[] {
+  for (const step of steps) {
+    if (step.agentRole && !roles.includes(step.agentRole)) {
+      roles.push(step.agentRole as AgentRole);
+    }
+
+    if (step.children) {
+      collectStepRoles(step.children, roles);
+    }
+  }
+
+  return roles;
+}
+
+/**
+ * Collect the approval steps of a workflow, searching nested steps
+ */
+function collectApprovalSteps(steps: WorkflowStep[], approvals: WorkflowStep[] = []): WorkflowStep[] {
+  for (const step of steps) {
+    if (step.type === 'approval' && step.approval) {
+      approvals.push(step);
+    }
+
+    if (step.children) {
+      collectApprovalSteps(step.children, approvals);
+    }
+  }
+
+  return approvals;
+}
+
 /**
  * Parse agent roles from workflow definition
  */
@@ -369,6 +669,12 @@ function parseAgentRoles(workflow: WorkflowDefinition): AgentRole[] {
     return config.agents as AgentRole[];
   }
 
+  // Otherwise use the agents named by the workflow steps
+  const stepRoles = collectStepRoles(workflow.steps || []);
+  if (stepRoles.length > 0) {
+    return stepRoles;
+  }
+
   // If not specified, infer from workflow type
   // This is a placeholder - you would implement logic based on your workflow types
   return inferAgentsFromType(workflow.type);
@@ -0,0 +1,296 @@
+import type { PrismaClient } from '@business-automation/database';
+import { getStreamLastId, subscribeToStream, type StreamMessage } from '../shared/redis-client';
+import type { WorkflowEvent, WorkflowEventType } from './events';
+
+/**
+ * Default number of events per page
+ */
+export const DEFAULT_EVENT_PAGE_SIZE = 100;
+
+/**
+ * Largest page a caller can request
+ */
+export const MAX_EVENT_PAGE_SIZE = 500;
+
+/**
+ * Workflow event as stored in the durable log
+ */
+export interface LoggedWorkflowEvent extends WorkflowEvent {
+  sequence: number;
+  agentRole?: string;
+  agentExecutionId?: string;
+}
+
+/**
+ * Agent an event is about
+ */
+export interface EventAgentRef {
+  agentRole: string;
+  agentExecutionId: string;
+}
+
+/**
+ * Event log page query
+ */
+export interface EventLogQuery {
+  /** Return events after this sequence (0 = from the start) */
+  afterSequence?: number;
+  limit?: number;
+  types?: WorkflowEventType[];
+}
+
+/**
+ * Page of logged events
+ */
+export interface EventLogPage {
+  events: LoggedWorkflowEvent[];
+  /** Sequence to pass as `afterSequence` for the next page, null when caught up */
+  nextSequence: number | null;
+}
+
+/**
+ * Replay options
+ */
+export interface EventReplayOptions {
+  /** First sequence to deliver (defaults to 1, the start of the log) */
+  fromSequence?: number;
+  /** Keep tailing live events after the replay (default true) */
+  follow?: boolean;
+}
+
+/**
+ * Durable, ordered event log of workflow executions
+ *
+ * Each event gets the next sequence of its WorkflowExecution. Sequences are allocated by
+ * incrementing `WorkflowExecution.lastEventSequence` inside the insert transaction, so they
+ * are gap-free and a committed sequence implies every lower one is committed too.
+ */
+export class WorkflowEventLog {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Append an event to the log
+   */
+  async append(
+    tenantId: string,
+    workflowExecutionId: string,
+    type: WorkflowEventType,
+    data: any,
+    agent?: EventAgentRef
+  ): Promise<LoggedWorkflowEvent> {
+    const record = await this.prisma.$transaction(async (tx) => {
+      const { lastEventSequence } = await tx.workflowExecution.update({
+        where: { id: workflowExecutionId },
+        data: { lastEventSequence: { increment: 1 } },
+        select: { lastEventSequence: true },
+      });
+
+      return tx.workflowEventRecord.create({
+        data: {
+          tenantId,
+          workflowExecutionId,
+          sequence: lastEventSequence,
+          type,
+          agentRole: agent?.agentRole,
+          agentExecutionId: agent?.agentExecutionId,
+          data: (data ?? {}) as any,
+        },
+      });
+    });
+
+    return toLoggedEvent(record);
+  }
+
+  /**
+   * Page through the events of a workflow execution in sequence order
+   */
+  async list(tenantId: string, workflowExecutionId: string, query: EventLogQuery = {}): Promise<EventLogPage> {
+    const limit = Math.min(query.limit || DEFAULT_EVENT_PAGE_SIZE, MAX_EVENT_PAGE_SIZE);
+
+    const records = await this.prisma.workflowEventRecord.findMany({
+      where: {
+        tenantId,
+        workflowExecutionId,
+        sequence: { gt: query.afterSequence || 0 },
+        ...(query.types?.length ? { type: { in: query.types } } : {}),
+      },
+      orderBy: { sequence: 'asc' },
+      take: limit + 1,
+    });
+
+    const hasMore = records.length > limit;
+    const events = records.slice(0, limit).map(toLoggedEvent);
+
+    return {
+      events,
+      nextSequence: hasMore ? events[events.length - 1]!.sequence : null,
+    };
+  }
+
+  /**
+   * Latest sequence of a workflow execution (0 when nothing was logged)
+   */
+  async getLastSequence(tenantId: string, workflowExecutionId: string): Promise<number> {
+    const workflow = await this.prisma.workflowExecution.findFirst({
+      where: { id: workflowExecutionId, tenantId },
+      select: { lastEventSequence: true },
+    });
+
+    return workflow?.lastEventSequence ?? 0;
+  }
+
+  /**
+   * Replay the log from a sequence, then tail live events
+   *
+   * Live events are read from the workflow's Redis stream starting at its current end, so
+   * nothing published during the replay is missed; they are buffered until the replay
+   * finishes and deduplicated by sequence. A live event that skips ahead (concurrent
+   * emitters can publish out of order) fills the gap from the log first. Events that
+   * failed to persist carry no sequence and are not delivered. Returns an unsubscribe
+   * function.
+   */
+  async replay(
+    tenantId: string,
+    workflowExecutionId: string,
+    onEvent: (event: LoggedWorkflowEvent) => void | Promise<void>,
+    options: EventReplayOptions = {}
+  ): Promise<() => void> {
+    let delivered = Math.max((options.fromSequence ?? 1) - 1, 0);
+    let replaying = true;
+    const buffered: LoggedWorkflowEvent[] = [];
+    let unsubscribe = () => {};
+
+    const deliver = async (event: LoggedWorkflowEvent) => {
+      if (event.sequence <= delivered) {
+        return;
+      }
+
+      if (event.sequence > delivered + 1) {
+        await catchUp(event.sequence - 1);
+      }
+
+      if (event.sequence > delivered) {
+        delivered = event.sequence;
+        await onEvent(event);
+      }
+    };
+
+    const catchUp = async (untilSequence = Infinity) => {
+      let afterSequence: number | null = delivered;
+
+      while (afterSequence !== null && delivered < untilSequence) {
+        const page: EventLogPage = await this.list(tenantId, workflowExecutionId, { afterSequence });
+
+        for (const event of page.events) {
+          if (event.sequence > untilSequence) {
+            return;
+          }
+          if (event.sequence > delivered) {
+            delivered = event.sequence;
+            await onEvent(event);
+          }
+        }
+
+        afterSequence = page.nextSequence;
+      }
+    };
+
+    if (options.follow !== false) {
+      const stream = `workflow:${workflowExecutionId}`;
+      const lastId = await getStreamLastId(tenantId, stream);
+
+      unsubscribe = await subscribeToStream(
+        tenantId,
+        stream,
+        async (message) => {
+          const event = fromStreamMessage(workflowExecutionId, message);
+          if (!event) {
+            return;
+          }
+
+          if (replaying) {
+            buffered.push(event);
+          } else {
+            await deliver(event);
+          }
+        },
+        { lastId }
+      );
+    }
+
+    try {
+      await catchUp();
+    } catch (error) {
+      unsubscribe();
+      throw error;
+    }
+
+    replaying = false;
+    for (const event of buffered.sort((a, b) => a.sequence - b.sequence)) {
+      await deliver(event);
+    }
+    buffered.length = 0;
+
+    return unsubscribe;
+  }
+}
+
+/**
+ * Create a workflow event log
+ */
+export function createEventLog(prisma: PrismaClient): WorkflowEventLog {
+  return new WorkflowEventLog(prisma);
+}
+
+/**
+ * Convert a stored record to an event
+ */
+function toLoggedEvent(record: {
+  workflowExecutionId: string;
+  sequence: number;
+  type: string;
+  agentRole: string | null;
+  agentExecutionId: string | null;
+  data: any;
+  createdAt: Date;
+}): LoggedWorkflowEvent {
+  return {
+    type: record.type as WorkflowEventType,
+    workflowExecutionId: record.workflowExecutionId,
+    timestamp: record.createdAt,
+    data: record.data,
+    sequence: record.sequence,
+    agentRole: record.agentRole ?? undefined,
+    agentExecutionId: record.agentExecutionId ?? undefined,
+  };
+}
+
+/**
+ * Parse a sequenced event published by WorkflowEventBus
+ */
+function fromStreamMessage(workflowExecutionId: string, message: StreamMessage): LoggedWorkflowEvent | null {
+  const sequence = Number(message.data.sequence);
+
+  if (!message.data.eventType || !Number.isInteger(sequence) || sequence <= 0) {
+    return null;
+  }
+
+  try {
+    return {
+      type: message.data.eventType as WorkflowEventType,
+      workflowExecutionId,
+      timestamp: new Date(message.data.timestamp || Date.now()),
+      data: message.data.data ? JSON.parse(message.data.data) : {},
+      sequence,
+      agentRole: message.data.agentRole || undefined,
+      agentExecutionId: message.data.agentExecutionId || undefined,
+    };
+  } catch (error) {
+    console.error('[EventLog] Failed to parse stream message:', error);
+    return null;
+  }
+}
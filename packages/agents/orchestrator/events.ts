@@ -1,6 +1,11 @@
 import EventEmitter from 'events';
-import type { AgentRole } from '@business-automation/database';
+import type { AgentRole, PrismaClient } from '@business-automation/database';
 import { publishToStream, subscribeToStream } from '../shared/redis-client';
+import { createWebhookDispatcher, isWebhookEventType, type WebhookDispatcher } from '../shared/webhooks';
+import type { AgentOutputDelta } from '../shared/output-throttle';
+import { createEventLog, type EventAgentRef, type WorkflowEventLog } from './event-log';
+
+export type { AgentOutputDelta } from '../shared/output-throttle';
 
 /**
  * Workflow event types
@@ -19,6 +24,9 @@ export enum WorkflowEventType {
   AGENT_COMPLETED = 'agent.completed',
   AGENT_FAILED = 'agent.failed',
   AGENT_RETRYING = 'agent.retrying',
+  AGENT_SKIPPED = 'agent.skipped',
+  AGENT_CANCELLED = 'agent.cancelled',
+  AGENT_OUTPUT = 'agent.output',
 
   REFINEMENT_STARTED = 'refinement.started',
   REFINEMENT_DECISION = 'refinement.decision',
@@ -26,6 +34,13 @@ export enum WorkflowEventType {
 
   STAGE_STARTED = 'stage.started',
   STAGE_COMPLETED = 'stage.completed',
+
+  COST_UPDATED = 'cost.updated',
+  BUDGET_APPROACHING = 'budget.approaching',
+  BUDGET_EXCEEDED = 'budget.exceeded',
+
+  APPROVAL_REQUESTED = 'approval.requested',
+  APPROVAL_DECIDED = 'approval.decided',
 }
 
 /**
@@ -36,6 +51,8 @@ export interface WorkflowEvent {
   workflowExecutionId: string;
   timestamp: Date;
   data: any;
+  /** Position in the durable event log (absent when the event could not be persisted) */
+  sequence?: number;
 }
 
 /**
@@ -46,36 +63,93 @@ export interface AgentEvent extends WorkflowEvent {
   agentExecutionId: string;
 }
 
+/**
+ * Messages kept in a workflow's partial output stream
+ */
+export const OUTPUT_STREAM_MAX_LENGTH = 1000;
+
+/**
+ * Seconds a workflow's partial output stream outlives its last message
+ */
+export const OUTPUT_STREAM_TTL_SECONDS = 3600;
+
+/**
+ * Redis stream carrying a workflow's partial agent output
+ *
+ * Kept apart from the workflow stream because deltas are not persisted.
+ */
+export function getOutputStreamName(workflowExecutionId: string): string {
+  return `workflow:${workflowExecutionId}:output`;
+}
+
 /**
  * Event bus for workflow orchestration
+ *
+ * With an event log attached, every event is first appended to the durable log and
+ * then emitted locally and published to Redis carrying its sequence.
  */
 export class WorkflowEventBus extends EventEmitter {
   private tenantId: string;
   private workflowExecutionId: string;
   private unsubscribe?: () => void;
+  private eventLog?: WorkflowEventLog;
+  private webhooks?: WebhookDispatcher;
 
-  constructor(tenantId: string, workflowExecutionId: string) {
+  constructor(tenantId: string, workflowExecutionId: string, eventLog?: WorkflowEventLog) {
     super();
     this.tenantId = tenantId;
     this.workflowExecutionId = workflowExecutionId;
+    this.eventLog = eventLog;
+  }
+
+  /**
+   * Persist events to a durable log from now on
+   */
+  attachEventLog(eventLog: WorkflowEventLog): void {
+    this.eventLog = eventLog;
+  }
+
+  /**
+   * Whether events are persisted
+   */
+  hasEventLog(): boolean {
+    return !!this.eventLog;
+  }
+
+  /**
+   * Deliver subscribed events to the tenant's webhook endpoints from now on
+   */
+  attachWebhooks(webhooks: WebhookDispatcher): void {
+    this.webhooks = webhooks;
+  }
+
+  /**
+   * Whether events are delivered to webhooks
+   */
+  hasWebhooks(): boolean {
+    return !!this.webhooks;
   }
 
   /**
    * Emit workflow event
    */
   async emitWorkflowEvent(type: WorkflowEventType, data: any): Promise<void> {
+    const sequence = await this.appendToLog(type, data);
     const event: WorkflowEvent = {
       type,
       workflowExecutionId: this.workflowExecutionId,
       timestamp: new Date(),
       data,
+      sequence,
     };
 
     // Emit locally
     this.emit(type, event);
 
-    // Publish to Redis stream for persistence and SSE
-    await this.publishToRedis(type, data);
+    // Publish to Redis stream for SSE
+    await this.publishToRedis(type, data, sequence);
+
+    await this.dispatchWebhooks(type, data, sequence);
   }
 
   /**
@@ -87,6 +161,8 @@ export class WorkflowEventBus extends EventEmitter {
     agentExecutionId: string,
     data: any
   ): Promise<void> {
+    const agent: EventAgentRef = { agentRole, agentExecutionId };
+    const sequence = await this.appendToLog(type, data, agent);
     const event: AgentEvent = {
       type,
       workflowExecutionId: this.workflowExecutionId,
@@ -94,6 +170,7 @@ export class WorkflowEventBus extends EventEmitter {
       agentExecutionId,
       timestamp: new Date(),
       data,
+      sequence,
     };
 
     // Emit locally
@@ -101,23 +178,126 @@ export class WorkflowEventBus extends EventEmitter {
     this.emit(`agent.${agentRole}`, event);
 
     // Publish to Redis stream
-    await this.publishToRedis(type, {
-      ...data,
+    await this.publishToRedis(
+      type,
+      {
+        ...data,
+        agentRole,
+        agentExecutionId,
+      },
+      sequence,
+      agent
+    );
+
+    await this.dispatchWebhooks(type, data, sequence, agent);
+  }
+
+  /**
+   * Emit partial agent output
+   *
+   * Deltas skip the durable log and go to a capped, expiring Redis stream.
+   */
+  async emitAgentOutput(agentRole: AgentRole, agentExecutionId: string, output: AgentOutputDelta): Promise<void> {
+    const event: AgentEvent = {
+      type: WorkflowEventType.AGENT_OUTPUT,
+      workflowExecutionId: this.workflowExecutionId,
       agentRole,
       agentExecutionId,
-    });
+      timestamp: new Date(),
+      data: output,
+    };
+
+    // Emit locally
+    this.emit(WorkflowEventType.AGENT_OUTPUT, event);
+
+    try {
+      await publishToStream(
+        this.tenantId,
+        getOutputStreamName(this.workflowExecutionId),
+        {
+          eventType: WorkflowEventType.AGENT_OUTPUT,
+          workflowExecutionId: this.workflowExecutionId,
+          timestamp: event.timestamp.toISOString(),
+          data: JSON.stringify(output),
+          agentRole,
+          agentExecutionId,
+        },
+        { maxLength: OUTPUT_STREAM_MAX_LENGTH, ttlSeconds: OUTPUT_STREAM_TTL_SECONDS }
+      );
+    } catch (error) {
+      console.error('[EventBus] Failed to publish agent output:', error);
+      // Don't throw - partial output is best effort
+    }
+  }
+
+  /**
+   * Append event to the durable log, returning its sequence
+   */
+  private async appendToLog(
+    eventType: WorkflowEventType,
+    data: any,
+    agent?: EventAgentRef
+  ): Promise<number | undefined> {
+    // Agents run outside a workflow (e.g. the website generator) have nothing to append to
+    if (!this.eventLog || !this.workflowExecutionId) {
+      return undefined;
+    }
+
+    try {
+      const logged = await this.eventLog.append(this.tenantId, this.workflowExecutionId, eventType, data, agent);
+      return logged.sequence;
+    } catch (error) {
+      console.error('[EventBus] Failed to persist event:', error);
+      // Don't throw - live subscribers still get the event
+      return undefined;
+    }
+  }
+
+  /**
+   * Create webhook deliveries for a subscribable event
+   */
+  private async dispatchWebhooks(
+    eventType: WorkflowEventType,
+    data: any,
+    sequence?: number,
+    agent?: EventAgentRef
+  ): Promise<void> {
+    if (!this.webhooks || !isWebhookEventType(eventType)) {
+      return;
+    }
+
+    try {
+      await this.webhooks.dispatch({
+        id: sequence !== undefined ? `${this.workflowExecutionId}:${sequence}` : undefined,
+        type: eventType,
+        tenantId: this.tenantId,
+        workflowExecutionId: this.workflowExecutionId,
+        ...(agent || {}),
+        data,
+      });
+    } catch (error) {
+      console.error('[EventBus] Failed to dispatch webhooks:', error);
+      // Don't throw - webhooks must not break the workflow
+    }
   }
 
   /**
    * Publish event to Redis stream
    */
-  private async publishToRedis(eventType: WorkflowEventType, data: any): Promise<void> {
+  private async publishToRedis(
+    eventType: WorkflowEventType,
+    data: any,
+    sequence?: number,
+    agent?: EventAgentRef
+  ): Promise<void> {
     try {
       await publishToStream(this.tenantId, `workflow:${this.workflowExecutionId}`, {
         eventType,
         workflowExecutionId: this.workflowExecutionId,
         timestamp: new Date().toISOString(),
         data: JSON.stringify(data),
+        ...(sequence !== undefined ? { sequence: String(sequence) } : {}),
+        ...(agent || {}),
       });
     } catch (error) {
       console.error('[EventBus] Failed to publish to Redis:', error);
@@ -172,11 +352,12 @@ export class WorkflowEventBus extends EventEmitter {
  */
 class EventBusFactory {
   private buses: Map<string, WorkflowEventBus> = new Map();
+  private webhooks?: WebhookDispatcher;
 
   /**
-   * Get or create event bus for workflow
+   * Get or create event bus for workflow (attaching a durable log and webhooks when given a client)
    */
-  getOrCreate(tenantId: string, workflowExecutionId: string): WorkflowEventBus {
+  getOrCreate(tenantId: string, workflowExecutionId: string, prisma?: PrismaClient): WorkflowEventBus {
     const key = `${tenantId}:${workflowExecutionId}`;
 
     let bus = this.buses.get(key);
@@ -185,9 +366,34 @@ class EventBusFactory {
       this.buses.set(key, bus);
     }
 
+    if (prisma && !bus.hasEventLog()) {
+      bus.attachEventLog(createEventLog(prisma));
+    }
+
+    if (prisma && !bus.hasWebhooks()) {
+      // One dispatcher for all buses so the endpoint cache is shared
+      this.webhooks ??= createWebhookDispatcher(prisma);
+      bus.attachWebhooks(this.webhooks);
+    }
+
     return bus;
   }
 
+  /**
+   * Cached bus for workflow, or an uncached one wired the same way for a single emit
+   */
+  getOrTransient(tenantId: string, workflowExecutionId: string, prisma: PrismaClient): WorkflowEventBus {
+    const bus = this.buses.get(`${tenantId}:${workflowExecutionId}`);
+    if (bus) {
+      return this.getOrCreate(tenantId, workflowExecutionId, prisma);
+    }
+
+    const transient = new WorkflowEventBus(tenantId, workflowExecutionId, createEventLog(prisma));
+    this.webhooks ??= createWebhookDispatcher(prisma);
+    transient.attachWebhooks(this.webhooks);
+    return transient;
+  }
+
   /**
    * Remove event bus
    */
@@ -223,9 +429,32 @@ const eventBusFactory = new EventBusFactory();
 
 /**
  * Get event bus for workflow
+ *
+ * Pass a Prisma client to persist the bus's events to the durable event log and
+ * deliver them to the tenant's webhook endpoints.
  */
-export function getEventBus(tenantId: string, workflowExecutionId: string): WorkflowEventBus {
-  return eventBusFactory.getOrCreate(tenantId, workflowExecutionId);
+export function getEventBus(
+  tenantId: string,
+  workflowExecutionId: string,
+  prisma?: PrismaClient
+): WorkflowEventBus {
+  return eventBusFactory.getOrCreate(tenantId, workflowExecutionId, prisma);
+}
+
+/**
+ * Emit a workflow event from outside the process running the workflow
+ *
+ * Unlike getEventBus, this does not cache a bus, so one-off emits (e.g. from an API
+ * request) do not leave a bus behind per workflow.
+ */
+export async function publishWorkflowEvent(
+  tenantId: string,
+  workflowExecutionId: string,
+  prisma: PrismaClient,
+  type: WorkflowEventType,
+  data: any
+): Promise<void> {
+  await eventBusFactory.getOrTransient(tenantId, workflowExecutionId, prisma).emitWorkflowEvent(type, data);
 }
 
 /**
@@ -311,6 +540,9 @@ export function createEventListener(
 
 /**
  * Event logger for debugging
+ *
+ * Keeps the last N events of this process in memory; the complete history is in
+ * the durable WorkflowEventLog.
  */
 export class EventLogger {
   private listener: WorkflowEventListener;
@@ -1,9 +1,23 @@
 import PQueue from 'p-queue';
-import type { AgentRole } from '@business-automation/database';
+import type { AgentRole, PrismaClient } from '@business-automation/database';
 import type { BaseAgent, ExtendedAgentContext, AgentExecutionResult } from '../shared/base-agent';
-import { createAgent } from './registry';
-import type { DAG, ExecutionPlan } from './dag-builder';
+import { createAgent, getAgent, getRegistry, selectAgentVersion, type AgentVersionPins } from './registry';
+import type { ApprovalGateNode, DAG, ExecutionPlan } from './dag-builder';
 import { withLock } from '../shared/redis-client';
+import {
+  DEFAULT_AGENT_TIMEOUT_MS,
+  createAgentSignal,
+  getAbortMessage,
+  isBudgetExceeded,
+  isCancelled,
+} from '../shared/cancellation';
+import type { BudgetPolicy } from '../shared/budget-monitor';
+import type { LLMSelection } from '../shared/llm-provider';
+import { resolveAgentModel, type ModelRoutingPolicy } from '../shared/model-router';
+import { createBudgetGuard, type BudgetGuard } from './budget-guard';
+import { getEventBus, WorkflowEventType } from './events';
+import { describeCondition, evaluateCondition, resolveFanOutItems } from './conditions';
+import type { StepFanOut } from '@business-automation/schema';
 
 /**
  * Execution context for a workflow
@@ -14,8 +28,47 @@ export interface ExecutionContext {
   projectId: string;
   userId?: string;
   traceId: string;
+  prisma: PrismaClient;
+  /** Agent versions pinned by the workflow definition and tenant */
+  agentVersions?: AgentVersionPins;
+  /** Aborted when the workflow is cancelled */
+  signal?: AbortSignal;
+  /** Limits checked before each agent is dispatched and while it runs */
+  budget?: BudgetPolicy;
+  /** Tenant LLM provider/model, used to price budget estimates */
+  llm?: LLMSelection;
+  /** Tenant model routing, used to price budget estimates */
+  modelRouting?: ModelRoutingPolicy;
 }
 
+/**
+ * Time an aborted agent gets to stop on its own before the executor gives up on it (ms)
+ */
+const ABORT_GRACE_MS = 5000;
+
+/**
+ * How the engine orders agent dispatch
+ *
+ * - `stages`: run topological stages one after another, waiting for the whole stage
+ * - `ready-queue`: start each agent as soon as its dependencies have settled
+ */
+export type SchedulerMode = 'stages' | 'ready-queue';
+
+/**
+ * Builds the execution context for an agent
+ */
+export type ContextProvider = (role: AgentRole, parentSpanId?: string) => ExtendedAgentContext;
+
+/**
+ * Builds agent input from the outputs collected so far
+ */
+export type InputProvider = (role: AgentRole, previousOutputs: Map<AgentRole, any>) => any;
+
+/**
+ * Provides agent-specific config
+ */
+export type ConfigProvider = (role: AgentRole) => any;
+
 /**
  * Agent execution options
  */
@@ -35,6 +88,26 @@ export interface AgentExecutionRecord {
   startTime: Date;
   endTime: Date;
   duration: number;
+  /** Registered agent version that ran */
+  agentVersion?: string;
+  /** Agent that produced the result when the original agent failed over */
+  fallbackRole?: AgentRole;
+  /** Position of this run within a fan-out step */
+  instance?: { index: number; total: number };
+  /** Per-instance records when the agent fanned out (the record itself aggregates them) */
+  instances?: AgentExecutionRecord[];
+}
+
+/**
+ * Agent skipped because an upstream agent failed or its step condition did not hold
+ */
+export interface SkippedAgentRecord {
+  role: AgentRole;
+  /** Absent when the skip was restored from a checkpoint */
+  agentExecutionId?: string;
+  reason: string;
+  /** Upstream agent whose failure or skip caused this skip (absent for the skipped agent itself) */
+  causedBy?: AgentRole;
 }
 
 /**
@@ -48,6 +121,94 @@ export interface WorkflowExecutionResult {
   totalDuration: number;
   outputs: Map<AgentRole, any>;
   errors: Map<AgentRole, string>;
+  /** True when the run stopped at a stage boundary before finishing */
+  interrupted?: boolean;
+  /** Agents that were not run because of an upstream failure policy */
+  skippedAgents: SkippedAgentRecord[];
+  /** Agent whose failure aborted the workflow */
+  abortedBy?: AgentRole;
+  /** Why the run stopped at a budget limit */
+  budgetExceeded?: string;
+  /** Unapproved gate the run stopped at; the agents it holds have not run */
+  awaitingApproval?: ApprovalGateNode;
+  /** Scheduler that ran the workflow */
+  scheduler: SchedulerMode;
+}
+
+/**
+ * Progress snapshot passed to stage completion hooks
+ */
+export interface StageCompletion {
+  stage: number;
+  records: AgentExecutionRecord[];
+  completedStages: number[];
+  /** Agent whose failure aborted the workflow, once one has */
+  abortedBy?: AgentRole;
+  /** Every agent skipped so far, with its SKIPPED execution row */
+  skippedAgents: SkippedAgentRecord[];
+}
+
+/**
+ * Stage about to run, passed to stage start hooks
+ */
+export interface StageStart {
+  stage: number;
+  /** Agents of the stage that will run (skipped agents excluded) */
+  agents: AgentRole[];
+}
+
+/**
+ * Options for resumable workflow execution
+ */
+export interface WorkflowRunOptions {
+  /** Stages already completed by a previous run (skipped) */
+  completedStages?: number[];
+  /** Agent records restored from a checkpoint for the completed stages */
+  restoredRecords?: AgentExecutionRecord[];
+  /** Agents whose restored record is reused instead of re-run (refinement iterations) */
+  reusedAgents?: AgentRole[];
+  /** Agent whose abort policy already stopped a previous run (nothing more is dispatched) */
+  abortedBy?: AgentRole;
+  /** Agents skipped by a previous run, whose SKIPPED rows already exist */
+  skippedAgents?: SkippedAgentRecord[];
+  /** Approval gates a reviewer has approved; agents held by any other gate are not dispatched */
+  approvedGates?: string[];
+  /** Called before the first agent of each stage runs */
+  onStageStart?: (start: StageStart) => Promise<void>;
+  /** Called after each stage finishes, before the next one starts */
+  onStageComplete?: (completion: StageCompletion) => Promise<void>;
+  /** Checked before each stage (or dispatch round); returning false stops the run */
+  shouldContinue?: () => Promise<boolean>;
+  /** Dispatch strategy (defaults to `stages`) */
+  scheduler?: SchedulerMode;
+  /** Builds the value step conditions and fan-out paths resolve against (defaults to the agent input) */
+  conditionScope?: InputProvider;
+}
+
+/**
+ * Providers used to prepare each agent for execution
+ */
+interface AgentProviders {
+  contextBuilder: ContextProvider;
+  inputProvider: InputProvider;
+  configProvider?: ConfigProvider;
+  scopeProvider?: InputProvider;
+}
+
+/**
+ * Mutable state shared by the schedulers during a single run
+ */
+interface RunState {
+  outputs: Map<AgentRole, any>;
+  errors: Map<AgentRole, string>;
+  completedStages: Set<number>;
+  skipped: Map<AgentRole, SkippedAgentRecord>;
+  reused: Set<AgentRole>;
+  approvedGates: Set<string>;
+  interrupted: boolean;
+  abortedBy?: AgentRole;
+  budgetExceeded?: string;
+  awaitingApproval?: ApprovalGateNode;
 }
 
 /**
@@ -57,10 +218,18 @@ export class ExecutionEngine {
   private queue: PQueue;
   private context: ExecutionContext;
   private agentResults: Map<AgentRole, AgentExecutionRecord> = new Map();
+  private budgetGuard?: BudgetGuard;
 
   constructor(context: ExecutionContext, maxConcurrency: number = 5) {
     this.context = context;
     this.queue = new PQueue({ concurrency: maxConcurrency });
+
+    if (context.budget) {
+      this.budgetGuard = createBudgetGuard(context.prisma, context, context.budget, {
+        llm: context.llm,
+        modelRouting: context.modelRouting,
+      });
+    }
   }
 
   /**
@@ -70,28 +239,75 @@ export class ExecutionEngine {
     role: AgentRole,
     options: AgentExecutionOptions,
     agentContext: ExtendedAgentContext
+  ): Promise<AgentExecutionRecord> {
+    const record = await this.invokeAgent(role, options, agentContext);
+    this.agentResults.set(role, record);
+    return record;
+  }
+
+  /**
+   * Run an agent under a distributed lock without recording the result
+   */
+  private async invokeAgent(
+    role: AgentRole,
+    options: AgentExecutionOptions,
+    agentContext: ExtendedAgentContext
   ): Promise<AgentExecutionRecord> {
     const startTime = new Date();
     const agentExecutionId = agentContext.agentExecutionId;
 
+    let agentVersion: string | undefined;
+
     console.log(`[Executor] Starting agent: ${role} (${agentExecutionId})`);
 
     try {
+      // Pins win over rollouts; the execution ID keeps every agent of a run in the same bucket
+      const selection = selectAgentVersion(role, {
+        pins: this.context.agentVersions,
+        rolloutKey: this.context.workflowExecutionId,
+      });
+      agentVersion = selection.version;
+
+      if (selection.source !== 'default') {
+        console.log(`[Executor] Using ${role}@${agentVersion} (${selection.source})`);
+      }
+
+      const manifest = getRegistry().get(role, agentVersion)?.manifest;
+
+      // Don't start an agent whose estimated spend would cross a limit
+      const blocked = (await this.budgetGuard?.checkDispatch(role, manifest, options.input)) ?? null;
+      if (blocked) {
+        console.warn(`[Executor] Not dispatching ${role}: ${blocked}`);
+
+        return {
+          role,
+          agentExecutionId,
+          result: { success: false, error: blocked, budgetExceeded: true },
+          startTime,
+          endTime: new Date(),
+          duration: Date.now() - startTime.getTime(),
+          agentVersion,
+        };
+      }
+
+      // The manifest timeout, workflow cancellation and budget overruns all abort the agent's signal
+      const timeoutMs = manifest?.timeout || DEFAULT_AGENT_TIMEOUT_MS;
+      const { signal, abort, dispose } = createAgentSignal(role, timeoutMs, this.context.signal);
+      const onUsage = this.budgetGuard?.createSpendTracker(role, abort);
+
       // Acquire distributed lock to prevent duplicate execution
       const lockResult = await withLock(
         this.context.tenantId,
         `agent:${agentExecutionId}`,
         async () => {
           // Create agent instance
-          const agent = createAgent(role, agentContext, options.config);
+          const agent = createAgent(role, { ...agentContext, signal, onUsage }, options.config, agentVersion);
 
           // Execute agent
-          const result = await agent.run(options.input);
-
-          return result;
+          return this.awaitRun(agent.run(options.input), signal, agentExecutionId);
         },
-        { ttl: 300000, retries: 0 } // 5 minutes, no retries (fail if locked)
-      );
+        { ttl: timeoutMs + ABORT_GRACE_MS, retries: 0 } // No retries (fail if locked)
+      ).finally(dispose);
 
       const endTime = new Date();
       const duration = endTime.getTime() - startTime.getTime();
@@ -99,13 +315,16 @@ export class ExecutionEngine {
       const record: AgentExecutionRecord = {
         role,
         agentExecutionId,
-        result: lockResult,
+        result: isBudgetExceeded(signal) ? { ...lockResult, budgetExceeded: true } : lockResult,
         startTime,
         endTime,
         duration,
+        agentVersion,
       };
 
-      this.agentResults.set(role, record);
+      if (selection.source !== 'default') {
+        await this.annotateExecution(agentExecutionId, { agentVersionSource: selection.source });
+      }
 
       console.log(`[Executor] Completed agent: ${role} in ${duration}ms`);
       return record;
@@ -123,15 +342,63 @@ export class ExecutionEngine {
         startTime,
         endTime,
         duration,
+        agentVersion,
       };
 
-      this.agentResults.set(role, record);
-
       console.error(`[Executor] Failed agent: ${role} after ${duration}ms - ${error.message}`);
       return record;
     }
   }
 
+  /**
+   * Wait for an agent run, giving up on it a grace period after its signal aborts
+   *
+   * Agents stop cooperatively at their next LLM call, tool call or upload. One that
+   * hasn't settled by then is recorded as cancelled (or timed out) here and left behind.
+   */
+  private async awaitRun(
+    run: Promise<AgentExecutionResult>,
+    signal: AbortSignal,
+    agentExecutionId: string
+  ): Promise<AgentExecutionResult> {
+    let timer: NodeJS.Timeout | undefined;
+
+    const abandoned = new Promise<null>((resolve) => {
+      const onAbort = () => {
+        timer = setTimeout(() => resolve(null), ABORT_GRACE_MS);
+      };
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+
+    try {
+      const result = await Promise.race([run, abandoned]);
+      if (result) {
+        return result;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const cancelled = isCancelled(signal);
+    const error = getAbortMessage(signal);
+
+    console.warn(
+      `[Executor] Agent ${agentExecutionId} did not stop within ${ABORT_GRACE_MS}ms of being aborted: ${error}`
+    );
+
+    await this.context.prisma.agentExecution.updateMany({
+      where: { id: agentExecutionId, status: { in: ['PENDING', 'RUNNING'] } },
+      data: { status: cancelled ? 'CANCELLED' : 'FAILED', error, completedAt: new Date() },
+    });
+
+    return { success: false, error, ...(cancelled ? { cancelled } : {}) };
+  }
+
   /**
    * Execute multiple agents in parallel
    */
@@ -159,99 +426,758 @@ export class ExecutionEngine {
    */
   async executeWorkflow(
     dag: DAG,
-    contextBuilder: (role: AgentRole, parentSpanId?: string) => ExtendedAgentContext,
-    inputProvider: (role: AgentRole, previousOutputs: Map<AgentRole, any>) => any,
-    configProvider?: (role: AgentRole) => any
+    contextBuilder: ContextProvider,
+    inputProvider: InputProvider,
+    configProvider?: ConfigProvider,
+    options: WorkflowRunOptions = {}
   ): Promise<WorkflowExecutionResult> {
     const startTime = Date.now();
     const plan = dag.getExecutionPlan();
+    const scheduler = options.scheduler || 'stages';
 
     console.log(
-      `[Executor] Starting workflow execution: ${plan.totalAgents} agents in ${plan.stages.length} stages`
+      `[Executor] Starting workflow execution: ${plan.totalAgents} agents in ${plan.stages.length} stages ` +
+        `(${scheduler} scheduler)`
     );
 
-    const outputs = new Map<AgentRole, any>();
-    const errors = new Map<AgentRole, string>();
+    const state: RunState = {
+      outputs: new Map<AgentRole, any>(),
+      errors: new Map<AgentRole, string>(),
+      completedStages: new Set<number>(options.completedStages || []),
+      skipped: new Map<AgentRole, SkippedAgentRecord>(
+        (options.skippedAgents || []).map((entry) => [entry.role, entry])
+      ),
+      reused: new Set<AgentRole>(options.reusedAgents || []),
+      approvedGates: new Set<string>(options.approvedGates || []),
+      interrupted: false,
+      abortedBy: options.abortedBy,
+    };
 
-    // Execute stages sequentially
-    for (const stage of plan.stages) {
+    // Seed state from a checkpoint so completed agents are not re-run
+    for (const record of options.restoredRecords || []) {
+      this.agentResults.set(record.role, record);
+
+      if (record.result.success) {
+        state.outputs.set(record.role, record.result.output);
+      } else {
+        state.errors.set(record.role, record.result.error || 'Unknown error');
+
+        // Rows for these skips were written by the run that hit the failure
+        const policy = dag.getFailurePolicy(record.role);
+        if (policy.type === 'skip_dependents' || policy.type === 'fallback') {
+          this.markDependentsSkipped(dag, record.role, state.skipped);
+        }
+      }
+    }
+
+    // Spend of earlier runs and iterations counts towards the workflow limit
+    await this.budgetGuard?.loadSpend();
+
+    if (state.completedStages.size > 0) {
       console.log(
-        `[Executor] Stage ${stage.stage}: ${stage.agents.length} agents (parallel: ${stage.parallelizable})`
+        `[Executor] Resuming from checkpoint: ${state.completedStages.size} stage(s) already completed`
       );
+    }
 
-      // Prepare agents for execution
-      const agentsToExecute = stage.agents.map((role) => {
-        const input = inputProvider(role, outputs);
-        const config = configProvider ? configProvider(role) : undefined;
-        const agentContext = contextBuilder(role);
+    if (state.reused.size > 0) {
+      console.log(`[Executor] Reusing ${state.reused.size} agent output(s) from the previous iteration`);
+    }
 
-        return {
-          role,
-          options: { input, config },
-          context: agentContext,
-        };
-      });
+    const providers: AgentProviders = {
+      contextBuilder,
+      inputProvider,
+      configProvider,
+      scopeProvider: options.conditionScope,
+    };
+
+    if (scheduler === 'ready-queue') {
+      await this.runReadyQueue(dag, plan, providers, state, options);
+    } else {
+      await this.runStages(dag, plan, providers, state, options);
+    }
+
+    const endTime = Date.now();
+    const totalDuration = endTime - startTime;
+
+    // Collect results
+    const allRecords = Array.from(this.agentResults.values());
+    const completedAgents = allRecords.filter((r) => r.result.success);
+    const failedAgents = allRecords.filter((r) => !r.result.success);
+    const skippedAgents = Array.from(state.skipped.values());
+
+    const success =
+      failedAgents.length === 0 && !state.interrupted && !state.abortedBy && !state.awaitingApproval;
+    const outcome = state.interrupted
+      ? 'interrupted'
+      : state.awaitingApproval
+        ? `awaiting approval (${state.awaitingApproval.id})`
+        : success
+          ? 'completed'
+          : 'failed';
+
+    console.log(
+      `[Executor] Workflow execution ${outcome}: ` +
+        `${completedAgents.length}/${allRecords.length} agents succeeded, ` +
+        `${skippedAgents.length} skipped in ${totalDuration}ms (${scheduler} scheduler)`
+    );
+
+    return {
+      success,
+      completedAgents,
+      failedAgents,
+      totalAgents: allRecords.length + skippedAgents.length,
+      totalDuration,
+      outputs: state.outputs,
+      errors: state.errors,
+      interrupted: state.interrupted,
+      skippedAgents,
+      abortedBy: state.abortedBy,
+      budgetExceeded: state.budgetExceeded,
+      awaitingApproval: state.awaitingApproval,
+      scheduler,
+    };
+  }
+
+  /**
+   * Run the plan stage by stage, waiting for every agent in a stage before starting the next
+   */
+  private async runStages(
+    dag: DAG,
+    plan: ExecutionPlan,
+    providers: AgentProviders,
+    state: RunState,
+    options: WorkflowRunOptions
+  ): Promise<void> {
+    for (const stage of plan.stages) {
+      if (state.completedStages.has(stage.stage)) {
+        continue;
+      }
+
+      // Restored from a checkpoint written after the abort
+      if (state.abortedBy) {
+        console.error(`[Executor] Aborting workflow: ${state.abortedBy} failed with an abort policy`);
+        break;
+      }
+
+      if (options.shouldContinue && !(await options.shouldContinue())) {
+        console.log(`[Executor] Stopping before stage ${stage.stage}`);
+        state.interrupted = true;
+        break;
+      }
+
+      const runnable = stage.agents.filter((role) => !state.skipped.has(role));
+
+      // Agents downstream of an unapproved gate wait for the reviewer
+      const gate = this.findPendingGate(dag, runnable, state);
+      if (gate) {
+        console.log(`[Executor] Stage ${stage.stage} is held by approval gate ${gate.id}`);
+        state.awaitingApproval = gate;
+        break;
+      }
+
+      console.log(
+        `[Executor] Stage ${stage.stage}: ${runnable.length} agents (parallel: ${stage.parallelizable})` +
+          (runnable.length < stage.agents.length
+            ? `, ${stage.agents.length - runnable.length} skipped`
+            : '')
+      );
+
+      if (options.onStageStart) {
+        await options.onStageStart({ stage: stage.stage, agents: runnable });
+      }
 
       // Execute stage (parallel or sequential based on stage config)
-      let stageResults: AgentExecutionRecord[];
+      let stageResults: AgentExecutionRecord[] = [];
 
-      if (stage.parallelizable && stage.agents.length > 1) {
-        stageResults = await this.executeAgentsParallel(agentsToExecute);
+      if (stage.parallelizable && runnable.length > 1) {
+        const results = await Promise.all(
+          runnable.map((role) => this.runNode(dag, role, providers, state))
+        );
+        stageResults = results.filter((r): r is AgentExecutionRecord => r !== null);
       } else {
         // Execute sequentially
-        stageResults = [];
-        for (const agent of agentsToExecute) {
-          const result = await this.executeAgent(agent.role, agent.options, agent.context);
-          stageResults.push(result);
+        for (const role of runnable) {
+          const result = await this.runNode(dag, role, providers, state);
+          if (result) {
+            stageResults.push(result);
+          }
         }
       }
 
-      // Collect outputs and errors
-      for (const record of stageResults) {
-        if (record.result.success) {
-          outputs.set(record.role, record.result.output);
-        } else {
-          errors.set(record.role, record.result.error || 'Unknown error');
-        }
+      // A cancelled or over-budget stage is not checkpointed as complete
+      if (state.interrupted) {
+        console.log(`[Executor] Stage ${stage.stage} interrupted`);
+        break;
       }
 
-      // Check for critical failures in stage
       const failedAgents = stageResults.filter((r) => !r.result.success);
       if (failedAgents.length > 0) {
         console.warn(
           `[Executor] Stage ${stage.stage} had ${failedAgents.length} failures:`,
           failedAgents.map((r) => r.role)
         );
+      }
 
-        // Decide whether to continue or abort
-        // For now, we continue with warnings
+      state.completedStages.add(stage.stage);
+
+      if (options.onStageComplete) {
+        await options.onStageComplete({
+          stage: stage.stage,
+          records: stageResults,
+          completedStages: Array.from(state.completedStages),
+          abortedBy: state.abortedBy,
+          skippedAgents: Array.from(state.skipped.values()),
+        });
+      }
+
+      if (state.abortedBy) {
+        console.error(`[Executor] Aborting workflow: ${state.abortedBy} failed with an abort policy`);
+        break;
       }
     }
+  }
 
-    const endTime = Date.now();
-    const totalDuration = endTime - startTime;
+  /**
+   * Dispatch each agent as soon as its dependencies have settled, longest critical path first
+   *
+   * Stages are still tracked so checkpoints stay compatible with the stage scheduler: a stage is
+   * reported complete once all of its agents have settled, in whatever order that happens.
+   */
+  private async runReadyQueue(
+    dag: DAG,
+    plan: ExecutionPlan,
+    providers: AgentProviders,
+    state: RunState,
+    options: WorkflowRunOptions
+  ): Promise<void> {
+    const priorities = dag.getCriticalPathLengths();
+    const settled = new Set<AgentRole>();
+    const pending = new Set<AgentRole>();
+    const stageOf = new Map<AgentRole, number>();
+    const stageRemaining = new Map<number, Set<AgentRole>>();
+    const stageRecords = new Map<number, AgentExecutionRecord[]>();
+    const startedStages = new Set<number>();
+    const running = new Map<AgentRole, Promise<void>>();
 
-    // Collect results
-    const allRecords = Array.from(this.agentResults.values());
-    const completedAgents = allRecords.filter((r) => r.result.success);
-    const failedAgents = allRecords.filter((r) => !r.result.success);
+    for (const stage of plan.stages) {
+      if (state.completedStages.has(stage.stage)) {
+        stage.agents.forEach((role) => settled.add(role));
+        continue;
+      }
 
-    const success = failedAgents.length === 0;
+      stageRemaining.set(stage.stage, new Set(stage.agents));
+      stageRecords.set(stage.stage, []);
 
-    console.log(
-      `[Executor] Workflow execution ${success ? 'completed' : 'failed'}: ` +
-        `${completedAgents.length}/${allRecords.length} agents succeeded in ${totalDuration}ms`
-    );
+      for (const role of stage.agents) {
+        stageOf.set(role, stage.stage);
+        pending.add(role);
+      }
+    }
 
-    return {
-      success,
-      completedAgents,
-      failedAgents,
-      totalAgents: allRecords.length,
-      totalDuration,
-      outputs,
-      errors,
+    // Report stages whose remaining agents were all settled or skipped
+    const flushStages = async () => {
+      for (const [stage, remaining] of stageRemaining) {
+        for (const role of remaining) {
+          if (settled.has(role) || state.skipped.has(role)) {
+            remaining.delete(role);
+          }
+        }
+
+        if (remaining.size > 0) {
+          continue;
+        }
+
+        stageRemaining.delete(stage);
+        state.completedStages.add(stage);
+
+        if (options.onStageComplete) {
+          await options.onStageComplete({
+            stage,
+            records: stageRecords.get(stage) || [],
+            completedStages: Array.from(state.completedStages),
+            abortedBy: state.abortedBy,
+            skippedAgents: Array.from(state.skipped.values()),
+          });
+        }
+      }
+    };
+
+    while (true) {
+      for (const role of pending) {
+        if (state.skipped.has(role)) {
+          pending.delete(role);
+        }
+      }
+
+      const unblocked = Array.from(pending).filter((role) =>
+        dag.getDependencies(role).every((dep) => settled.has(dep))
+      );
+
+      // Held agents stay pending; the run ends once everything else has settled
+      const gate = this.findPendingGate(dag, unblocked, state);
+      if (gate && !state.awaitingApproval) {
+        console.log(`[Executor] Approval gate ${gate.id} is holding its downstream agents`);
+        state.awaitingApproval = gate;
+      }
+
+      const ready = unblocked
+        .filter((role) => !this.findPendingGate(dag, [role], state))
+        .sort((a, b) => (priorities.get(b) || 0) - (priorities.get(a) || 0));
+
+      const canDispatch = !state.abortedBy && !state.interrupted;
+
+      if (canDispatch && ready.length > 0) {
+        if (options.shouldContinue && !(await options.shouldContinue())) {
+          console.log(`[Executor] Stopping dispatch with ${running.size} agent(s) in flight`);
+          state.interrupted = true;
+        } else {
+          for (const role of ready) {
+            pending.delete(role);
+
+            const stage = stageOf.get(role)!;
+            if (!startedStages.has(stage)) {
+              startedStages.add(stage);
+              if (options.onStageStart) {
+                await options.onStageStart({
+                  stage,
+                  agents: plan.stages
+                    .find((s) => s.stage === stage)!
+                    .agents.filter((r) => !state.skipped.has(r)),
+                });
+              }
+            }
+
+            const task = this.runNode(dag, role, providers, state, priorities.get(role) || 0).then(
+              (record) => {
+                if (record) {
+                  stageRecords.get(stage)!.push(record);
+                }
+                // A cancelled or over-budget agent never settles, so its stage is not checkpointed as complete
+                if (!record?.result.cancelled && !record?.result.budgetExceeded) {
+                  settled.add(role);
+                }
+                running.delete(role);
+              }
+            );
+
+            running.set(role, task);
+          }
+
+          continue;
+        }
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+
+      await Promise.race(running.values());
+      await flushStages();
+    }
+
+    await flushStages();
+
+    if (state.abortedBy) {
+      console.error(`[Executor] Aborting workflow: ${state.abortedBy} failed with an abort policy`);
+    }
+  }
+
+  /**
+   * Find an unapproved gate holding any of the given agents
+   */
+  private findPendingGate(dag: DAG, roles: AgentRole[], state: RunState): ApprovalGateNode | undefined {
+    for (const role of roles) {
+      const gate = dag.getGatesHolding(role).find((holding) => !state.approvedGates.has(holding.id));
+      if (gate) {
+        return gate;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Run one DAG node: evaluate its condition, fan out if configured, then apply its failure policy
+   *
+   * Returns null when the node was skipped.
+   */
+  private async runNode(
+    dag: DAG,
+    role: AgentRole,
+    providers: AgentProviders,
+    state: RunState,
+    priority: number = 0
+  ): Promise<AgentExecutionRecord | null> {
+    // A reused record stands in for the run; it is reported with its stage so checkpoints keep it
+    const reused = state.reused.has(role) ? this.agentResults.get(role) : undefined;
+    if (reused?.result.success) {
+      return reused;
+    }
+
+    const node = dag.getNode(role);
+    const options: AgentExecutionOptions = {
+      input: providers.inputProvider(role, state.outputs),
+      config: providers.configProvider ? providers.configProvider(role) : undefined,
+    };
+    const scope = providers.scopeProvider ? providers.scopeProvider(role, state.outputs) : options.input;
+
+    if (node?.condition && !evaluateCondition(node.condition, scope)) {
+      await this.skipAgent(
+        dag,
+        { role, reason: `Condition not met: ${describeCondition(node.condition)}` },
+        providers.contextBuilder,
+        state.skipped
+      );
+      return null;
+    }
+
+    let record: AgentExecutionRecord;
+
+    if (node?.forEach) {
+      let items: any[];
+
+      try {
+        items = resolveFanOutItems(node.forEach, scope);
+      } catch (error: any) {
+        await this.skipAgent(dag, { role, reason: error.message }, providers.contextBuilder, state.skipped);
+        return null;
+      }
+
+      if (items.length === 0) {
+        await this.skipAgent(
+          dag,
+          { role, reason: `No items to fan out over at ${node.forEach.path}` },
+          providers.contextBuilder,
+          state.skipped
+        );
+        return null;
+      }
+
+      record = await this.executeFanOut(role, node.forEach, items, options, providers, priority);
+    } else {
+      const agentContext = providers.contextBuilder(role);
+      record = (await this.queue.add(() => this.executeAgent(role, options, agentContext), {
+        priority,
+      }))!;
+    }
+
+    return this.settleRecord(dag, record, options, providers, state);
+  }
+
+  /**
+   * Whether an agent's calls go through Anthropic's prompt cache
+   */
+  private usesPromptCache(role: AgentRole, options: AgentExecutionOptions): boolean {
+    if (options.config?.promptCaching === false) {
+      return false;
+    }
+
+    try {
+      const { provider } = resolveAgentModel(getRegistry().getManifest(role), {
+        llm: this.context.llm,
+        modelRouting: this.context.modelRouting,
+        config: options.config,
+      });
+      return provider === 'anthropic';
+    } catch {
+      // The agent fails on its own when it has no model; there is no cache to warm
+      return false;
+    }
+  }
+
+  /**
+   * Run one agent instance per item, each with its own AgentExecution row, and aggregate the results
+   *
+   * Instances share their prompt prefix, so on Anthropic with prompt caching the first runs alone to
+   * write the prompt cache and the rest start once it is warm instead of each paying for the cache write.
+   */
+  private async executeFanOut(
+    role: AgentRole,
+    forEach: StepFanOut,
+    items: any[],
+    options: AgentExecutionOptions,
+    providers: AgentProviders,
+    priority: number
+  ): Promise<AgentExecutionRecord> {
+    const startTime = new Date();
+    const total = items.length;
+    const itemKey = forEach.itemKey || 'item';
+
+    console.log(`[Executor] Fanning out ${role} over ${total} items from ${forEach.path}`);
+
+    const runInstance = async (item: any, index: number): Promise<AgentExecutionRecord> => {
+      const agentContext = providers.contextBuilder(role);
+      const instanceOptions: AgentExecutionOptions = {
+        ...options,
+        input: { ...options.input, [itemKey]: item, fanOut: { index, total } },
+      };
+
+      const record = (await this.queue.add(
+        () => this.invokeAgent(role, instanceOptions, agentContext),
+        { priority }
+      ))!;
+
+      await this.annotateExecution(record.agentExecutionId, { fanOut: { index, total } });
+
+      return { ...record, instance: { index, total } } as AgentExecutionRecord;
+    };
+
+    let instances: AgentExecutionRecord[];
+    if (total > 1 && this.usesPromptCache(role, options)) {
+      const [first, ...rest] = items;
+      const warm = await runInstance(first, 0);
+      instances = [warm, ...(await Promise.all(rest.map((item, i) => runInstance(item, i + 1))))];
+    } else {
+      instances = await Promise.all(items.map((item, i) => runInstance(item, i)));
+    }
+
+    const endTime = new Date();
+    const failed = instances.filter((i) => !i.result.success);
+    const tokensUsed = instances.reduce((sum, i) => sum + (i.result.tokensUsed || 0), 0);
+    const cost = instances.reduce((sum, i) => sum + (i.result.cost || 0), 0);
+
+    const record: AgentExecutionRecord = {
+      role,
+      agentExecutionId: instances[0]!.agentExecutionId,
+      result:
+        failed.length === 0
+          ? {
+              success: true,
+              output: instances.map((i) => i.result.output),
+              tokensUsed,
+              cost,
+            }
+          : {
+              success: false,
+              error:
+                `${failed.length}/${total} instances failed: ` +
+                failed.map((i) => `#${i.instance!.index} ${i.result.error}`).join('; '),
+              tokensUsed,
+              cost,
+              ...(failed.some((i) => i.result.cancelled) ? { cancelled: true } : {}),
+              ...(failed.some((i) => i.result.budgetExceeded) ? { budgetExceeded: true } : {}),
+            },
+      startTime,
+      endTime,
+      duration: endTime.getTime() - startTime.getTime(),
+      agentVersion: instances[0]!.agentVersion,
+      instances,
+    };
+
+    this.agentResults.set(role, record);
+    return record;
+  }
+
+  /**
+   * Apply the agent's failure policy and record its output or error
+   */
+  private async settleRecord(
+    dag: DAG,
+    record: AgentExecutionRecord,
+    options: AgentExecutionOptions,
+    providers: AgentProviders,
+    state: RunState
+  ): Promise<AgentExecutionRecord> {
+    // Cancellation and budget limits stop the run; failure policies and fallbacks don't apply
+    if (record.result.cancelled || record.result.budgetExceeded) {
+      state.errors.set(record.role, record.result.error || 'Cancelled');
+      state.interrupted = true;
+
+      if (record.result.budgetExceeded) {
+        state.budgetExceeded = state.budgetExceeded || record.result.error;
+      }
+
+      return record;
+    }
+
+    const policy = dag.getFailurePolicy(record.role);
+    let settled = record;
+
+    // Give failed agents with a fallback policy a second chance
+    if (!settled.result.success && policy.type === 'fallback' && policy.fallbackAgentRole) {
+      settled = await this.executeFallback(
+        settled,
+        policy.fallbackAgentRole as AgentRole,
+        options,
+        providers.contextBuilder
+      );
+    }
+
+    if (settled.result.success) {
+      state.outputs.set(settled.role, settled.result.output);
+      return settled;
+    }
+
+    state.errors.set(settled.role, settled.result.error || 'Unknown error');
+
+    if (policy.type === 'abort') {
+      state.abortedBy = state.abortedBy || settled.role;
+    } else if (policy.type === 'skip_dependents' || policy.type === 'fallback') {
+      // A fallback that also failed leaves dependents without input
+      await this.skipDependents(dag, settled.role, state.skipped, providers.contextBuilder);
+    }
+
+    return settled;
+  }
+
+  /**
+   * Run the fallback agent for a failed agent, reporting the result under the original role
+   */
+  private async executeFallback(
+    failed: AgentExecutionRecord,
+    fallbackRole: AgentRole,
+    options: AgentExecutionOptions,
+    contextBuilder: ContextProvider
+  ): Promise<AgentExecutionRecord> {
+    console.log(`[Executor] ${failed.role} failed, running fallback agent ${fallbackRole}`);
+
+    const fallbackContext = contextBuilder(fallbackRole);
+    const fallback = await this.invokeAgent(fallbackRole, options, fallbackContext);
+
+    if (!fallback.result.success) {
+      console.error(`[Executor] Fallback agent ${fallbackRole} for ${failed.role} also failed`);
+      return failed;
+    }
+
+    const record: AgentExecutionRecord = {
+      ...fallback,
+      role: failed.role,
+      startTime: failed.startTime,
+      duration: fallback.endTime.getTime() - failed.startTime.getTime(),
+      fallbackRole,
     };
+
+    this.agentResults.set(failed.role, record);
+
+    await this.annotateExecution(fallback.agentExecutionId, {
+      fallbackFor: failed.role,
+      failedAgentExecutionId: failed.agentExecutionId,
+    });
+
+    return record;
+  }
+
+  /**
+   * Merge orchestration metadata into an agent execution row (best effort)
+   */
+  private async annotateExecution(agentExecutionId: string, metadata: Record<string, any>): Promise<void> {
+    try {
+      const existing = await this.context.prisma.agentExecution.findUnique({
+        where: { id: agentExecutionId },
+        select: { metadata: true },
+      });
+
+      await this.context.prisma.agentExecution.update({
+        where: { id: agentExecutionId },
+        data: { metadata: { ...((existing?.metadata as Record<string, any>) || {}), ...metadata } as any },
+      });
+    } catch (error: any) {
+      console.warn(`[Executor] Failed to annotate agent execution ${agentExecutionId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Skip every downstream agent of a failed or skipped agent, recording a SKIPPED execution for each
+   */
+  private async skipDependents(
+    dag: DAG,
+    upstreamRole: AgentRole,
+    skipped: Map<AgentRole, SkippedAgentRecord>,
+    contextBuilder: ContextProvider
+  ): Promise<void> {
+    const newlySkipped = this.markDependentsSkipped(dag, upstreamRole, skipped);
+
+    if (newlySkipped.length === 0) {
+      return;
+    }
+
+    console.warn(
+      `[Executor] Skipping ${newlySkipped.length} dependents of ${upstreamRole}:`,
+      newlySkipped.map((s) => s.role)
+    );
+
+    for (const entry of newlySkipped) {
+      await this.recordSkip(entry, contextBuilder);
+    }
+  }
+
+  /**
+   * Skip an agent whose step condition did not hold (or that had nothing to fan out over),
+   * and its dependents, which would run without its output
+   */
+  private async skipAgent(
+    dag: DAG,
+    entry: SkippedAgentRecord,
+    contextBuilder: ContextProvider,
+    skipped: Map<AgentRole, SkippedAgentRecord>
+  ): Promise<void> {
+    console.log(`[Executor] Skipping ${entry.role}: ${entry.reason}`);
+
+    skipped.set(entry.role, entry);
+    await this.recordSkip(entry, contextBuilder);
+    await this.skipDependents(dag, entry.role, skipped, contextBuilder);
+  }
+
+  /**
+   * Write a SKIPPED execution row and emit the skipped event
+   */
+  private async recordSkip(entry: SkippedAgentRecord, contextBuilder: ContextProvider): Promise<void> {
+    const agentContext = contextBuilder(entry.role);
+    const registration = getAgent(entry.role);
+
+    await this.context.prisma.agentExecution.create({
+      data: {
+        id: agentContext.agentExecutionId,
+        tenantId: this.context.tenantId,
+        projectId: this.context.projectId,
+        workflowExecutionId: this.context.workflowExecutionId,
+        agentName: registration?.manifest.name || entry.role,
+        agentRole: entry.role,
+        layer: registration?.layer,
+        status: 'SKIPPED',
+        traceId: this.context.traceId,
+        metadata: { skipReason: entry.reason, causedBy: entry.causedBy } as any,
+        completedAt: new Date(),
+      },
+    });
+
+    entry.agentExecutionId = agentContext.agentExecutionId;
+
+    await getEventBus(this.context.tenantId, this.context.workflowExecutionId, this.context.prisma).emitAgentEvent(
+      WorkflowEventType.AGENT_SKIPPED,
+      entry.role,
+      agentContext.agentExecutionId,
+      { reason: entry.reason, causedBy: entry.causedBy }
+    );
+  }
+
+  /**
+   * Add the not-yet-run transitive dependents of a failed or skipped agent to the skip set
+   */
+  private markDependentsSkipped(
+    dag: DAG,
+    upstreamRole: AgentRole,
+    skipped: Map<AgentRole, SkippedAgentRecord>
+  ): SkippedAgentRecord[] {
+    const added: SkippedAgentRecord[] = [];
+    const cause = skipped.has(upstreamRole) ? 'was skipped' : 'failed';
+
+    for (const role of dag.getTransitiveDependents(upstreamRole)) {
+      if (skipped.has(role) || this.agentResults.has(role)) {
+        continue;
+      }
+
+      const entry: SkippedAgentRecord = {
+        role,
+        reason: `Upstream agent ${upstreamRole} ${cause}`,
+        causedBy: upstreamRole,
+      };
+
+      skipped.set(role, entry);
+      added.push(entry);
+    }
+
+    return added;
   }
 
   /**
@@ -429,21 +1355,3 @@ export async function executeWithRetry(
 
   throw lastError || new Error('Max retries exceeded');
 }
-
-/**
- * Execute agents with timeout
- */
-export async function executeWithTimeout(
-  engine: ExecutionEngine,
-  role: AgentRole,
-  options: AgentExecutionOptions,
-  context: ExtendedAgentContext,
-  timeoutMs: number = 300000 // 5 minutes
-): Promise<AgentExecutionRecord> {
-  return Promise.race([
-    engine.executeAgent(role, options, context),
-    new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error(`Agent execution timeout: ${role}`)), timeoutMs)
-    ),
-  ]);
-}
@@ -1,12 +1,65 @@
 import { PrismaClient, type AgentRole, type WorkflowStatus } from '@business-automation/database';
 import type { WorkflowDefinition, ClientSchema } from '@business-automation/schema';
 import { randomUUID } from 'crypto';
-import { buildDAGFromWorkflow, buildDAGFromRoles, optimizeExecutionPlan } from './dag-builder';
-import { createExecutionEngine, type WorkflowExecutionResult } from './executor';
+import {
+  buildDAGFromWorkflow,
+  buildDAGFromRoles,
+  optimizeExecutionPlan,
+  toWorkflowDefinition,
+  type ApprovalGateNode,
+  type DAG,
+} from './dag-builder';
+import {
+  createExecutionEngine,
+  type SchedulerMode,
+  type WorkflowExecutionResult,
+} from './executor';
 import { createContextBuilder, type ContextBuilder } from './context-builder';
-import { createRefinementEngine, type RefinementConfig, type RefinementDecision } from './refinement';
+import {
+  createRefinementEngine,
+  DEFAULT_REFINEMENT_CONFIG,
+  type RefinementConfig,
+  type RefinementDecision,
+} from './refinement';
 import { getEventBus, WorkflowEventType, type WorkflowEventBus } from './events';
-import { getRegistry } from './registry';
+import { getRegistry, type AgentVersionPins } from './registry';
+import { resolveStepInputs } from './input-mapping';
+import { validateWorkflow } from './validation';
+import { expireApproval, openApproval } from './approvals';
+import type { RefinementEnvelope } from '../shared/refinement-envelope';
+import { createCancellationReason } from '../shared/cancellation';
+import type { BudgetPolicy } from '../shared/budget-monitor';
+import { loadBudgetPolicy } from './budget-guard';
+import type { LLMSelection } from '../shared/llm-provider';
+import type { ModelRoutingPolicy } from '../shared/model-router';
+import { getWorkflowCost } from '../shared/cost-tracker';
+import { acquireLock, extendLock, releaseLock } from '../shared/redis-client';
+import {
+  createCheckpointStore,
+  type CheckpointStore,
+  type WorkflowCheckpoint,
+} from './checkpoint';
+
+/**
+ * How often a running workflow checks whether it was cancelled from another process (ms)
+ */
+const CANCELLATION_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Expiry of the lock that keeps a workflow running in one worker at a time (ms)
+ */
+const RUN_LOCK_TTL_MS = 60_000;
+
+/**
+ * How often a running workflow renews its run lock (ms)
+ */
+const RUN_LOCK_RENEW_INTERVAL_MS = 20_000;
+
+/**
+ * How long a resume waits for a pausing run to release its lock (attempts x delay)
+ */
+const RESUME_LOCK_RETRIES = 20;
+const RESUME_LOCK_RETRY_DELAY_MS = 500;
 
 /**
  * Orchestrator configuration
@@ -15,6 +68,7 @@ export interface OrchestratorConfig {
   maxConcurrency?: number;
   refinement?: Partial<RefinementConfig>;
   maxRefinementIterations?: number;
+  scheduler?: SchedulerMode;
 }
 
 /**
@@ -29,12 +83,24 @@ export interface WorkflowExecutionConfig {
   input?: any;
 }
 
+/**
+ * Agents a refinement iteration re-runs and the ones it reuses from the previous iteration
+ */
+export interface RefinementScope {
+  iteration: number;
+  targetAgents: AgentRole[];
+  rerunAgents: AgentRole[];
+  reusedAgents: AgentRole[];
+}
+
 /**
  * Main orchestrator for managing agent workflows
  */
 export class Orchestrator {
   private prisma: PrismaClient;
   private config: OrchestratorConfig;
+  private checkpoints: CheckpointStore;
+  private activeRuns: Map<string, AbortController> = new Map();
 
   constructor(prisma: PrismaClient, config: OrchestratorConfig = {}) {
     this.prisma = prisma;
@@ -42,7 +108,9 @@ export class Orchestrator {
       maxConcurrency: config.maxConcurrency || 5,
       refinement: config.refinement || {},
       maxRefinementIterations: config.maxRefinementIterations || 3,
+      scheduler: config.scheduler || 'stages',
     };
+    this.checkpoints = createCheckpointStore(prisma);
   }
 
   /**
@@ -50,14 +118,29 @@ export class Orchestrator {
    */
   async executeWorkflow(executionConfig: WorkflowExecutionConfig): Promise<string> {
     // Load workflow definition
-    const workflowDef = await this.prisma.workflowDefinition.findUnique({
+    const record = await this.prisma.workflowDefinition.findUnique({
       where: { id: executionConfig.workflowDefinitionId },
     });
 
-    if (!workflowDef) {
+    if (!record) {
       throw new Error(`Workflow definition not found: ${executionConfig.workflowDefinitionId}`);
     }
 
+    const workflowDef = toWorkflowDefinition(record);
+
+    // Fail fast on a structurally invalid workflow, before the execution record is created.
+    // Missing env vars and MCP servers only warn: agents may use another provider or skip the tool.
+    const validation = validateWorkflow(workflowDef, { environmentSeverity: 'warning' });
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid workflow definition: ${validation.errors.map((e) => e.message).join('; ')}`
+      );
+    }
+
+    for (const warning of validation.warnings) {
+      console.warn(`[Orchestrator] Workflow ${executionConfig.workflowDefinitionId}: ${warning.message}`);
+    }
+
     // Create workflow execution record
     const workflowExecutionId = `workflow_${randomUUID()}`;
     const traceId = `trace_${randomUUID()}`;
@@ -75,8 +158,12 @@ export class Orchestrator {
       },
     });
 
+    // Persist an initial checkpoint so the run can be resumed from stage 0
+    const checkpoint = this.checkpoints.createInitial(executionConfig);
+    await this.checkpoints.save(workflowExecutionId, checkpoint);
+
     // Get event bus
-    const eventBus = getEventBus(executionConfig.tenantId, workflowExecutionId);
+    const eventBus = getEventBus(executionConfig.tenantId, workflowExecutionId, this.prisma);
 
     // Emit started event
     await eventBus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_STARTED, {
@@ -85,28 +172,50 @@ export class Orchestrator {
     });
 
     // Execute workflow in background (don't await)
-    this.runWorkflow(workflowExecutionId, workflowDef, executionConfig, traceId, eventBus).catch(
-      (error) => {
-        console.error(`[Orchestrator] Workflow execution failed: ${workflowExecutionId}`, error);
-      }
-    );
+    this.runWorkflow(
+      workflowExecutionId,
+      workflowDef,
+      executionConfig,
+      traceId,
+      eventBus,
+      checkpoint
+    ).catch((error) => {
+      console.error(`[Orchestrator] Workflow execution failed: ${workflowExecutionId}`, error);
+    });
 
     return workflowExecutionId;
   }
 
   /**
    * Internal workflow execution with refinement loop
+   *
+   * Starts from the given checkpoint: completed stages of the checkpointed
+   * iteration are restored from their AgentExecution rows instead of re-run.
+   * The run holds a cross-process lock, so a workflow that is still executing
+   * in another worker is left to continue rather than started a second time.
    */
   private async runWorkflow(
     workflowExecutionId: string,
-    workflowDef: any,
+    workflowDef: WorkflowDefinition,
     executionConfig: WorkflowExecutionConfig,
     traceId: string,
-    eventBus: WorkflowEventBus
+    eventBus: WorkflowEventBus,
+    checkpoint: WorkflowCheckpoint,
+    lockRetries = 0
   ): Promise<void> {
+    const releaseRunLock = await this.acquireRunLock(executionConfig.tenantId, workflowExecutionId, lockRetries);
+    if (!releaseRunLock) {
+      console.log(`[Orchestrator] Workflow ${workflowExecutionId} is already running in another worker`);
+      return;
+    }
+
+    const controller = new AbortController();
+    this.activeRuns.set(workflowExecutionId, controller);
+    const stopWatching = this.watchCancellation(workflowExecutionId, controller);
+
     try {
       // Build DAG from workflow definition
-      const dag = buildDAGFromWorkflow(workflowDef as WorkflowDefinition);
+      const dag = buildDAGFromWorkflow(workflowDef);
       const plan = optimizeExecutionPlan(dag, this.config.maxConcurrency);
 
       console.log(
@@ -122,22 +231,40 @@ export class Orchestrator {
         userId: executionConfig.userId,
         traceId,
         clientSchema: executionConfig.clientSchema,
+        ...(await this.loadLLMSettings(executionConfig.tenantId)),
       });
 
       // Set orchestrator reference for agent-to-agent calls
       contextBuilder.setOrchestrator(this);
 
-      // Create refinement engine
-      const refinementEngine = createRefinementEngine(this.prisma, this.config.refinement);
+      // Resolve version pins once so every iteration runs the same agent versions
+      const agentVersions = await this.loadAgentVersionPins(executionConfig.tenantId, workflowDef);
+      const budget = await loadBudgetPolicy(this.prisma, executionConfig.tenantId, workflowExecutionId);
+
+      // Create refinement engine (bounded by the orchestrator's iteration limit too)
+      const refinementEngine = createRefinementEngine(this.prisma, {
+        ...this.config.refinement,
+        maxIterations: Math.min(
+          this.config.refinement?.maxIterations ?? DEFAULT_REFINEMENT_CONFIG.maxIterations,
+          this.config.maxRefinementIterations!
+        ),
+      });
+      refinementEngine.restoreIteration(checkpoint.refinement.iteration);
+      refinementEngine.restoreHistory(checkpoint.refinement.history || []);
 
       // Refinement loop
-      let iteration = 0;
+      let iteration = checkpoint.iteration;
       let shouldContinue = true;
       let lastResult: WorkflowExecutionResult | null = null;
 
       while (shouldContinue && iteration <= this.config.maxRefinementIterations!) {
-        if (iteration > 0) {
-          await eventBus.emitWorkflowEvent(WorkflowEventType.REFINEMENT_STARTED, { iteration });
+        if (iteration > 0 && checkpoint.completedStages.length === 0) {
+          await eventBus.emitWorkflowEvent(WorkflowEventType.REFINEMENT_STARTED, {
+            iteration,
+            targetAgents: checkpoint.refinement.lastDecision?.targetAgents || [],
+            rerunAgents: checkpoint.refinement.rerunAgents || [],
+            reusedAgents: checkpoint.refinement.reusedAgents || [],
+          });
         }
 
         // Execute workflow
@@ -147,47 +274,142 @@ export class Orchestrator {
           contextBuilder,
           executionConfig,
           eventBus,
-          iteration
+          iteration,
+          checkpoint,
+          agentVersions,
+          budget
+        );
+
+        // A budget limit would be crossed - pause or stop before spending more
+        if (lastResult.budgetExceeded) {
+          await this.haltForBudget(workflowExecutionId, eventBus, lastResult.budgetExceeded, budget);
+          return;
+        }
+
+        // Paused at a stage boundary or cancelled - progress is checkpointed
+        if (lastResult.interrupted) {
+          console.log(
+            `[Orchestrator] Workflow ${workflowExecutionId} ` +
+              `${controller.signal.aborted ? 'cancelled' : 'halted at a stage boundary'} (iteration ${iteration})`
+          );
+          return;
+        }
+
+        // Held at an approval gate - the reviewer's decision resumes the run from its checkpoint
+        if (lastResult.awaitingApproval) {
+          await this.requestApproval(workflowExecutionId, lastResult.awaitingApproval, lastResult, executionConfig);
+          return;
+        }
+
+        // An abort failure policy ends the workflow without refinement
+        if (lastResult.abortedBy) {
+          break;
+        }
+
+        // Evaluate every iteration (including the last) so convergence and selection see it
+        const decision = await refinementEngine.decideRefinement(
+          workflowExecutionId,
+          lastResult,
+          checkpoint.refinement.reusedAgents
         );
 
-        // Check for refinement (skip on last iteration)
-        if (iteration < this.config.maxRefinementIterations!) {
-          const decision = await refinementEngine.decideRefinement(workflowExecutionId, lastResult);
+        await eventBus.emitWorkflowEvent(WorkflowEventType.REFINEMENT_DECISION, {
+          decision: decision.shouldRefine ? 'refine' : 'accept',
+          reason: decision.reason,
+          iteration: decision.iteration,
+          stoppedBy: decision.stoppedBy,
+          targetAgents: decision.targetAgents,
+          findingCounts: Object.fromEntries(
+            Object.entries(decision.findingsByAgent || {}).map(([role, findings]) => [
+              role,
+              findings?.length || 0,
+            ])
+          ),
+          metrics: {
+            overallScore: decision.metrics.overallScore,
+            failedDimensions: decision.metrics.failedDimensions.length,
+          },
+        });
 
-          await eventBus.emitWorkflowEvent(WorkflowEventType.REFINEMENT_DECISION, {
-            decision: decision.shouldRefine ? 'refine' : 'accept',
-            reason: decision.reason,
-            iteration: decision.iteration,
-            metrics: {
+        if (decision.shouldRefine) {
+          console.log(
+            `[Orchestrator] Refinement needed (iteration ${iteration + 1}): ${decision.reason}`
+          );
+          refinementEngine.incrementIteration();
+          iteration++;
+
+          // Only the targets and their dependents run again; upstream outputs are reused
+          const { scope, reused } = this.planRefinement(dag, decision.targetAgents, lastResult, iteration);
+
+          checkpoint = this.checkpoints.startIteration(
+            checkpoint,
+            iteration,
+            {
+              shouldRefine: decision.shouldRefine,
+              reason: decision.reason,
+              targetAgents: decision.targetAgents,
               overallScore: decision.metrics.overallScore,
-              failedDimensions: decision.metrics.failedDimensions.length,
+              findingsByAgent: decision.findingsByAgent,
+              evaluationId: decision.evaluationId,
+              dimensionScores: Object.fromEntries(decision.metrics.dimensionScores),
+              scoreDeltas: refinementEngine.computeScoreDeltas(
+                decision.metrics,
+                checkpoint.refinement.lastDecision?.dimensionScores
+              ),
             },
-          });
-
-          if (decision.shouldRefine) {
-            console.log(
-              `[Orchestrator] Refinement needed (iteration ${iteration + 1}): ${decision.reason}`
-            );
-            refinementEngine.incrementIteration();
-            iteration++;
-          } else {
-            console.log(`[Orchestrator] Quality acceptable: ${decision.reason}`);
-            shouldContinue = false;
-          }
+            reused,
+            scope.rerunAgents
+          );
+          checkpoint.refinement.history = refinementEngine.getHistory();
+          await this.checkpoints.save(workflowExecutionId, checkpoint);
+          await this.recordRefinementScope(workflowExecutionId, scope);
         } else {
+          console.log(`[Orchestrator] Refinement stopped: ${decision.reason}`);
           shouldContinue = false;
         }
       }
 
+      // Keep the output of the selected iteration (the last one unless selecting the best)
+      const selected = lastResult!.abortedBy
+        ? undefined
+        : await refinementEngine.selectFinalIteration(workflowExecutionId);
+      const keptEarlierIteration = !!selected && selected.iteration !== iteration;
+
+      if (selected) {
+        await eventBus.emitWorkflowEvent(WorkflowEventType.REFINEMENT_COMPLETED, {
+          iterations: iteration + 1,
+          selectedIteration: selected.iteration,
+          overallScore: selected.overallScore,
+          refinementCost: refinementEngine.getRefinementCost(),
+        });
+      }
+      let finalOutputs = lastResult!.outputs;
+      let finalSuccess = lastResult!.success;
+
+      if (keptEarlierIteration) {
+        const records = await this.checkpoints.restoreRecords({
+          ...checkpoint,
+          agentExecutions: selected!.agentExecutions,
+          errors: {},
+        });
+        finalOutputs = new Map(records.map((record) => [record.role, record.result.output]));
+        finalSuccess = selected!.success;
+      }
+
       // Update workflow execution with final result
-      const finalStatus: WorkflowStatus = lastResult!.success ? 'COMPLETED' : 'FAILED';
+      const finalStatus: WorkflowStatus = finalSuccess ? 'COMPLETED' : 'FAILED';
+      const errorMessages = keptEarlierIteration ? [] : Array.from(lastResult!.errors.values());
+
+      if (lastResult!.abortedBy) {
+        errorMessages.unshift(`Aborted: ${lastResult!.abortedBy} failed`);
+      }
 
       await this.prisma.workflowExecution.update({
         where: { id: workflowExecutionId },
         data: {
           status: finalStatus,
-          output: Object.fromEntries(lastResult!.outputs) as any,
-          error: lastResult!.errors.size > 0 ? Array.from(lastResult!.errors.values()).join('; ') : null,
+          output: Object.fromEntries(finalOutputs) as any,
+          error: errorMessages.length > 0 ? errorMessages.join('; ') : null,
           completedAt: new Date(),
           iteration,
         },
@@ -195,13 +417,17 @@ export class Orchestrator {
 
       // Emit completed event
       await eventBus.emitWorkflowEvent(
-        lastResult!.success ? WorkflowEventType.WORKFLOW_COMPLETED : WorkflowEventType.WORKFLOW_FAILED,
+        finalSuccess ? WorkflowEventType.WORKFLOW_COMPLETED : WorkflowEventType.WORKFLOW_FAILED,
         {
           totalAgents: lastResult!.totalAgents,
           completedAgents: lastResult!.completedAgents.length,
           failedAgents: lastResult!.failedAgents.length,
+          skippedAgents: lastResult!.skippedAgents.length,
+          abortedBy: lastResult!.abortedBy,
           totalDuration: lastResult!.totalDuration,
+          scheduler: lastResult!.scheduler,
           iterations: iteration + 1,
+          selectedIteration: selected?.iteration ?? iteration,
         }
       );
 
@@ -209,6 +435,12 @@ export class Orchestrator {
         `[Orchestrator] Workflow ${workflowExecutionId} ${finalStatus.toLowerCase()} after ${iteration + 1} iteration(s)`
       );
     } catch (error: any) {
+      // A cancelled workflow keeps its CANCELLED status
+      if (controller.signal.aborted) {
+        console.log(`[Orchestrator] Workflow ${workflowExecutionId} cancelled: ${error.message}`);
+        return;
+      }
+
       console.error(`[Orchestrator] Workflow execution error: ${workflowExecutionId}`, error);
 
       // Update workflow execution with error
@@ -225,7 +457,185 @@ export class Orchestrator {
       await eventBus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_FAILED, {
         error: error.message,
       });
+    } finally {
+      stopWatching();
+      this.activeRuns.delete(workflowExecutionId);
+      await releaseRunLock();
+
+      // A resume that arrived while this run was stopping could not take the lock
+      if (!controller.signal.aborted) {
+        await this.restartIfResumed(workflowExecutionId);
+      }
+    }
+  }
+
+  /**
+   * Take the run lock of a workflow and keep renewing it
+   *
+   * Returns a function that releases the lock, or null if another run holds it.
+   */
+  private async acquireRunLock(
+    tenantId: string,
+    workflowExecutionId: string,
+    retries: number
+  ): Promise<(() => Promise<void>) | null> {
+    const resourceId = `workflow-run:${workflowExecutionId}`;
+    const lockToken = await acquireLock(tenantId, resourceId, {
+      ttl: RUN_LOCK_TTL_MS,
+      retries,
+      retryDelay: RESUME_LOCK_RETRY_DELAY_MS,
+    });
+
+    if (!lockToken) {
+      return null;
+    }
+
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!(await extendLock(tenantId, resourceId, lockToken, RUN_LOCK_TTL_MS))) {
+          console.warn(`[Orchestrator] Run lock of workflow ${workflowExecutionId} expired`);
+        }
+      } catch (error) {
+        console.error(`[Orchestrator] Failed to renew run lock of ${workflowExecutionId}:`, error);
+      }
+    }, RUN_LOCK_RENEW_INTERVAL_MS);
+
+    return async () => {
+      clearInterval(heartbeat);
+      try {
+        await releaseLock(tenantId, resourceId, lockToken);
+      } catch (error) {
+        console.error(`[Orchestrator] Failed to release run lock of ${workflowExecutionId}:`, error);
+      }
+    };
+  }
+
+  /**
+   * Restart a run that stopped at a stage boundary but was resumed meanwhile
+   */
+  private async restartIfResumed(workflowExecutionId: string): Promise<void> {
+    try {
+      const workflow = await this.prisma.workflowExecution.findUnique({
+        where: { id: workflowExecutionId },
+        select: { status: true },
+      });
+
+      if (workflow?.status !== 'RUNNING') {
+        return;
+      }
+
+      const { tenantId, traceId, checkpoint, workflowDef } = await this.loadResumableRun(workflowExecutionId);
+      console.log(`[Orchestrator] Workflow ${workflowExecutionId} was resumed while stopping, restarting from checkpoint`);
+
+      this.runWorkflow(
+        workflowExecutionId,
+        workflowDef,
+        checkpoint.executionConfig,
+        traceId,
+        getEventBus(tenantId, workflowExecutionId, this.prisma),
+        checkpoint
+      ).catch((error) => {
+        console.error(`[Orchestrator] Restarted workflow failed: ${workflowExecutionId}`, error);
+      });
+    } catch (error) {
+      console.error(`[Orchestrator] Failed to restart resumed workflow ${workflowExecutionId}:`, error);
+    }
+  }
+
+  /**
+   * Open the approval a gate is waiting on, unless one is already pending
+   */
+  private async requestApproval(
+    workflowExecutionId: string,
+    gate: ApprovalGateNode,
+    result: WorkflowExecutionResult,
+    executionConfig: WorkflowExecutionConfig
+  ): Promise<void> {
+    const previous = await this.prisma.workflowApproval.findMany({
+      where: { workflowExecutionId, gate: gate.id },
+      select: { status: true },
+    });
+
+    if (previous.some((approval) => approval.status === 'PENDING')) {
+      return;
+    }
+
+    const artifacts = Object.fromEntries(
+      gate.reviews.filter((role) => result.outputs.has(role)).map((role) => [role, result.outputs.get(role)])
+    );
+
+    try {
+      await openApproval(
+        this.prisma,
+        {
+          gate: gate.id,
+          attempt: previous.length + 1,
+          tenantId: executionConfig.tenantId,
+          projectId: executionConfig.projectId,
+          workflowExecutionId,
+          userId: executionConfig.userId,
+          artifacts,
+        },
+        gate.timeout
+      );
+    } catch (error: any) {
+      console.error(`[Orchestrator] Could not open approval gate ${gate.id} of ${workflowExecutionId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Pause or fail a workflow that stopped at a budget limit
+   */
+  private async haltForBudget(
+    workflowExecutionId: string,
+    eventBus: WorkflowEventBus,
+    reason: string,
+    budget: BudgetPolicy
+  ): Promise<void> {
+    console.warn(`[Orchestrator] Workflow ${workflowExecutionId} stopped by budget (${budget.onExceeded}): ${reason}`);
+
+    if (budget.onExceeded === 'pause') {
+      await this.prisma.workflowExecution.update({
+        where: { id: workflowExecutionId },
+        data: { status: 'PAUSED', error: reason },
+      });
+
+      await eventBus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_PAUSED, { reason });
+      return;
     }
+
+    await this.prisma.workflowExecution.update({
+      where: { id: workflowExecutionId },
+      data: { status: 'FAILED', error: reason, completedAt: new Date() },
+    });
+
+    await eventBus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_FAILED, { error: reason });
+  }
+
+  /**
+   * Abort a running workflow once it is marked CANCELLED
+   *
+   * Cancellation usually arrives through the API, which only updates the database,
+   * so the run polls its status rather than relying on cancelWorkflow being called here.
+   */
+  private watchCancellation(workflowExecutionId: string, controller: AbortController): () => void {
+    const interval = setInterval(async () => {
+      try {
+        const workflow = await this.prisma.workflowExecution.findUnique({
+          where: { id: workflowExecutionId },
+          select: { status: true },
+        });
+
+        if (workflow?.status === 'CANCELLED' && !controller.signal.aborted) {
+          console.log(`[Orchestrator] Workflow ${workflowExecutionId} was cancelled, aborting running agents`);
+          controller.abort(createCancellationReason());
+        }
+      } catch (error) {
+        console.error(`[Orchestrator] Failed to check cancellation of ${workflowExecutionId}:`, error);
+      }
+    }, CANCELLATION_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
   }
 
   /**
@@ -237,8 +647,25 @@ export class Orchestrator {
     contextBuilder: ContextBuilder,
     executionConfig: WorkflowExecutionConfig,
     eventBus: WorkflowEventBus,
-    iteration: number
+    iteration: number,
+    checkpoint: WorkflowCheckpoint,
+    agentVersions: AgentVersionPins,
+    budget: BudgetPolicy
   ): Promise<WorkflowExecutionResult> {
+    const restoredRecords = await this.checkpoints.restoreRecords(checkpoint);
+    const refinementEnvelopes = await this.loadRefinementEnvelopes(checkpoint);
+    // A gate stays approved for every refinement iteration
+    const approvals = await this.prisma.workflowApproval.findMany({
+      where: { workflowExecutionId, status: { in: ['APPROVED', 'EDITED'] } },
+      select: { gate: true },
+    });
+    const reusedAgents = new Set(checkpoint.refinement.reusedAgents || []);
+    const previousIterationsCost = (checkpoint.refinement.history || [])
+      .filter((entry) => entry.iteration < iteration)
+      .reduce((sum, entry) => sum + entry.cost, 0);
+    let iterationCost = 0;
+    let current = checkpoint;
+
     // Create execution engine
     const executor = createExecutionEngine(
       {
@@ -247,31 +674,231 @@ export class Orchestrator {
         projectId: executionConfig.projectId,
         userId: executionConfig.userId,
         traceId: contextBuilder.getBaseConfig().traceId,
+        prisma: this.prisma,
+        agentVersions,
+        signal: this.activeRuns.get(workflowExecutionId)?.signal,
+        budget,
+        llm: contextBuilder.getBaseConfig().llm,
+        modelRouting: contextBuilder.getBaseConfig().modelRouting,
       },
       this.config.maxConcurrency
     );
 
+    // Workflow input plus every upstream output, for agents without an input mapping
+    const fullInput = (previousOutputs: Map<AgentRole, any>) => ({
+      ...executionConfig.input,
+      previousOutputs: Object.fromEntries(previousOutputs),
+      iteration,
+    });
+
+    // Re-run agents get their previous output and the feedback on it
+    const withRefinement = (role: AgentRole, input: Record<string, any>) =>
+      refinementEnvelopes[role] ? { ...input, refinement: refinementEnvelopes[role] } : input;
+
     // Execute workflow with DAG
     const result = await executor.executeWorkflow(
       dag,
       (role, parentSpanId) => contextBuilder.build(role, parentSpanId),
       (role, previousOutputs) => {
-        // Build input for agent from previous outputs and workflow input
-        return {
-          ...executionConfig.input,
-          previousOutputs: Object.fromEntries(previousOutputs),
-          iteration,
-        };
+        // Agents with a declared input mapping receive only the mapped fields
+        const inputs = dag.getNode(role)?.inputs;
+        if (inputs) {
+          return withRefinement(role, {
+            ...resolveStepInputs(inputs, executionConfig.input, previousOutputs),
+            iteration,
+          });
+        }
+
+        return withRefinement(role, fullInput(previousOutputs));
       },
       (role) => {
         // Get agent-specific config from workflow definition
-        return {};
+        return dag.getNode(role)?.config || {};
+      },
+      {
+        conditionScope: (role, previousOutputs) => fullInput(previousOutputs),
+        completedStages: checkpoint.completedStages,
+        restoredRecords,
+        reusedAgents: checkpoint.refinement.reusedAgents,
+        abortedBy: checkpoint.abortedBy,
+        skippedAgents: checkpoint.skippedAgents,
+        approvedGates: approvals.map((approval) => approval.gate),
+        onStageStart: async ({ stage, agents }) => {
+          await eventBus.emitWorkflowEvent(WorkflowEventType.STAGE_STARTED, { stage, iteration, agents });
+        },
+        onStageComplete: async (completion) => {
+          const { stage, records } = completion;
+          current = this.checkpoints.recordStage(current, completion);
+          await this.checkpoints.save(workflowExecutionId, current);
+
+          // Reused records were paid for by an earlier iteration
+          const ran = records.filter((r) => !reusedAgents.has(r.role));
+          const stageCost = ran.reduce((sum, r) => sum + (r.result.cost || 0), 0);
+          const stageCacheSavings = ran.reduce((sum, r) => sum + (r.result.cacheSavings || 0), 0);
+          iterationCost += stageCost;
+
+          // Savings across every iteration come from the workflow's cost record
+          const workflowCost = await getWorkflowCost(executionConfig.tenantId, workflowExecutionId);
+
+          await eventBus.emitWorkflowEvent(WorkflowEventType.STAGE_COMPLETED, {
+            stage,
+            iteration,
+            completedAgents: ran.filter((r) => r.result.success).map((r) => r.role),
+            failedAgents: ran.filter((r) => !r.result.success).map((r) => r.role),
+            reusedAgents: records.filter((r) => reusedAgents.has(r.role)).map((r) => r.role),
+            cost: stageCost,
+          });
+          await eventBus.emitWorkflowEvent(WorkflowEventType.COST_UPDATED, {
+            iteration,
+            stage,
+            stageCost,
+            iterationCost,
+            totalCost: previousIterationsCost + iterationCost,
+            stageCacheSavings,
+            cacheSavings: workflowCost?.cacheSavings ?? stageCacheSavings,
+          });
+        },
+        shouldContinue: () => this.isRunnable(workflowExecutionId),
+        scheduler: this.config.scheduler,
       }
     );
 
     return result;
   }
 
+  /**
+   * Build the refinement envelope of each agent re-run by this iteration
+   *
+   * Each agent sees only the findings traced back to its own output.
+   */
+  private async loadRefinementEnvelopes(
+    checkpoint: WorkflowCheckpoint
+  ): Promise<Partial<Record<AgentRole, RefinementEnvelope>>> {
+    const { iteration, lastDecision, previousExecutions = {} } = checkpoint.refinement;
+
+    if (iteration === 0 || !lastDecision) {
+      return {};
+    }
+
+    const entries = Object.entries(previousExecutions) as Array<[AgentRole, string | string[]]>;
+
+    const [evaluation, rows] = await Promise.all([
+      lastDecision.evaluationId
+        ? this.prisma.websiteEvaluation.findUnique({
+            where: { id: lastDecision.evaluationId },
+            select: { refinementInstructions: true },
+          })
+        : null,
+      this.prisma.agentExecution.findMany({
+        where: { id: { in: entries.flatMap(([, ids]) => ids) }, status: 'COMPLETED' },
+        select: { id: true, output: true },
+      }),
+    ]);
+
+    const outputs = new Map(rows.map((row) => [row.id, row.output]));
+    const envelopes: Partial<Record<AgentRole, RefinementEnvelope>> = {};
+
+    for (const [role, ids] of entries) {
+      envelopes[role] = {
+        iteration,
+        previousExecutionId: ids,
+        previousOutput: Array.isArray(ids) ? ids.map((id) => outputs.get(id)) : outputs.get(ids),
+        findings: lastDecision.findingsByAgent?.[role] || [],
+        instructions: evaluation?.refinementInstructions || [],
+        scoreDeltas: lastDecision.scoreDeltas || [],
+      };
+    }
+
+    return envelopes;
+  }
+
+  /**
+   * Split the DAG for a refinement iteration
+   *
+   * Refinement targets, agents that didn't succeed last time and everything downstream of
+   * them re-run; every other agent keeps its previous execution. When none of the targets are
+   * in this workflow the whole DAG re-runs.
+   */
+  private planRefinement(
+    dag: DAG,
+    targetAgents: AgentRole[],
+    previous: WorkflowExecutionResult,
+    iteration: number
+  ): { scope: RefinementScope; reused: Partial<Record<AgentRole, string | string[]>> } {
+    const roles = dag.getNodes().map((node) => node.role);
+    const reused: Partial<Record<AgentRole, string | string[]>> = {};
+
+    if (!targetAgents.some((role) => dag.getNode(role))) {
+      console.warn(
+        `[Orchestrator] No refinement targets are in this workflow (${targetAgents.join(', ') || 'none'}); ` +
+          're-running every agent'
+      );
+    } else {
+      // Agents without a successful previous run must run too, and so must their dependents
+      const succeeded = new Map(previous.completedAgents.map((record) => [record.role, record]));
+      const affected = new Set(
+        dag.getAffectedAgents([...targetAgents, ...roles.filter((role) => !succeeded.has(role))])
+      );
+
+      for (const record of succeeded.values()) {
+        if (!affected.has(record.role)) {
+          reused[record.role] = record.instances
+            ? record.instances.map((instance) => instance.agentExecutionId)
+            : record.agentExecutionId;
+        }
+      }
+    }
+
+    const scope: RefinementScope = {
+      iteration,
+      targetAgents,
+      rerunAgents: roles.filter((role) => !reused[role]),
+      reusedAgents: Object.keys(reused) as AgentRole[],
+    };
+
+    console.log(
+      `[Orchestrator] Iteration ${iteration}: re-running ${scope.rerunAgents.length} agent(s), ` +
+        `reusing ${scope.reusedAgents.length}`
+    );
+
+    return { scope, reused };
+  }
+
+  /**
+   * Append a refinement iteration's scope to the workflow execution metadata
+   */
+  private async recordRefinementScope(workflowExecutionId: string, scope: RefinementScope): Promise<void> {
+    const workflow = await this.prisma.workflowExecution.findUnique({
+      where: { id: workflowExecutionId },
+      select: { metadata: true },
+    });
+
+    const metadata = (workflow?.metadata || {}) as Record<string, any>;
+    const refinementIterations = [
+      ...((metadata.refinementIterations as RefinementScope[]) || []).filter(
+        (entry) => entry.iteration !== scope.iteration
+      ),
+      scope,
+    ];
+
+    await this.prisma.workflowExecution.update({
+      where: { id: workflowExecutionId },
+      data: { metadata: { ...metadata, refinementIterations } as any },
+    });
+  }
+
+  /**
+   * Check whether a workflow should keep dispatching stages
+   */
+  private async isRunnable(workflowExecutionId: string): Promise<boolean> {
+    const workflow = await this.prisma.workflowExecution.findUnique({
+      where: { id: workflowExecutionId },
+      select: { status: true },
+    });
+
+    return workflow?.status === 'RUNNING';
+  }
+
   /**
    * Execute specific agents (not full workflow)
    */
@@ -288,6 +915,8 @@ export class Orchestrator {
     // Build DAG from roles
     const dag = buildDAGFromRoles(roles);
 
+    const llmSettings = await this.loadLLMSettings(tenantId);
+
     // Create context builder
     const contextBuilder = createContextBuilder(this.prisma, {
       tenantId,
@@ -296,6 +925,7 @@ export class Orchestrator {
       userId: options.userId,
       traceId,
       clientSchema: options.clientSchema,
+      ...llmSettings,
     });
 
     contextBuilder.setOrchestrator(this);
@@ -308,6 +938,11 @@ export class Orchestrator {
         projectId,
         userId: options.userId,
         traceId,
+        prisma: this.prisma,
+        agentVersions: await this.loadAgentVersionPins(tenantId),
+        budget: await loadBudgetPolicy(this.prisma, tenantId),
+        llm: llmSettings.llm,
+        modelRouting: llmSettings.modelRouting,
       },
       this.config.maxConcurrency
     );
@@ -319,7 +954,9 @@ export class Orchestrator {
       (role, previousOutputs) => ({
         ...input,
         previousOutputs: Object.fromEntries(previousOutputs),
-      })
+      }),
+      undefined,
+      { scheduler: this.config.scheduler }
     );
 
     return result;
@@ -336,11 +973,14 @@ export class Orchestrator {
 
   /**
    * Pause workflow execution
+   *
+   * The running workflow stops at the next stage boundary; its progress is
+   * already checkpointed.
    */
   async pauseWorkflow(workflowExecutionId: string): Promise<void> {
     await this.prisma.workflowExecution.update({
       where: { id: workflowExecutionId },
-      data: { status: 'PAUSED' },
+      data: { status: 'PAUSED', pausedAt: new Date() },
     });
 
     const workflow = await this.prisma.workflowExecution.findUnique({
@@ -349,33 +989,227 @@ export class Orchestrator {
     });
 
     if (workflow) {
-      const eventBus = getEventBus(workflow.tenantId, workflowExecutionId);
+      const eventBus = getEventBus(workflow.tenantId, workflowExecutionId, this.prisma);
       await eventBus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_PAUSED, {});
     }
   }
 
   /**
    * Resume workflow execution
+   *
+   * Execution restarts from the last checkpointed stage. If the workflow is
+   * still executing somewhere (paused before it reached a stage boundary),
+   * flipping the status back to RUNNING lets that run continue instead.
    */
   async resumeWorkflow(workflowExecutionId: string): Promise<void> {
-    await this.prisma.workflowExecution.update({
-      where: { id: workflowExecutionId },
-      data: { status: 'RUNNING' },
+    const { tenantId, status, traceId, checkpoint, workflowDef } =
+      await this.loadResumableRun(workflowExecutionId);
+
+    // Conditional so a concurrent cancel or completion is never overwritten
+    const { count } = await this.prisma.workflowExecution.updateMany({
+      where: { id: workflowExecutionId, status: { in: ['PAUSED', 'RUNNING'] } },
+      data: { status: 'RUNNING', pausedAt: null },
+    });
+
+    if (count === 0) {
+      throw new Error(`Cannot resume workflow ${workflowExecutionId} in ${status} state`);
+    }
+
+    const eventBus = getEventBus(tenantId, workflowExecutionId, this.prisma);
+    await eventBus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_RESUMED, {
+      iteration: checkpoint.iteration,
+      completedStages: checkpoint.completedStages.length,
+    });
+
+    console.log(
+      `[Orchestrator] Resuming workflow ${workflowExecutionId} from checkpoint ` +
+        `(iteration ${checkpoint.iteration}, ${checkpoint.completedStages.length} stage(s) done)`
+    );
+
+    // Execute workflow in background (don't await); waits briefly for a pausing run to let go
+    this.runWorkflow(
+      workflowExecutionId,
+      workflowDef,
+      checkpoint.executionConfig,
+      traceId,
+      eventBus,
+      checkpoint,
+      RESUME_LOCK_RETRIES
+    ).catch((error) => {
+      console.error(`[Orchestrator] Resumed workflow failed: ${workflowExecutionId}`, error);
+    });
+  }
+
+  /**
+   * Continue a workflow once a reviewer decided at one of its approval gates
+   *
+   * Approved and edited gates resume the run from its checkpoint, with edited outputs
+   * written over the reviewed agents' executions; a rejection fails the workflow.
+   * Workflows without a checkpoint are skipped: the website generator waits for its
+   * own decisions.
+   */
+  async applyApprovalDecision(approvalId: string): Promise<void> {
+    const approval = await this.prisma.workflowApproval.findUnique({ where: { id: approvalId } });
+
+    if (!approval || !['APPROVED', 'EDITED', 'REJECTED'].includes(approval.status)) {
+      return;
+    }
+
+    const { workflowExecutionId } = approval;
+    const checkpoint = await this.checkpoints.load(workflowExecutionId);
+    if (!checkpoint) {
+      return;
+    }
+
+    const eventBus = getEventBus(approval.tenantId, workflowExecutionId, this.prisma);
+    const decided = {
+      approvalId,
+      gate: approval.gate,
+      decision: ({ APPROVED: 'approve', EDITED: 'edit', REJECTED: 'reject' } as const)[
+        approval.status as 'APPROVED' | 'EDITED' | 'REJECTED'
+      ],
+      reviewedBy: approval.reviewedBy,
+    };
+
+    if (approval.status === 'REJECTED') {
+      const error = `Rejected at approval gate ${approval.gate}: ${approval.comments || 'no comments'}`;
+      const { count } = await this.prisma.workflowExecution.updateMany({
+        where: { id: workflowExecutionId, status: 'AWAITING_APPROVAL' },
+        data: { status: 'FAILED', error, pausedAt: null, completedAt: new Date() },
+      });
+
+      if (count > 0) {
+        await eventBus.emitWorkflowEvent(WorkflowEventType.APPROVAL_DECIDED, decided);
+        await eventBus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_FAILED, { error });
+      }
+      return;
+    }
+
+    if (approval.status === 'EDITED') {
+      for (const [role, output] of Object.entries((approval.editedArtifacts || {}) as Record<string, any>)) {
+        // Only single-instance agents can be edited; fan-out outputs are spread over several rows
+        const agentExecutionId = checkpoint.agentExecutions[role as AgentRole];
+        if (typeof agentExecutionId === 'string') {
+          await this.prisma.agentExecution.update({
+            where: { id: agentExecutionId },
+            data: { output: output as any },
+          });
+        }
+      }
+    }
+
+    // Conditional so a workflow cancelled while waiting stays cancelled
+    const { count } = await this.prisma.workflowExecution.updateMany({
+      where: { id: workflowExecutionId, status: 'AWAITING_APPROVAL' },
+      data: { status: 'RUNNING', pausedAt: null },
+    });
+
+    if (count === 0) {
+      console.log(`[Orchestrator] Workflow ${workflowExecutionId} is no longer awaiting approval`);
+      return;
+    }
+
+    await eventBus.emitWorkflowEvent(WorkflowEventType.APPROVAL_DECIDED, decided);
+
+    const { traceId, workflowDef } = await this.loadResumableRun(workflowExecutionId);
+
+    console.log(`[Orchestrator] Approval gate ${approval.gate} passed, resuming workflow ${workflowExecutionId}`);
+
+    // Execute workflow in background (don't await); the run that opened the gate may still hold its lock
+    this.runWorkflow(
+      workflowExecutionId,
+      workflowDef,
+      checkpoint.executionConfig,
+      traceId,
+      eventBus,
+      checkpoint,
+      RESUME_LOCK_RETRIES
+    ).catch((error) => {
+      console.error(`[Orchestrator] Approved workflow failed: ${workflowExecutionId}`, error);
+    });
+  }
+
+  /**
+   * Fail workflows whose approval gate timed out without a decision
+   *
+   * Returns the number of workflows failed. Website generator gates are skipped
+   * because their own Inngest run times them out.
+   */
+  async expireApprovals(limit: number = 100): Promise<number> {
+    const due = await this.prisma.workflowApproval.findMany({
+      where: { status: 'PENDING', expiresAt: { lte: new Date() } },
+      select: { id: true, tenantId: true, gate: true, workflowExecutionId: true },
+      orderBy: { expiresAt: 'asc' },
+      take: limit,
     });
 
+    let expired = 0;
+
+    for (const approval of due) {
+      if (!(await this.checkpoints.load(approval.workflowExecutionId))) {
+        continue;
+      }
+
+      if (!(await expireApproval(this.prisma, approval.id, approval.workflowExecutionId))) {
+        continue;
+      }
+
+      await getEventBus(approval.tenantId, approval.workflowExecutionId, this.prisma).emitWorkflowEvent(
+        WorkflowEventType.WORKFLOW_FAILED,
+        { error: `Approval gate ${approval.gate} expired without a decision`, approvalId: approval.id }
+      );
+      expired++;
+    }
+
+    return expired;
+  }
+
+  /**
+   * Load what is needed to restart a workflow from its checkpoint
+   */
+  private async loadResumableRun(workflowExecutionId: string) {
     const workflow = await this.prisma.workflowExecution.findUnique({
       where: { id: workflowExecutionId },
-      select: { tenantId: true },
+      select: { tenantId: true, status: true, traceId: true },
     });
 
-    if (workflow) {
-      const eventBus = getEventBus(workflow.tenantId, workflowExecutionId);
-      await eventBus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_RESUMED, {});
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${workflowExecutionId}`);
     }
+
+    if (['COMPLETED', 'FAILED', 'CANCELLED'].includes(workflow.status)) {
+      throw new Error(`Cannot resume workflow ${workflowExecutionId} in ${workflow.status} state`);
+    }
+
+    const checkpoint = await this.checkpoints.load(workflowExecutionId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for workflow: ${workflowExecutionId}`);
+    }
+
+    const record = await this.prisma.workflowDefinition.findUnique({
+      where: { id: checkpoint.executionConfig.workflowDefinitionId },
+    });
+
+    if (!record) {
+      throw new Error(
+        `Workflow definition not found: ${checkpoint.executionConfig.workflowDefinitionId}`
+      );
+    }
+
+    return {
+      tenantId: workflow.tenantId,
+      status: workflow.status,
+      traceId: workflow.traceId || `trace_${randomUUID()}`,
+      checkpoint,
+      workflowDef: toWorkflowDefinition(record),
+    };
   }
 
   /**
    * Cancel workflow execution
+   *
+   * A run in this process is aborted immediately; runs elsewhere notice the
+   * status change within CANCELLATION_POLL_INTERVAL_MS.
    */
   async cancelWorkflow(workflowExecutionId: string): Promise<void> {
     await this.prisma.workflowExecution.update({
@@ -383,13 +1217,15 @@ export class Orchestrator {
       data: { status: 'CANCELLED', completedAt: new Date() },
     });
 
+    this.activeRuns.get(workflowExecutionId)?.abort(createCancellationReason());
+
     const workflow = await this.prisma.workflowExecution.findUnique({
       where: { id: workflowExecutionId },
       select: { tenantId: true },
     });
 
     if (workflow) {
-      const eventBus = getEventBus(workflow.tenantId, workflowExecutionId);
+      const eventBus = getEventBus(workflow.tenantId, workflowExecutionId, this.prisma);
       await eventBus.emitWorkflowEvent(WorkflowEventType.WORKFLOW_CANCELLED, {});
     }
   }
@@ -439,6 +1275,42 @@ export class Orchestrator {
   getRegistryStats() {
     return getRegistry().getStats();
   }
+
+  /**
+   * Load the tenant's LLM provider/model (`settings.llm`) and model routing (`settings.modelRouting`)
+   */
+  private async loadLLMSettings(
+    tenantId: string
+  ): Promise<{ llm?: LLMSelection; modelRouting?: ModelRoutingPolicy }> {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { settings: true },
+    });
+    const settings = tenant?.settings as any;
+
+    return {
+      llm: settings?.llm as LLMSelection | undefined,
+      modelRouting: settings?.modelRouting as ModelRoutingPolicy | undefined,
+    };
+  }
+
+  /**
+   * Load agent version pins from tenant settings and the workflow definition
+   */
+  private async loadAgentVersionPins(
+    tenantId: string,
+    workflowDef?: WorkflowDefinition
+  ): Promise<AgentVersionPins> {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { settings: true },
+    });
+
+    return {
+      workflow: workflowDef?.config?.agentVersions as AgentVersionPins['workflow'],
+      tenant: (tenant?.settings as any)?.agentVersions,
+    };
+  }
 }
 
 /**
@@ -457,4 +1329,13 @@ export * from './dag-builder';
 export * from './executor';
 export * from './context-builder';
 export * from './refinement';
+export * from './convergence';
 export * from './events';
+export * from './budget-guard';
+export * from './event-log';
+export * from './checkpoint';
+export * from './conditions';
+export * from './input-mapping';
+export * from './validation';
+export * from './approvals';
+export * from './plugin-loader';
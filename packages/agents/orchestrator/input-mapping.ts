@@ -0,0 +1,202 @@
+import type { AgentRole } from '@business-automation/database';
+import type { StepInputSource } from '@business-automation/schema';
+import type { z } from 'zod';
+import type { DAG } from './dag-builder';
+import { getRegistry } from './registry';
+import { resolvePath } from './conditions';
+
+/**
+ * Declared input mapping for a step: target input field -> source
+ */
+export type StepInputMapping = Record<string, StepInputSource>;
+
+/**
+ * Source name that refers to the workflow input rather than an upstream agent
+ */
+export const WORKFLOW_INPUT_SOURCE = 'input';
+
+/**
+ * Zod wrappers that don't change the shape of the wrapped value
+ */
+const TRANSPARENT_TYPES = ['ZodOptional', 'ZodNullable', 'ZodDefault', 'ZodCatch', 'ZodReadonly'];
+
+/**
+ * Zod types whose values can't be compared structurally
+ */
+const OPAQUE_TYPES = ['ZodAny', 'ZodUnknown', 'ZodLazy', 'ZodUnion', 'ZodEffects', 'ZodPipeline'];
+
+/**
+ * Build an agent's input from its declared mapping
+ */
+export function resolveStepInputs(
+  mapping: StepInputMapping,
+  workflowInput: any,
+  previousOutputs: Map<AgentRole, any>
+): Record<string, any> {
+  const input: Record<string, any> = {};
+
+  for (const [field, source] of Object.entries(mapping)) {
+    const base =
+      source.from === WORKFLOW_INPUT_SOURCE ? workflowInput : previousOutputs.get(source.from as AgentRole);
+    const value = source.path ? resolvePath(base, source.path) : base;
+
+    input[field] = value === undefined ? source.default : value;
+  }
+
+  return input;
+}
+
+/**
+ * Validate every node's input mapping against the DAG and the agents' manifest schemas
+ *
+ * Checks that sources are upstream of the consuming agent, that mapped fields exist on the
+ * agent's inputSchema and cover its required fields, and that source paths exist on the
+ * upstream outputSchema with a compatible type.
+ */
+export function validateInputMappings(dag: DAG): string[] {
+  const errors: string[] = [];
+  const registry = getRegistry();
+
+  for (const node of dag.getNodes()) {
+    if (!node.inputs) {
+      continue;
+    }
+
+    const manifest = registry.getManifest(node.role);
+    const inputShape = getObjectShape(manifest?.inputSchema);
+
+    for (const [field, source] of Object.entries(node.inputs)) {
+      const label = `${node.role}.${field}`;
+      let targetSchema: z.ZodTypeAny | undefined;
+
+      if (inputShape) {
+        targetSchema = inputShape[field];
+        if (!targetSchema) {
+          errors.push(`${label}: ${node.role} inputSchema has no field "${field}"`);
+          continue;
+        }
+      }
+
+      if (source.from === WORKFLOW_INPUT_SOURCE) {
+        continue;
+      }
+
+      const sourceRole = source.from as AgentRole;
+
+      if (!dag.getNode(sourceRole)) {
+        errors.push(`${label}: source agent ${sourceRole} is not part of the workflow`);
+        continue;
+      }
+
+      if (!dag.getTransitiveDependents(sourceRole).includes(node.role)) {
+        errors.push(`${label}: source agent ${sourceRole} does not run before ${node.role}`);
+        continue;
+      }
+
+      const outputSchema = registry.getManifest(sourceRole)?.outputSchema;
+      const resolved: { schema?: z.ZodTypeAny; missing?: boolean } = source.path
+        ? schemaAtPath(outputSchema, source.path)
+        : { schema: outputSchema };
+
+      if (resolved.missing) {
+        errors.push(`${label}: ${sourceRole} outputSchema has no field at "${source.path}"`);
+        continue;
+      }
+
+      if (targetSchema && resolved.schema && !isCompatible(resolved.schema, targetSchema)) {
+        errors.push(
+          `${label}: ${sourceRole}${source.path ? `.${source.path}` : ''} is ${typeName(resolved.schema)}, ` +
+            `expected ${typeName(targetSchema)}`
+        );
+      }
+    }
+
+    // Mapped agents only receive mapped fields, so required fields must be covered;
+    // fan-out instances also get their item and position from the executor
+    if (inputShape) {
+      const provided = node.forEach ? [node.forEach.itemKey || 'item', 'fanOut'] : [];
+
+      for (const [field, schema] of Object.entries(inputShape)) {
+        if (!(field in node.inputs) && !provided.includes(field) && !schema.isOptional()) {
+          errors.push(`${node.role}.${field}: required input field is not mapped`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Strip wrappers that don't affect the value's shape
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current: any = schema;
+
+  while (current && TRANSPARENT_TYPES.includes(current._def?.typeName)) {
+    current = current._def.innerType;
+  }
+
+  return current;
+}
+
+/**
+ * Name of the underlying zod type
+ */
+function typeName(schema: z.ZodTypeAny): string {
+  return (unwrap(schema) as any)?._def?.typeName || 'unknown';
+}
+
+/**
+ * Get the shape of an object schema, or undefined when the schema isn't a plain object
+ */
+function getObjectShape(schema: z.ZodTypeAny | undefined): Record<string, z.ZodTypeAny> | undefined {
+  if (!schema) {
+    return undefined;
+  }
+
+  const inner: any = unwrap(schema);
+  return inner?._def?.typeName === 'ZodObject' ? inner.shape : undefined;
+}
+
+/**
+ * Walk an object schema along a dot path
+ *
+ * Returns `missing` when an object along the way lacks the field, and no schema when the
+ * path leaves the part of the schema that can be inspected (arrays, unions, records...).
+ */
+function schemaAtPath(
+  schema: z.ZodTypeAny | undefined,
+  path: string
+): { schema?: z.ZodTypeAny; missing?: boolean } {
+  let current = schema;
+
+  for (const segment of path.split('.').filter(Boolean)) {
+    const shape = getObjectShape(current);
+
+    if (!shape) {
+      return {};
+    }
+
+    current = shape[segment];
+    if (!current) {
+      return { missing: true };
+    }
+  }
+
+  return { schema: current };
+}
+
+/**
+ * Check whether a source value schema can feed a target field schema
+ */
+function isCompatible(source: z.ZodTypeAny, target: z.ZodTypeAny): boolean {
+  const sourceType = typeName(source);
+  const targetType = typeName(target);
+
+  if (OPAQUE_TYPES.includes(sourceType) || OPAQUE_TYPES.includes(targetType)) {
+    return true;
+  }
+
+  return sourceType === targetType;
+}
@@ -0,0 +1,383 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { glob } from 'glob';
+import { z } from 'zod';
+import { AgentRole, AgentLayer } from '@business-automation/database';
+import { getRegistry, type AgentClass, type AgentOrigin } from './registry';
+
+/**
+ * package.json field that marks a package as an agent plugin
+ */
+export const AGENT_PLUGIN_FIELD = 'agentPlugin';
+
+/**
+ * Environment variable listing plugin directories (separated by the platform path delimiter)
+ */
+export const AGENT_PLUGIN_DIRS_ENV = 'AGENT_PLUGIN_DIRS';
+
+/**
+ * Plugin settings declared under `agentPlugin` in a package.json
+ */
+export interface AgentPluginConfig {
+  /** Module exporting the agent classes (defaults to the package's main) */
+  entry?: string;
+}
+
+/**
+ * Plugin discovery options
+ */
+export interface PluginLoaderOptions {
+  /** Directories holding plugin packages (defaults to AGENT_PLUGIN_DIRS) */
+  pluginDirs?: string[];
+  /** npm/pnpm workspace root whose packages are scanned for plugins */
+  workspaceRoot?: string;
+}
+
+/**
+ * Plugin package found on disk
+ */
+export interface DiscoveredPlugin {
+  name: string;
+  version?: string;
+  path: string;
+  entry: string;
+}
+
+/**
+ * Plugin whose agents were registered
+ */
+export interface LoadedPlugin {
+  name: string;
+  version?: string;
+  path: string;
+  roles: AgentRole[];
+}
+
+/**
+ * Plugin (or plugin agent) that failed to load
+ */
+export interface PluginLoadError {
+  plugin: string;
+  path: string;
+  error: string;
+}
+
+/**
+ * Result of loading plugins
+ */
+export interface PluginLoadResult {
+  loaded: LoadedPlugin[];
+  errors: PluginLoadError[];
+}
+
+/**
+ * Find plugin packages in the configured directories and workspace
+ */
+export async function discoverAgentPlugins(options: PluginLoaderOptions = {}): Promise<DiscoveredPlugin[]> {
+  const pluginDirs =
+    options.pluginDirs ||
+    (process.env[AGENT_PLUGIN_DIRS_ENV] || '').split(path.delimiter).filter(Boolean);
+
+  const candidates: string[] = [];
+
+  for (const dir of pluginDirs) {
+    // A directory may be a plugin itself or hold one plugin per subdirectory
+    candidates.push(dir, ...(await glob('*/', { cwd: dir, absolute: true })));
+  }
+
+  if (options.workspaceRoot) {
+    for (const pattern of await readWorkspacePatterns(options.workspaceRoot)) {
+      candidates.push(...(await glob(pattern, { cwd: options.workspaceRoot, absolute: true })));
+    }
+  }
+
+  const plugins = new Map<string, DiscoveredPlugin>();
+
+  for (const candidate of candidates) {
+    const dir = path.resolve(candidate);
+    if (plugins.has(dir)) {
+      continue;
+    }
+
+    const plugin = await readPluginPackage(dir);
+    if (plugin) {
+      plugins.set(dir, plugin);
+    }
+  }
+
+  return Array.from(plugins.values());
+}
+
+/**
+ * Discover plugins and register their agents
+ *
+ * Built-in agents must be registered first: a plugin can't register a role that a
+ * built-in agent (or another plugin) already provides. A broken plugin is reported
+ * and skipped without stopping the others.
+ *
+ * Plugins can only provide roles of the Prisma `AgentRole` enum. Executions, approvals
+ * and workflow steps store the role in enum columns, so a new role needs a schema
+ * migration before a plugin can use it.
+ */
+export async function loadAgentPlugins(options: PluginLoaderOptions = {}): Promise<PluginLoadResult> {
+  const registry = getRegistry();
+  const result: PluginLoadResult = { loaded: [], errors: [] };
+
+  for (const plugin of await discoverAgentPlugins(options)) {
+    const origin: AgentOrigin = {
+      type: 'plugin',
+      name: plugin.name,
+      version: plugin.version,
+      path: plugin.path,
+    };
+
+    let agentClasses: AgentClass[];
+
+    try {
+      const module = await import(pathToFileURL(plugin.entry).href);
+      agentClasses = extractAgentClasses(module).map(normalizePluginAgent);
+    } catch (error: any) {
+      console.error(`[Plugins] Failed to load plugin ${plugin.name}: ${error.message}`);
+      result.errors.push({ plugin: plugin.name, path: plugin.path, error: error.message });
+      continue;
+    }
+
+    const roles: AgentRole[] = [];
+
+    for (const agentClass of agentClasses) {
+      try {
+        registry.register(agentClass, { origin });
+        roles.push(agentClass.getManifest().role);
+      } catch (error: any) {
+        console.error(`[Plugins] Failed to register agent from ${plugin.name}: ${error.message}`);
+        result.errors.push({ plugin: plugin.name, path: plugin.path, error: error.message });
+      }
+    }
+
+    if (roles.length > 0) {
+      result.loaded.push({ name: plugin.name, version: plugin.version, path: plugin.path, roles });
+    }
+  }
+
+  console.log(
+    `[Plugins] Loaded ${result.loaded.length} plugin(s)` +
+      (result.errors.length > 0 ? `, ${result.errors.length} error(s)` : '')
+  );
+
+  return result;
+}
+
+/**
+ * Validate a plugin agent manifest, returning any problems
+ */
+export function validatePluginManifest(manifest: any): string[] {
+  if (!manifest || typeof manifest !== 'object') {
+    return ['manifest is missing'];
+  }
+
+  const errors: string[] = [];
+  const roles = Object.values(AgentRole) as string[];
+  const layers = Object.values(AgentLayer) as string[];
+
+  for (const field of ['name', 'description', 'version']) {
+    if (typeof manifest[field] !== 'string' || !manifest[field]) {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  }
+
+  // Roles are stored in enum columns, so plugins are limited to the existing AgentRole values
+  if (!roles.includes(manifest.role)) {
+    errors.push(`role "${manifest.role}" is not a known agent role`);
+  }
+
+  if (!layers.includes(manifest.layer)) {
+    errors.push(`layer "${manifest.layer}" is not a known agent layer`);
+  }
+
+  for (const dep of manifest.dependencies || []) {
+    if (!roles.includes(dep)) {
+      errors.push(`dependency "${dep}" is not a known agent role`);
+    }
+  }
+
+  for (const field of ['inputSchema', 'outputSchema']) {
+    if (!isZodSchema(manifest[field]) && !isJSONSchema(manifest[field])) {
+      errors.push(`${field} must be a Zod schema or a JSON Schema object`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a JSON Schema to the equivalent Zod schema
+ *
+ * Covers the subset manifests use: objects, arrays, primitives, enums and nullable
+ * types. Anything else becomes `z.any()`.
+ */
+export function jsonSchemaToZod(schema: any): z.ZodTypeAny {
+  if (!schema || typeof schema !== 'object') {
+    return z.any();
+  }
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const literals = schema.enum.map((value: any) => z.literal(value));
+    return literals.length === 1 ? literals[0] : z.union(literals);
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type: string) => type !== 'null');
+    const base = types.length === 1 ? jsonSchemaToZod({ ...schema, type: types[0] }) : z.any();
+    return schema.type.includes('null') ? base.nullable() : base;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const required: string[] = schema.required || [];
+      const shape: Record<string, z.ZodTypeAny> = {};
+
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        const converted = jsonSchemaToZod(property);
+        shape[key] = required.includes(key) ? converted : converted.optional();
+      }
+
+      return z.object(shape).passthrough();
+    }
+    case 'array':
+      return z.array(jsonSchemaToZod(schema.items));
+    case 'string':
+      return z.string();
+    case 'integer':
+      return z.number().int();
+    case 'number':
+      return z.number();
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    default:
+      return z.any();
+  }
+}
+
+/**
+ * Read a package.json and return the plugin it declares, if any
+ */
+async function readPluginPackage(dir: string): Promise<DiscoveredPlugin | null> {
+  let pkg: any;
+
+  try {
+    pkg = JSON.parse(await readFile(path.join(dir, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+
+  const config: AgentPluginConfig | true | undefined = pkg[AGENT_PLUGIN_FIELD];
+  if (!config) {
+    return null;
+  }
+
+  const entry = (config !== true && config.entry) || pkg.main || 'index.js';
+
+  return {
+    name: pkg.name || path.basename(dir),
+    version: pkg.version,
+    path: dir,
+    entry: path.resolve(dir, entry),
+  };
+}
+
+/**
+ * Read package globs from package.json `workspaces` and pnpm-workspace.yaml
+ */
+async function readWorkspacePatterns(root: string): Promise<string[]> {
+  const patterns: string[] = [];
+
+  try {
+    const pkg = JSON.parse(await readFile(path.join(root, 'package.json'), 'utf-8'));
+    const workspaces = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages;
+    patterns.push(...(workspaces || []));
+  } catch {
+    // No package.json workspaces
+  }
+
+  try {
+    const yaml = await readFile(path.join(root, 'pnpm-workspace.yaml'), 'utf-8');
+    for (const match of yaml.matchAll(/^\s*-\s*['"]?([^'"\n#]+?)['"]?\s*$/gm)) {
+      patterns.push(match[1]!);
+    }
+  } catch {
+    // No pnpm workspace
+  }
+
+  // Negated globs exclude packages; the rest point at package directories
+  return patterns.filter((pattern) => !pattern.startsWith('!')).map((pattern) => `${pattern.replace(/\/$/, '')}/`);
+}
+
+/**
+ * Pull agent classes out of a plugin module (`agents` export, default export or named classes)
+ */
+function extractAgentClasses(module: any): AgentClass[] {
+  const exported = module.agents || module.default?.agents || module.default;
+  const candidates = Array.isArray(exported) ? exported : exported ? [exported] : Object.values(module);
+  const agentClasses = candidates.filter(
+    (candidate: any) => typeof candidate === 'function' && typeof candidate.getManifest === 'function'
+  );
+
+  if (agentClasses.length === 0) {
+    throw new Error('Plugin does not export any agent classes');
+  }
+
+  return agentClasses as AgentClass[];
+}
+
+/**
+ * Validate a plugin agent's manifest and convert JSON Schema input/output schemas to Zod
+ */
+function normalizePluginAgent(agentClass: AgentClass): AgentClass {
+  const manifest: any = agentClass.getManifest();
+  const errors = validatePluginManifest(manifest);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid manifest for ${manifest?.name || agentClass.name}: ${errors.join('; ')}`);
+  }
+
+  if (isZodSchema(manifest.inputSchema) && isZodSchema(manifest.outputSchema)) {
+    return agentClass;
+  }
+
+  const normalized = {
+    ...manifest,
+    inputSchema: isZodSchema(manifest.inputSchema)
+      ? manifest.inputSchema
+      : jsonSchemaToZod(manifest.inputSchema),
+    outputSchema: isZodSchema(manifest.outputSchema)
+      ? manifest.outputSchema
+      : jsonSchemaToZod(manifest.outputSchema),
+  };
+
+  // Subclass so the plugin's own class (and its static manifest) stays untouched
+  const Base = agentClass as any;
+  return class extends Base {
+    static manifest = normalized;
+
+    static getManifest() {
+      return normalized;
+    }
+  } as unknown as AgentClass;
+}
+
+/**
+ * Check for a Zod schema
+ */
+function isZodSchema(schema: any): boolean {
+  return !!schema && typeof schema.safeParse === 'function';
+}
+
+/**
+ * Check for a JSON Schema object
+ */
+function isJSONSchema(schema: any): boolean {
+  return !!schema && typeof schema === 'object' && ('type' in schema || 'properties' in schema || 'enum' in schema);
+}
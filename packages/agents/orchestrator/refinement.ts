@@ -1,5 +1,15 @@
-import { PrismaClient, type AgentRole } from '@business-automation/database';
+import { PrismaClient, type AgentRole, type AgentLayer } from '@business-automation/database';
 import type { WorkflowExecutionResult } from './executor';
+import { buildProvenanceIndex, extractFindings, type ResolvedFinding } from '../shared/provenance';
+import type { ScoreDelta } from '../shared/refinement-envelope';
+import {
+  createConvergenceStrategies,
+  selectIteration,
+  type ConvergenceStrategy,
+  type ConvergenceVerdict,
+  type IterationScore,
+  type IterationSelection,
+} from './convergence';
 
 /**
  * Quality evaluation score
@@ -33,6 +43,20 @@ export interface RefinementDecision {
   targetAgents: AgentRole[];
   iteration: number;
   metrics: QualityMetrics;
+  /** Findings each target agent is responsible for */
+  findingsByAgent?: Partial<Record<AgentRole, ResolvedFinding[]>>;
+  /** WebsiteEvaluation recorded for this decision */
+  evaluationId?: string;
+  /** Convergence strategy that ended the loop */
+  stoppedBy?: string;
+}
+
+/**
+ * Agents chosen for refinement and the findings traced back to them
+ */
+export interface RefinementTargets {
+  targetAgents: AgentRole[];
+  findingsByAgent: Partial<Record<AgentRole, ResolvedFinding[]>>;
 }
 
 /**
@@ -44,6 +68,14 @@ export interface RefinementConfig {
   qualityThreshold: number; // 0-1
   dimensionThresholds?: Map<string, number>;
   evaluatorRoles: AgentRole[];
+  /** Stop when an iteration improves the overall score by less than this */
+  minImprovement?: number;
+  /** Stop before refinement iterations cost more than this (USD) */
+  maxRefinementCost?: number;
+  /** Keep the last iteration's output or the highest-scoring one */
+  selection: IterationSelection;
+  /** Additional stop conditions, checked after the built-in ones */
+  strategies?: ConvergenceStrategy[];
 }
 
 /**
@@ -54,6 +86,19 @@ export const DEFAULT_REFINEMENT_CONFIG: RefinementConfig = {
   maxIterations: 3,
   qualityThreshold: 0.8,
   evaluatorRoles: ['QUALITY_EVALUATOR'],
+  selection: 'last',
+};
+
+/**
+ * Agent layer responsible for a quality dimension, used when no finding could be traced
+ */
+const DIMENSION_LAYERS: Record<string, AgentLayer> = {
+  design: 'DESIGN',
+  accessibility: 'DESIGN',
+  content: 'CONTENT',
+  seo: 'CONTENT',
+  code: 'CODE',
+  performance: 'CODE',
 };
 
 /**
@@ -63,37 +108,45 @@ export class RefinementEngine {
   private prisma: PrismaClient;
   private config: RefinementConfig;
   private iteration: number = 0;
+  private strategies: ConvergenceStrategy[];
+  private history: IterationScore[] = [];
 
   constructor(prisma: PrismaClient, config: Partial<RefinementConfig> = {}) {
     this.prisma = prisma;
     this.config = { ...DEFAULT_REFINEMENT_CONFIG, ...config };
+    this.strategies = createConvergenceStrategies(this.config);
   }
 
   /**
    * Get quality evaluations from database
+   *
+   * Only the latest execution of each evaluator counts; earlier iterations are superseded.
    */
   async getQualityEvaluations(workflowExecutionId: string): Promise<QualityScore[]> {
     const evaluations = await this.prisma.agentExecution.findMany({
       where: {
         workflowExecutionId,
-        role: { in: this.config.evaluatorRoles },
+        agentRole: { in: this.config.evaluatorRoles },
         evaluation: { not: null },
       },
+      orderBy: { createdAt: 'desc' },
       select: {
         id: true,
-        role: true,
+        agentRole: true,
         evaluation: true,
       },
     });
 
     const scores: QualityScore[] = [];
+    const evaluated = new Set<AgentRole>();
 
-    for (const eval of evaluations) {
-      if (!eval.evaluation || typeof eval.evaluation !== 'object') {
+    for (const execution of evaluations) {
+      if (!execution.evaluation || typeof execution.evaluation !== 'object' || evaluated.has(execution.agentRole)) {
         continue;
       }
+      evaluated.add(execution.agentRole);
 
-      const evaluation = eval.evaluation as any;
+      const evaluation = execution.evaluation as any;
 
       // Parse evaluation format
       // Expected format: { dimensions: { dimension: { score, maxScore, feedback } } }
@@ -101,8 +154,8 @@ export class RefinementEngine {
         for (const [dimension, dimEval] of Object.entries(evaluation.dimensions)) {
           const dimEvalObj = dimEval as any;
           scores.push({
-            agentRole: eval.role as AgentRole,
-            agentExecutionId: eval.id,
+            agentRole: execution.agentRole,
+            agentExecutionId: execution.id,
             dimension,
             score: dimEvalObj.score || 0,
             maxScore: dimEvalObj.maxScore || 100,
@@ -132,10 +185,10 @@ export class RefinementEngine {
     // Group by dimension
     const dimensionGroups = new Map<string, QualityScore[]>();
 
-    for (const eval of evaluations) {
-      const group = dimensionGroups.get(eval.dimension) || [];
-      group.push(eval);
-      dimensionGroups.set(eval.dimension, group);
+    for (const score of evaluations) {
+      const group = dimensionGroups.get(score.dimension) || [];
+      group.push(score);
+      dimensionGroups.set(score.dimension, group);
     }
 
     // Calculate average score for each dimension
@@ -181,47 +234,86 @@ export class RefinementEngine {
 
   /**
    * Determine which agents need refinement based on evaluations
+   *
+   * Each finding from the latest quality run is traced through artifact provenance to the
+   * agent execution that produced its file, section or route. Failed dimensions without
+   * any traceable finding fall back to the agents of the matching layer.
    */
   async identifyAgentsForRefinement(
     workflowExecutionId: string,
     metrics: QualityMetrics
-  ): Promise<AgentRole[]> {
-    // Get agents that produced outputs evaluated as low quality
-    const evaluations = await this.prisma.agentExecution.findMany({
+  ): Promise<RefinementTargets> {
+    const executions = await this.prisma.agentExecution.findMany({
       where: {
         workflowExecutionId,
-        role: { not: { in: this.config.evaluatorRoles } },
         status: 'COMPLETED',
       },
+      orderBy: { createdAt: 'desc' },
       select: {
-        role: true,
+        agentRole: true,
+        layer: true,
         output: true,
       },
     });
 
-    const agentsToRefine = new Set<AgentRole>();
+    // Latest findings per reporting agent (earlier iterations are superseded)
+    const reported = new Set<AgentRole>();
+    const findings = [];
+
+    for (const execution of executions) {
+      if (reported.has(execution.agentRole)) {
+        continue;
+      }
 
-    // Map failed dimensions to agents
-    // This is simplified - you'd need to track which agent produced which output
-    // For now, we'll refine agents in layers that had failures
-    const failedDimensions = metrics.failedDimensions.map((d) => d.dimension);
+      const executionFindings = extractFindings(execution.output);
+      if (executionFindings.length > 0) {
+        reported.add(execution.agentRole);
+        findings.push(...executionFindings);
+      }
+    }
 
-    // Map dimensions to typical agent layers
-    const dimensionToLayer: Record<string, string[]> = {
-      design: ['COLOR_PALETTE', 'TYPOGRAPHY', 'LAYOUT_STRUCTURE'],
-      content: ['HERO_COPY', 'FEATURE_COPY', 'CTA_COPY'],
-      code: ['CODE_GENERATOR', 'COMPONENT_GENERATOR'],
-      seo: ['SEO_METADATA'],
-    };
+    const index = await buildProvenanceIndex(this.prisma, workflowExecutionId);
+    const findingsByAgent: Partial<Record<AgentRole, ResolvedFinding[]>> = {};
 
-    for (const failedDim of failedDimensions) {
-      const agents = dimensionToLayer[failedDim.toLowerCase()] || [];
-      for (const agent of agents) {
-        agentsToRefine.add(agent as AgentRole);
+    for (const finding of index.resolveFindings(findings)) {
+      const role = finding.responsibleAgent?.agentRole as AgentRole | undefined;
+
+      if (!role || this.config.evaluatorRoles.includes(role)) {
+        continue;
+      }
+
+      (findingsByAgent[role] ||= []).push(finding);
+    }
+
+    const agentsToRefine = new Set(Object.keys(findingsByAgent) as AgentRole[]);
+
+    console.log(
+      `[Refinement] Traced ${Object.values(findingsByAgent).flat().length}/${findings.length} findings ` +
+        `to ${agentsToRefine.size} agent(s)`
+    );
+
+    if (agentsToRefine.size === 0) {
+      const layers = new Set(
+        metrics.failedDimensions
+          .map((d) => DIMENSION_LAYERS[d.dimension.toLowerCase()])
+          .filter((layer): layer is AgentLayer => !!layer)
+      );
+
+      for (const execution of executions) {
+        if (
+          execution.layer &&
+          layers.has(execution.layer) &&
+          !this.config.evaluatorRoles.includes(execution.agentRole)
+        ) {
+          agentsToRefine.add(execution.agentRole);
+        }
       }
     }
 
-    return Array.from(agentsToRefine);
+    return {
+      targetAgents: Array.from(agentsToRefine),
+      findingsByAgent,
+    };
   }
 
   /**
@@ -229,7 +321,8 @@ export class RefinementEngine {
    */
   async decideRefinement(
     workflowExecutionId: string,
-    result: WorkflowExecutionResult
+    result: WorkflowExecutionResult,
+    reusedAgents: AgentRole[] = []
   ): Promise<RefinementDecision> {
     // Check if refinement is enabled
     if (!this.config.enabled) {
@@ -248,23 +341,6 @@ export class RefinementEngine {
       };
     }
 
-    // Check if max iterations reached
-    if (this.iteration >= this.config.maxIterations) {
-      return {
-        shouldRefine: false,
-        reason: `Max iterations (${this.config.maxIterations}) reached`,
-        targetAgents: [],
-        iteration: this.iteration,
-        metrics: {
-          overallScore: 0,
-          dimensionScores: new Map(),
-          failedDimensions: [],
-          passedDimensions: [],
-          totalEvaluations: 0,
-        },
-      };
-    }
-
     // Get quality evaluations
     const evaluations = await this.getQualityEvaluations(workflowExecutionId);
 
@@ -284,40 +360,285 @@ export class RefinementEngine {
       };
     }
 
-    // Calculate metrics
+    // Calculate metrics and add this iteration to the history
     const metrics = this.calculateMetrics(evaluations);
+    const score = this.recordIteration(metrics, result, reusedAgents);
+
+    // Check the stop conditions, then the iteration limit
+    const verdict =
+      this.checkConvergence(metrics) ||
+      (this.iteration >= this.config.maxIterations
+        ? {
+            strategy: 'max-iterations',
+            reason: `Max iterations (${this.config.maxIterations}) reached`,
+            accepted: false,
+          }
+        : null);
+
+    if (verdict) {
+      score.evaluationId = await this.recordEvaluation(workflowExecutionId, metrics, evaluations, {
+        shouldRefine: false,
+        reason: verdict.reason,
+        stoppedBy: verdict.strategy,
+      });
 
-    // Check if quality threshold is met
-    if (metrics.overallScore >= this.config.qualityThreshold) {
       return {
         shouldRefine: false,
-        reason: `Quality threshold met (${metrics.overallScore.toFixed(2)} >= ${this.config.qualityThreshold})`,
+        reason: verdict.reason,
         targetAgents: [],
         iteration: this.iteration,
         metrics,
+        evaluationId: score.evaluationId,
+        stoppedBy: verdict.strategy,
       };
     }
 
     // Identify agents for refinement
-    const targetAgents = await this.identifyAgentsForRefinement(workflowExecutionId, metrics);
+    const { targetAgents, findingsByAgent } = await this.identifyAgentsForRefinement(
+      workflowExecutionId,
+      metrics
+    );
+
+    const shouldRefine = targetAgents.length > 0;
+    const reason = shouldRefine
+      ? `Quality below threshold (${metrics.overallScore.toFixed(2)} < ${this.config.qualityThreshold})`
+      : 'No agents identified for refinement';
+
+    score.evaluationId = await this.recordEvaluation(workflowExecutionId, metrics, evaluations, {
+      shouldRefine,
+      reason,
+      stoppedBy: shouldRefine ? undefined : 'no-targets',
+    });
 
-    if (targetAgents.length === 0) {
+    if (!shouldRefine) {
       return {
         shouldRefine: false,
-        reason: 'No agents identified for refinement',
+        reason,
         targetAgents: [],
         iteration: this.iteration,
         metrics,
+        evaluationId: score.evaluationId,
+        stoppedBy: 'no-targets',
       };
     }
 
     return {
       shouldRefine: true,
-      reason: `Quality below threshold (${metrics.overallScore.toFixed(2)} < ${this.config.qualityThreshold})`,
+      reason,
       targetAgents,
       iteration: this.iteration,
       metrics,
+      findingsByAgent,
+      evaluationId: score.evaluationId,
+    };
+  }
+
+  /**
+   * Run the convergence strategies in order; the first one to stop the loop wins
+   */
+  checkConvergence(metrics: QualityMetrics): ConvergenceVerdict | null {
+    const state = {
+      iteration: this.iteration,
+      metrics,
+      history: this.history,
+      refinementCost: this.getRefinementCost(),
+    };
+
+    for (const strategy of this.strategies) {
+      const verdict = strategy.evaluate(state);
+      if (verdict) {
+        return verdict;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Add the evaluated iteration to the history
+   */
+  private recordIteration(
+    metrics: QualityMetrics,
+    result: WorkflowExecutionResult,
+    reusedAgents: AgentRole[]
+  ): IterationScore {
+    const agentExecutions: IterationScore['agentExecutions'] = {};
+    let cost = 0;
+
+    for (const record of result.completedAgents) {
+      agentExecutions[record.role] = record.instances
+        ? record.instances.map((instance) => instance.agentExecutionId)
+        : record.agentExecutionId;
+    }
+
+    for (const record of [...result.completedAgents, ...result.failedAgents]) {
+      if (!reusedAgents.includes(record.role)) {
+        cost += record.result.cost || 0;
+      }
+    }
+
+    const score: IterationScore = {
+      iteration: this.iteration,
+      overallScore: metrics.overallScore,
+      dimensionScores: Object.fromEntries(metrics.dimensionScores),
+      cost,
+      success: result.success,
+      agentExecutions,
     };
+
+    this.history = [...this.history.filter((entry) => entry.iteration !== this.iteration), score];
+    return score;
+  }
+
+  /**
+   * Cost of the refinement iterations so far (iteration 0 excluded)
+   */
+  getRefinementCost(): number {
+    return this.history
+      .filter((entry) => entry.iteration > 0)
+      .reduce((sum, entry) => sum + entry.cost, 0);
+  }
+
+  /**
+   * Evaluated iterations so far
+   */
+  getHistory(): IterationScore[] {
+    return [...this.history];
+  }
+
+  /**
+   * Restore the iteration history (when resuming from a checkpoint)
+   */
+  restoreHistory(history: IterationScore[]): void {
+    this.history = [...history];
+  }
+
+  /**
+   * Pick the iteration whose output the workflow keeps and mark its evaluation as selected
+   */
+  async selectFinalIteration(workflowExecutionId: string): Promise<IterationScore | undefined> {
+    const selected = selectIteration(this.history, this.config.selection);
+
+    if (!selected?.evaluationId) {
+      return selected;
+    }
+
+    try {
+      await this.prisma.$transaction([
+        this.prisma.websiteEvaluation.updateMany({
+          where: { workflowExecutionId, selected: true },
+          data: { selected: false },
+        }),
+        this.prisma.websiteEvaluation.update({
+          where: { id: selected.evaluationId },
+          data: { selected: true },
+        }),
+      ]);
+    } catch (error) {
+      console.error('[Refinement] Failed to mark selected evaluation:', error);
+    }
+
+    console.log(
+      `[Refinement] Keeping iteration ${selected.iteration} (score ${selected.overallScore.toFixed(2)}, ` +
+        `selection: ${this.config.selection})`
+    );
+
+    return selected;
+  }
+
+  /**
+   * Persist the evaluation of this iteration as a WebsiteEvaluation
+   *
+   * Refinement instructions come from the evaluator feedback on failed dimensions; the
+   * decision, the strategy that stopped the loop and the iteration costs are stored with it.
+   * Returns undefined when the evaluation could not be recorded.
+   */
+  async recordEvaluation(
+    workflowExecutionId: string,
+    metrics: QualityMetrics,
+    evaluations: QualityScore[],
+    decision: { shouldRefine: boolean; reason: string; stoppedBy?: string }
+  ): Promise<string | undefined> {
+    const failed = new Set(metrics.failedDimensions.map((d) => d.dimension));
+    const evaluatedAt = new Date();
+
+    const grades = Array.from(metrics.dimensionScores.entries()).map(([dimension, score]) => {
+      const feedback = evaluations.filter((e) => e.dimension === dimension && e.feedback);
+
+      return {
+        dimension,
+        score,
+        grade: score >= 0.9 ? 'A' : score >= 0.8 ? 'B' : score >= 0.7 ? 'C' : score >= 0.6 ? 'D' : 'F',
+        passFailGrade: failed.has(dimension) ? 'fail' : 'pass',
+        issues: [],
+        suggestions: feedback.map((e) => ({
+          priority: failed.has(dimension) ? 'high' : 'low',
+          message: e.feedback!,
+        })),
+        agentId: evaluations.find((e) => e.dimension === dimension)?.agentExecutionId,
+        evaluatedAt,
+      };
+    });
+
+    const refinementInstructions = metrics.failedDimensions.flatMap(({ dimension, score, threshold }) => {
+      const feedback = evaluations
+        .filter((e) => e.dimension === dimension && e.feedback)
+        .map((e) => `${dimension}: ${e.feedback}`);
+
+      return feedback.length > 0
+        ? feedback
+        : [`Raise ${dimension} from ${score.toFixed(2)} to at least ${threshold.toFixed(2)}`];
+    });
+
+    try {
+      const workflow = await this.prisma.workflowExecution.findUnique({
+        where: { id: workflowExecutionId },
+        select: { projectId: true, tenantId: true },
+      });
+
+      if (!workflow) {
+        return undefined;
+      }
+
+      const evaluation = await this.prisma.websiteEvaluation.create({
+        data: {
+          projectId: workflow.projectId,
+          tenantId: workflow.tenantId,
+          iteration: this.iteration,
+          overallScore: metrics.overallScore,
+          grades: grades as any,
+          shouldRefine: decision.shouldRefine,
+          refinementInstructions,
+          workflowExecutionId,
+          decisionReason: decision.reason,
+          stoppedBy: decision.stoppedBy,
+          iterationCost: this.history.find((entry) => entry.iteration === this.iteration)?.cost || 0,
+          refinementCost: this.getRefinementCost(),
+        },
+      });
+
+      return evaluation.id;
+    } catch (error) {
+      console.error('[Refinement] Failed to record website evaluation:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Compare dimension scores against the previous iteration
+   */
+  computeScoreDeltas(metrics: QualityMetrics, previous: Record<string, number> = {}): ScoreDelta[] {
+    return Array.from(metrics.dimensionScores.entries()).map(([dimension, score]) => {
+      const previousScore = previous[dimension];
+
+      return {
+        dimension,
+        score,
+        previousScore,
+        delta: previousScore !== undefined ? score - previousScore : undefined,
+        threshold: this.config.dimensionThresholds?.get(dimension) || this.config.qualityThreshold,
+      };
+    });
   }
 
   /**
@@ -334,6 +655,13 @@ export class RefinementEngine {
     this.iteration = 0;
   }
 
+  /**
+   * Restore iteration counter (when resuming from a checkpoint)
+   */
+  restoreIteration(iteration: number): void {
+    this.iteration = iteration;
+  }
+
   /**
    * Get current iteration
    */
@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import type { AgentRole, AgentLayer } from '@business-automation/database';
 import type { AgentManifest } from '@business-automation/schema';
 import type { BaseAgent, ExtendedAgentContext } from '../shared/base-agent';
@@ -16,8 +17,77 @@ export type AgentClass = {
 export interface AgentRegistryEntry {
   role: AgentRole;
   layer: AgentLayer;
+  version: string;
   agentClass: AgentClass;
   manifest: AgentManifest;
+  origin: AgentOrigin;
+}
+
+/**
+ * Where an agent class came from
+ */
+export type AgentOrigin =
+  | { type: 'builtin' }
+  | { type: 'plugin'; name: string; version?: string; path: string };
+
+/**
+ * Options for registering an agent version
+ */
+export interface AgentRegistrationOptions {
+  /** Make this the default version (defaults to true unless a rollout is given) */
+  default?: boolean;
+  /** Route this percentage (0-100) of executions to this version */
+  rolloutPercentage?: number;
+  /** Package that provides the agent (defaults to built-in) */
+  origin?: AgentOrigin;
+}
+
+/**
+ * Gradual rollout of a non-default agent version
+ */
+export interface AgentRollout {
+  version: string;
+  percentage: number;
+}
+
+/**
+ * Serializable summary of a registered agent (see AgentRegistry.toJSON)
+ */
+export interface RegisteredAgentInfo {
+  role: AgentRole;
+  layer: AgentLayer;
+  name: string;
+  description: string;
+  dependencies: AgentRole[];
+  version: string;
+  versions: string[];
+  rollout?: AgentRollout;
+  origin: AgentOrigin;
+}
+
+/**
+ * Agent versions pinned by a workflow definition or tenant (agent role -> version)
+ */
+export interface AgentVersionPins {
+  workflow?: Partial<Record<AgentRole, string>>;
+  tenant?: Partial<Record<AgentRole, string>>;
+}
+
+/**
+ * Inputs for choosing which version of an agent runs
+ */
+export interface AgentVersionSelectionContext {
+  pins?: AgentVersionPins;
+  /** Stable key hashed to place an execution in a rollout bucket */
+  rolloutKey?: string;
+}
+
+/**
+ * Chosen agent version and why it was chosen
+ */
+export interface AgentVersionSelection {
+  version: string;
+  source: 'workflow_pin' | 'tenant_pin' | 'rollout' | 'default';
 }
 
 /**
@@ -25,7 +95,9 @@ export interface AgentRegistryEntry {
  */
 class AgentRegistry {
   private static instance: AgentRegistry;
-  private agents: Map<AgentRole, AgentRegistryEntry> = new Map();
+  private agents: Map<AgentRole, Map<string, AgentRegistryEntry>> = new Map();
+  private defaultVersions: Map<AgentRole, string> = new Map();
+  private rollouts: Map<AgentRole, AgentRollout> = new Map();
 
   private constructor() {}
 
@@ -38,22 +110,44 @@ class AgentRegistry {
 
   /**
    * Register an agent class
+   *
+   * Versions of the same role are kept side by side; re-registering an existing
+   * role and version replaces it.
    */
-  public register(agentClass: AgentClass): void {
+  public register(agentClass: AgentClass, options: AgentRegistrationOptions = {}): void {
     const manifest = agentClass.getManifest();
 
+    const origin = options.origin || { type: 'builtin' };
+
     // Validate manifest
     this.validateManifest(manifest);
+    this.validateOrigin(manifest.role, origin);
 
     const entry: AgentRegistryEntry = {
       role: manifest.role,
       layer: manifest.layer,
+      version: manifest.version,
       agentClass,
       manifest,
+      origin,
     };
 
-    this.agents.set(manifest.role, entry);
-    console.log(`[Registry] Registered agent: ${manifest.role} (${manifest.layer})`);
+    const versions = this.agents.get(manifest.role) || new Map<string, AgentRegistryEntry>();
+    versions.set(manifest.version, entry);
+    this.agents.set(manifest.role, versions);
+
+    const makeDefault = options.default ?? options.rolloutPercentage === undefined;
+    if (makeDefault || !this.defaultVersions.has(manifest.role)) {
+      this.defaultVersions.set(manifest.role, manifest.version);
+    }
+
+    if (options.rolloutPercentage !== undefined) {
+      this.setRollout(manifest.role, manifest.version, options.rolloutPercentage);
+    }
+
+    console.log(
+      `[Registry] Registered agent: ${manifest.role}@${manifest.version} (${manifest.layer}, ${describeOrigin(origin)})`
+    );
   }
 
   /**
@@ -66,24 +160,121 @@ class AgentRegistry {
   }
 
   /**
-   * Get agent entry by role
+   * Get agent entry by role (default version unless a version is given)
    */
-  public get(role: AgentRole): AgentRegistryEntry | undefined {
-    return this.agents.get(role);
+  public get(role: AgentRole, version?: string): AgentRegistryEntry | undefined {
+    const resolved = version || this.defaultVersions.get(role);
+    return resolved ? this.agents.get(role)?.get(resolved) : undefined;
   }
 
   /**
-   * Check if agent is registered
+   * Check if agent (or a specific version of it) is registered
    */
-  public has(role: AgentRole): boolean {
-    return this.agents.has(role);
+  public has(role: AgentRole, version?: string): boolean {
+    return version ? !!this.agents.get(role)?.has(version) : this.agents.has(role);
   }
 
   /**
-   * Get all registered agents
+   * Get all registered agents (default versions)
    */
   public getAll(): AgentRegistryEntry[] {
-    return Array.from(this.agents.values());
+    return this.getRoles()
+      .map((role) => this.get(role))
+      .filter((entry): entry is AgentRegistryEntry => !!entry);
+  }
+
+  /**
+   * Get every registered version of every agent
+   */
+  public getAllVersions(): AgentRegistryEntry[] {
+    return Array.from(this.agents.values()).flatMap((versions) => Array.from(versions.values()));
+  }
+
+  /**
+   * Get registered versions of an agent
+   */
+  public getVersions(role: AgentRole): string[] {
+    return Array.from(this.agents.get(role)?.keys() || []);
+  }
+
+  /**
+   * Get default version of an agent
+   */
+  public getDefaultVersion(role: AgentRole): string | undefined {
+    return this.defaultVersions.get(role);
+  }
+
+  /**
+   * Promote a registered version to default
+   */
+  public setDefaultVersion(role: AgentRole, version: string): void {
+    this.assertVersion(role, version);
+    this.defaultVersions.set(role, version);
+
+    // A promoted version no longer needs a rollout
+    if (this.rollouts.get(role)?.version === version) {
+      this.rollouts.delete(role);
+    }
+  }
+
+  /**
+   * Route a percentage of executions to a registered version
+   */
+  public setRollout(role: AgentRole, version: string, percentage: number): void {
+    this.assertVersion(role, version);
+
+    if (percentage < 0 || percentage > 100) {
+      throw new Error(`Rollout percentage must be between 0 and 100, got ${percentage}`);
+    }
+
+    this.rollouts.set(role, { version, percentage });
+    console.log(`[Registry] Rolling out ${role}@${version} to ${percentage}% of executions`);
+  }
+
+  /**
+   * Stop a rollout so every execution uses the default version
+   */
+  public clearRollout(role: AgentRole): void {
+    this.rollouts.delete(role);
+  }
+
+  /**
+   * Get active rollout for an agent
+   */
+  public getRollout(role: AgentRole): AgentRollout | undefined {
+    return this.rollouts.get(role);
+  }
+
+  /**
+   * Choose the version to run: workflow pin, then tenant pin, then rollout bucket, then default
+   */
+  public selectVersion(
+    role: AgentRole,
+    selection: AgentVersionSelectionContext = {}
+  ): AgentVersionSelection {
+    const workflowPin = selection.pins?.workflow?.[role];
+    if (workflowPin) {
+      this.assertVersion(role, workflowPin);
+      return { version: workflowPin, source: 'workflow_pin' };
+    }
+
+    const tenantPin = selection.pins?.tenant?.[role];
+    if (tenantPin) {
+      this.assertVersion(role, tenantPin);
+      return { version: tenantPin, source: 'tenant_pin' };
+    }
+
+    const rollout = this.rollouts.get(role);
+    if (rollout && selection.rolloutKey && rolloutBucket(selection.rolloutKey, role) < rollout.percentage) {
+      return { version: rollout.version, source: 'rollout' };
+    }
+
+    const version = this.defaultVersions.get(role);
+    if (!version) {
+      throw new Error(`Agent not found in registry: ${role}`);
+    }
+
+    return { version, source: 'default' };
   }
 
   /**
@@ -105,6 +296,36 @@ class AgentRegistry {
    */
   public clear(): void {
     this.agents.clear();
+    this.defaultVersions.clear();
+    this.rollouts.clear();
+  }
+
+  /**
+   * Keep each role owned by a single origin so plugins can't replace built-in agents
+   * (or each other's)
+   */
+  private validateOrigin(role: AgentRole, origin: AgentOrigin): void {
+    const existing = this.getAllVersions().find((entry) => entry.role === role);
+
+    if (existing && describeOrigin(existing.origin) !== describeOrigin(origin)) {
+      throw new Error(
+        `Agent ${role} is already provided by ${describeOrigin(existing.origin)}; ` +
+          `${describeOrigin(origin)} cannot register it`
+      );
+    }
+  }
+
+  /**
+   * Throw if a version of an agent isn't registered
+   */
+  private assertVersion(role: AgentRole, version: string): void {
+    if (!this.has(role, version)) {
+      throw new Error(
+        `Agent ${role} version ${version} is not registered (available: ${
+          this.getVersions(role).join(', ') || 'none'
+        })`
+      );
+    }
   }
 
   /**
@@ -127,10 +348,14 @@ class AgentRegistry {
       throw new Error('Agent manifest must have a description');
     }
 
+    if (!manifest.version) {
+      throw new Error('Agent manifest must have a version');
+    }
+
     // Check for duplicate registration
-    if (this.agents.has(manifest.role)) {
+    if (this.has(manifest.role, manifest.version)) {
       console.warn(
-        `[Registry] Agent ${manifest.role} is already registered. Overwriting previous registration.`
+        `[Registry] Agent ${manifest.role}@${manifest.version} is already registered. Overwriting previous registration.`
       );
     }
   }
@@ -138,11 +363,20 @@ class AgentRegistry {
   /**
    * Create agent instance
    */
-  public createAgent(role: AgentRole, context: ExtendedAgentContext, config?: any): BaseAgent {
-    const entry = this.get(role);
+  public createAgent(
+    role: AgentRole,
+    context: ExtendedAgentContext,
+    config?: any,
+    version?: string
+  ): BaseAgent {
+    const entry = this.get(role, version);
 
     if (!entry) {
-      throw new Error(`Agent not found in registry: ${role}`);
+      throw new Error(
+        version
+          ? `Agent not found in registry: ${role}@${version}`
+          : `Agent not found in registry: ${role}`
+      );
     }
 
     return new entry.agentClass(context, config);
@@ -279,7 +513,7 @@ class AgentRegistry {
     const byLayer: Record<string, number> = {};
     let withDependencies = 0;
 
-    for (const entry of this.agents.values()) {
+    for (const entry of this.getAll()) {
       byLayer[entry.layer] = (byLayer[entry.layer] || 0) + 1;
 
       if (entry.manifest.dependencies && entry.manifest.dependencies.length > 0) {
@@ -297,31 +531,44 @@ class AgentRegistry {
   /**
    * Export registry as JSON
    */
-  public toJSON(): Array<{
-    role: AgentRole;
-    layer: AgentLayer;
-    name: string;
-    description: string;
-    dependencies: AgentRole[];
-  }> {
+  public toJSON(): RegisteredAgentInfo[] {
     return this.getAll().map((entry) => ({
       role: entry.role,
       layer: entry.layer,
       name: entry.manifest.name,
       description: entry.manifest.description,
       dependencies: entry.manifest.dependencies || [],
+      version: entry.version,
+      versions: this.getVersions(entry.role),
+      rollout: this.rollouts.get(entry.role),
+      origin: entry.origin,
     }));
   }
 }
 
+/**
+ * Describe an agent origin for logs and errors
+ */
+export function describeOrigin(origin: AgentOrigin): string {
+  return origin.type === 'builtin' ? 'built-in' : `plugin ${origin.name}`;
+}
+
+/**
+ * Place a rollout key in a stable 0-99 bucket for an agent
+ */
+function rolloutBucket(key: string, role: AgentRole): number {
+  const digest = createHash('sha256').update(`${key}:${role}`).digest();
+  return digest.readUInt32BE(0) % 100;
+}
+
 // Singleton instance
 const registry = AgentRegistry.getInstance();
 
 /**
  * Register an agent
  */
-export function registerAgent(agentClass: AgentClass): void {
-  registry.register(agentClass);
+export function registerAgent(agentClass: AgentClass, options?: AgentRegistrationOptions): void {
+  registry.register(agentClass, options);
 }
 
 /**
@@ -351,9 +598,27 @@ export function getAgent(role: AgentRole): AgentRegistryEntry | undefined {
 export function createAgent(
   role: AgentRole,
   context: ExtendedAgentContext,
-  config?: any
+  config?: any,
+  version?: string
 ): BaseAgent {
-  return registry.createAgent(role, context, config);
+  return registry.createAgent(role, context, config, version);
+}
+
+/**
+ * Choose which version of an agent runs
+ */
+export function selectAgentVersion(
+  role: AgentRole,
+  selection?: AgentVersionSelectionContext
+): AgentVersionSelection {
+  return registry.selectVersion(role, selection);
+}
+
+/**
+ * Get registered versions of an agent
+ */
+export function getAgentVersions(role: AgentRole): string[] {
+  return registry.getVersions(role);
 }
 
 /**
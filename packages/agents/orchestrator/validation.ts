@@ -0,0 +1,274 @@
+import type { AgentRole } from '@business-automation/database';
+import type { WorkflowDefinition } from '@business-automation/schema';
+import { buildWorkflowGraph, type DAG, type ExecutionPlan } from './dag-builder';
+import { getRegistry } from './registry';
+import { validateInputMappings } from './input-mapping';
+import { estimateCost } from '../shared/cost-tracker';
+import type { LLMSelection } from '../shared/llm-provider';
+import { resolveAgentModel, type AgentModelSources, type ModelRoutingPolicy } from '../shared/model-router';
+import { getDefaultMCPConfigs, getMCPManager } from '../shared/mcp-manager';
+
+/**
+ * Input tokens assumed per agent call when estimating cost
+ */
+export const DEFAULT_ESTIMATED_INPUT_TOKENS = 4000;
+
+/**
+ * Output tokens assumed when a manifest doesn't set maxTokens (matches BaseAgent's default)
+ */
+export const DEFAULT_ESTIMATED_OUTPUT_TOKENS = 8000;
+
+/**
+ * A single validation finding
+ */
+export interface WorkflowValidationIssue {
+  severity: 'error' | 'warning';
+  code:
+    | 'empty_workflow'
+    | 'invalid_graph'
+    | 'unregistered_agent'
+    | 'unregistered_agent_version'
+    | 'missing_dependency'
+    | 'missing_env_var'
+    | 'missing_mcp_server'
+    | 'invalid_input_mapping'
+    | 'unbounded_fan_out'
+    | 'unresolved_model';
+  message: string;
+  role?: AgentRole;
+}
+
+/**
+ * Cost estimate for a workflow run
+ */
+export interface WorkflowCostEstimate {
+  /** Provider and model of an agent that selects none (agents may be routed to others) */
+  provider: string;
+  model: string;
+  perAgent: Partial<Record<AgentRole, number>>;
+  /** One pass over every agent */
+  perIteration: number;
+  /** Upper bound including every refinement iteration */
+  maxTotal: number;
+  maxIterations: number;
+}
+
+/**
+ * Result of static workflow validation
+ */
+export interface WorkflowValidationResult {
+  valid: boolean;
+  errors: WorkflowValidationIssue[];
+  warnings: WorkflowValidationIssue[];
+  /** Stage plan; null when the graph is invalid */
+  plan: ExecutionPlan | null;
+  /** Graphviz rendering of the DAG; null when the graph is invalid */
+  dot: string | null;
+  estimatedCost: WorkflowCostEstimate | null;
+}
+
+/**
+ * Options for workflow validation
+ */
+export interface WorkflowValidationOptions {
+  /** Environment to check required env vars against (defaults to process.env) */
+  env?: Record<string, string | undefined>;
+  /** MCP servers available to agents (defaults to configured and connected servers) */
+  availableMCPServers?: string[];
+  /**
+   * Severity of missing env vars and MCP servers (defaults to `error`)
+   *
+   * Agents often fall back to another provider or skip an optional tool, so a
+   * run should only warn about them.
+   */
+  environmentSeverity?: WorkflowValidationIssue['severity'];
+  /** Tenant LLM provider/model, so the cost estimate prices the models agents run on */
+  llm?: LLMSelection;
+  /** Tenant model routing, so the cost estimate prices the models agents are routed to */
+  modelRouting?: ModelRoutingPolicy;
+}
+
+/**
+ * Validate a workflow definition without running it
+ *
+ * Builds the DAG, checks every agent (and pinned version) is registered with its dependencies, checks the
+ * environment and MCP servers the manifests need, type-checks input mappings and estimates cost.
+ */
+export function validateWorkflow(
+  workflow: WorkflowDefinition,
+  options: WorkflowValidationOptions = {}
+): WorkflowValidationResult {
+  const issues: WorkflowValidationIssue[] = [];
+  const registry = getRegistry();
+  const env = options.env || process.env;
+  const mcpServers = new Set(options.availableMCPServers || getAvailableMCPServers());
+  const environmentSeverity = options.environmentSeverity || 'error';
+
+  const dag = buildWorkflowGraph(workflow);
+  const roles = dag.getNodes().map((node) => node.role);
+
+  if (roles.length === 0) {
+    issues.push({ severity: 'error', code: 'empty_workflow', message: 'Workflow has no agents' });
+  }
+
+  for (const role of roles) {
+    const manifest = registry.getManifest(role);
+
+    if (!manifest) {
+      issues.push({
+        severity: 'error',
+        code: 'unregistered_agent',
+        message: `Agent ${role} is not registered`,
+        role,
+      });
+      continue;
+    }
+
+    const { missing } = registry.validateDependencies(role);
+    for (const dep of missing) {
+      issues.push({
+        severity: 'error',
+        code: 'missing_dependency',
+        message: `Agent ${role} depends on ${dep}, which is not registered`,
+        role,
+      });
+    }
+
+    for (const name of manifest.requiredEnvVars || []) {
+      if (!env[name]) {
+        issues.push({
+          severity: environmentSeverity,
+          code: 'missing_env_var',
+          message: `Agent ${role} requires environment variable ${name}`,
+          role,
+        });
+      }
+    }
+
+    for (const server of manifest.mcpServers || []) {
+      if (!mcpServers.has(server)) {
+        issues.push({
+          severity: environmentSeverity,
+          code: 'missing_mcp_server',
+          message: `Agent ${role} requires MCP server "${server}", which is not configured`,
+          role,
+        });
+      }
+    }
+
+    const forEach = dag.getNode(role)?.forEach;
+    if (forEach && !forEach.maxItems) {
+      issues.push({
+        severity: 'warning',
+        code: 'unbounded_fan_out',
+        message: `Agent ${role} fans out over ${forEach.path} without maxItems; cost is estimated for one instance`,
+        role,
+      });
+    }
+  }
+
+  const config = (workflow.config || {}) as Partial<WorkflowDefinition['config']>;
+  for (const [role, version] of Object.entries(config.agentVersions || {})) {
+    if (registry.has(role as AgentRole) && !registry.has(role as AgentRole, version)) {
+      issues.push({
+        severity: 'error',
+        code: 'unregistered_agent_version',
+        message: `Workflow pins ${role}@${version}, which is not registered (available: ${registry
+          .getVersions(role as AgentRole)
+          .join(', ')})`,
+        role: role as AgentRole,
+      });
+    }
+  }
+
+  const graph = dag.validate();
+  for (const message of graph.errors) {
+    issues.push({ severity: 'error', code: 'invalid_graph', message });
+  }
+
+  // Mapping checks walk the graph, so only run them on a sound one
+  if (graph.valid) {
+    for (const message of validateInputMappings(dag)) {
+      issues.push({ severity: 'error', code: 'invalid_input_mapping', message });
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+
+  if (!graph.valid) {
+    return { valid: false, errors, warnings, plan: null, dot: null, estimatedCost: null };
+  }
+
+  dag.calculateStages();
+
+  // Agents need a model to run at all, so one that can't be resolved is an error rather than a missing estimate
+  let estimatedCost: WorkflowCostEstimate | null = null;
+  try {
+    estimatedCost = estimateWorkflowCost(dag, workflow, { llm: options.llm, modelRouting: options.modelRouting });
+  } catch (error) {
+    errors.push({
+      severity: 'error',
+      code: 'unresolved_model',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    plan: dag.getExecutionPlan(),
+    dot: dag.toDOT(),
+    estimatedCost,
+  };
+}
+
+/**
+ * Estimate the cost of a workflow from its agents' manifests
+ *
+ * Conditional agents are counted as if they run; fan-out agents count `maxItems` instances.
+ */
+export function estimateWorkflowCost(
+  dag: DAG,
+  workflow: WorkflowDefinition,
+  models: AgentModelSources = {}
+): WorkflowCostEstimate {
+  const registry = getRegistry();
+  const { provider, model } = resolveAgentModel(undefined, models);
+  const perAgent: Partial<Record<AgentRole, number>> = {};
+
+  for (const node of dag.getNodes()) {
+    const manifest = registry.getManifest(node.role);
+    const outputTokens = manifest?.maxTokens || DEFAULT_ESTIMATED_OUTPUT_TOKENS;
+    const instances = node.forEach?.maxItems || 1;
+    const agentModel = resolveAgentModel(manifest, models);
+
+    perAgent[node.role] =
+      estimateCost(agentModel.model, DEFAULT_ESTIMATED_INPUT_TOKENS, outputTokens, agentModel.provider) * instances;
+  }
+
+  const perIteration = Object.values(perAgent).reduce((sum, cost) => sum + (cost || 0), 0);
+  const config = (workflow.config || {}) as Partial<WorkflowDefinition['config']>;
+  const maxIterations = config.iterativeRefinement === false ? 1 : config.maxIterations || 3;
+
+  return {
+    provider,
+    model,
+    perAgent,
+    perIteration,
+    maxTotal: perIteration * maxIterations,
+    maxIterations,
+  };
+}
+
+/**
+ * MCP servers configured for this process or already connected
+ */
+function getAvailableMCPServers(): string[] {
+  const configured = getDefaultMCPConfigs()
+    .filter((config) => config.enabled !== false)
+    .map((config) => config.name);
+
+  return Array.from(new Set([...configured, ...getMCPManager().getConnectedServers()]));
+}
@@ -125,7 +125,6 @@ Return patches as unified diff format:
     super(context, {
       enableMCP: true,
       mcpServers: ['filesystem'],
-      model: 'claude-3-5-sonnet-20241022',
       temperature: 0.2,
       maxTokens: 15000,
     });
@@ -262,7 +261,7 @@ Return patches as unified diff format:
       success: true,
       output: patchesOutput,
       tokensUsed,
-      cost: this.calculateCost({ inputTokens: tokensUsed / 2, outputTokens: tokensUsed / 2 }),
+      cost: this.getUsageCost(),
       artifacts,
     };
   }
@@ -504,15 +503,6 @@ Return patches in this format:
 
     return artifacts;
   }
-
-  /**
-   * Calculate cost
-   */
-  private calculateCost(usage: { inputTokens: number; outputTokens: number }): number {
-    const INPUT_COST_PER_1K = 0.003;
-    const OUTPUT_COST_PER_1K = 0.015;
-    return (usage.inputTokens / 1000) * INPUT_COST_PER_1K + (usage.outputTokens / 1000) * OUTPUT_COST_PER_1K;
-  }
 }
 
 // Export factory function
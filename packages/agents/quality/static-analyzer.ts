@@ -107,7 +107,6 @@ Medium/Low issues are suggestions for improvement.`,
     super(context, {
       enableMCP: true,
       mcpServers: ['filesystem'],
-      model: 'claude-3-5-sonnet-20241022',
       temperature: 0,
       maxTokens: 4000,
     });
@@ -0,0 +1,84 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { Message, MessageCreateParams } from '@anthropic-ai/sdk/resources/messages';
+import type { LLMProvider } from './llm-provider';
+
+/**
+ * Anthropic Messages API provider
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  /** Claude 3.5 Sonnet */
+  readonly defaultModel = 'claude-3-5-sonnet-20241022';
+  private client: Anthropic | null = null;
+
+  /**
+   * Get the Anthropic client, creating it on first use
+   */
+  getClient(): Anthropic {
+    if (!this.client) {
+      const apiKey = process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY;
+      if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY or CLAUDE_API_KEY environment variable is required');
+      }
+
+      // Retries are left to the shared rate limiter (429s, honouring retry-after across
+      // workers) and the model fallback (overload and server errors)
+      this.client = new Anthropic({ apiKey, maxRetries: 0 });
+      console.log('[Claude] Client initialized successfully');
+    }
+
+    return this.client;
+  }
+
+  /**
+   * Send a request to the Messages API
+   */
+  async createMessage(params: MessageCreateParams, signal?: AbortSignal): Promise<Message> {
+    return (await this.getClient().messages.create({ ...params, stream: false }, { signal })) as Message;
+  }
+
+  /**
+   * Stream a request from the Messages API (aborting the signal also ends the stream)
+   */
+  async streamMessage(
+    params: MessageCreateParams,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<Message> {
+    const stream = await this.getClient().messages.create({ ...params, stream: true }, { signal });
+
+    let fullText = '';
+    const usage = {
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: null as number | null,
+      cache_read_input_tokens: null as number | null,
+    };
+
+    for await (const event of stream as any) {
+      if (event.type === 'content_block_delta') {
+        if (event.delta.type === 'text_delta') {
+          fullText += event.delta.text;
+          onChunk(event.delta.text);
+        }
+      } else if (event.type === 'message_start') {
+        usage.input_tokens = event.message.usage.input_tokens;
+        usage.cache_creation_input_tokens = event.message.usage.cache_creation_input_tokens ?? null;
+        usage.cache_read_input_tokens = event.message.usage.cache_read_input_tokens ?? null;
+      } else if (event.type === 'message_delta') {
+        usage.output_tokens = event.usage.output_tokens;
+      }
+    }
+
+    return {
+      id: `msg_${Date.now()}`,
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text: fullText }],
+      model: params.model,
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage,
+    } as Message;
+  }
+}
@@ -1,18 +1,48 @@
 import { PrismaClient, AgentStatus, AgentLayer, AgentRole } from '@business-automation/database';
 import type { AgentContext, AgentManifest, AgentResult } from '@business-automation/schema';
 import {
+  addUsage,
   sendClaudeMessage,
   streamClaudeMessage,
   type ClaudeMessageOptions,
   type ClaudeMessageResponse,
-  CLAUDE_3_5_SONNET,
+  type TokenUsage,
 } from './claude-client';
+import type { TextBlockParam } from '@anthropic-ai/sdk/resources/messages';
 import { createTraceHelper, type TraceHelper } from './langfuse-client';
-import { trackAgentCost } from './cost-tracker';
-import { publishToStream } from './redis-client';
+import { calculateTokenCost, trackAgentCost } from './cost-tracker';
 import { getMCPToolsForClaude, executeMCPTool } from './mcp-manager';
+import { runInLLMScope } from './llm-recorder';
+import type { LLMSelection } from './llm-provider';
+import { resolveAgentModel, type ModelRoutingPolicy } from './model-router';
+import { tagProvenance } from './provenance';
+import { createOutputThrottle, type AgentOutputDelta, type OutputThrottle } from './output-throttle';
+import { getAbortMessage, isCancelled, sleep } from './cancellation';
+import { uploadCode } from './storage-client';
+import {
+  AgentValidationError,
+  MAX_REPAIR_ATTEMPTS,
+  buildRepairPrompt,
+  extractJson,
+  validateAgentSchema,
+} from './schema-validation';
+import {
+  buildRefinementPrompt,
+  diffOutputs,
+  isRefinementEnvelope,
+  type OutputRevision,
+  type RefinementEnvelope,
+} from './refinement-envelope';
 import invariant from 'tiny-invariant';
 
+/**
+ * Receives an agent's lifecycle events and partial output (the orchestrator's event bus)
+ */
+export interface AgentEventSink {
+  emitAgentEvent(type: string, agentRole: AgentRole, agentExecutionId: string, data: any): Promise<void>;
+  emitAgentOutput(agentRole: AgentRole, agentExecutionId: string, output: AgentOutputDelta): Promise<void>;
+}
+
 /**
  * Extended agent context with utility clients
  */
@@ -24,6 +54,16 @@ export interface ExtendedAgentContext extends AgentContext {
   traceId: string;
   spanId: string;
   parentSpanId?: string;
+  /** Aborted when the workflow is cancelled or the execution times out */
+  signal?: AbortSignal;
+  /** Called with the usage and cost of every LLM call, to track running spend */
+  onUsage?: (usage: TokenUsage, costUsd: number) => void;
+  /** Tenant's LLM provider/model, overriding the agent's own */
+  llm?: LLMSelection;
+  /** Tenant's model routing, ahead of the built-in routing */
+  modelRouting?: ModelRoutingPolicy;
+  /** Where agent events go; agents run outside a workflow emit nothing */
+  events?: AgentEventSink;
 }
 
 /**
@@ -35,19 +75,47 @@ export interface AgentExecutionResult<T = any> {
   error?: string;
   tokensUsed?: number;
   cost?: number;
+  /** Cost saved by prompt caching (see CostBreakdown.cacheSavings) */
+  cacheSavings?: number;
   artifacts?: Array<{ type: string; url: string; metadata?: any }>;
+  /** True when the execution stopped because the workflow was cancelled */
+  cancelled?: boolean;
+  /** True when the execution was blocked or stopped by a budget limit */
+  budgetExceeded?: boolean;
 }
 
+/**
+ * Model output that passed the manifest output schema
+ */
+export interface ParsedOutput<T> {
+  output: T;
+  /** Usage of the original response plus any repair requests */
+  usage: TokenUsage;
+}
+
+/**
+ * System prompt: plain text, or text blocks that carry their own cache breakpoints
+ */
+export type SystemPrompt = string | TextBlockParam[];
+
 /**
  * Agent configuration
  */
 export interface AgentConfig {
+  /** Registered LLM provider (see llm-provider) */
+  provider?: string;
   model?: string;
+  /** Model used when `model` is overloaded or returns a 5xx */
+  fallbackModel?: string;
   temperature?: number;
   maxTokens?: number;
   maxRetries?: number;
   enableMCP?: boolean;
   mcpServers?: string[];
+  /** Publish partial LLM output to the workflow event bus while generating */
+  streamOutput?: boolean;
+  /** Cache the system prompt and blocks marked with cacheable() across calls (default true) */
+  promptCaching?: boolean;
 }
 
 /**
@@ -60,17 +128,31 @@ export abstract class BaseAgent {
   protected prisma: PrismaClient;
   protected config: AgentConfig;
   protected traceHelper: TraceHelper;
+  private modelUsed?: string;
+  private usageCost = 0;
+  private cacheSavings = 0;
 
   constructor(context: ExtendedAgentContext, config: AgentConfig = {}) {
     this.context = context;
     this.prisma = context.prisma as PrismaClient;
+
+    const { provider, model, fallbackModel } = resolveAgentModel((this.constructor as typeof BaseAgent).manifest, {
+      llm: context.llm,
+      modelRouting: context.modelRouting,
+      config,
+    });
+
     this.config = {
-      model: config.model || CLAUDE_3_5_SONNET,
+      provider,
+      model,
+      fallbackModel,
       temperature: config.temperature ?? 0.7,
       maxTokens: config.maxTokens || 8000,
       maxRetries: config.maxRetries || 3,
       enableMCP: config.enableMCP ?? false,
       mcpServers: config.mcpServers || [],
+      streamOutput: config.streamOutput ?? false,
+      promptCaching: config.promptCaching ?? true,
     };
 
     // Initialize trace helper
@@ -111,8 +193,24 @@ export abstract class BaseAgent {
         this.context.parentSpanId
       );
 
-      // Execute the agent logic
-      const result = await this.executeWithRetry(input);
+      const manifest = (this.constructor as typeof BaseAgent).getManifest();
+
+      // Reject input that doesn't match the manifest before spending any tokens
+      validateAgentSchema(manifest.inputSchema, input, 'input');
+
+      // Execute the agent logic (LLM calls are attributed to this execution for record/replay)
+      const result = await runInLLMScope(
+        { agentExecutionId: this.context.agentExecutionId, agentRole: this.getAgentRole() },
+        () => this.executeWithRetry(input)
+      );
+
+      validateAgentSchema(manifest.outputSchema, result.output, 'output');
+
+      // Tag artifacts with this execution so quality findings can be traced back to it
+      result.output = tagProvenance(result.output, {
+        agentExecutionId: this.context.agentExecutionId,
+        agentRole: this.getAgentRole(),
+      });
 
       // Calculate duration
       const duration = Date.now() - startTime;
@@ -123,6 +221,7 @@ export abstract class BaseAgent {
         output: result.output,
         tokensUsed: result.tokensUsed,
         cost: result.cost,
+        model: this.modelUsed,
         duration,
         completedAt: new Date(),
       });
@@ -137,10 +236,16 @@ export abstract class BaseAgent {
     } catch (error: any) {
       const duration = Date.now() - startTime;
 
-      // Update execution record with failure
+      // An aborted call surfaces as a generic abort error; report why it was aborted
+      const signal = this.context.signal;
+      const cancelled = isCancelled(signal);
+      const message = signal?.aborted ? getAbortMessage(signal) : error.message;
+
+      // Update execution record with failure (or cancellation)
       await this.updateExecution({
-        status: 'FAILED',
-        error: error.message,
+        status: cancelled ? 'CANCELLED' : 'FAILED',
+        error: error instanceof AgentValidationError ? error.toJSON() : message,
+        model: this.modelUsed,
         duration,
         completedAt: new Date(),
       });
@@ -148,12 +253,13 @@ export abstract class BaseAgent {
       // Fail tracing span
       this.traceHelper.failSpan(this.context.spanId, error);
 
-      // Emit failed event
-      await this.emitEvent('agent.failed', { error: error.message, duration });
+      // Emit failed or cancelled event
+      await this.emitEvent(cancelled ? 'agent.cancelled' : 'agent.failed', { error: message, duration });
 
       return {
         success: false,
-        error: error.message,
+        error: message,
+        ...(cancelled ? { cancelled } : {}),
       };
     }
   }
@@ -166,6 +272,8 @@ export abstract class BaseAgent {
 
     for (let attempt = 0; attempt < this.config.maxRetries!; attempt++) {
       try {
+        this.context.signal?.throwIfAborted();
+
         // Execute the agent
         const result = await this.execute(input);
 
@@ -174,11 +282,17 @@ export abstract class BaseAgent {
           output: result.output,
           tokensUsed: result.tokensUsed,
           cost: result.cost,
+          cacheSavings: this.cacheSavings,
           artifacts: result.artifacts,
         };
       } catch (error: any) {
         lastError = error;
 
+        // Cancellations and timeouts are not retried
+        if (this.context.signal?.aborted) {
+          throw error;
+        }
+
         // Log retry attempt
         console.warn(
           `[Agent:${this.getAgentRole()}] Execution failed (attempt ${attempt + 1}/${
@@ -193,7 +307,7 @@ export abstract class BaseAgent {
 
           // Wait before retrying (exponential backoff)
           const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-          await new Promise((resolve) => setTimeout(resolve, delay));
+          await sleep(delay, this.context.signal);
         }
       }
     }
@@ -221,15 +335,23 @@ export abstract class BaseAgent {
    */
   protected async sendMessage(
     messages: ClaudeMessageOptions['messages'],
-    systemPrompt?: string,
+    systemPrompt?: SystemPrompt,
     options: Partial<ClaudeMessageOptions> = {}
   ): Promise<ClaudeMessageResponse> {
+    // Stream instead so partial output reaches the browser
+    if (this.config.streamOutput) {
+      return this.streamMessage(messages, systemPrompt, () => {}, options);
+    }
+
     const generationId = `gen_${Date.now()}`;
 
     // Prepare Claude options
     const claudeOptions: ClaudeMessageOptions = {
+      provider: this.config.provider,
       model: this.config.model!,
-      system: systemPrompt,
+      fallbackModel: this.config.fallbackModel,
+      tenantId: this.context.tenantId,
+      system: this.withPromptCache(systemPrompt),
       messages,
       max_tokens: this.config.maxTokens,
       temperature: this.config.temperature,
@@ -243,6 +365,7 @@ export abstract class BaseAgent {
         spanId: this.context.spanId,
         userId: this.context.userId,
       },
+      signal: options.signal ?? this.context.signal,
     };
 
     // Track generation in Langfuse
@@ -255,7 +378,7 @@ export abstract class BaseAgent {
           role: m.role,
           content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
         })),
-        system: systemPrompt,
+        system: this.getSystemText(systemPrompt),
         temperature: this.config.temperature,
         maxTokens: this.config.maxTokens,
       }
@@ -274,7 +397,7 @@ export abstract class BaseAgent {
           role: m.role,
           content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
         })),
-        system: systemPrompt,
+        system: this.getSystemText(systemPrompt),
         temperature: this.config.temperature,
         maxTokens: this.config.maxTokens,
       },
@@ -283,14 +406,7 @@ export abstract class BaseAgent {
     );
 
     // Track cost
-    await trackAgentCost(
-      this.context.tenantId,
-      this.context.projectId,
-      this.context.workflowExecutionId,
-      this.context.agentExecutionId,
-      this.config.model!,
-      response.usage
-    );
+    await this.trackUsage(response.usage, response.message.model);
 
     return response;
   }
@@ -300,7 +416,7 @@ export abstract class BaseAgent {
    */
   protected async streamMessage(
     messages: ClaudeMessageOptions['messages'],
-    systemPrompt: string | undefined,
+    systemPrompt: SystemPrompt | undefined,
     onChunk: (text: string) => void,
     options: Partial<ClaudeMessageOptions> = {}
   ): Promise<ClaudeMessageResponse> {
@@ -308,8 +424,11 @@ export abstract class BaseAgent {
 
     // Prepare Claude options
     const claudeOptions: ClaudeMessageOptions = {
+      provider: this.config.provider,
       model: this.config.model!,
-      system: systemPrompt,
+      fallbackModel: this.config.fallbackModel,
+      tenantId: this.context.tenantId,
+      system: this.withPromptCache(systemPrompt),
       messages,
       max_tokens: this.config.maxTokens,
       temperature: this.config.temperature,
@@ -323,10 +442,22 @@ export abstract class BaseAgent {
         spanId: this.context.spanId,
         userId: this.context.userId,
       },
+      signal: options.signal ?? this.context.signal,
     };
 
-    // Stream message
-    const response = await streamClaudeMessage(claudeOptions, onChunk);
+    // Stream message, publishing partial output when enabled
+    const events = this.context.events;
+    const throttle = this.config.streamOutput && events ? this.createOutputThrottle(events) : undefined;
+    let response: ClaudeMessageResponse;
+
+    try {
+      response = await streamClaudeMessage(claudeOptions, (text) => {
+        throttle?.push(text);
+        onChunk(text);
+      });
+    } finally {
+      await throttle?.finish();
+    }
 
     // Track generation
     this.traceHelper.trackGeneration(
@@ -338,7 +469,7 @@ export abstract class BaseAgent {
           role: m.role,
           content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
         })),
-        system: systemPrompt,
+        system: this.getSystemText(systemPrompt),
         temperature: this.config.temperature,
         maxTokens: this.config.maxTokens,
       },
@@ -347,23 +478,74 @@ export abstract class BaseAgent {
     );
 
     // Track cost
+    await this.trackUsage(response.usage, response.message.model);
+
+    return response;
+  }
+
+  /**
+   * Record the usage of an LLM call against this execution's costs and running spend
+   *
+   * `model` is the model that served the call, which differs from the configured one after a fallback.
+   */
+  private async trackUsage(usage: TokenUsage, model: string = this.config.model!): Promise<void> {
+    const { totalCost: cost, cacheSavings } = calculateTokenCost(usage, model, this.config.provider);
+    this.modelUsed = model;
+    this.usageCost += cost;
+    this.cacheSavings += cacheSavings;
+
     await trackAgentCost(
       this.context.tenantId,
       this.context.projectId,
       this.context.workflowExecutionId,
       this.context.agentExecutionId,
-      this.config.model!,
-      response.usage
+      model,
+      usage,
+      this.config.provider
     );
 
-    return response;
+    this.context.onUsage?.(usage, cost);
+  }
+
+  /**
+   * Cost of every LLM call this execution has made, priced by the model that served it
+   */
+  protected getUsageCost(): number {
+    return this.usageCost;
+  }
+
+  /**
+   * Text block marked as a cache breakpoint, for stable context such as the company profile or a spec
+   *
+   * Everything up to and including the block is cached, so put it ahead of the parts
+   * that change between calls. A request may carry at most four breakpoints and the
+   * system prompt takes one.
+   */
+  protected cacheable(text: string): TextBlockParam {
+    return this.config.promptCaching
+      ? { type: 'text', text, cache_control: { type: 'ephemeral' } }
+      : { type: 'text', text };
+  }
+
+  /**
+   * Mark a plain-text system prompt as cacheable; block prompts keep their own breakpoints
+   */
+  private withPromptCache(systemPrompt?: SystemPrompt): SystemPrompt | undefined {
+    return typeof systemPrompt === 'string' && systemPrompt ? [this.cacheable(systemPrompt)] : systemPrompt;
+  }
+
+  /**
+   * System prompt as plain text, for tracing
+   */
+  private getSystemText(systemPrompt?: SystemPrompt): string | undefined {
+    return typeof systemPrompt === 'string' ? systemPrompt : systemPrompt?.map((block) => block.text).join('\n\n');
   }
 
   /**
    * Execute MCP tool
    */
   protected async executeTool(toolName: string, input: Record<string, any>): Promise<any> {
-    const result = await executeMCPTool(toolName, input);
+    const result = await executeMCPTool(toolName, input, { signal: this.context.signal });
 
     if (!result.success) {
       throw new Error(`Tool execution failed: ${result.error}`);
@@ -379,7 +561,7 @@ export abstract class BaseAgent {
   protected async handleToolUseConversation(
     initialResponse: ClaudeMessageResponse,
     conversationHistory: ClaudeMessageOptions['messages'],
-    systemPrompt?: string,
+    systemPrompt?: SystemPrompt,
     options: Partial<ClaudeMessageOptions> = {}
   ): Promise<ClaudeMessageResponse> {
     let currentResponse = initialResponse;
@@ -399,7 +581,9 @@ export abstract class BaseAgent {
       for (const toolUse of toolUses) {
         try {
           console.log(`[Agent] Executing tool: ${toolUse.name} with input:`, toolUse.input);
-          const result = await executeMCPTool(toolUse.name, toolUse.input);
+          const result = await executeMCPTool(toolUse.name, toolUse.input, {
+            signal: this.context.signal,
+          });
 
           toolResults.push({
             type: 'tool_result',
@@ -420,6 +604,9 @@ export abstract class BaseAgent {
         }
       }
 
+      // Don't turn an aborted tool call into a tool error for the model to work around
+      this.context.signal?.throwIfAborted();
+
       // Continue conversation with tool results
       messages.push(
         { role: 'assistant', content: currentResponse.content },
@@ -439,7 +626,7 @@ export abstract class BaseAgent {
    */
   protected async sendMessageWithTools(
     messages: ClaudeMessageOptions['messages'],
-    systemPrompt?: string,
+    systemPrompt?: SystemPrompt,
     options: Partial<ClaudeMessageOptions> = {}
   ): Promise<ClaudeMessageResponse> {
     // Ensure MCP tools are enabled
@@ -466,6 +653,104 @@ export abstract class BaseAgent {
     return initialResponse;
   }
 
+  /**
+   * Parse the model's JSON response and validate it against the manifest output schema
+   *
+   * Output that fails is sent back to the model with the validation errors,
+   * continuing the same conversation, up to MAX_REPAIR_ATTEMPTS times.
+   */
+  protected async parseOutput<T>(
+    response: ClaudeMessageResponse,
+    messages: ClaudeMessageOptions['messages'],
+    systemPrompt?: SystemPrompt
+  ): Promise<ParsedOutput<T>> {
+    const schema = (this.constructor as typeof BaseAgent).getManifest().outputSchema;
+    let usage: TokenUsage = { ...response.usage };
+    let current = response;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return { output: validateAgentSchema<T>(schema, extractJson(current.text), 'output'), usage };
+      } catch (error) {
+        if (!(error instanceof AgentValidationError) || attempt >= MAX_REPAIR_ATTEMPTS) {
+          throw error;
+        }
+
+        console.warn(
+          `[Agent:${this.getAgentRole()}] Output failed validation, requesting repair ` +
+            `(${attempt + 1}/${MAX_REPAIR_ATTEMPTS}): ${error.message}`
+        );
+
+        current = await this.sendMessage(
+          [
+            ...messages,
+            { role: 'assistant', content: current.text },
+            { role: 'user', content: buildRepairPrompt(error.issues) },
+          ],
+          systemPrompt,
+          { tools: undefined }
+        );
+
+        usage = addUsage(usage, current.usage);
+      }
+    }
+  }
+
+  /**
+   * Get the refinement envelope from agent input (undefined outside refinement iterations)
+   */
+  protected getRefinement(input: any): RefinementEnvelope | undefined {
+    return isRefinementEnvelope(input?.refinement) ? input.refinement : undefined;
+  }
+
+  /**
+   * Build the prompt section asking the model to revise its previous output
+   *
+   * Fan-out agents pass the previous output of their own instance.
+   */
+  protected buildRefinementPrompt(refinement: RefinementEnvelope, previousOutput?: any): string {
+    return buildRefinementPrompt(refinement, previousOutput ?? refinement.previousOutput);
+  }
+
+  /**
+   * Attach the changes made to the previous output during refinement
+   */
+  protected withRevision<T extends Record<string, any>>(
+    output: T,
+    refinement: RefinementEnvelope | undefined,
+    previousOutput?: any
+  ): T & { revision?: OutputRevision } {
+    const previous = previousOutput ?? refinement?.previousOutput;
+
+    if (!refinement || previous === undefined) {
+      return output;
+    }
+
+    const changes = diffOutputs(previous, output);
+    console.log(
+      `[Agent:${this.getAgentRole()}] Revised previous output with ${changes.length} change(s) ` +
+        `(iteration ${refinement.iteration})`
+    );
+
+    return {
+      ...output,
+      revision: {
+        iteration: refinement.iteration,
+        previousExecutionId: refinement.previousExecutionId,
+        changes,
+      },
+    };
+  }
+
+  /**
+   * Upload a file of this agent's project, aborted along with the execution
+   */
+  protected async uploadProjectFile(filepath: string, content: string): Promise<string> {
+    return uploadCode(this.context.tenantId, this.context.projectId, filepath, content, {
+      signal: this.context.signal,
+    });
+  }
+
   /**
    * Log progress update
    */
@@ -478,16 +763,19 @@ export abstract class BaseAgent {
   }
 
   /**
-   * Emit event to Redis stream
+   * Create a throttle publishing this agent's partial output to the event bus
+   */
+  private createOutputThrottle(events: AgentEventSink): OutputThrottle {
+    return createOutputThrottle((delta) =>
+      events.emitAgentOutput(this.getAgentRole(), this.context.agentExecutionId, delta)
+    );
+  }
+
+  /**
+   * Emit event to the context's event sink
    */
   protected async emitEvent(eventType: string, data: any): Promise<void> {
-    await publishToStream(this.context.tenantId, `workflow:${this.context.workflowExecutionId}`, {
-      eventType,
-      agentExecutionId: this.context.agentExecutionId,
-      agentRole: this.getAgentRole(),
-      timestamp: new Date().toISOString(),
-      data: JSON.stringify(data),
-    });
+    await this.context.events?.emitAgentEvent(eventType, this.getAgentRole(), this.context.agentExecutionId, data);
   }
 
   /**
@@ -514,6 +802,9 @@ export abstract class BaseAgent {
         traceId: this.context.traceId,
         spanId: this.context.spanId,
         parentSpanId: this.context.parentSpanId,
+        provider: this.config.provider,
+        model: this.config.model,
+        metadata: { agentVersion: (this.constructor as typeof BaseAgent).getManifest().version } as any,
         startedAt: new Date(),
       },
     });
@@ -525,9 +816,10 @@ export abstract class BaseAgent {
   private async updateExecution(data: {
     status?: AgentStatus;
     output?: any;
-    error?: string;
+    error?: string | Record<string, any>;
     tokensUsed?: number;
     cost?: number;
+    model?: string;
     duration?: number;
     progress?: number;
     completedAt?: Date;
@@ -537,9 +829,10 @@ export abstract class BaseAgent {
       data: {
         status: data.status,
         output: data.output ? (data.output as any) : undefined,
-        error: data.error,
+        error: data.error as any,
         tokensUsed: data.tokensUsed,
         cost: data.cost,
+        model: data.model,
         duration: data.duration,
         progress: data.progress,
         completedAt: data.completedAt,
@@ -568,6 +861,8 @@ export function createAgentContext(
     traceId: baseContext.traceId || `trace_${Date.now()}`,
     spanId: baseContext.spanId || `span_${Date.now()}`,
     parentSpanId: baseContext.parentSpanId,
+    signal: baseContext.signal,
+    onUsage: baseContext.onUsage,
     clientSchema: baseContext.clientSchema || ({} as any),
     redis: baseContext.redis,
     storage: baseContext.storage,
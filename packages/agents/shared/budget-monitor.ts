@@ -1,6 +1,7 @@
 // packages/agents/shared/budget-monitor.ts
 import { PrismaClient } from '@business-automation/database';
 import { connectRedis } from './redis-client';
+import { createWebhookDispatcher } from './webhooks';
 import type Redis from 'ioredis';
 
 /**
@@ -43,6 +44,27 @@ export interface BudgetLimits {
   };
 }
 
+/**
+ * Scope of the limit a budget check failed on
+ */
+export type BudgetScope = 'execution' | 'workflow' | 'monthly' | 'system';
+
+/**
+ * What happens to a workflow when dispatching an agent would cross a limit
+ *
+ * - `pause`: the workflow is paused and can be resumed once the limit is raised
+ * - `stop`: the workflow fails
+ */
+export type BudgetExceededAction = 'pause' | 'stop';
+
+/**
+ * Budget limits enforced for a workflow run
+ */
+export interface BudgetPolicy {
+  limits: BudgetLimits;
+  onExceeded: BudgetExceededAction;
+}
+
 export interface CostUsage {
   costUsd: number;
   tokensUsed: number;
@@ -180,11 +202,51 @@ export class BudgetMonitor {
   async checkBudget(params: {
     tenantId: string;
     projectId: string;
+    /** Enables the per-workflow limit */
+    workflowExecutionId?: string;
     estimatedCost: number;
     estimatedTokens: number;
     limits: BudgetLimits;
-  }): Promise<{ allowed: boolean; reason?: string; status: BudgetStatus }> {
-    const { tenantId, estimatedCost, estimatedTokens, limits } = params;
+  }): Promise<{ allowed: boolean; reason?: string; scope?: BudgetScope; status: BudgetStatus }> {
+    const { tenantId, workflowExecutionId, estimatedCost, estimatedTokens, limits } = params;
+
+    // Check per-execution limit against the estimate alone
+    if (limits.perExecution) {
+      const costLimit = limits.perExecution.maxCostUsd || Infinity;
+      const tokenLimit = limits.perExecution.maxTokens || Infinity;
+
+      if (estimatedCost > costLimit || estimatedTokens > tokenLimit) {
+        return {
+          allowed: false,
+          reason: `Execution budget exceeded. Estimated: $${estimatedCost.toFixed(2)} (${estimatedTokens} tokens), Limit: $${costLimit} (${tokenLimit} tokens)`,
+          scope: 'execution',
+          status: this.calculateBudgetStatus(estimatedCost, estimatedTokens, costLimit, tokenLimit),
+        };
+      }
+    }
+
+    // Check per-workflow limit
+    if (limits.perWorkflow && workflowExecutionId) {
+      const workflowUsage = await this.getWorkflowUsage(workflowExecutionId);
+      const costLimit = limits.perWorkflow.maxCostUsd || Infinity;
+      const tokenLimit = limits.perWorkflow.maxTokens || Infinity;
+      const projectedCost = workflowUsage.costUsd + estimatedCost;
+      const projectedTokens = workflowUsage.tokensUsed + estimatedTokens;
+
+      if (projectedCost > costLimit || projectedTokens > tokenLimit) {
+        return {
+          allowed: false,
+          reason: `Workflow budget exceeded. Current: $${workflowUsage.costUsd.toFixed(2)}, Projected: $${projectedCost.toFixed(2)}, Limit: $${costLimit}`,
+          scope: 'workflow',
+          status: this.calculateBudgetStatus(
+            workflowUsage.costUsd,
+            workflowUsage.tokensUsed,
+            costLimit,
+            tokenLimit
+          ),
+        };
+      }
+    }
 
     // Get current usage
     const currentUsage = await this.getTenantMonthlyUsage(tenantId);
@@ -205,6 +267,7 @@ export class BudgetMonitor {
         return {
           allowed: false,
           reason: `Monthly budget exceeded. Current: $${currentUsage.costUsd.toFixed(2)}, Projected: $${projectedCost.toFixed(2)}, Limit: $${monthlyLimit}`,
+          scope: 'monthly',
           status,
         };
       }
@@ -235,6 +298,7 @@ export class BudgetMonitor {
         return {
           allowed: false,
           reason: `System-wide budget exceeded. Current: $${systemUsage.costUsd.toFixed(2)}, Limit: $${systemLimit}`,
+          scope: 'system',
           status,
         };
       }
@@ -256,6 +320,25 @@ export class BudgetMonitor {
     };
   }
 
+  /**
+   * Get the spend of a workflow's agent executions so far
+   */
+  async getWorkflowUsage(workflowExecutionId: string): Promise<CostUsage> {
+    const totals = await this.prisma.agentExecution.aggregate({
+      where: { workflowExecutionId },
+      _sum: {
+        cost: true,
+        tokensUsed: true,
+      },
+    });
+
+    return {
+      costUsd: totals._sum.cost || 0,
+      tokensUsed: totals._sum.tokensUsed || 0,
+      timestamp: new Date(),
+    };
+  }
+
   /**
    * Get tenant monthly usage
    */
@@ -488,7 +571,6 @@ export class BudgetMonitor {
   }): Promise<void> {
     const { tenantId, type, status } = params;
 
-    // TODO: Integrate with notification service (email, Slack, etc.)
     console.warn(`[BudgetMonitor] ALERT for tenant ${tenantId}:`, {
       type,
       percentUsed: status.percentUsed.toFixed(1) + '%',
@@ -510,6 +592,23 @@ export class BudgetMonitor {
         },
       },
     });
+
+    // Notify webhook endpoints (Slack, Discord, generic)
+    try {
+      await createWebhookDispatcher(this.prisma).dispatch({
+        type: `budget.${type}`,
+        tenantId,
+        data: {
+          percentUsed: status.percentUsed,
+          usedUsd: status.used.costUsd,
+          limitUsd: status.limit.costUsd,
+          remainingUsd: status.remaining.costUsd,
+          status,
+        },
+      });
+    } catch (error) {
+      console.error('[BudgetMonitor] Failed to dispatch budget alert webhooks:', error);
+    }
   }
 
   /**
@@ -566,3 +665,31 @@ export const DEFAULT_BUDGET_LIMITS: BudgetLimits = {
     maxTokens: 100000000, // 100M tokens system-wide per month
   },
 };
+
+/**
+ * Layer budget limit overrides on top of the defaults, limit by limit
+ *
+ * Later layers win, e.g. tenant settings and then a workflow's own constraints.
+ */
+export function resolveBudgetLimits(...overrides: Array<BudgetLimits | undefined>): BudgetLimits {
+  const limits: BudgetLimits = {
+    perExecution: { ...DEFAULT_BUDGET_LIMITS.perExecution },
+    perWorkflow: { ...DEFAULT_BUDGET_LIMITS.perWorkflow },
+    monthly: { ...DEFAULT_BUDGET_LIMITS.monthly },
+    system: { ...DEFAULT_BUDGET_LIMITS.system },
+  };
+
+  for (const override of overrides) {
+    for (const scope of ['perExecution', 'perWorkflow', 'monthly', 'system'] as const) {
+      const values = override?.[scope];
+      if (values) {
+        limits[scope] = {
+          ...limits[scope],
+          ...Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)),
+        };
+      }
+    }
+  }
+
+  return limits;
+}
@@ -0,0 +1,113 @@
+/**
+ * Default time an agent execution may run when its manifest declares no timeout (ms)
+ */
+export const DEFAULT_AGENT_TIMEOUT_MS = 300000;
+
+/**
+ * Agent signal with the timer that enforces its timeout
+ */
+export interface AgentSignal {
+  signal: AbortSignal;
+  /** Abort this agent alone (the workflow signal is untouched) */
+  abort: (reason: unknown) => void;
+  /** Stop the timeout timer once the agent has settled */
+  dispose: () => void;
+}
+
+/**
+ * Create the abort signal of one agent execution
+ *
+ * The signal aborts with an `AbortError` when the parent (workflow) signal aborts,
+ * or with a `TimeoutError` once the timeout elapses.
+ */
+export function createAgentSignal(
+  label: string,
+  timeoutMs: number,
+  parent?: AbortSignal
+): AgentSignal {
+  const controller = new AbortController();
+
+  const onParentAbort = () => controller.abort(parent!.reason);
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer = setTimeout(() => {
+    controller.abort(new DOMException(`${label} timed out after ${timeoutMs}ms`, 'TimeoutError'));
+  }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    abort: (reason) => controller.abort(reason),
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+/**
+ * Abort reason used when a workflow is cancelled
+ */
+export function createCancellationReason(message: string = 'Workflow cancelled'): DOMException {
+  return new DOMException(message, 'AbortError');
+}
+
+/**
+ * Abort reason used when an agent's spend crosses a budget limit
+ */
+export function createBudgetExceededReason(message: string): DOMException {
+  return new DOMException(message, 'BudgetExceededError');
+}
+
+/**
+ * Whether a signal was aborted by a cancellation rather than a timeout or budget limit
+ */
+export function isCancelled(signal?: AbortSignal): boolean {
+  return (
+    !!signal?.aborted &&
+    signal.reason?.name !== 'TimeoutError' &&
+    signal.reason?.name !== 'BudgetExceededError'
+  );
+}
+
+/**
+ * Whether a signal was aborted because a budget limit was crossed
+ */
+export function isBudgetExceeded(signal?: AbortSignal): boolean {
+  return !!signal?.aborted && signal.reason?.name === 'BudgetExceededError';
+}
+
+/**
+ * Human-readable reason a signal was aborted
+ */
+export function getAbortMessage(signal: AbortSignal): string {
+  return signal.reason?.message || 'Aborted';
+}
+
+/**
+ * Wait for a delay, rejecting early when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,17 +1,21 @@
-import Anthropic from '@anthropic-ai/sdk';
+import type Anthropic from '@anthropic-ai/sdk';
 import PQueue from 'p-queue';
-import type { MessageCreateParams, Message, ContentBlock } from '@anthropic-ai/sdk/resources/messages';
+import type { MessageCreateParams, Message, ContentBlock, ContentBlockParam } from '@anthropic-ai/sdk/resources/messages';
+import { interceptLLMCall } from './llm-recorder';
+import { getLLMProvider } from './llm-provider';
+import { calculateTokenCost } from './cost-tracker';
+import { estimateRequestTokens, getLLMRateLimiter } from './llm-rate-limiter';
+import type { AnthropicProvider } from './anthropic-provider';
 
 /**
- * Claude API client with rate limiting and token tracking
+ * LLM request queue shared by every provider
  */
 class ClaudeClientManager {
   private static instance: ClaudeClientManager;
-  private client: Anthropic | null = null;
   private queue: PQueue;
 
   private constructor() {
-    // Rate limiting: 5 concurrent requests max
+    // Per-process cap; limits shared across processes are enforced by the LLM rate limiter
     this.queue = new PQueue({ concurrency: 5 });
   }
 
@@ -22,36 +26,6 @@ class ClaudeClientManager {
     return ClaudeClientManager.instance;
   }
 
-  /**
-   * Initialize Claude client
-   */
-  public initialize(): void {
-    if (this.client) {
-      return; // Already initialized
-    }
-
-    const apiKey = process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY;
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY or CLAUDE_API_KEY environment variable is required');
-    }
-
-    this.client = new Anthropic({
-      apiKey,
-    });
-
-    console.log('[Claude] Client initialized successfully');
-  }
-
-  /**
-   * Get Claude client instance
-   */
-  public getClient(): Anthropic {
-    if (!this.client) {
-      this.initialize();
-    }
-    return this.client!;
-  }
-
   /**
    * Get rate limiter queue
    */
@@ -64,10 +38,10 @@ class ClaudeClientManager {
 const claudeManager = ClaudeClientManager.getInstance();
 
 /**
- * Get Claude client
+ * Get the Anthropic SDK client
  */
 export function getClaudeClient(): Anthropic {
-  return claudeManager.getClient();
+  return (getLLMProvider('anthropic') as AnthropicProvider).getClient();
 }
 
 /**
@@ -80,13 +54,25 @@ export interface TokenUsage {
   cacheReadTokens?: number;
 }
 
+/**
+ * Add up the usage of two calls, cache tokens included
+ */
+export function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cacheCreationTokens: (total.cacheCreationTokens || 0) + (usage.cacheCreationTokens || 0),
+    cacheReadTokens: (total.cacheReadTokens || 0) + (usage.cacheReadTokens || 0),
+  };
+}
+
 /**
  * Claude message options
  */
 export interface ClaudeMessageOptions extends Omit<MessageCreateParams, 'messages'> {
   messages: Array<{
     role: 'user' | 'assistant';
-    content: string | Array<ContentBlock>;
+    content: string | Array<ContentBlock | ContentBlockParam>;
   }>;
   /** Optional tracing metadata */
   metadata?: {
@@ -95,6 +81,14 @@ export interface ClaudeMessageOptions extends Omit<MessageCreateParams, 'message
     userId?: string;
     [key: string]: any;
   };
+  /** Aborts the request, including while it waits in the rate limiter (not sent to the API) */
+  signal?: AbortSignal;
+  /** Registered LLM provider that serves the request (defaults to LLM_PROVIDER, then Anthropic) */
+  provider?: string;
+  /** Model to retry on once when `model` is overloaded or returns a 5xx */
+  fallbackModel?: string;
+  /** Tenant the request is made for, to apply its share of the rate limit (not sent to the API) */
+  tenantId?: string;
 }
 
 /**
@@ -108,112 +102,200 @@ export interface ClaudeMessageResponse {
 
 /**
  * Send message to Claude with rate limiting
+ *
+ * The request goes to the selected LLM provider, and to the fallback model if the primary
+ * one is unavailable. In LLM replay mode the response comes from the recording and no
+ * provider is called.
  */
 export async function sendClaudeMessage(
   options: ClaudeMessageOptions
 ): Promise<ClaudeMessageResponse> {
-  const client = getClaudeClient();
+  return withFallback(options, () => true, (model) => sendToProvider({ ...options, model }));
+}
+
+/**
+ * Send a message to the selected provider
+ */
+async function sendToProvider(options: ClaudeMessageOptions): Promise<ClaudeMessageResponse> {
   const queue = claudeManager.getQueue();
+  const { signal, provider, fallbackModel, tenantId, ...messageOptions } = options;
+  const llm = getLLMProvider(provider);
+
+  signal?.throwIfAborted();
 
   // Add metadata if provided
   const params: MessageCreateParams = {
-    ...options,
-    messages: options.messages as any,
-    metadata: options.metadata,
+    ...messageOptions,
+    messages: messageOptions.messages as any,
+    metadata: messageOptions.metadata,
   };
 
-  // Execute with rate limiting
-  const message = await queue.add(() => client.messages.create(params), {
-    throwOnTimeout: true,
-  });
+  // Execute with rate limiting; waiting for the limiter doesn't hold a queue slot
+  const message = await interceptLLMCall(params, () =>
+    withRateLimit(llm.name, params, options, async () => {
+      const created = await queue.add(() => llm.createMessage(params, signal), { throwOnTimeout: true, signal });
+      return created as Message;
+    })
+  );
 
   if (!message) {
-    throw new Error('Failed to get response from Claude');
+    throw new Error(`Failed to get response from ${llm.name}`);
   }
 
-  // Extract text from content blocks
-  const textBlocks = message.content.filter(
-    (block): block is Anthropic.TextBlock => block.type === 'text'
-  );
-  const text = textBlocks.map((block) => block.text).join('\n');
+  return { message, usage: extractUsage(message), text: extractText(message) };
+}
 
-  // Track token usage
-  const usage: TokenUsage = {
-    inputTokens: message.usage.input_tokens,
-    outputTokens: message.usage.output_tokens,
-    cacheCreationTokens: (message.usage as any).cache_creation_input_tokens,
-    cacheReadTokens: (message.usage as any).cache_read_input_tokens,
+/**
+ * Stream message from Claude with rate limiting
+ *
+ * Falls back like sendClaudeMessage, but only while nothing has been streamed yet.
+ * In LLM replay mode the recorded text is delivered as a single chunk.
+ */
+export async function streamClaudeMessage(
+  options: ClaudeMessageOptions,
+  onChunk: (text: string) => void
+): Promise<ClaudeMessageResponse> {
+  let chunked = false;
+  const forward = (text: string) => {
+    chunked = true;
+    onChunk(text);
   };
 
-  return { message, usage, text };
+  return withFallback(options, () => !chunked, (model) => streamFromProvider({ ...options, model }, forward));
 }
 
 /**
- * Stream message from Claude with rate limiting
+ * Stream a message from the selected provider
  */
-export async function streamClaudeMessage(
+async function streamFromProvider(
   options: ClaudeMessageOptions,
   onChunk: (text: string) => void
 ): Promise<ClaudeMessageResponse> {
-  const client = getClaudeClient();
   const queue = claudeManager.getQueue();
+  let streamed = false;
+  const { signal, provider, fallbackModel, tenantId, ...messageOptions } = options;
+  const llm = getLLMProvider(provider);
+
+  signal?.throwIfAborted();
 
   const params: MessageCreateParams = {
-    ...options,
-    messages: options.messages as any,
-    metadata: options.metadata,
-    stream: true,
+    ...messageOptions,
+    messages: messageOptions.messages as any,
+    metadata: messageOptions.metadata,
   };
 
-  // Execute with rate limiting
-  const stream = await queue.add(() => client.messages.create(params), {
-    throwOnTimeout: true,
+  // Execute with rate limiting (aborting the signal also ends the stream); waiting for the
+  // limiter doesn't hold a queue slot
+  const message = await interceptLLMCall(params, () => {
+    streamed = true;
+    return withRateLimit(llm.name, params, options, async () => {
+      const completed = await queue.add(() => llm.streamMessage(params, onChunk, signal), {
+        throwOnTimeout: true,
+        signal,
+      });
+      return completed as Message;
+    });
   });
 
-  if (!stream) {
-    throw new Error('Failed to get stream from Claude');
+  if (!message) {
+    throw new Error(`Failed to get stream from ${llm.name}`);
   }
 
-  let fullText = '';
-  let finalMessage: Message | null = null;
-  let usage: TokenUsage = {
-    inputTokens: 0,
-    outputTokens: 0,
-  };
+  const text = extractText(message);
+  if (!streamed) {
+    onChunk(text);
+  }
 
-  // Process stream
-  for await (const event of stream as any) {
-    if (event.type === 'content_block_delta') {
-      if (event.delta.type === 'text_delta') {
-        const text = event.delta.text;
-        fullText += text;
-        onChunk(text);
-      }
-    } else if (event.type === 'message_start') {
-      usage.inputTokens = event.message.usage.input_tokens;
-    } else if (event.type === 'message_delta') {
-      usage.outputTokens = event.usage.output_tokens;
-    } else if (event.type === 'message_stop') {
-      // Stream complete
+  return { message, usage: extractUsage(message), text };
+}
+
+/**
+ * Run a provider call once the shared rate limit of its provider and model admits it
+ */
+function withRateLimit(
+  provider: string,
+  params: MessageCreateParams,
+  options: ClaudeMessageOptions,
+  call: () => Promise<Message>
+): Promise<Message> {
+  return getLLMRateLimiter().run(
+    {
+      provider,
+      model: params.model,
+      tenantId: options.tenantId,
+      estimatedTokens: estimateRequestTokens(params),
+      signal: options.signal,
+    },
+    call,
+    // Cache reads don't count towards provider token limits
+    (message) =>
+      message.usage.input_tokens + (message.usage.cache_creation_input_tokens ?? 0) + message.usage.output_tokens
+  );
+}
+
+/**
+ * Run a request on the primary model, retrying once on the fallback model when it is unavailable
+ */
+async function withFallback(
+  options: ClaudeMessageOptions,
+  canFallBack: () => boolean,
+  request: (model: string) => Promise<ClaudeMessageResponse>
+): Promise<ClaudeMessageResponse> {
+  try {
+    return await request(options.model);
+  } catch (error: any) {
+    const { fallbackModel } = options;
+
+    if (
+      !fallbackModel ||
+      fallbackModel === options.model ||
+      options.signal?.aborted ||
+      !canFallBack() ||
+      !shouldFallBack(error)
+    ) {
+      throw error;
     }
+
+    console.warn(`[Claude] ${options.model} unavailable (${error.message}); falling back to ${fallbackModel}`);
+    return request(fallbackModel);
   }
+}
 
-  // Construct final message object
-  finalMessage = {
-    id: `msg_${Date.now()}`,
-    type: 'message',
-    role: 'assistant',
-    content: [{ type: 'text', text: fullText }],
-    model: options.model,
-    stop_reason: 'end_turn',
-    stop_sequence: null,
-    usage: {
-      input_tokens: usage.inputTokens,
-      output_tokens: usage.outputTokens,
-    },
-  } as Message;
+/**
+ * Whether a failed request should be retried on the fallback model
+ *
+ * Covers overload (529 / `overloaded_error`) and server errors, not client errors or rate limits.
+ */
+export function shouldFallBack(error: any): boolean {
+  const status = error?.status;
+
+  return (
+    error?.error?.type === 'overloaded_error' ||
+    error?.error?.error?.type === 'overloaded_error' ||
+    (typeof status === 'number' && status >= 500)
+  );
+}
+
+/**
+ * Token usage reported on a message
+ */
+function extractUsage(message: Message): TokenUsage {
+  return {
+    inputTokens: message.usage.input_tokens,
+    outputTokens: message.usage.output_tokens,
+    cacheCreationTokens: message.usage.cache_creation_input_tokens ?? undefined,
+    cacheReadTokens: message.usage.cache_read_input_tokens ?? undefined,
+  };
+}
 
-  return { message: finalMessage, usage, text: fullText };
+/**
+ * Join the text blocks of a message
+ */
+function extractText(message: Message): string {
+  const textBlocks = message.content.filter(
+    (block): block is Anthropic.TextBlock => block.type === 'text'
+  );
+  return textBlocks.map((block) => block.text).join('\n');
 }
 
 /**
@@ -405,31 +487,8 @@ export function getThinkingBlocks(message: Message): string[] {
 }
 
 /**
- * Calculate cost for token usage (in USD)
+ * Calculate cost for token usage (in USD) from the central pricing table
  */
-export function calculateCost(usage: TokenUsage, model: string): number {
-  // Pricing as of 2025 (prices may change)
-  const pricing: Record<string, { input: number; output: number; cacheWrite: number; cacheRead: number }> = {
-    'claude-3-5-sonnet-20241022': {
-      input: 3.0 / 1_000_000, // $3 per million input tokens
-      output: 15.0 / 1_000_000, // $15 per million output tokens
-      cacheWrite: 3.75 / 1_000_000, // $3.75 per million cache write tokens
-      cacheRead: 0.3 / 1_000_000, // $0.30 per million cache read tokens
-    },
-    'claude-3-5-haiku-20241022': {
-      input: 1.0 / 1_000_000, // $1 per million input tokens
-      output: 5.0 / 1_000_000, // $5 per million output tokens
-      cacheWrite: 1.25 / 1_000_000, // $1.25 per million cache write tokens
-      cacheRead: 0.1 / 1_000_000, // $0.10 per million cache read tokens
-    },
-  };
-
-  const modelPricing = pricing[model] || pricing['claude-3-5-sonnet-20241022'];
-
-  const inputCost = usage.inputTokens * modelPricing.input;
-  const outputCost = usage.outputTokens * modelPricing.output;
-  const cacheWriteCost = (usage.cacheCreationTokens || 0) * modelPricing.cacheWrite;
-  const cacheReadCost = (usage.cacheReadTokens || 0) * modelPricing.cacheRead;
-
-  return inputCost + outputCost + cacheWriteCost + cacheReadCost;
+export function calculateCost(usage: TokenUsage, model: string, provider?: string): number {
+  return calculateTokenCost(usage, model, provider).totalCost;
 }
@@ -1,5 +1,6 @@
 import { getRedisClient, getTenantKey, incrementCounter, getCounter } from './redis-client';
 import type { TokenUsage } from './claude-client';
+import { getDefaultLLMProvider, type BuiltInLLMProvider } from './llm-provider';
 
 /**
  * Cost breakdown by token type
@@ -10,6 +11,8 @@ export interface CostBreakdown {
   cacheWriteCost: number;
   cacheReadCost: number;
   totalCost: number;
+  /** What the cached tokens would have cost as plain input, less what caching cost (negative when caching cost more) */
+  cacheSavings: number;
 }
 
 /**
@@ -30,54 +33,90 @@ export interface ModelPricing {
 }
 
 /**
- * Model pricing table (as of 2025-01)
+ * Claude 3.5 Sonnet pricing, also used for Anthropic models missing from the table
  */
-export const MODEL_PRICING: Record<string, ModelPricing> = {
-  'claude-3-5-sonnet-20241022': {
-    input: 3.0,
-    output: 15.0,
-    cacheWrite: 3.75,
-    cacheRead: 0.3,
-  },
-  'claude-3-5-haiku-20241022': {
-    input: 1.0,
-    output: 5.0,
-    cacheWrite: 1.25,
-    cacheRead: 0.1,
-  },
-  'claude-3-opus-20240229': {
-    input: 15.0,
-    output: 75.0,
-    cacheWrite: 18.75,
-    cacheRead: 1.5,
-  },
-  'claude-3-sonnet-20240229': {
-    input: 3.0,
-    output: 15.0,
-    cacheWrite: 3.75,
-    cacheRead: 0.3,
-  },
-  'claude-3-haiku-20240307': {
-    input: 0.25,
-    output: 1.25,
-    cacheWrite: 0.3,
-    cacheRead: 0.03,
+const CLAUDE_3_5_SONNET_PRICING: ModelPricing = {
+  input: 3.0,
+  output: 15.0,
+  cacheWrite: 3.75,
+  cacheRead: 0.3,
+};
+
+/**
+ * Model pricing table by provider (as of 2025-01)
+ *
+ * Self-hosted (OpenAI-compatible) and mock models are free unless priced here.
+ * Providers registered under other names have no entry and are free.
+ */
+export const MODEL_PRICING: Record<BuiltInLLMProvider, Record<string, ModelPricing>> = {
+  anthropic: {
+    'claude-3-5-sonnet-20241022': CLAUDE_3_5_SONNET_PRICING,
+    'claude-3-5-haiku-20241022': {
+      input: 1.0,
+      output: 5.0,
+      cacheWrite: 1.25,
+      cacheRead: 0.1,
+    },
+    'claude-3-opus-20240229': {
+      input: 15.0,
+      output: 75.0,
+      cacheWrite: 18.75,
+      cacheRead: 1.5,
+    },
+    'claude-3-sonnet-20240229': {
+      input: 3.0,
+      output: 15.0,
+      cacheWrite: 3.75,
+      cacheRead: 0.3,
+    },
+    'claude-3-haiku-20240307': {
+      input: 0.25,
+      output: 1.25,
+      cacheWrite: 0.3,
+      cacheRead: 0.03,
+    },
   },
+  'openai-compatible': {},
+  mock: {},
 };
 
+/**
+ * Pricing of models a provider has no entry for
+ */
+const FREE_PRICING: ModelPricing = { input: 0, output: 0, cacheWrite: 0, cacheRead: 0 };
+
+/**
+ * Get the pricing of a model
+ *
+ * Unknown Anthropic models are priced as Claude 3.5 Sonnet; unknown models of other
+ * providers are free.
+ */
+export function getModelPricing(model: string, provider: string = getDefaultLLMProvider()): ModelPricing {
+  const pricing = MODEL_PRICING[provider as BuiltInLLMProvider]?.[model];
+
+  if (pricing) {
+    return pricing;
+  }
+
+  return provider === 'anthropic' ? CLAUDE_3_5_SONNET_PRICING : FREE_PRICING;
+}
+
 /**
  * Calculate cost for token usage
  */
 export function calculateTokenCost(
   usage: TokenUsage,
-  model: string
+  model: string,
+  provider?: string
 ): CostBreakdown {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['claude-3-5-sonnet-20241022'];
+  const pricing = getModelPricing(model, provider);
 
   const inputCost = (usage.inputTokens / 1_000_000) * pricing.input;
   const outputCost = (usage.outputTokens / 1_000_000) * pricing.output;
   const cacheWriteCost = ((usage.cacheCreationTokens || 0) / 1_000_000) * pricing.cacheWrite;
   const cacheReadCost = ((usage.cacheReadTokens || 0) / 1_000_000) * pricing.cacheRead;
+  const uncachedCost =
+    (((usage.cacheCreationTokens || 0) + (usage.cacheReadTokens || 0)) / 1_000_000) * pricing.input;
 
   return {
     inputCost,
@@ -85,14 +124,15 @@ export function calculateTokenCost(
     cacheWriteCost,
     cacheReadCost,
     totalCost: inputCost + outputCost + cacheWriteCost + cacheReadCost,
+    cacheSavings: uncachedCost - cacheWriteCost - cacheReadCost,
   };
 }
 
 /**
  * Add token usage and cost to tracking
  */
-export function addCostToUsage(usage: TokenUsage, model: string): TokenUsageWithCost {
-  const cost = calculateTokenCost(usage, model);
+export function addCostToUsage(usage: TokenUsage, model: string, provider?: string): TokenUsageWithCost {
+  const cost = calculateTokenCost(usage, model, provider);
   return { ...usage, cost };
 }
 
@@ -113,6 +153,7 @@ export interface CostRecord {
   cacheCreationTokens: number;
   cacheReadTokens: number;
   totalCost: number;
+  cacheSavings: number;
   requestCount: number;
   lastUpdated: Date;
 }
@@ -126,10 +167,11 @@ export async function trackAgentCost(
   workflowExecutionId: string,
   agentExecutionId: string,
   model: string,
-  usage: TokenUsage
+  usage: TokenUsage,
+  provider?: string
 ): Promise<void> {
   const client = getRedisClient();
-  const cost = calculateTokenCost(usage, model);
+  const cost = calculateTokenCost(usage, model, provider);
 
   // Track at multiple levels for aggregation
   const scopes = [
@@ -150,6 +192,7 @@ export async function trackAgentCost(
 
     // Increment cost (stored as cents to avoid floating point issues)
     await client.hincrbyfloat(key, 'totalCost', cost.totalCost);
+    await client.hincrbyfloat(key, 'cacheSavings', cost.cacheSavings);
 
     // Increment request count
     await client.hincrby(key, 'requestCount', 1);
@@ -197,6 +240,7 @@ export async function getCostRecord(
     cacheCreationTokens: parseInt(data.cacheCreationTokens || '0', 10),
     cacheReadTokens: parseInt(data.cacheReadTokens || '0', 10),
     totalCost: parseFloat(data.totalCost || '0'),
+    cacheSavings: parseFloat(data.cacheSavings || '0'),
     requestCount: parseInt(data.requestCount || '0', 10),
     lastUpdated: new Date(data.lastUpdated),
   };
@@ -404,14 +448,15 @@ export async function resetCost(
 export function estimateCost(
   model: string,
   estimatedInputTokens: number,
-  estimatedOutputTokens: number
+  estimatedOutputTokens: number,
+  provider?: string
 ): number {
   const usage: TokenUsage = {
     inputTokens: estimatedInputTokens,
     outputTokens: estimatedOutputTokens,
   };
 
-  const cost = calculateTokenCost(usage, model);
+  const cost = calculateTokenCost(usage, model, provider);
   return cost.totalCost;
 }
 
@@ -432,24 +477,27 @@ export function formatTokens(tokens: number): string {
 /**
  * Get cost per token for a model
  */
-export function getCostPerToken(model: string, tokenType: 'input' | 'output'): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['claude-3-5-sonnet-20241022'];
+export function getCostPerToken(model: string, tokenType: 'input' | 'output', provider?: string): number {
+  const pricing = getModelPricing(model, provider);
   return tokenType === 'input' ? pricing.input / 1_000_000 : pricing.output / 1_000_000;
 }
 
 /**
- * Compare costs across models
+ * Compare costs across priced models of every provider
  */
 export function compareCosts(
   inputTokens: number,
   outputTokens: number
-): Array<{ model: string; cost: number }> {
+): Array<{ provider: string; model: string; cost: number }> {
   const usage: TokenUsage = { inputTokens, outputTokens };
 
-  return Object.keys(MODEL_PRICING).map((model) => ({
-    model,
-    cost: calculateTokenCost(usage, model).totalCost,
-  }));
+  return Object.entries(MODEL_PRICING).flatMap(([provider, models]) =>
+    Object.keys(models).map((model) => ({
+      provider,
+      model,
+      cost: calculateTokenCost(usage, model, provider).totalCost,
+    }))
+  );
 }
 
 /**
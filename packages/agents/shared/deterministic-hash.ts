@@ -3,6 +3,7 @@ import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { glob } from 'glob';
+import { configureLLMRecording, flushLLMRecording } from './llm-recorder';
 
 /**
  * File entry in a manifest
@@ -58,6 +59,25 @@ export interface ManifestOptions {
   codeExtensions?: string[];
 }
 
+/**
+ * Options for verifying deterministic synthesis
+ */
+export interface SynthesisVerificationOptions {
+  /**
+   * LLM recording to pin model responses across both runs
+   *
+   * When the file exists both runs replay it; otherwise the first run records it
+   * and the second replays it.
+   */
+  recordingPath?: string;
+
+  /**
+   * Fail replay when a request differs from the recorded one
+   * @default false
+   */
+  strictReplay?: boolean;
+}
+
 /**
  * Difference between two manifests
  */
@@ -418,9 +438,13 @@ export async function loadManifest(manifestPath: string): Promise<FileManifest>
  * This is a helper function for testing. It runs a generation function
  * twice and verifies that both runs produce identical manifests.
  *
+ * With `recordingPath`, LLM responses are recorded once and replayed, so the
+ * comparison isolates non-determinism in the synthesis code from the model's.
+ *
  * @param generateFn - Async function that generates files
  * @param outputPath - Path where files are generated
  * @param manifestOptions - Options for manifest generation
+ * @param verificationOptions - LLM record/replay options
  * @returns Comparison result
  *
  * @example
@@ -441,19 +465,46 @@ export async function loadManifest(manifestPath: string): Promise<FileManifest>
 export async function verifyDeterministicSynthesis(
   generateFn: () => Promise<void>,
   outputPath: string,
-  manifestOptions: ManifestOptions = {}
+  manifestOptions: ManifestOptions = {},
+  verificationOptions: SynthesisVerificationOptions = {}
 ): Promise<ManifestComparison> {
-  // First run
-  await generateFn();
-  const manifest1 = await generateFileManifest(outputPath, manifestOptions);
+  const { recordingPath, strictReplay = false } = verificationOptions;
 
-  // Clean output directory
-  await fs.rm(outputPath, { recursive: true, force: true });
-  await fs.mkdir(outputPath, { recursive: true });
+  try {
+    // First run
+    if (recordingPath) {
+      const hasRecording = await fs
+        .access(recordingPath)
+        .then(() => true)
+        .catch(() => false);
+
+      await configureLLMRecording({
+        mode: hasRecording ? 'replay' : 'record',
+        path: recordingPath,
+        strict: strictReplay,
+      });
+    }
 
-  // Second run
-  await generateFn();
-  const manifest2 = await generateFileManifest(outputPath, manifestOptions);
+    await generateFn();
+    const manifest1 = await generateFileManifest(outputPath, manifestOptions);
 
-  return compareManifests(manifest1, manifest2);
+    // Clean output directory
+    await fs.rm(outputPath, { recursive: true, force: true });
+    await fs.mkdir(outputPath, { recursive: true });
+
+    // Second run
+    if (recordingPath) {
+      await flushLLMRecording();
+      await configureLLMRecording({ mode: 'replay', path: recordingPath, strict: strictReplay });
+    }
+
+    await generateFn();
+    const manifest2 = await generateFileManifest(outputPath, manifestOptions);
+
+    return compareManifests(manifest1, manifest2);
+  } finally {
+    if (recordingPath) {
+      await configureLLMRecording({ mode: 'off' });
+    }
+  }
 }
@@ -9,6 +9,21 @@ export * from './redis-client';
 // Re-export Claude client
 export * from './claude-client';
 
+// Re-export LLM providers
+export * from './llm-provider';
+export * from './anthropic-provider';
+export * from './openai-compatible-provider';
+export * from './mock-llm-provider';
+
+// Re-export shared LLM rate limiting
+export * from './llm-rate-limiter';
+
+// Re-export model routing
+export * from './model-router';
+
+// Re-export LLM record/replay
+export * from './llm-recorder';
+
 // Re-export Langfuse client
 export * from './langfuse-client';
 
@@ -21,5 +36,23 @@ export * from './cost-tracker';
 // Re-export storage client
 export * from './storage-client';
 
+// Re-export artifact provenance
+export * from './provenance';
+
+// Re-export refinement input envelope
+export * from './refinement-envelope';
+
+// Re-export partial output throttle
+export * from './output-throttle';
+
+// Re-export cancellation helpers
+export * from './cancellation';
+
+// Re-export agent schema validation
+export * from './schema-validation';
+
+// Re-export outbound webhooks
+export * from './webhooks';
+
 // Re-export BaseAgent
 export * from './base-agent';
@@ -1,5 +1,6 @@
 import { Langfuse } from 'langfuse';
 import type { TokenUsage } from './claude-client';
+import { calculateTokenCost } from './cost-tracker';
 
 /**
  * Langfuse client singleton for distributed tracing
@@ -230,6 +231,9 @@ export function createGeneration(
     return null;
   }
 
+  // Cached prompt tokens are billed as input
+  const cost = data.usage ? calculateTokenCost(data.usage, data.model) : undefined;
+
   const trace = client.trace({ id: traceId });
   const generation = trace.generation({
     id: generationId,
@@ -242,16 +246,24 @@ export function createGeneration(
     },
     input: data.input,
     output: data.output,
-    usage: data.usage
+    usage: data.usage && cost
       ? {
           input: data.usage.inputTokens,
           output: data.usage.outputTokens,
           total: data.usage.inputTokens + data.usage.outputTokens,
-          inputCost: data.usage.cacheCreationTokens,
-          outputCost: data.usage.cacheReadTokens,
+          inputCost: cost.inputCost + cost.cacheWriteCost + cost.cacheReadCost,
+          outputCost: cost.outputCost,
+          totalCost: cost.totalCost,
         }
       : undefined,
-    metadata: data.metadata,
+    metadata: data.usage && cost
+      ? {
+          ...data.metadata,
+          cacheCreationTokens: data.usage.cacheCreationTokens || 0,
+          cacheReadTokens: data.usage.cacheReadTokens || 0,
+          cacheSavings: cost.cacheSavings,
+        }
+      : data.metadata,
   });
 
   return generation;
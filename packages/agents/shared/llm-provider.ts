@@ -0,0 +1,123 @@
+import type { Message, MessageCreateParams } from '@anthropic-ai/sdk/resources/messages';
+import { AnthropicProvider } from './anthropic-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { MockLLMProvider } from './mock-llm-provider';
+
+/**
+ * Built-in LLM providers
+ */
+export type BuiltInLLMProvider = 'anthropic' | 'openai-compatible' | 'mock';
+
+/**
+ * Provider used when neither the tenant, the agent nor LLM_PROVIDER chooses one
+ */
+export const DEFAULT_LLM_PROVIDER: BuiltInLLMProvider = 'anthropic';
+
+/**
+ * Backend that serves LLM requests
+ *
+ * Requests and responses use the Anthropic Messages format throughout; providers
+ * for other APIs translate both ways.
+ */
+export interface LLMProvider {
+  /** Name used to select the provider (and to look up its pricing) */
+  readonly name: string;
+
+  /** Model used when none is selected (requests to providers without one need an explicit model) */
+  readonly defaultModel?: string;
+
+  /**
+   * Send a request and return the complete message
+   */
+  createMessage(params: MessageCreateParams, signal?: AbortSignal): Promise<Message>;
+
+  /**
+   * Stream a request, passing each text delta to `onChunk`, and return the complete message
+   */
+  streamMessage(
+    params: MessageCreateParams,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<Message>;
+}
+
+/**
+ * Provider and model chosen for an agent
+ */
+export interface LLMSelection {
+  provider?: string;
+  model?: string;
+  /** Model used when `model` is unavailable */
+  fallbackModel?: string;
+}
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register a provider, replacing any registered under the same name
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get a registered provider (LLM_PROVIDER, or Anthropic, when no name is given)
+ */
+export function getLLMProvider(name?: string): LLMProvider {
+  const providerName = name || getDefaultLLMProvider();
+  const provider = providers.get(providerName);
+
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Names of registered providers
+ */
+export function getLLMProviderNames(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Provider used when none is selected
+ */
+export function getDefaultLLMProvider(): string {
+  return process.env.LLM_PROVIDER || DEFAULT_LLM_PROVIDER;
+}
+
+/**
+ * Model a provider uses when neither the tenant, the agent nor routing chooses one
+ */
+export function getDefaultLLMModel(providerName: string): string {
+  const model = getLLMProvider(providerName).defaultModel;
+
+  if (!model) {
+    throw new Error(`No model selected for LLM provider ${providerName}; set one in the tenant's LLM settings`);
+  }
+
+  return model;
+}
+
+/**
+ * Combine provider/model selections, earlier ones winning
+ *
+ * Provider and model are resolved independently, so a tenant can switch provider
+ * while each agent keeps its own model. The fallback model comes with the model it
+ * backs up. Undefined values are ignored.
+ */
+export function resolveLLMSelection(...selections: Array<LLMSelection | undefined>): LLMSelection {
+  const modelSelection = selections.find((selection) => selection?.model);
+
+  return {
+    provider: selections.find((selection) => selection?.provider)?.provider,
+    model: modelSelection?.model,
+    fallbackModel: modelSelection?.fallbackModel,
+  };
+}
+
+registerLLMProvider(new AnthropicProvider());
+registerLLMProvider(new OpenAICompatibleProvider());
+registerLLMProvider(new MockLLMProvider({ scriptPath: process.env.MOCK_LLM_SCRIPT }));
@@ -0,0 +1,514 @@
+import { randomUUID } from 'crypto';
+import type { MessageCreateParams } from '@anthropic-ai/sdk/resources/messages';
+import { getRedisClient } from './redis-client';
+import { sleep } from './cancellation';
+
+/**
+ * Rate limit of a provider or model, shared by every process
+ *
+ * Zero (or a missing value) means no limit on that dimension.
+ */
+export interface LLMRateLimit {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  /** Requests in flight at once */
+  maxConcurrent?: number;
+}
+
+/**
+ * Times a request is retried after a 429 before the error is passed on
+ */
+export const MAX_RATE_LIMIT_RETRIES = 3;
+
+/**
+ * Lease lifetime, so a crashed worker can't hold a concurrency slot forever
+ */
+const LEASE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Wait before polling again when every concurrency slot is taken
+ */
+const CONCURRENCY_POLL_MS = 250;
+
+const KEY_PREFIX = 'llm:ratelimit';
+
+/**
+ * Refill both buckets, then take one request and `cost` tokens and a concurrency lease
+ *
+ * Returns 0 when acquired, otherwise the milliseconds to wait before trying again.
+ * Uses the Redis clock so that every process refills alike.
+ */
+const ACQUIRE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local rpm = tonumber(ARGV[1])
+local tpm = tonumber(ARGV[2])
+local maxConcurrent = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+
+local state = redis.call('HMGET', KEYS[1], 'requests', 'tokens', 'updatedAt', 'blockedUntil')
+local requests = tonumber(state[1]) or rpm
+local tokens = tonumber(state[2]) or tpm
+local elapsed = math.max(0, now - (tonumber(state[3]) or now))
+local blockedUntil = tonumber(state[4]) or 0
+
+if rpm > 0 then requests = math.min(rpm, requests + elapsed * rpm / 60000) end
+if tpm > 0 then tokens = math.min(tpm, tokens + elapsed * tpm / 60000) end
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now)
+
+local wait = 0
+if blockedUntil > now then wait = blockedUntil - now end
+if rpm > 0 and requests < 1 then
+  wait = math.max(wait, math.ceil((1 - requests) * 60000 / rpm))
+end
+-- A request larger than the bucket waits for a full bucket and leaves it in debt
+local needed = math.min(cost, tpm)
+if tpm > 0 and tokens < needed then
+  wait = math.max(wait, math.ceil((needed - tokens) * 60000 / tpm))
+end
+if maxConcurrent > 0 and redis.call('ZCARD', KEYS[2]) >= maxConcurrent then
+  wait = math.max(wait, tonumber(ARGV[7]))
+end
+
+if wait == 0 then
+  if rpm > 0 then requests = requests - 1 end
+  if tpm > 0 then tokens = tokens - cost end
+  if maxConcurrent > 0 then redis.call('ZADD', KEYS[2], now + tonumber(ARGV[6]), ARGV[5]) end
+end
+
+redis.call('HSET', KEYS[1], 'requests', requests, 'tokens', tokens, 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], 3600000)
+redis.call('PEXPIRE', KEYS[2], tonumber(ARGV[6]))
+return wait
+`;
+
+/**
+ * Pause a bucket until `ARGV[1]` ms from now, keeping any later pause
+ */
+const BLOCK_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local blockedUntil = now + tonumber(ARGV[1])
+local current = tonumber(redis.call('HGET', KEYS[1], 'blockedUntil')) or 0
+if blockedUntil > current then
+  redis.call('HSET', KEYS[1], 'blockedUntil', blockedUntil)
+end
+redis.call('HINCRBY', KEYS[1], 'rateLimited', 1)
+redis.call('PEXPIRE', KEYS[1], 3600000)
+return blockedUntil
+`;
+
+/**
+ * Request to be admitted by the limiter
+ */
+export interface RateLimitRequest {
+  provider: string;
+  model: string;
+  /** Also limit the tenant to its share of the provider limits (see LLM_RATE_LIMIT_TENANT_SHARE) */
+  tenantId?: string;
+  /** Tokens taken up front; the difference to the actual usage is settled afterwards */
+  estimatedTokens: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Current state of one bucket
+ */
+export interface RateLimitMetrics {
+  provider: string;
+  model: string;
+  tenantId?: string;
+  limit: LLMRateLimit;
+  requestsAvailable: number;
+  tokensAvailable: number;
+  inFlight: number;
+  /** Fraction (0-1) of each limit in use */
+  utilisation: {
+    requests: number;
+    tokens: number;
+    concurrency: number;
+  };
+  /** Set while the provider has asked us to back off (retry-after) */
+  blockedUntil?: Date;
+  /** Requests that had to wait, and for how long in total */
+  throttledRequests: number;
+  throttledMs: number;
+  /** 429 responses received */
+  rateLimitedResponses: number;
+}
+
+/**
+ * Bucket a request acquires from
+ */
+interface Bucket {
+  key: string;
+  provider: string;
+  model: string;
+  tenantId?: string;
+  limit: LLMRateLimit;
+}
+
+/**
+ * Slot held for the duration of a request
+ */
+interface Lease {
+  buckets: Bucket[];
+  id: string;
+  estimatedTokens: number;
+}
+
+/**
+ * Redis-backed token bucket and concurrency governor for LLM requests
+ *
+ * Every process (Inngest functions, the orchestrator, the API) acquires from the same
+ * buckets, keyed by provider and model, so together they stay within the provider's
+ * requests- and tokens-per-minute limits. Providers and models without a limit in
+ * LLM_RATE_LIMITS are not limited. When Redis is unavailable requests are let through
+ * rather than failed.
+ */
+export class LLMRateLimiter {
+  private limits: Record<string, LLMRateLimit>;
+  private tenantShare: number;
+  private redisUnavailable = false;
+
+  constructor(options: { limits?: Record<string, LLMRateLimit>; tenantShare?: number } = {}) {
+    this.limits = options.limits ?? parseRateLimits(process.env.LLM_RATE_LIMITS);
+    this.tenantShare = options.tenantShare ?? parseFloat(process.env.LLM_RATE_LIMIT_TENANT_SHARE || '0');
+  }
+
+  /**
+   * Limit of a model: a `provider/model` entry, else the provider entry
+   */
+  getLimit(provider: string, model: string): LLMRateLimit | undefined {
+    const limit = this.limits[`${provider}/${model}`] ?? this.limits[provider];
+    return limit && (limit.requestsPerMinute || limit.tokensPerMinute || limit.maxConcurrent) ? limit : undefined;
+  }
+
+  /**
+   * Run a provider call once the limiter admits it
+   *
+   * A 429 pauses the bucket for every process until its retry-after has passed, then the
+   * call is retried, up to MAX_RATE_LIMIT_RETRIES times. `getTokens` reports the tokens the
+   * call actually used.
+   */
+  async run<T>(request: RateLimitRequest, call: () => Promise<T>, getTokens: (result: T) => number): Promise<T> {
+    if (!this.getLimit(request.provider, request.model)) {
+      return call();
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const lease = await this.acquire(request);
+      let retryAfterMs: number;
+
+      try {
+        const result = await call();
+        await this.settle(lease, getTokens(result));
+        return result;
+      } catch (error: any) {
+        if (error?.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) {
+          throw error;
+        }
+
+        retryAfterMs = parseRetryAfter(error.headers) ?? 1000 * Math.pow(2, attempt);
+        console.warn(
+          `[RateLimiter] ${request.provider}/${request.model} rate limited; pausing ${retryAfterMs}ms ` +
+            `(retry ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`
+        );
+        await this.block(lease, retryAfterMs);
+      } finally {
+        await this.release(lease);
+      }
+
+      // Other processes wait in acquire(); without Redis this is the only pause
+      await sleep(retryAfterMs, request.signal);
+    }
+  }
+
+  /**
+   * Wait until every bucket of the request admits it
+   */
+  async acquire(request: RateLimitRequest): Promise<Lease> {
+    const lease: Lease = { buckets: this.getBuckets(request), id: randomUUID(), estimatedTokens: request.estimatedTokens };
+
+    try {
+      const client = getRedisClient();
+
+      for (const bucket of lease.buckets) {
+        let waitedMs = 0;
+
+        for (;;) {
+          const wait = Number(
+            await client.eval(
+              ACQUIRE_SCRIPT,
+              2,
+              bucket.key,
+              `${bucket.key}:leases`,
+              bucket.limit.requestsPerMinute || 0,
+              bucket.limit.tokensPerMinute || 0,
+              bucket.limit.maxConcurrent || 0,
+              Math.ceil(request.estimatedTokens),
+              lease.id,
+              LEASE_TTL_MS,
+              CONCURRENCY_POLL_MS
+            )
+          );
+
+          if (wait <= 0) {
+            break;
+          }
+
+          waitedMs += wait;
+          await sleep(wait, request.signal);
+        }
+
+        if (waitedMs > 0) {
+          await client.hincrby(bucket.key, 'throttledRequests', 1);
+          await client.hincrby(bucket.key, 'throttledMs', waitedMs);
+        }
+
+        // Recorded for getMetrics(), since model names may contain the key separator
+        await client.hset(bucket.key, 'provider', bucket.provider, 'model', bucket.model, 'tenantId', bucket.tenantId || '');
+        await client.sadd(`${KEY_PREFIX}:buckets`, bucket.key);
+      }
+    } catch (error) {
+      if (request.signal?.aborted) {
+        await this.release(lease);
+        throw error;
+      }
+
+      this.warnRedisUnavailable(error);
+    }
+
+    return lease;
+  }
+
+  /**
+   * Correct the token buckets for the tokens the request actually used
+   */
+  private async settle(lease: Lease, actualTokens: number): Promise<void> {
+    const delta = lease.estimatedTokens - actualTokens;
+
+    await this.withRedis(async (client) => {
+      for (const bucket of lease.buckets) {
+        if (bucket.limit.tokensPerMinute && delta !== 0) {
+          await client.hincrbyfloat(bucket.key, 'tokens', delta);
+        }
+      }
+    });
+  }
+
+  /**
+   * Pause the buckets of a rate-limited request for every process
+   */
+  private async block(lease: Lease, retryAfterMs: number): Promise<void> {
+    await this.withRedis(async (client) => {
+      for (const bucket of lease.buckets) {
+        await client.eval(BLOCK_SCRIPT, 1, bucket.key, Math.ceil(retryAfterMs));
+      }
+    });
+  }
+
+  /**
+   * Free the concurrency slots of a lease
+   */
+  private async release(lease: Lease): Promise<void> {
+    await this.withRedis(async (client) => {
+      for (const bucket of lease.buckets) {
+        await client.zrem(`${bucket.key}:leases`, lease.id);
+      }
+    });
+  }
+
+  /**
+   * Current utilisation of every bucket used so far, by any process
+   *
+   * Given a tenant, only the global buckets and that tenant's own buckets are returned.
+   */
+  async getMetrics(tenantId?: string): Promise<RateLimitMetrics[]> {
+    const client = getRedisClient();
+    const keys = await client.smembers(`${KEY_PREFIX}:buckets`);
+    const [seconds, micros] = await client.time();
+    const now = Number(seconds) * 1000 + Math.floor(Number(micros) / 1000);
+    const metrics: RateLimitMetrics[] = [];
+
+    for (const key of keys.sort()) {
+      const data = await client.hgetall(key);
+      const { provider, model, tenantId: bucketTenantId } = data;
+      const baseLimit = provider && model ? this.getLimit(provider, model) : undefined;
+
+      // Expired buckets, and buckets of models that are no longer limited
+      if (!provider || !model || !baseLimit) {
+        await client.srem(`${KEY_PREFIX}:buckets`, key);
+        continue;
+      }
+
+      if (tenantId && bucketTenantId && bucketTenantId !== tenantId) {
+        continue;
+      }
+
+      const limit = bucketTenantId ? scaleLimit(baseLimit, this.tenantShare) : baseLimit;
+      const { requestsPerMinute: rpm = 0, tokensPerMinute: tpm = 0, maxConcurrent = 0 } = limit;
+      const elapsed = Math.max(0, now - Number(data.updatedAt || now));
+      const requestsAvailable = rpm ? Math.min(rpm, Number(data.requests ?? rpm) + (elapsed * rpm) / 60000) : 0;
+      const tokensAvailable = tpm ? Math.min(tpm, Number(data.tokens ?? tpm) + (elapsed * tpm) / 60000) : 0;
+      const inFlight = await client.zcount(`${key}:leases`, now, '+inf');
+      const blockedUntil = Number(data.blockedUntil || 0);
+
+      metrics.push({
+        provider,
+        model,
+        ...(bucketTenantId ? { tenantId: bucketTenantId } : {}),
+        limit,
+        requestsAvailable,
+        tokensAvailable,
+        inFlight,
+        utilisation: {
+          requests: rpm ? Math.max(0, 1 - requestsAvailable / rpm) : 0,
+          tokens: tpm ? Math.max(0, 1 - tokensAvailable / tpm) : 0,
+          concurrency: maxConcurrent ? inFlight / maxConcurrent : 0,
+        },
+        ...(blockedUntil > now ? { blockedUntil: new Date(blockedUntil) } : {}),
+        throttledRequests: parseInt(data.throttledRequests || '0', 10),
+        throttledMs: parseInt(data.throttledMs || '0', 10),
+        rateLimitedResponses: parseInt(data.rateLimited || '0', 10),
+      });
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Global bucket of the model, plus the tenant's bucket when tenants get a share
+   */
+  private getBuckets(request: RateLimitRequest): Bucket[] {
+    const limit = this.getLimit(request.provider, request.model)!;
+    const key = `${KEY_PREFIX}:${request.provider}:${request.model}`;
+    const buckets: Bucket[] = [{ key, provider: request.provider, model: request.model, limit }];
+
+    if (request.tenantId && this.tenantShare > 0 && this.tenantShare < 1) {
+      buckets.unshift({
+        key: `${key}:tenant:${request.tenantId}`,
+        provider: request.provider,
+        model: request.model,
+        tenantId: request.tenantId,
+        limit: scaleLimit(limit, this.tenantShare),
+      });
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Run a Redis operation, logging instead of failing when Redis is unavailable
+   */
+  private async withRedis(operation: (client: ReturnType<typeof getRedisClient>) => Promise<void>): Promise<void> {
+    try {
+      await operation(getRedisClient());
+    } catch (error) {
+      this.warnRedisUnavailable(error);
+    }
+  }
+
+  /**
+   * Warn once that requests are let through without the global limit
+   */
+  private warnRedisUnavailable(error: unknown): void {
+    if (!this.redisUnavailable) {
+      this.redisUnavailable = true;
+      console.warn('[RateLimiter] Redis unavailable, skipping global rate limit:', error);
+    }
+  }
+}
+
+/**
+ * Parse LLM_RATE_LIMITS: JSON keyed by provider or `provider/model`
+ */
+export function parseRateLimits(value?: string): Record<string, LLMRateLimit> {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error('[RateLimiter] Invalid LLM_RATE_LIMITS, not limiting requests:', error);
+    return {};
+  }
+}
+
+/**
+ * Milliseconds to wait from `retry-after-ms` or `retry-after` (seconds or an HTTP date)
+ */
+export function parseRetryAfter(headers?: Record<string, any> | null): number | undefined {
+  const header = (name: string) => {
+    const value = typeof headers?.get === 'function' ? headers.get(name) : headers?.[name];
+    return value === null || value === undefined ? undefined : String(value);
+  };
+
+  const retryAfterMs = Number(header('retry-after-ms'));
+  if (header('retry-after-ms') && Number.isFinite(retryAfterMs)) {
+    return Math.max(0, retryAfterMs);
+  }
+
+  const retryAfter = header('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Rough token count of a request (about 4 characters per token), taken before it is sent
+ */
+export function estimateRequestTokens(params: MessageCreateParams): number {
+  const size = JSON.stringify([params.system ?? '', params.messages, params.tools ?? []]).length;
+  return Math.ceil(size / 4);
+}
+
+/**
+ * Share of a limit, keeping at least one request and one slot
+ */
+function scaleLimit(limit: LLMRateLimit, share: number): LLMRateLimit {
+  const scale = (value?: number) => (value ? Math.max(1, Math.floor(value * share)) : value);
+
+  return {
+    requestsPerMinute: scale(limit.requestsPerMinute),
+    tokensPerMinute: scale(limit.tokensPerMinute),
+    maxConcurrent: scale(limit.maxConcurrent),
+  };
+}
+
+let limiter: LLMRateLimiter | null = null;
+
+/**
+ * Get the rate limiter used by sendClaudeMessage/streamClaudeMessage
+ */
+export function getLLMRateLimiter(): LLMRateLimiter {
+  if (!limiter) {
+    limiter = new LLMRateLimiter();
+  }
+  return limiter;
+}
+
+/**
+ * Create a rate limiter with its own limits
+ */
+export function createLLMRateLimiter(
+  options: { limits?: Record<string, LLMRateLimit>; tenantShare?: number } = {}
+): LLMRateLimiter {
+  return new LLMRateLimiter(options);
+}
+
+/**
+ * Current utilisation of every LLM rate limit bucket, or of the global and one tenant's buckets
+ */
+export async function getLLMRateLimitMetrics(tenantId?: string): Promise<RateLimitMetrics[]> {
+  return getLLMRateLimiter().getMetrics(tenantId);
+}
@@ -0,0 +1,434 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Message, MessageCreateParams } from '@anthropic-ai/sdk/resources/messages';
+
+/**
+ * Recording mode for LLM calls
+ *
+ * - `off`: calls go to the API
+ * - `record`: calls go to the API and every request/response pair is saved
+ * - `replay`: calls are served from a recording without touching the API
+ */
+export type LLMRecordingMode = 'off' | 'record' | 'replay';
+
+/**
+ * Recording configuration
+ */
+export interface LLMRecordingOptions {
+  mode: LLMRecordingMode;
+  /** Recording file (required for record and replay) */
+  path?: string;
+  /** Fail replay when a request differs from the recorded one instead of warning */
+  strict?: boolean;
+}
+
+/**
+ * Agent execution that LLM calls are attributed to
+ */
+export interface LLMCallScope {
+  agentExecutionId: string;
+  agentRole: string;
+}
+
+/**
+ * Request that failed before a recorded call succeeded
+ */
+export interface RecordedLLMFailure {
+  model: string;
+  requestHash: string;
+  status?: number;
+  message: string;
+}
+
+/**
+ * Single recorded request/response pair
+ */
+export interface RecordedLLMCall {
+  index: number;
+  requestHash: string;
+  request: Omit<MessageCreateParams, 'metadata' | 'stream'>;
+  response: Message;
+  /**
+   * Attempts that failed before this one, e.g. on an overloaded primary model before falling
+   * back; replay raises them again so the run takes the same path
+   */
+  failedAttempts?: RecordedLLMFailure[];
+}
+
+/**
+ * Recorded LLM calls of one agent execution, in call order
+ */
+export interface RecordedAgentExecution {
+  agentExecutionId: string;
+  agentRole: string;
+  calls: RecordedLLMCall[];
+}
+
+/**
+ * Recording file contents
+ */
+export interface LLMRecording {
+  version: 1;
+  createdAt: string;
+  executions: Record<string, RecordedAgentExecution>;
+}
+
+/**
+ * Execution ID used for calls made outside any agent
+ */
+export const UNSCOPED_EXECUTION_ID = 'unscoped';
+
+/**
+ * Records LLM calls per agent execution and serves them back on replay
+ *
+ * Replayed runs get fresh agent execution IDs, so each new execution is matched to an
+ * unclaimed recorded execution of the same role (preferring one whose first request is
+ * identical) and then served that execution's responses by call index.
+ */
+class LLMRecorder {
+  private static instance: LLMRecorder;
+  private options: LLMRecordingOptions | null = null;
+  private recording: LLMRecording | null = null;
+  private scopeStorage = new AsyncLocalStorage<LLMCallScope>();
+  private callCounts: Map<string, number> = new Map();
+  /** Failed attempts per execution since its last recorded call */
+  private failedAttempts: Map<string, RecordedLLMFailure[]> = new Map();
+  /** Recorded failures raised per execution since its last replayed call */
+  private raisedFailures: Map<string, number> = new Map();
+  private claims: Map<string, string> = new Map();
+  private claimed: Set<string> = new Set();
+  private writes: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): LLMRecorder {
+    if (!LLMRecorder.instance) {
+      LLMRecorder.instance = new LLMRecorder();
+    }
+    return LLMRecorder.instance;
+  }
+
+  /**
+   * Set the recording mode, discarding any in-memory recording state
+   */
+  public async configure(options: LLMRecordingOptions): Promise<void> {
+    await this.flush();
+
+    if (options.mode !== 'off' && !options.path) {
+      throw new Error(`LLM recording mode "${options.mode}" requires a recording path`);
+    }
+
+    this.options = options;
+    this.recording = null;
+    this.callCounts.clear();
+    this.failedAttempts.clear();
+    this.raisedFailures.clear();
+    this.claims.clear();
+    this.claimed.clear();
+
+    if (options.mode === 'replay') {
+      this.recording = await loadLLMRecording(options.path!);
+      console.log(
+        `[LLMRecorder] Replaying ${Object.keys(this.recording.executions).length} agent executions from ${options.path}`
+      );
+    } else if (options.mode === 'record') {
+      this.recording = { version: 1, createdAt: new Date().toISOString(), executions: {} };
+      console.log(`[LLMRecorder] Recording LLM calls to ${options.path}`);
+    }
+  }
+
+  /**
+   * Current recording mode
+   */
+  public getMode(): LLMRecordingMode {
+    return this.options?.mode || 'off';
+  }
+
+  /**
+   * Attribute LLM calls made inside `fn` to an agent execution
+   */
+  public runInScope<T>(scope: LLMCallScope, fn: () => Promise<T>): Promise<T> {
+    return this.scopeStorage.run(scope, fn);
+  }
+
+  /**
+   * Record, replay or pass through an LLM call depending on the mode
+   */
+  public async intercept(params: MessageCreateParams, live: () => Promise<Message>): Promise<Message> {
+    await this.ensureConfigured();
+
+    const mode = this.getMode();
+    if (mode === 'off') {
+      return live();
+    }
+
+    const scope = this.scopeStorage.getStore() || {
+      agentExecutionId: UNSCOPED_EXECUTION_ID,
+      agentRole: UNSCOPED_EXECUTION_ID,
+    };
+    // Only a call that gets a response takes an index, so a retry of a failed one takes its place
+    const index = this.callCounts.get(scope.agentExecutionId) || 0;
+
+    const request = toRecordedRequest(params);
+    const requestHash = hashLLMRequest(request);
+
+    return mode === 'replay'
+      ? this.replay(scope, index, requestHash)
+      : this.record(scope, index, request, requestHash, live);
+  }
+
+  /**
+   * Wait for pending recording writes
+   */
+  public async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * Call the API and store the pair
+   */
+  private async record(
+    scope: LLMCallScope,
+    index: number,
+    request: RecordedLLMCall['request'],
+    requestHash: string,
+    live: () => Promise<Message>
+  ): Promise<Message> {
+    const failedAttempts = this.failedAttempts.get(scope.agentExecutionId) || [];
+    let response: Message;
+
+    try {
+      response = await live();
+    } catch (error: any) {
+      failedAttempts.push({ model: request.model, requestHash, status: error?.status, message: error?.message });
+      this.failedAttempts.set(scope.agentExecutionId, failedAttempts);
+      throw error;
+    }
+
+    this.callCounts.set(scope.agentExecutionId, index + 1);
+    this.failedAttempts.delete(scope.agentExecutionId);
+
+    const executions = this.recording!.executions;
+
+    executions[scope.agentExecutionId] ||= {
+      agentExecutionId: scope.agentExecutionId,
+      agentRole: scope.agentRole,
+      calls: [],
+    };
+    executions[scope.agentExecutionId]!.calls.push({
+      index,
+      requestHash,
+      request,
+      response,
+      ...(failedAttempts.length > 0 ? { failedAttempts } : {}),
+    });
+    executions[scope.agentExecutionId]!.calls.sort((a, b) => a.index - b.index);
+
+    // Write through so a crashed run still leaves a usable recording
+    const snapshot = JSON.stringify(this.recording, null, 2);
+    const file = this.options!.path!;
+    this.writes = this.writes
+      .then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, snapshot, 'utf-8');
+      })
+      .catch((error) => console.error(`[LLMRecorder] Failed to write recording: ${error.message}`));
+
+    return response;
+  }
+
+  /**
+   * Serve a recorded response, first raising the failures recorded before it
+   */
+  private async replay(scope: LLMCallScope, index: number, requestHash: string): Promise<Message> {
+    const recordedId = this.claimExecution(scope, requestHash);
+    const call = this.recording!.executions[recordedId]!.calls.find((c) => c.index === index);
+
+    if (!call) {
+      throw new Error(
+        `Recording has no LLM call #${index} for ${scope.agentRole} (recorded execution ${recordedId})`
+      );
+    }
+
+    const raised = this.raisedFailures.get(scope.agentExecutionId) || 0;
+    const failure = call.failedAttempts?.[raised];
+
+    if (failure) {
+      this.checkRequest(scope, index, recordedId, failure.requestHash, requestHash);
+      this.raisedFailures.set(scope.agentExecutionId, raised + 1);
+      throw Object.assign(new Error(failure.message), { status: failure.status });
+    }
+
+    this.checkRequest(scope, index, recordedId, call.requestHash, requestHash);
+    this.callCounts.set(scope.agentExecutionId, index + 1);
+    this.raisedFailures.delete(scope.agentExecutionId);
+
+    return call.response;
+  }
+
+  /**
+   * Fail (strict) or warn when a replayed request differs from the recorded one
+   */
+  private checkRequest(
+    scope: LLMCallScope,
+    index: number,
+    recordedId: string,
+    recordedHash: string,
+    requestHash: string
+  ): void {
+    if (recordedHash === requestHash) {
+      return;
+    }
+
+    const message =
+      `LLM request #${index} of ${scope.agentRole} differs from the recording ` +
+      `(recorded execution ${recordedId})`;
+
+    if (this.options!.strict) {
+      throw new Error(message);
+    }
+    console.warn(`[LLMRecorder] ${message}; serving the recorded response`);
+  }
+
+  /**
+   * Map a live agent execution to a recorded one
+   */
+  private claimExecution(scope: LLMCallScope, requestHash: string): string {
+    const existing = this.claims.get(scope.agentExecutionId);
+    if (existing) {
+      return existing;
+    }
+
+    const executions = this.recording!.executions;
+
+    // Same ID means the run is replaying its own recording (e.g. a resumed execution)
+    let recordedId: string | undefined = executions[scope.agentExecutionId] ? scope.agentExecutionId : undefined;
+
+    if (!recordedId) {
+      const candidates = Object.values(executions).filter(
+        (execution) => execution.agentRole === scope.agentRole && !this.claimed.has(execution.agentExecutionId)
+      );
+      const match =
+        candidates.find(
+          (execution) =>
+            (execution.calls[0]?.failedAttempts?.[0]?.requestHash ?? execution.calls[0]?.requestHash) ===
+            requestHash
+        ) ||
+        (this.options!.strict ? undefined : candidates[0]);
+      recordedId = match?.agentExecutionId;
+    }
+
+    if (!recordedId) {
+      throw new Error(`No recorded LLM calls left for ${scope.agentRole} (execution ${scope.agentExecutionId})`);
+    }
+
+    this.claims.set(scope.agentExecutionId, recordedId);
+    this.claimed.add(recordedId);
+    return recordedId;
+  }
+
+  /**
+   * Pick up LLM_RECORDING_MODE / LLM_RECORDING_PATH the first time a call is made
+   */
+  private async ensureConfigured(): Promise<void> {
+    if (this.options) {
+      return;
+    }
+
+    const mode = (process.env.LLM_RECORDING_MODE || 'off') as LLMRecordingMode;
+    await this.configure({
+      mode,
+      path: process.env.LLM_RECORDING_PATH,
+      strict: process.env.LLM_RECORDING_STRICT === 'true',
+    });
+  }
+}
+
+// Singleton instance
+const recorder = LLMRecorder.getInstance();
+
+/**
+ * Configure LLM recording or replay for this process
+ */
+export async function configureLLMRecording(options: LLMRecordingOptions): Promise<void> {
+  await recorder.configure(options);
+}
+
+/**
+ * Get the active recording mode
+ */
+export function getLLMRecordingMode(): LLMRecordingMode {
+  return recorder.getMode();
+}
+
+/**
+ * Attribute LLM calls made inside `fn` to an agent execution
+ */
+export function runInLLMScope<T>(scope: LLMCallScope, fn: () => Promise<T>): Promise<T> {
+  return recorder.runInScope(scope, fn);
+}
+
+/**
+ * Route an LLM call through the recorder
+ */
+export function interceptLLMCall(
+  params: MessageCreateParams,
+  live: () => Promise<Message>
+): Promise<Message> {
+  return recorder.intercept(params, live);
+}
+
+/**
+ * Wait until the recording file is up to date
+ */
+export async function flushLLMRecording(): Promise<void> {
+  await recorder.flush();
+}
+
+/**
+ * Load a recording file
+ */
+export async function loadLLMRecording(recordingPath: string): Promise<LLMRecording> {
+  const recording = JSON.parse(await fs.readFile(recordingPath, 'utf-8')) as LLMRecording;
+
+  if (recording.version !== 1 || !recording.executions) {
+    throw new Error(`Unsupported LLM recording format: ${recordingPath}`);
+  }
+
+  return recording;
+}
+
+/**
+ * Hash the parts of a request that determine the response
+ */
+export function hashLLMRequest(request: RecordedLLMCall['request']): string {
+  return createHash('sha256').update(stableStringify(request)).digest('hex');
+}
+
+/**
+ * Drop per-run fields (trace metadata, stream flag) from a request
+ */
+function toRecordedRequest(params: MessageCreateParams): RecordedLLMCall['request'] {
+  const { metadata: _metadata, stream: _stream, ...request } = params as any;
+  return JSON.parse(JSON.stringify(request));
+}
+
+/**
+ * JSON with sorted object keys
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
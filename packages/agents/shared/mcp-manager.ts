@@ -45,6 +45,14 @@ export interface ToolExecutionResult {
   error?: string;
 }
 
+/**
+ * Tool execution options
+ */
+export interface ToolExecutionOptions {
+  /** Aborts the tool call */
+  signal?: AbortSignal;
+}
+
 /**
  * MCP Manager for handling Model Context Protocol servers
  *
@@ -253,7 +261,8 @@ class MCPManager {
    */
   public async executeTool(
     toolName: string,
-    input: Record<string, any>
+    input: Record<string, any>,
+    options: ToolExecutionOptions = {}
   ): Promise<ToolExecutionResult> {
     const tool = this.getTool(toolName);
     if (!tool) {
@@ -285,10 +294,14 @@ class MCPManager {
       console.log(`[MCP] Executing tool: ${toolName} with input:`, input);
 
       // Execute tool via MCP protocol
-      const result = await server.client.callTool({
-        name: actualToolName,
-        arguments: input,
-      });
+      const result = await server.client.callTool(
+        {
+          name: actualToolName,
+          arguments: input,
+        },
+        undefined,
+        { signal: options.signal }
+      );
 
       console.log(`[MCP] Tool execution completed: ${toolName}`);
 
@@ -399,9 +412,10 @@ export function getMCPToolsForClaude(serverNames?: string[]): Tool[] {
  */
 export async function executeMCPTool(
   toolName: string,
-  input: Record<string, any>
+  input: Record<string, any>,
+  options?: ToolExecutionOptions
 ): Promise<ToolExecutionResult> {
-  return mcpManager.executeTool(toolName, input);
+  return mcpManager.executeTool(toolName, input, options);
 }
 
 /**
@@ -0,0 +1,206 @@
+import * as fs from 'fs/promises';
+import type { Message, MessageCreateParams } from '@anthropic-ai/sdk/resources/messages';
+import type { LLMProvider } from './llm-provider';
+import { sleep } from './cancellation';
+
+/**
+ * Text returned when no scripted response applies
+ */
+export const DEFAULT_MOCK_RESPONSE = '{}';
+
+/**
+ * Scripted response of the mock provider
+ */
+export interface MockLLMResponse {
+  /**
+   * Answer every request whose system prompt or last user message contains this
+   * (a string) or matches it (a RegExp). Responses without `match` are used once each, in order.
+   */
+  match?: string | RegExp;
+  text: string;
+  /** Reported usage (estimated from text length when omitted) */
+  usage?: { inputTokens: number; outputTokens: number; cacheCreationTokens?: number; cacheReadTokens?: number };
+}
+
+/**
+ * Mock provider configuration
+ */
+export interface MockLLMProviderOptions {
+  /** Provider name (defaults to `mock`) */
+  name?: string;
+  /** Model reported when none is selected (defaults to `mock`) */
+  defaultModel?: string;
+  responses?: MockLLMResponse[];
+  /** JSON file with `{ "responses": [...] }`, loaded on first use (`match` is a substring) */
+  scriptPath?: string;
+  /** Text returned when no scripted response applies */
+  defaultText?: string;
+  /** Characters per streamed chunk */
+  chunkSize?: number;
+  /** Delay between streamed chunks (ms) */
+  chunkDelayMs?: number;
+}
+
+/**
+ * Deterministic, offline provider for tests and demos
+ *
+ * Responses come from a script, so the same requests always get the same answers
+ * and no API key is needed. Only text responses are produced.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private options: MockLLMProviderOptions;
+  private rules: MockLLMResponse[] = [];
+  private queue: MockLLMResponse[] = [];
+  private requests: MessageCreateParams[] = [];
+  private loaded: Promise<void> | null = null;
+
+  constructor(options: MockLLMProviderOptions = {}) {
+    this.name = options.name || 'mock';
+    this.defaultModel = options.defaultModel || 'mock';
+    this.options = options;
+    this.script(options.responses || []);
+  }
+
+  /**
+   * Add scripted responses
+   */
+  script(responses: MockLLMResponse[]): void {
+    for (const response of responses) {
+      if (response.match !== undefined) {
+        this.rules.push(response);
+      } else {
+        this.queue.push(response);
+      }
+    }
+  }
+
+  /**
+   * Requests received so far, in order
+   */
+  getRequests(): MessageCreateParams[] {
+    return [...this.requests];
+  }
+
+  /**
+   * Drop scripted responses and recorded requests
+   */
+  reset(): void {
+    this.rules = [];
+    this.queue = [];
+    this.requests = [];
+  }
+
+  /**
+   * Answer a request from the script
+   */
+  async createMessage(params: MessageCreateParams, signal?: AbortSignal): Promise<Message> {
+    signal?.throwIfAborted();
+    await this.loadScript();
+
+    return this.respond(params);
+  }
+
+  /**
+   * Answer a request from the script in chunks
+   */
+  async streamMessage(
+    params: MessageCreateParams,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<Message> {
+    signal?.throwIfAborted();
+    await this.loadScript();
+
+    const message = this.respond(params);
+    const text = (message.content[0] as { text: string }).text;
+    const chunkSize = this.options.chunkSize || 64;
+
+    for (let offset = 0; offset < text.length; offset += chunkSize) {
+      if (this.options.chunkDelayMs) {
+        await sleep(this.options.chunkDelayMs, signal);
+      }
+      signal?.throwIfAborted();
+      onChunk(text.slice(offset, offset + chunkSize));
+    }
+
+    return message;
+  }
+
+  /**
+   * Pick the response for a request and wrap it in a message
+   */
+  private respond(params: MessageCreateParams): Message {
+    this.requests.push(params);
+
+    const system = typeof params.system === 'string'
+      ? params.system
+      : (params.system || []).map((block) => block.text).join('\n');
+    const lastUser = [...params.messages].reverse().find((message) => message.role === 'user');
+    const prompt = typeof lastUser?.content === 'string'
+      ? lastUser.content
+      : JSON.stringify(lastUser?.content ?? '');
+
+    const response =
+      this.rules.find((rule) => matches(rule.match!, system) || matches(rule.match!, prompt)) ||
+      this.queue.shift();
+    const text = response?.text ?? this.options.defaultText ?? DEFAULT_MOCK_RESPONSE;
+
+    return {
+      id: `msg_mock_${this.requests.length}`,
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text }],
+      model: params.model,
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage: {
+        input_tokens: response?.usage?.inputTokens ?? estimateTokens(system + JSON.stringify(params.messages)),
+        output_tokens: response?.usage?.outputTokens ?? estimateTokens(text),
+        cache_creation_input_tokens: response?.usage?.cacheCreationTokens ?? null,
+        cache_read_input_tokens: response?.usage?.cacheReadTokens ?? null,
+      },
+    } as Message;
+  }
+
+  /**
+   * Load the script file once
+   */
+  private loadScript(): Promise<void> {
+    if (!this.options.scriptPath) {
+      return Promise.resolve();
+    }
+
+    if (!this.loaded) {
+      this.loaded = fs.readFile(this.options.scriptPath, 'utf-8').then((contents) => {
+        const script = JSON.parse(contents) as { responses: MockLLMResponse[] };
+        this.script(script.responses || []);
+        console.log(`[MockLLM] Loaded ${script.responses?.length || 0} responses from ${this.options.scriptPath}`);
+      });
+    }
+
+    return this.loaded;
+  }
+}
+
+/**
+ * Create a mock provider
+ */
+export function createMockLLMProvider(options?: MockLLMProviderOptions): MockLLMProvider {
+  return new MockLLMProvider(options);
+}
+
+/**
+ * Whether text contains a substring or matches a pattern
+ */
+function matches(match: string | RegExp, text: string): boolean {
+  return typeof match === 'string' ? text.includes(match) : match.test(text);
+}
+
+/**
+ * Rough token count (about four characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
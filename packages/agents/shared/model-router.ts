@@ -0,0 +1,116 @@
+import { CLAUDE_3_5_HAIKU, CLAUDE_3_5_SONNET } from './claude-client';
+import {
+  getDefaultLLMModel,
+  getDefaultLLMProvider,
+  resolveLLMSelection,
+  type LLMSelection,
+} from './llm-provider';
+
+/**
+ * Manifest fields that routing is keyed on
+ */
+export interface RoutableAgent {
+  id: string;
+  tier: 'strategy' | 'build' | 'quality';
+  category: 'orchestrator' | 'planner' | 'builder' | 'grader' | 'monitor';
+}
+
+/**
+ * Model an agent runs on, with the model to switch to when it is unavailable
+ */
+export interface ModelRoute {
+  model: string;
+  /** Used when the primary model is overloaded or returns a 5xx */
+  fallback?: string;
+}
+
+/**
+ * Which model each agent runs on
+ *
+ * The most specific entry wins: agent (manifest id) > category > tier > default. Built-in
+ * routing only applies to agents the tenant policy has no entry for.
+ */
+export interface ModelRoutingPolicy {
+  default?: ModelRoute;
+  tiers?: Partial<Record<RoutableAgent['tier'], ModelRoute>>;
+  categories?: Partial<Record<RoutableAgent['category'], ModelRoute>>;
+  agents?: Record<string, ModelRoute>;
+}
+
+/**
+ * Built-in routing: Sonnet for generation and planning, Haiku for backlog summaries
+ */
+export const DEFAULT_MODEL_ROUTING: ModelRoutingPolicy = {
+  default: { model: CLAUDE_3_5_SONNET, fallback: CLAUDE_3_5_HAIKU },
+  categories: {
+    planner: { model: CLAUDE_3_5_SONNET, fallback: CLAUDE_3_5_HAIKU },
+  },
+  agents: {
+    'backlog-manager': { model: CLAUDE_3_5_HAIKU, fallback: CLAUDE_3_5_SONNET },
+  },
+};
+
+/**
+ * Most specific route a policy has for an agent
+ */
+function matchRoute(manifest?: RoutableAgent, policy?: ModelRoutingPolicy): ModelRoute | undefined {
+  return (
+    (manifest && policy?.agents?.[manifest.id]) ||
+    (manifest && policy?.categories?.[manifest.category]) ||
+    (manifest && policy?.tiers?.[manifest.tier]) ||
+    policy?.default
+  );
+}
+
+/**
+ * Pick the model route of an agent
+ */
+export function routeModel(manifest?: RoutableAgent, policy?: ModelRoutingPolicy): ModelRoute {
+  return matchRoute(manifest, policy) || matchRoute(manifest, DEFAULT_MODEL_ROUTING) || { model: CLAUDE_3_5_SONNET };
+}
+
+/**
+ * Selections an agent's provider and model are resolved from
+ */
+export interface AgentModelSources {
+  /** Tenant's LLM provider/model */
+  llm?: LLMSelection;
+  /** Tenant's model routing */
+  modelRouting?: ModelRoutingPolicy;
+  /** The agent's own config */
+  config?: LLMSelection;
+}
+
+/**
+ * Provider and model an agent runs on
+ */
+export interface ResolvedAgentModel {
+  provider: string;
+  model: string;
+  fallbackModel?: string;
+}
+
+/**
+ * Resolve the provider and model of an agent
+ *
+ * Tenant settings win over the manifest and the agent's own config; the router decides the rest.
+ * Routing picks Claude models, so other providers fall back to their own default model.
+ */
+export function resolveAgentModel(
+  manifest: (RoutableAgent & LLMSelection) | undefined,
+  sources: AgentModelSources = {}
+): ResolvedAgentModel {
+  const llm = resolveLLMSelection(sources.llm, manifest, sources.config);
+  const provider = llm.provider || getDefaultLLMProvider();
+
+  if (llm.model) {
+    return { provider, model: llm.model, fallbackModel: llm.fallbackModel };
+  }
+
+  if (provider !== 'anthropic') {
+    return { provider, model: getDefaultLLMModel(provider) };
+  }
+
+  const route = routeModel(manifest, sources.modelRouting);
+  return { provider, model: route.model, fallbackModel: route.fallback };
+}
@@ -0,0 +1,272 @@
+import type { Message, MessageCreateParams } from '@anthropic-ai/sdk/resources/messages';
+import type { LLMProvider } from './llm-provider';
+
+/**
+ * Base URL used when OPENAI_COMPATIBLE_BASE_URL is not set (a local Ollama server)
+ */
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * OpenAI-compatible provider configuration
+ */
+export interface OpenAICompatibleProviderOptions {
+  /** Provider name (register several under different names for several servers) */
+  name?: string;
+  /** API base URL, e.g. `http://localhost:8000/v1` (defaults to OPENAI_COMPATIBLE_BASE_URL) */
+  baseUrl?: string;
+  /** Bearer token (defaults to OPENAI_COMPATIBLE_API_KEY; local servers usually need none) */
+  apiKey?: string;
+  /** Model used when none is selected (defaults to OPENAI_COMPATIBLE_MODEL) */
+  model?: string;
+}
+
+/**
+ * Chat completions message
+ */
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+}
+
+/**
+ * Provider for servers implementing the OpenAI chat completions API (vLLM, Ollama, LM Studio, ...)
+ *
+ * Tool definitions, tool calls and tool results are translated to and from function
+ * calling; streamed responses carry text only.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private options: OpenAICompatibleProviderOptions;
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    this.name = options.name || 'openai-compatible';
+    this.options = options;
+  }
+
+  /**
+   * Model used when none is selected; Claude model names mean nothing to these servers
+   */
+  get defaultModel(): string | undefined {
+    return this.options.model || process.env.OPENAI_COMPATIBLE_MODEL || undefined;
+  }
+
+  /**
+   * Send a chat completion request
+   */
+  async createMessage(params: MessageCreateParams, signal?: AbortSignal): Promise<Message> {
+    const response = await this.request({ ...toChatRequest(params), stream: false }, signal);
+    const completion = await response.json();
+
+    return fromChatCompletion(completion, params.model);
+  }
+
+  /**
+   * Stream a chat completion request
+   */
+  async streamMessage(
+    params: MessageCreateParams,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<Message> {
+    const response = await this.request(
+      { ...toChatRequest(params), stream: true, stream_options: { include_usage: true } },
+      signal
+    );
+
+    let fullText = '';
+    let finishReason: string | null = null;
+    let usage = { prompt_tokens: 0, completion_tokens: 0 };
+
+    for await (const data of readServerSentEvents(response.body!)) {
+      if (data === '[DONE]') {
+        break;
+      }
+
+      const chunk = JSON.parse(data);
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) {
+        fullText += text;
+        onChunk(text);
+      }
+      finishReason = chunk.choices?.[0]?.finish_reason ?? finishReason;
+      usage = chunk.usage ?? usage;
+    }
+
+    return fromChatCompletion(
+      {
+        id: `msg_${Date.now()}`,
+        choices: [{ message: { role: 'assistant', content: fullText }, finish_reason: finishReason }],
+        usage,
+      },
+      params.model
+    );
+  }
+
+  /**
+   * POST to the chat completions endpoint, throwing on error responses
+   */
+  private async request(body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    const baseUrl = (
+      this.options.baseUrl ||
+      process.env.OPENAI_COMPATIBLE_BASE_URL ||
+      DEFAULT_OPENAI_COMPATIBLE_BASE_URL
+    ).replace(/\/$/, '');
+    const apiKey = this.options.apiKey ?? process.env.OPENAI_COMPATIBLE_API_KEY;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      // Same shape as SDK errors so withRetry recognises retryable statuses
+      const error: any = new Error(
+        `${this.name} request failed with ${response.status}: ${await response.text()}`
+      );
+      error.status = response.status;
+      error.headers = response.headers;
+      throw error;
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Translate an Anthropic request to a chat completions request
+ */
+function toChatRequest(params: MessageCreateParams): Record<string, any> {
+  const messages: ChatMessage[] = [];
+
+  const system = typeof params.system === 'string'
+    ? params.system
+    : params.system?.map((block) => block.text).join('\n');
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+
+  for (const message of params.messages) {
+    if (typeof message.content === 'string') {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const text = message.content
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('\n');
+    const toolUses = message.content.filter((block: any) => block.type === 'tool_use') as any[];
+    const toolResults = message.content.filter((block: any) => block.type === 'tool_result') as any[];
+
+    // Tool results become one `tool` message each
+    for (const result of toolResults) {
+      messages.push({
+        role: 'tool',
+        tool_call_id: result.tool_use_id,
+        content: typeof result.content === 'string' ? result.content : JSON.stringify(result.content),
+      });
+    }
+
+    if (text || toolUses.length > 0) {
+      messages.push({
+        role: message.role,
+        content: text || null,
+        ...(toolUses.length > 0
+          ? {
+              tool_calls: toolUses.map((toolUse) => ({
+                id: toolUse.id,
+                type: 'function' as const,
+                function: { name: toolUse.name, arguments: JSON.stringify(toolUse.input) },
+              })),
+            }
+          : {}),
+      });
+    }
+  }
+
+  return {
+    model: params.model,
+    messages,
+    max_tokens: params.max_tokens,
+    temperature: params.temperature,
+    top_p: params.top_p,
+    stop: params.stop_sequences,
+    tools: params.tools?.map((tool: any) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+    })),
+  };
+}
+
+/**
+ * Translate a chat completion to an Anthropic message
+ */
+function fromChatCompletion(completion: any, model: string): Message {
+  const choice = completion.choices?.[0];
+  const content: any[] = [];
+
+  if (choice?.message?.content) {
+    content.push({ type: 'text', text: choice.message.content });
+  }
+
+  for (const toolCall of choice?.message?.tool_calls || []) {
+    content.push({
+      type: 'tool_use',
+      id: toolCall.id,
+      name: toolCall.function.name,
+      input: toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {},
+    });
+  }
+
+  const stopReasons: Record<string, Message['stop_reason']> = {
+    stop: 'end_turn',
+    length: 'max_tokens',
+    tool_calls: 'tool_use',
+    function_call: 'tool_use',
+  };
+
+  return {
+    id: completion.id || `msg_${Date.now()}`,
+    type: 'message',
+    role: 'assistant',
+    content,
+    model,
+    stop_reason: stopReasons[choice?.finish_reason] ?? 'end_turn',
+    stop_sequence: null,
+    usage: {
+      input_tokens: completion.usage?.prompt_tokens ?? 0,
+      output_tokens: completion.usage?.completion_tokens ?? 0,
+      cache_creation_input_tokens: null,
+      cache_read_input_tokens: null,
+    },
+  } as Message;
+}
+
+/**
+ * Yield the data of each server-sent event in a response body
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const bytes of body as any as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+
+      if (line.startsWith('data:')) {
+        yield line.slice(5).trim();
+      }
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Chunk of an agent's partial LLM output
+ */
+export interface AgentOutputDelta {
+  /** Text generated since the previous delta */
+  delta: string;
+  /** Length of the output before this delta */
+  offset: number;
+  /** True on the last delta of a generation */
+  done: boolean;
+}
+
+/**
+ * Default minimum time between published deltas (ms)
+ */
+export const DEFAULT_OUTPUT_INTERVAL_MS = 250;
+
+/**
+ * Default buffer size that triggers a publish before the interval elapses
+ */
+export const DEFAULT_OUTPUT_MAX_BUFFER = 4000;
+
+/**
+ * Output throttle options
+ */
+export interface OutputThrottleOptions {
+  intervalMs?: number;
+  maxBufferChars?: number;
+}
+
+/**
+ * Batches streamed LLM text into throttled output deltas
+ *
+ * Chunks are buffered and published at most once per interval, or as soon as the
+ * buffer grows past its limit. Publishes run one at a time so deltas arrive in order,
+ * and a failed publish is logged without interrupting the generation.
+ */
+export class OutputThrottle {
+  private publish: (delta: AgentOutputDelta) => Promise<void>;
+  private intervalMs: number;
+  private maxBufferChars: number;
+  private buffer = '';
+  private offset = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(publish: (delta: AgentOutputDelta) => Promise<void>, options: OutputThrottleOptions = {}) {
+    this.publish = publish;
+    this.intervalMs = options.intervalMs ?? DEFAULT_OUTPUT_INTERVAL_MS;
+    this.maxBufferChars = options.maxBufferChars ?? DEFAULT_OUTPUT_MAX_BUFFER;
+  }
+
+  /**
+   * Add a chunk of generated text
+   */
+  push(text: string): void {
+    if (!text) {
+      return;
+    }
+
+    this.buffer += text;
+
+    if (this.buffer.length >= this.maxBufferChars) {
+      this.flush(false);
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(false), this.intervalMs);
+    }
+  }
+
+  /**
+   * Publish the remaining text and mark the generation done
+   */
+  async finish(): Promise<void> {
+    this.flush(true);
+    await this.pending;
+  }
+
+  /**
+   * Queue the buffered text for publishing
+   */
+  private flush(done: boolean): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (!this.buffer && !done) {
+      return;
+    }
+
+    const delta: AgentOutputDelta = { delta: this.buffer, offset: this.offset, done };
+    this.offset += this.buffer.length;
+    this.buffer = '';
+
+    this.pending = this.pending
+      .then(() => this.publish(delta))
+      .catch((error) => {
+        console.error('[OutputThrottle] Failed to publish output delta:', error);
+      });
+  }
+}
+
+/**
+ * Create an output throttle
+ */
+export function createOutputThrottle(
+  publish: (delta: AgentOutputDelta) => Promise<void>,
+  options?: OutputThrottleOptions
+): OutputThrottle {
+  return new OutputThrottle(publish, options);
+}
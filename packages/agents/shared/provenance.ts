@@ -0,0 +1,195 @@
+// packages/agents/shared/provenance.ts
+import type { PrismaClient } from '@business-automation/database';
+import type { Finding, Provenance } from '@business-automation/schema';
+
+/**
+ * Output keys whose array items are artifacts tagged individually
+ */
+const ARTIFACT_COLLECTIONS = ['files', 'sections'] as const;
+
+/**
+ * Finding resolved to the agent execution responsible for its location
+ */
+export type ResolvedFinding = Finding & { responsibleAgent?: Provenance };
+
+/**
+ * Tag an agent output and its files/sections with the execution that produced them
+ *
+ * Items that already carry provenance (e.g. passed through from an upstream agent)
+ * keep it. Returns a tagged copy; non-object outputs are returned unchanged.
+ */
+export function tagProvenance<T>(output: T, provenance: Provenance): T {
+  if (!isPlainObject(output)) {
+    return output;
+  }
+
+  const tagged: Record<string, any> = {
+    ...output,
+    producedBy: (output as any).producedBy || provenance,
+  };
+
+  for (const key of ARTIFACT_COLLECTIONS) {
+    if (Array.isArray(tagged[key])) {
+      tagged[key] = tagged[key].map((item: any) =>
+        isPlainObject(item) && !item.producedBy ? { ...item, producedBy: provenance } : item
+      );
+    }
+  }
+
+  return tagged as T;
+}
+
+/**
+ * Index of artifact locations (files, routes, sections) to the executions that produced them
+ */
+export class ProvenanceIndex {
+  private files: Map<string, Provenance> = new Map();
+  private routes: Map<string, Provenance> = new Map();
+  private sections: Map<string, Provenance> = new Map();
+
+  /**
+   * Index an agent output
+   *
+   * Outputs should be added in execution order: a later producer of the same location
+   * (e.g. the page that renders a planned section) takes over responsibility for it.
+   */
+  add(output: any, owner: Provenance): void {
+    if (!isPlainObject(output)) {
+      return;
+    }
+
+    const producer: Provenance = output.producedBy || owner;
+
+    if (typeof output.route === 'string') {
+      this.routes.set(normalizeRoute(output.route), producer);
+    }
+
+    for (const file of Array.isArray(output.files) ? output.files : []) {
+      if (typeof file?.path === 'string') {
+        this.files.set(normalizePath(file.path), file.producedBy || producer);
+      }
+    }
+
+    for (const section of Array.isArray(output.sections) ? output.sections : []) {
+      if (typeof section?.id === 'string') {
+        this.sections.set(section.id, section.producedBy || producer);
+      }
+    }
+  }
+
+  /**
+   * Find the producer of a finding location (file, then section, then route)
+   */
+  resolve(location: Finding['location']): Provenance | undefined {
+    if (location.file) {
+      const file = normalizePath(location.file);
+      const exact = this.files.get(file);
+      if (exact) {
+        return exact;
+      }
+
+      // Findings may use absolute paths while artifacts use project-relative ones
+      for (const [path, provenance] of this.files) {
+        if (file.endsWith(`/${path}`) || path.endsWith(`/${file}`)) {
+          return provenance;
+        }
+      }
+    }
+
+    if (location.section && this.sections.has(location.section)) {
+      return this.sections.get(location.section);
+    }
+
+    if (location.route) {
+      return this.routes.get(normalizeRoute(location.route));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve every finding to its responsible agent
+   */
+  resolveFindings(findings: Finding[]): ResolvedFinding[] {
+    return findings.map((finding) => ({
+      ...finding,
+      responsibleAgent: finding.responsibleAgent || this.resolve(finding.location || {}),
+    }));
+  }
+
+  /**
+   * Number of indexed locations
+   */
+  get size(): number {
+    return this.files.size + this.routes.size + this.sections.size;
+  }
+}
+
+/**
+ * Create an empty provenance index
+ */
+export function createProvenanceIndex(): ProvenanceIndex {
+  return new ProvenanceIndex();
+}
+
+/**
+ * Build the provenance index of a workflow execution from its completed agent outputs
+ */
+export async function buildProvenanceIndex(
+  prisma: PrismaClient,
+  workflowExecutionId: string
+): Promise<ProvenanceIndex> {
+  const executions = await prisma.agentExecution.findMany({
+    where: { workflowExecutionId, status: 'COMPLETED' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, agentRole: true, output: true },
+  });
+
+  const index = createProvenanceIndex();
+
+  for (const execution of executions) {
+    index.add(execution.output, { agentExecutionId: execution.id, agentRole: execution.agentRole });
+  }
+
+  return index;
+}
+
+/**
+ * Pull findings out of an agent output (a Findings contract or an output wrapping one)
+ */
+export function extractFindings(output: any): Finding[] {
+  if (!isPlainObject(output)) {
+    return [];
+  }
+
+  if (Array.isArray(output.findings)) {
+    return output.findings;
+  }
+
+  if (Array.isArray(output.findings?.findings)) {
+    return output.findings.findings;
+  }
+
+  return [];
+}
+
+/**
+ * Compare paths without leading "./" or "/" and with forward slashes
+ */
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.?\/+/, '');
+}
+
+/**
+ * Compare routes without trailing slashes
+ */
+function normalizeRoute(route: string): string {
+  return route.length > 1 ? route.replace(/\/+$/, '') : route;
+}
+
+/**
+ * Check for a non-array object
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
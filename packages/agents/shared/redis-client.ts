@@ -83,7 +83,7 @@ class RedisClientManager {
   }
 
   /**
-   * Get Redis subscriber instance
+   * Get Redis subscriber instance (the dedicated connection of the stream reader's blocking reads)
    */
   public getSubscriber(): RedisClient {
     if (!this.subscriber) {
@@ -229,6 +229,32 @@ export async function releaseLock(
   return result === 1;
 }
 
+/**
+ * Extend a distributed lock that is still held
+ * Returns false if the lock expired or is now held by someone else
+ */
+export async function extendLock(
+  tenantId: string,
+  resourceId: string,
+  lockToken: string,
+  ttl: number
+): Promise<boolean> {
+  const client = getRedisClient();
+  const lockKey = getTenantKey(tenantId, `lock:${resourceId}`);
+
+  // Lua script to atomically check token and reset the expiry
+  const luaScript = `
+    if redis.call("get", KEYS[1]) == ARGV[1] then
+      return redis.call("pexpire", KEYS[1], ARGV[2])
+    else
+      return 0
+    end
+  `;
+
+  const result = await client.eval(luaScript, 1, lockKey, lockToken, ttl);
+  return result === 1;
+}
+
 /**
  * Execute a function with a distributed lock
  */
@@ -259,13 +285,24 @@ export interface StreamMessage {
   data: Record<string, string>;
 }
 
+/**
+ * Retention of a Redis stream
+ */
+export interface StreamRetention {
+  /** Approximate number of messages kept (older ones are trimmed) */
+  maxLength?: number;
+  /** Seconds the stream lives after its last message */
+  ttlSeconds?: number;
+}
+
 /**
  * Publish event to Redis stream
  */
 export async function publishToStream(
   tenantId: string,
   streamName: string,
-  data: Record<string, any>
+  data: Record<string, any>,
+  retention: StreamRetention = {}
 ): Promise<string> {
   const client = getRedisClient();
   const streamKey = getTenantKey(tenantId, `stream:${streamName}`);
@@ -276,9 +313,18 @@ export async function publishToStream(
     stringData[key] = typeof value === 'string' ? value : JSON.stringify(value);
   }
 
+  const fields = Object.entries(stringData).flat();
+
   // Add to stream with auto-generated ID
-  const messageId = await client.xadd(streamKey, '*', ...Object.entries(stringData).flat());
-  return messageId;
+  const messageId = retention.maxLength
+    ? await client.xadd(streamKey, 'MAXLEN', '~', retention.maxLength, '*', ...fields)
+    : await client.xadd(streamKey, '*', ...fields);
+
+  if (retention.ttlSeconds) {
+    await client.expire(streamKey, retention.ttlSeconds);
+  }
+
+  return messageId!;
 }
 
 /**
@@ -306,11 +352,7 @@ export async function readFromStream(
   const messages: StreamMessage[] = [];
   for (const [, streamMessages] of result) {
     for (const [id, fields] of streamMessages) {
-      const data: Record<string, string> = {};
-      for (let i = 0; i < fields.length; i += 2) {
-        data[fields[i]] = fields[i + 1];
-      }
-      messages.push({ id, data });
+      messages.push({ id, data: toStreamData(fields) });
     }
   }
 
@@ -318,28 +360,111 @@ export async function readFromStream(
 }
 
 /**
- * Subscribe to Redis stream and process messages
+ * Get the ID of the newest message in a Redis stream ('0' when empty)
  */
-export async function subscribeToStream(
-  tenantId: string,
-  streamName: string,
-  handler: (message: StreamMessage) => Promise<void>,
-  options: { lastId?: string; pollInterval?: number } = {}
-): Promise<() => void> {
-  const lastId = options.lastId ?? '$'; // $ means only new messages
-  const pollInterval = options.pollInterval ?? 1000;
+export async function getStreamLastId(tenantId: string, streamName: string): Promise<string> {
+  const client = getRedisClient();
+  const streamKey = getTenantKey(tenantId, `stream:${streamName}`);
 
-  let currentId = lastId;
-  let isRunning = true;
+  const result = await client.xrevrange(streamKey, '+', '-', 'COUNT', 1);
+  return result.length > 0 ? result[0]![0] : '0';
+}
 
-  const poll = async () => {
-    while (isRunning) {
-      try {
-        const messages = await readFromStream(tenantId, streamName, currentId, 10, pollInterval);
+/**
+ * Stream reader options
+ */
+export interface StreamReaderOptions {
+  /** How long one XREAD blocks waiting for messages (ms) */
+  blockMs?: number;
+  /** Messages read per stream per XREAD */
+  count?: number;
+}
+
+/**
+ * Subscriber of a stream served by a StreamReader
+ */
+interface StreamSubscription {
+  streamKey: string;
+  /** ID of the last message handed to the handler */
+  cursor: string;
+  handler: (message: StreamMessage) => Promise<void>;
+  pending: Promise<void>;
+}
 
-        for (const message of messages) {
-          await handler(message);
-          currentId = message.id;
+/**
+ * Reads every subscribed stream of the process with a single blocking XREAD
+ *
+ * Each stream is read from the oldest cursor of its subscribers and messages are fanned
+ * out to the subscribers that haven't seen them. A subscriber's handlers run in order,
+ * without holding up the read loop or other subscribers; a failing handler is logged and
+ * the message is not redelivered. A stream subscribed during a
+ * blocking read is picked up when that read returns.
+ */
+export class StreamReader {
+  private getConnection: () => Pick<RedisClient, 'xread'>;
+  private blockMs: number;
+  private count: number;
+  private subscriptions = new Set<StreamSubscription>();
+  private running = false;
+
+  constructor(getConnection: () => Pick<RedisClient, 'xread'>, options: StreamReaderOptions = {}) {
+    this.getConnection = getConnection;
+    this.blockMs = options.blockMs ?? 1000;
+    this.count = options.count ?? 100;
+  }
+
+  /**
+   * Deliver messages of a stream after `lastId`, returning an unsubscribe function
+   */
+  subscribe(streamKey: string, lastId: string, handler: (message: StreamMessage) => Promise<void>): () => void {
+    const subscription: StreamSubscription = { streamKey, cursor: lastId, handler, pending: Promise.resolve() };
+    this.subscriptions.add(subscription);
+
+    if (!this.running) {
+      this.running = true;
+      void this.poll();
+    }
+
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Number of active subscriptions
+   */
+  getSubscriptionCount(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Read until nobody is subscribed
+   */
+  private async poll(): Promise<void> {
+    while (this.subscriptions.size > 0) {
+      const cursors = new Map<string, string>();
+      for (const subscription of this.subscriptions) {
+        const cursor = cursors.get(subscription.streamKey);
+        if (cursor === undefined || compareStreamIds(subscription.cursor, cursor) < 0) {
+          cursors.set(subscription.streamKey, subscription.cursor);
+        }
+      }
+
+      try {
+        const result = await this.getConnection().xread(
+          'COUNT',
+          this.count,
+          'BLOCK',
+          this.blockMs,
+          'STREAMS',
+          ...cursors.keys(),
+          ...cursors.values()
+        );
+
+        for (const [streamKey, streamMessages] of result || []) {
+          for (const [id, fields] of streamMessages) {
+            this.dispatch(streamKey, { id, data: toStreamData(fields) });
+          }
         }
       } catch (error) {
         console.error('[Redis] Stream subscription error:', error);
@@ -347,15 +472,79 @@ export async function subscribeToStream(
         await new Promise((resolve) => setTimeout(resolve, 1000));
       }
     }
-  };
 
-  // Start polling in background
-  poll();
+    this.running = false;
+  }
+
+  /**
+   * Queue a message for the subscribers of its stream that haven't seen it
+   */
+  private dispatch(streamKey: string, message: StreamMessage): void {
+    for (const subscription of this.subscriptions) {
+      if (subscription.streamKey !== streamKey || compareStreamIds(message.id, subscription.cursor) <= 0) {
+        continue;
+      }
+
+      subscription.cursor = message.id;
+      subscription.pending = subscription.pending
+        .then(() => (this.subscriptions.has(subscription) ? subscription.handler(message) : undefined))
+        .catch((error) => {
+          console.error('[Redis] Stream handler error:', error);
+        });
+    }
+  }
+}
 
-  // Return unsubscribe function
-  return () => {
-    isRunning = false;
-  };
+let streamReader: StreamReader | null = null;
+
+/**
+ * Get the process-wide stream reader (reads on the dedicated subscriber connection)
+ */
+export function getStreamReader(): StreamReader {
+  if (!streamReader) {
+    streamReader = new StreamReader(() => getRedisSubscriber());
+  }
+  return streamReader;
+}
+
+/**
+ * Subscribe to Redis stream and process messages
+ *
+ * Served by the shared stream reader, so subscribers don't each hold a blocking read.
+ */
+export async function subscribeToStream(
+  tenantId: string,
+  streamName: string,
+  handler: (message: StreamMessage) => Promise<void>,
+  options: { lastId?: string } = {}
+): Promise<() => void> {
+  // $ means only new messages; resolved here since subscribers share one read
+  const lastId =
+    options.lastId === undefined || options.lastId === '$'
+      ? await getStreamLastId(tenantId, streamName)
+      : options.lastId;
+
+  return getStreamReader().subscribe(getTenantKey(tenantId, `stream:${streamName}`), lastId, handler);
+}
+
+/**
+ * Compare two stream message IDs ("<ms>-<seq>", or "<ms>")
+ */
+function compareStreamIds(a: string, b: string): number {
+  const [aMs = 0, aSeq = 0] = a.split('-').map(Number);
+  const [bMs = 0, bSeq = 0] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+}
+
+/**
+ * Convert a stream message's flat field list to a record
+ */
+function toStreamData(fields: string[]): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    data[fields[i]!] = fields[i + 1]!;
+  }
+  return data;
 }
 
 /**
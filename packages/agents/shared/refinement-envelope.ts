@@ -0,0 +1,228 @@
+// packages/agents/shared/refinement-envelope.ts
+import type { ResolvedFinding } from './provenance';
+
+/**
+ * Keys that describe where an output came from rather than what it contains
+ */
+const METADATA_KEYS = new Set(['producedBy', 'revision']);
+
+/**
+ * Keys used to line up array items between two outputs
+ */
+const IDENTITY_KEYS = ['path', 'id', 'route'] as const;
+
+/**
+ * Change in a quality dimension score since the previous evaluation
+ */
+export interface ScoreDelta {
+  dimension: string;
+  score: number;
+  previousScore?: number;
+  delta?: number;
+  threshold?: number;
+}
+
+/**
+ * Standard input envelope for agents re-run by a refinement iteration
+ *
+ * Passed as `input.refinement`. Agents that opt in revise `previousOutput` against
+ * the findings and instructions instead of generating from scratch.
+ */
+export interface RefinementEnvelope {
+  iteration: number;
+  /** Execution that produced the previous output (one per instance for fan-out agents) */
+  previousExecutionId?: string | string[];
+  /** Previous output (an array of instance outputs for fan-out agents) */
+  previousOutput?: any;
+  /** Findings traced to this agent's artifacts */
+  findings: ResolvedFinding[];
+  /** Refinement instructions from the latest website evaluation */
+  instructions: string[];
+  scoreDeltas: ScoreDelta[];
+}
+
+/**
+ * Single change between two outputs, addressed by a dotted path
+ */
+export interface OutputChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+/**
+ * Changes an agent made to its previous output during a refinement iteration
+ */
+export interface OutputRevision {
+  iteration: number;
+  previousExecutionId?: string | string[];
+  changes: OutputChange[];
+}
+
+/**
+ * Check for a refinement envelope in agent input
+ */
+export function isRefinementEnvelope(value: any): value is RefinementEnvelope {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof value.iteration === 'number' &&
+    Array.isArray(value.findings) &&
+    Array.isArray(value.instructions) &&
+    Array.isArray(value.scoreDeltas)
+  );
+}
+
+/**
+ * Build the prompt section asking the model to revise its previous output
+ */
+export function buildRefinementPrompt(
+  envelope: RefinementEnvelope,
+  previousOutput: any = envelope.previousOutput
+): string {
+  let prompt = `## Revision Request (iteration ${envelope.iteration})\n`;
+  prompt += `Quality review found problems with your previous output. Revise it rather than starting over: `;
+  prompt += `fix the issues below, keep everything they don't touch unchanged, and return the complete `;
+  prompt += `revised output in the same format.\n\n`;
+
+  if (previousOutput !== undefined) {
+    prompt += `### Previous Output\n\`\`\`json\n${JSON.stringify(stripMetadata(previousOutput), null, 2)}\n\`\`\`\n\n`;
+  }
+
+  if (envelope.findings.length > 0) {
+    prompt += `### Findings\n`;
+    for (const finding of envelope.findings) {
+      const location = formatLocation(finding.location);
+      prompt += `- [${finding.severity}] ${finding.message}${location ? ` (${location})` : ''}\n`;
+      if (finding.suggestion) {
+        prompt += `  Suggestion: ${finding.suggestion}\n`;
+      }
+    }
+    prompt += `\n`;
+  }
+
+  if (envelope.instructions.length > 0) {
+    prompt += `### Reviewer Instructions\n`;
+    envelope.instructions.forEach((instruction) => {
+      prompt += `- ${instruction}\n`;
+    });
+    prompt += `\n`;
+  }
+
+  if (envelope.scoreDeltas.length > 0) {
+    prompt += `### Quality Scores\n`;
+    for (const delta of envelope.scoreDeltas) {
+      const change =
+        delta.delta !== undefined ? ` (${delta.delta >= 0 ? '+' : ''}${delta.delta.toFixed(2)})` : '';
+      const target = delta.threshold !== undefined ? `, target ${delta.threshold.toFixed(2)}` : '';
+      prompt += `- ${delta.dimension}: ${delta.score.toFixed(2)}${change}${target}\n`;
+    }
+    prompt += `\n`;
+  }
+
+  return prompt;
+}
+
+/**
+ * Diff two outputs
+ *
+ * Arrays of objects are matched by `path`, `id` or `route` when every item has one,
+ * otherwise by position. Provenance and revision metadata are ignored.
+ */
+export function diffOutputs(before: any, after: any, path = ''): OutputChange[] {
+  if (before === undefined && after === undefined) {
+    return [];
+  }
+
+  if (before === undefined) {
+    return [{ path, type: 'added', after }];
+  }
+
+  if (after === undefined) {
+    return [{ path, type: 'removed', before }];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const key = identityKey(before, after);
+
+    if (key) {
+      const beforeById = new Map(before.map((item) => [item[key], item]));
+      const afterById = new Map(after.map((item) => [item[key], item]));
+      const ids = Array.from(new Set([...beforeById.keys(), ...afterById.keys()]));
+
+      return ids.flatMap((id) => diffOutputs(beforeById.get(id), afterById.get(id), `${path}[${key}=${id}]`));
+    }
+
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, i) => diffOutputs(before[i], after[i], `${path}[${i}]`)).flat();
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+      (key) => !METADATA_KEYS.has(key)
+    );
+
+    return keys.flatMap((key) => diffOutputs(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, type: 'changed', before, after }];
+}
+
+/**
+ * Key shared by every object item of both arrays, if any
+ */
+function identityKey(before: any[], after: any[]): string | undefined {
+  const items = [...before, ...after];
+
+  if (items.length === 0 || !items.every(isObject)) {
+    return undefined;
+  }
+
+  return IDENTITY_KEYS.find((key) => items.every((item) => typeof item[key] === 'string'));
+}
+
+/**
+ * Drop provenance and revision metadata before showing an output to the model
+ */
+function stripMetadata(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(stripMetadata);
+  }
+
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !METADATA_KEYS.has(key))
+        .map(([key, item]) => [key, stripMetadata(item)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Human-readable finding location
+ */
+function formatLocation(location: ResolvedFinding['location']): string {
+  const parts = [];
+
+  if (location?.file) {
+    parts.push(location.line ? `${location.file}:${location.line}` : location.file);
+  }
+  if (location?.section) {
+    parts.push(`section ${location.section}`);
+  }
+  if (location?.route) {
+    parts.push(`route ${location.route}`);
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * Check for a non-array object
+ */
+function isObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
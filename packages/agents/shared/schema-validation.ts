@@ -0,0 +1,148 @@
+import type { ZodError, ZodSchema } from 'zod';
+
+/**
+ * How many times the model is asked to repair output that fails its schema
+ */
+export const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Issues listed in validation error messages and repair prompts
+ */
+const MAX_LISTED_ISSUES = 20;
+
+/**
+ * Whether agent input or output failed validation
+ */
+export type ValidationStage = 'input' | 'output';
+
+/**
+ * A single schema violation
+ */
+export interface ValidationIssue {
+  /** Dotted path to the offending field (empty for the root) */
+  path: string;
+  code: string;
+  message: string;
+}
+
+/**
+ * Agent input or output that does not match its manifest schema
+ */
+export class AgentValidationError extends Error {
+  readonly stage: ValidationStage;
+  readonly issues: ValidationIssue[];
+
+  constructor(stage: ValidationStage, issues: ValidationIssue[]) {
+    super(`${stage === 'input' ? 'Input' : 'Output'} failed schema validation: ${formatValidationIssues(issues)}`);
+    this.name = 'AgentValidationError';
+    this.stage = stage;
+    this.issues = issues;
+  }
+
+  /**
+   * Structured form stored on AgentExecution.error
+   */
+  toJSON(): { type: 'validation'; stage: ValidationStage; message: string; issues: ValidationIssue[] } {
+    return {
+      type: 'validation',
+      stage: this.stage,
+      message: this.message,
+      issues: this.issues,
+    };
+  }
+}
+
+/**
+ * Convert a Zod error to validation issues
+ */
+export function toValidationIssues(error: ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    code: issue.code,
+    message: issue.message,
+  }));
+}
+
+/**
+ * Format validation issues as a single line
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  const listed = issues
+    .slice(0, MAX_LISTED_ISSUES)
+    .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+
+  if (issues.length > MAX_LISTED_ISSUES) {
+    listed.push(`and ${issues.length - MAX_LISTED_ISSUES} more`);
+  }
+
+  return listed.join('; ');
+}
+
+/**
+ * Validate a value against an agent schema
+ *
+ * Returns the parsed value; throws an AgentValidationError listing every issue.
+ * Agents whose manifest declares no schema get the value back unchecked.
+ */
+export function validateAgentSchema<T>(
+  schema: ZodSchema | undefined,
+  value: unknown,
+  stage: ValidationStage
+): T {
+  if (!schema) {
+    return value as T;
+  }
+
+  const result = schema.safeParse(value);
+
+  if (!result.success) {
+    throw new AgentValidationError(stage, toValidationIssues(result.error));
+  }
+
+  return result.data as T;
+}
+
+/**
+ * Extract the JSON value from a model response
+ *
+ * Accepts bare JSON, JSON in a markdown code fence, or JSON surrounded by prose.
+ */
+export function extractJson(text: string): unknown {
+  let jsonText = text.trim();
+
+  const fenced = jsonText.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+  if (fenced) {
+    jsonText = fenced[1]!.trim();
+  } else if (!jsonText.startsWith('{') && !jsonText.startsWith('[')) {
+    const start = jsonText.indexOf('{');
+    const end = jsonText.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      jsonText = jsonText.slice(start, end + 1);
+    }
+  }
+
+  try {
+    return JSON.parse(jsonText);
+  } catch (error: any) {
+    throw new AgentValidationError('output', [
+      { path: '', code: 'invalid_json', message: `Response is not valid JSON (${error.message})` },
+    ]);
+  }
+}
+
+/**
+ * Build the message asking the model to fix output that failed validation
+ */
+export function buildRepairPrompt(issues: ValidationIssue[]): string {
+  const listed = issues
+    .slice(0, MAX_LISTED_ISSUES)
+    .map((issue) => `- ${issue.path || '(root)'}: ${issue.message}`)
+    .join('\n');
+
+  return `Your previous response failed schema validation:
+
+${listed}${issues.length > MAX_LISTED_ISSUES ? `\n- ...and ${issues.length - MAX_LISTED_ISSUES} more` : ''}
+
+Return the complete corrected JSON object. Keep everything that was valid unchanged.
+Return ONLY the JSON object, without markdown code fences or any other text.`;
+}
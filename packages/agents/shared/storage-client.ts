@@ -178,6 +178,8 @@ export interface UploadOptions {
   metadata?: Record<string, string>;
   cacheControl?: string;
   expires?: Date;
+  /** Aborts the upload */
+  signal?: AbortSignal;
 }
 
 /**
@@ -206,7 +208,7 @@ export async function uploadFile(
   };
 
   const command = new PutObjectCommand(params);
-  await client.send(command);
+  await client.send(command, { abortSignal: options.signal });
 
   return key;
 }
@@ -551,12 +553,17 @@ export async function batchDelete(keys: string[]): Promise<void> {
 /**
  * Copy file within storage
  */
-export async function copyFile(sourceKey: string, destinationKey: string): Promise<void> {
+export async function copyFile(
+  sourceKey: string,
+  destinationKey: string,
+  options: Pick<UploadOptions, 'signal'> = {}
+): Promise<void> {
   const content = await downloadFile(sourceKey);
   const metadata = await getFileMetadata(sourceKey);
 
   await uploadFile(destinationKey, content, {
     contentType: metadata?.contentType,
     metadata: metadata?.metadata,
+    signal: options.signal,
   });
 }
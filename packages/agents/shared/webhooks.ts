@@ -0,0 +1,645 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+import type {
+  PrismaClient,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookFormat,
+} from '@business-automation/database';
+
+/**
+ * Events tenants can subscribe webhook endpoints to
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'workflow.started',
+  'workflow.completed',
+  'workflow.failed',
+  'workflow.cancelled',
+  'agent.failed',
+  'refinement.decision',
+  'approval.requested',
+  'budget.approaching',
+  'budget.exceeded',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Signature, timestamp, event and delivery headers sent with every delivery
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+/**
+ * Attempts made before a delivery is marked failed
+ */
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+/**
+ * Time an endpoint has to respond (ms)
+ */
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Delay before the first retry, doubled on each further attempt (ms)
+ */
+const RETRY_BASE_DELAY_MS = 30000;
+
+/**
+ * Longest delay between two attempts (ms)
+ */
+const RETRY_MAX_DELAY_MS = 3600000;
+
+/**
+ * Time after which the retry job picks up a delivery that was never attempted,
+ * or whose attempt never recorded a result (ms)
+ */
+const DELIVERY_LEASE_MS = 60000;
+
+/**
+ * Response body characters kept on a delivery
+ */
+const RESPONSE_BODY_LIMIT = 2000;
+
+/**
+ * How long a tenant's endpoints are cached by the dispatcher (ms)
+ */
+const ENDPOINT_CACHE_TTL_MS = 60000;
+
+/**
+ * Addresses webhooks may not be sent to: loopback, private, link-local, shared,
+ * reserved and multicast ranges (IPv4-mapped IPv6 addresses are checked against the IPv4 ranges)
+ */
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Resolves a hostname to all of its addresses
+ */
+export type WebhookHostResolver = (hostname: string) => Promise<string[]>;
+
+const resolveHost: WebhookHostResolver = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not public
+ */
+export function isInternalAddress(address: string): boolean {
+  const family = isIP(address);
+  return family === 0 || INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Webhook URL that may not be delivered to
+ */
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+/**
+ * Check that a webhook URL is https and its host resolves only to public addresses
+ *
+ * Returns the checked addresses. Throws a WebhookUrlError when the URL fails; resolver errors
+ * are passed through. Run when an endpoint is registered and again before every delivery,
+ * since DNS can change in between.
+ */
+export async function assertPublicWebhookUrl(
+  url: string,
+  resolve: WebhookHostResolver = resolveHost
+): Promise<string[]> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookUrlError('Webhook URL is not a valid URL');
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new WebhookUrlError('Webhook URL must use https');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(hostname) ? [hostname] : await resolve(hostname);
+
+  if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+    throw new WebhookUrlError(`Webhook host ${hostname} resolves to an internal address`);
+  }
+
+  return addresses;
+}
+
+/**
+ * DNS lookup answering with already checked addresses only
+ *
+ * Delivering through it means a record that changes after the check (DNS rebinding) can't
+ * point the request at an internal host. The Host header and TLS SNI keep the URL's hostname.
+ */
+export function createPinnedLookup(addresses: string[]): LookupFunction {
+  const entries = addresses.map((address) => ({ address, family: isIP(address) }));
+
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0]!.address, entries[0]!.family);
+    }
+  };
+}
+
+/**
+ * Event payload sent to generic endpoints and stored on each delivery
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  tenantId: string;
+  timestamp: string;
+  workflowExecutionId?: string;
+  agentRole?: string;
+  agentExecutionId?: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Event as passed to the dispatcher; id and timestamp are filled in when missing
+ */
+export type WebhookEventInput = Omit<WebhookEvent, 'id' | 'timestamp'> &
+  Partial<Pick<WebhookEvent, 'id' | 'timestamp'>>;
+
+/**
+ * Converts an event to the request body of an endpoint format
+ */
+export type WebhookFormatter = (event: WebhookEvent) => Record<string, any>;
+
+/**
+ * Whether an event type can trigger webhooks
+ */
+export function isWebhookEventType(type: string): type is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Whether an endpoint's event filter includes an event type (an empty filter matches all)
+ */
+export function matchesEventFilter(eventTypes: string[], type: string): boolean {
+  return eventTypes.length === 0 || eventTypes.includes(type);
+}
+
+/**
+ * Sign a request body as `sha256=<hex>` of `<timestamp>.<body>`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Verify a delivery signature, rejecting timestamps outside the tolerance (seconds)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = 300
+): boolean {
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Generate an endpoint signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Delay before the next attempt, after the given number of attempts (ms)
+ */
+export function getWebhookRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Whether a failed response is worth retrying (timeouts, rate limits and server errors)
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Title, detail lines and outcome of an event, for chat presets
+ */
+function describeEvent(event: WebhookEvent): {
+  title: string;
+  lines: string[];
+  outcome: 'success' | 'failure' | 'warning' | 'info';
+} {
+  const { data } = event;
+  const workflow = event.workflowExecutionId ? [`Workflow: ${event.workflowExecutionId}`] : [];
+
+  switch (event.type) {
+    case 'workflow.started':
+      return { title: 'Workflow started', lines: workflow, outcome: 'info' };
+    case 'workflow.completed':
+      return {
+        title: 'Workflow completed',
+        lines: [
+          ...workflow,
+          ...(data.totalAgents !== undefined ? [`Agents: ${data.completedAgents}/${data.totalAgents} completed`] : []),
+          ...(data.iterations !== undefined ? [`Iterations: ${data.iterations}`] : []),
+        ],
+        outcome: 'success',
+      };
+    case 'workflow.failed':
+      return {
+        title: 'Workflow failed',
+        lines: [
+          ...workflow,
+          data.error ? `Error: ${data.error}` : `Failed agents: ${data.failedAgents ?? 'unknown'}`,
+        ],
+        outcome: 'failure',
+      };
+    case 'workflow.cancelled':
+      return { title: 'Workflow cancelled', lines: workflow, outcome: 'warning' };
+    case 'agent.failed':
+      return {
+        title: event.agentRole ? `Agent ${event.agentRole} failed` : 'Agent failed',
+        lines: [...workflow, `Error: ${data.error ?? 'unknown'}`],
+        outcome: 'failure',
+      };
+    case 'refinement.decision':
+      return {
+        title: `Refinement: ${data.decision ?? 'decided'}`,
+        lines: [
+          ...workflow,
+          ...(data.iteration !== undefined ? [`Iteration: ${data.iteration}`] : []),
+          ...(data.reason ? [`Reason: ${data.reason}`] : []),
+        ],
+        outcome: 'info',
+      };
+    case 'approval.requested':
+      return {
+        title: `Approval requested: ${data.gate ?? 'review'}`,
+        lines: [...workflow, ...(data.projectId ? [`Project: ${data.projectId}`] : [])],
+        outcome: 'warning',
+      };
+    case 'budget.approaching':
+    case 'budget.exceeded':
+      return {
+        title: event.type === 'budget.exceeded' ? 'Budget exceeded' : 'Budget limit approaching',
+        lines: [
+          `Used: $${Number(data.usedUsd ?? 0).toFixed(2)} of $${Number(data.limitUsd ?? 0).toFixed(2)}`,
+          `Percent used: ${Number(data.percentUsed ?? 0).toFixed(1)}%`,
+        ],
+        outcome: event.type === 'budget.exceeded' ? 'failure' : 'warning',
+      };
+  }
+}
+
+/**
+ * Discord embed colors by outcome
+ */
+const DISCORD_COLORS = {
+  success: 0x22c55e,
+  failure: 0xef4444,
+  warning: 0xf59e0b,
+  info: 0x3b82f6,
+};
+
+/**
+ * Request body formatters by endpoint format
+ */
+export const WEBHOOK_FORMATTERS: Record<WebhookFormat, WebhookFormatter> = {
+  GENERIC: (event) => event,
+
+  SLACK: (event) => {
+    const { title, lines } = describeEvent(event);
+    return { text: [`*${title}*`, ...lines].join('\n') };
+  },
+
+  DISCORD: (event) => {
+    const { title, lines, outcome } = describeEvent(event);
+    return {
+      embeds: [
+        {
+          title,
+          description: lines.join('\n'),
+          color: DISCORD_COLORS[outcome],
+          timestamp: event.timestamp,
+        },
+      ],
+    };
+  },
+};
+
+/**
+ * Webhook dispatcher options
+ */
+export interface WebhookDispatcherOptions {
+  /** Resolves endpoint hosts before each attempt (defaults to DNS) */
+  resolveHost?: WebhookHostResolver;
+}
+
+/**
+ * Webhook Dispatcher - Deliver workflow events to tenant endpoints
+ *
+ * Each matching endpoint gets a delivery row, which is attempted right away and
+ * retried with exponential backoff by the retry job until it succeeds or runs out
+ * of attempts. Every attempt records the response status and duration. Endpoints
+ * that stop resolving to a public address fail without being contacted, and
+ * redirects are not followed.
+ */
+export class WebhookDispatcher {
+  private prisma: PrismaClient;
+  private resolveHost: WebhookHostResolver;
+  private endpointCache: Map<string, { endpoints: WebhookEndpoint[]; expiresAt: number }> = new Map();
+
+  constructor(prisma: PrismaClient, options: WebhookDispatcherOptions = {}) {
+    this.prisma = prisma;
+    this.resolveHost = options.resolveHost ?? resolveHost;
+  }
+
+  /**
+   * Create deliveries for an event and attempt them in the background
+   */
+  async dispatch(input: WebhookEventInput): Promise<WebhookDelivery[]> {
+    if (!isWebhookEventType(input.type)) {
+      return [];
+    }
+
+    const endpoints = (await this.getEndpoints(input.tenantId)).filter((endpoint) =>
+      matchesEventFilter(endpoint.eventTypes, input.type)
+    );
+
+    if (endpoints.length === 0) {
+      return [];
+    }
+
+    const event: WebhookEvent = {
+      ...input,
+      id: input.id || randomUUID(),
+      timestamp: input.timestamp || new Date().toISOString(),
+    };
+
+    const deliveries = await Promise.all(
+      endpoints.map((endpoint) =>
+        this.prisma.webhookDelivery.create({
+          data: {
+            tenantId: event.tenantId,
+            endpointId: endpoint.id,
+            eventType: event.type,
+            payload: event as any,
+            nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+          },
+        })
+      )
+    );
+
+    for (const delivery of deliveries) {
+      this.deliver(delivery.id).catch((error) => {
+        console.error(`[WebhookDispatcher] Delivery ${delivery.id} failed:`, error);
+      });
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Attempt a pending delivery once and record the outcome
+   *
+   * The attempt is claimed first so the inline attempt and the retry job never
+   * send the same delivery twice.
+   */
+  async deliver(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true },
+    });
+
+    if (!delivery) {
+      throw new Error(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    if (delivery.status !== 'PENDING' && delivery.status !== 'RETRYING') {
+      return delivery;
+    }
+
+    const claimed = await this.prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: delivery.status, attempts: delivery.attempts },
+      data: {
+        attempts: { increment: 1 },
+        nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+      },
+    });
+
+    if (claimed.count === 0) {
+      return delivery;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const { endpoint } = delivery;
+
+    if (!endpoint.enabled) {
+      return this.prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: 'FAILED', error: 'Endpoint disabled', nextAttemptAt: null },
+      });
+    }
+
+    const event = delivery.payload as unknown as WebhookEvent;
+    const body = JSON.stringify(WEBHOOK_FORMATTERS[endpoint.format](event));
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+    let blocked = false;
+
+    let dispatcher: Agent | undefined;
+
+    try {
+      const addresses = await assertPublicWebhookUrl(endpoint.url, this.resolveHost);
+      // Connect to the addresses just checked rather than resolving the host again
+      dispatcher = new Agent({ connect: { lookup: createPinnedLookup(addresses) } });
+
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SkillsLib-Webhooks/1.0',
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_EVENT_HEADER]: event.type,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        },
+        body,
+        // A redirect could point at an internal host
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        dispatcher,
+        // The undici Agent type differs from the Dispatcher type of Node's bundled fetch
+      } as RequestInit);
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (err: any) {
+      blocked = err instanceof WebhookUrlError;
+      error = err.name === 'TimeoutError' ? `Timed out after ${WEBHOOK_TIMEOUT_MS}ms` : err.message;
+    } finally {
+      await dispatcher?.destroy();
+    }
+
+    const succeeded = error === null;
+    const retry =
+      !succeeded &&
+      !blocked &&
+      attempts < MAX_WEBHOOK_ATTEMPTS &&
+      (responseStatus === null || isRetryableStatus(responseStatus));
+
+    if (!succeeded) {
+      console.warn(
+        `[WebhookDispatcher] Delivery ${delivery.id} to ${endpoint.name} failed (attempt ${attempts}): ${error}`
+      );
+    }
+
+    return this.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: succeeded ? 'SUCCEEDED' : retry ? 'RETRYING' : 'FAILED',
+        responseStatus,
+        responseBody,
+        error,
+        durationMs: Date.now() - startTime,
+        deliveredAt: succeeded ? new Date() : null,
+        nextAttemptAt: retry ? new Date(Date.now() + getWebhookRetryDelay(attempts)) : null,
+      },
+    });
+  }
+
+  /**
+   * Send a delivery's event again as a new delivery
+   */
+  async redeliver(tenantId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const original = await this.prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, tenantId },
+    });
+
+    if (!original) {
+      throw new Error(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        tenantId,
+        endpointId: original.endpointId,
+        eventType: original.eventType,
+        payload: original.payload as any,
+        redeliveryOf: original.id,
+        nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+      },
+    });
+
+    return this.deliver(delivery.id);
+  }
+
+  /**
+   * Attempt deliveries whose retry is due, returning how many were attempted
+   */
+  async retryDue(limit: number = 50): Promise<number> {
+    const due = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: { in: ['PENDING', 'RETRYING'] },
+        nextAttemptAt: { lte: new Date() },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    for (const { id } of due) {
+      try {
+        await this.deliver(id);
+      } catch (error) {
+        console.error(`[WebhookDispatcher] Retry of delivery ${id} failed:`, error);
+      }
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Drop a tenant's cached endpoints after they change
+   */
+  invalidate(tenantId: string): void {
+    this.endpointCache.delete(tenantId);
+  }
+
+  /**
+   * Get a tenant's enabled endpoints, cached briefly since most events match none
+   */
+  private async getEndpoints(tenantId: string): Promise<WebhookEndpoint[]> {
+    const cached = this.endpointCache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.endpoints;
+    }
+
+    const endpoints = await this.prisma.webhookEndpoint.findMany({
+      where: { tenantId, enabled: true },
+    });
+
+    this.endpointCache.set(tenantId, { endpoints, expiresAt: Date.now() + ENDPOINT_CACHE_TTL_MS });
+
+    return endpoints;
+  }
+}
+
+/**
+ * Create webhook dispatcher instance
+ */
+export function createWebhookDispatcher(
+  prisma: PrismaClient,
+  options?: WebhookDispatcherOptions
+): WebhookDispatcher {
+  return new WebhookDispatcher(prisma, options);
+}
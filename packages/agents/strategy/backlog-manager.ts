@@ -101,7 +101,6 @@ For contractor websites specifically:
     super(context, {
       enableMCP: true,
       mcpServers: ['filesystem', 'memory'],
-      model: 'claude-3-5-sonnet-20241022',
       temperature: 0.5,
       maxTokens: 16384,
     });
@@ -119,9 +118,6 @@ For contractor websites specifically:
    * Execute the Backlog Manager Agent
    */
   protected async execute(input: BacklogManagerInput): Promise<AgentResult> {
-    // Validate input
-    BacklogManagerInputSchema.parse(input);
-
     await this.logProgress('Loading specifications...', 10);
 
     // Load all specs
@@ -138,15 +134,13 @@ For contractor websites specifically:
     await this.logProgress('Generating work queue...', 60);
 
     // Call Claude
-    const response = await this.sendMessageWithTools(
-      [{ role: 'user', content: userPrompt }],
-      systemPrompt
-    );
+    const messages = [{ role: 'user' as const, content: userPrompt }];
+    const response = await this.sendMessageWithTools(messages, systemPrompt);
 
     await this.logProgress('Parsing and validating work queue...', 80);
 
-    // Parse WorkQueue
-    const workQueue = await this.parseWorkQueue(response.text);
+    // Parse against the manifest output schema, asking the model to repair invalid output
+    const { output: workQueue, usage } = await this.parseOutput<WorkQueue>(response, messages, systemPrompt);
 
     // Validate and optimize
     await this.validateWorkQueue(workQueue, siteSpec);
@@ -161,8 +155,8 @@ For contractor websites specifically:
     return {
       success: true,
       output: workQueue,
-      tokensUsed: response.usage.inputTokens + response.usage.outputTokens,
-      cost: this.calculateCost(response.usage),
+      tokensUsed: usage.inputTokens + usage.outputTokens,
+      cost: this.getUsageCost(),
       artifacts,
     };
   }
@@ -288,31 +282,6 @@ Create tasks in this order of execution:
 Generate the complete WorkQueue with ALL tasks needed to build this site.`;
   }
 
-  /**
-   * Parse WorkQueue from response
-   */
-  private async parseWorkQueue(text: string): Promise<WorkQueue> {
-    try {
-      let jsonText = text.trim();
-
-      const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[1];
-      } else if (text.startsWith('```') && text.endsWith('```')) {
-        jsonText = text.slice(3, -3).trim();
-        if (jsonText.startsWith('json\n')) {
-          jsonText = jsonText.slice(5);
-        }
-      }
-
-      const parsed = JSON.parse(jsonText);
-      return WorkQueueSchema.parse(parsed);
-    } catch (error: any) {
-      console.error('Failed to parse WorkQueue:', error);
-      throw new Error(`Failed to parse WorkQueue: ${error.message}`);
-    }
-  }
-
   /**
    * Validate WorkQueue
    */
@@ -512,15 +481,6 @@ ${this.renderDependencyGraph(queue.tasks.slice(0, 10))}
     // Rough estimate: 60% input, 40% output
     return (totalTokens * 0.6 / 1000) * INPUT_COST_PER_1K + (totalTokens * 0.4 / 1000) * OUTPUT_COST_PER_1K;
   }
-
-  /**
-   * Calculate cost
-   */
-  private calculateCost(usage: { inputTokens: number; outputTokens: number }): number {
-    const INPUT_COST_PER_1K = 0.003;
-    const OUTPUT_COST_PER_1K = 0.015;
-    return (usage.inputTokens / 1000) * INPUT_COST_PER_1K + (usage.outputTokens / 1000) * OUTPUT_COST_PER_1K;
-  }
 }
 
 // Export factory function
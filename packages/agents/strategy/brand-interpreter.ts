@@ -11,6 +11,7 @@ export const BrandInterpreterInputSchema = z.object({
   projectId: z.string(),
   companyProfileId: z.string(),
   siteSpecPath: z.string(), // Path to stored SiteSpec
+  reviewFeedback: z.string().optional(), // Reviewer comments from a rejected approval
 });
 
 export type BrandInterpreterInput = z.infer<typeof BrandInterpreterInputSchema>;
@@ -85,7 +86,6 @@ For contractor websites specifically:
     super(context, {
       enableMCP: true,
       mcpServers: ['filesystem', 'memory'],
-      model: 'claude-3-5-sonnet-20241022',
       temperature: 0.6,
       maxTokens: 12288,
     });
@@ -103,9 +103,6 @@ For contractor websites specifically:
    * Execute the Brand Interpreter Agent
    */
   protected async execute(input: BrandInterpreterInput): Promise<AgentResult> {
-    // Validate input
-    BrandInterpreterInputSchema.parse(input);
-
     await this.logProgress('Loading company profile and site spec...', 10);
 
     // Fetch company profile
@@ -128,16 +125,22 @@ For contractor websites specifically:
 
     await this.logProgress('Generating design tokens...', 50);
 
-    // Call Claude
-    const response = await this.sendMessageWithTools(
-      [{ role: 'user', content: userPrompt }],
-      systemPrompt
-    );
+    // Call Claude (brand and site context are cached across review attempts; feedback follows them)
+    const messages = [
+      {
+        role: 'user' as const,
+        content: [
+          this.cacheable(userPrompt),
+          ...(input.reviewFeedback ? [{ type: 'text' as const, text: this.buildFeedbackPrompt(input.reviewFeedback) }] : []),
+        ],
+      },
+    ];
+    const response = await this.sendMessageWithTools(messages, systemPrompt);
 
     await this.logProgress('Parsing and validating design spec...', 75);
 
-    // Parse DesignSpec
-    const designSpec = await this.parseDesignSpec(response.text);
+    // Parse against the manifest output schema, asking the model to repair invalid output
+    const { output: designSpec, usage } = await this.parseOutput<DesignSpec>(response, messages, systemPrompt);
 
     // Validate output
     await this.validateDesignSpec(designSpec);
@@ -152,8 +155,8 @@ For contractor websites specifically:
     return {
       success: true,
       output: designSpec,
-      tokensUsed: response.usage.inputTokens + response.usage.outputTokens,
-      cost: this.calculateCost(response.usage),
+      tokensUsed: usage.inputTokens + usage.outputTokens,
+      cost: this.getUsageCost(),
       artifacts,
     };
   }
@@ -267,28 +270,11 @@ Output the complete DesignSpec as a JSON object.`;
   }
 
   /**
-   * Parse DesignSpec from response
+   * Build the prompt asking for a revised DesignSpec after a rejected review
    */
-  private async parseDesignSpec(text: string): Promise<DesignSpec> {
-    try {
-      let jsonText = text.trim();
-
-      const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[1];
-      } else if (text.startsWith('```') && text.endsWith('```')) {
-        jsonText = text.slice(3, -3).trim();
-        if (jsonText.startsWith('json\n')) {
-          jsonText = jsonText.slice(5);
-        }
-      }
-
-      const parsed = JSON.parse(jsonText);
-      return DesignSpecSchema.parse(parsed);
-    } catch (error: any) {
-      console.error('Failed to parse DesignSpec:', error);
-      throw new Error(`Failed to parse DesignSpec: ${error.message}`);
-    }
+  private buildFeedbackPrompt(reviewFeedback: string): string {
+    return `A reviewer rejected the previous DesignSpec. Address this feedback:
+${reviewFeedback}`;
   }
 
   /**
@@ -459,15 +445,6 @@ ${Object.entries(spec.componentVariants)
 
     return guidance[industry.toLowerCase()] || 'Professional blues, greens, or grays. Bright accent color for CTAs.';
   }
-
-  /**
-   * Calculate cost
-   */
-  private calculateCost(usage: { inputTokens: number; outputTokens: number }): number {
-    const INPUT_COST_PER_1K = 0.003;
-    const OUTPUT_COST_PER_1K = 0.015;
-    return (usage.inputTokens / 1000) * INPUT_COST_PER_1K + (usage.outputTokens / 1000) * OUTPUT_COST_PER_1K;
-  }
 }
 
 // Export factory function
@@ -83,7 +83,6 @@ For contractor websites specifically:
     super(context, {
       enableMCP: true,
       mcpServers: ['filesystem', 'memory'],
-      model: 'claude-3-5-sonnet-20241022',
       temperature: 0.7,
       maxTokens: 8192,
     });
@@ -101,9 +100,6 @@ For contractor websites specifically:
    * Execute the IA Architect Agent
    */
   protected async execute(input: IAArchitectInput): Promise<AgentResult> {
-    // Validate input
-    IAArchitectInputSchema.parse(input);
-
     await this.logProgress('Loading SiteSpec...', 10);
 
     // Load SiteSpec from storage/filesystem
@@ -119,16 +115,14 @@ For contractor websites specifically:
 
     await this.logProgress('Designing information architecture...', 50);
 
-    // Call Claude with tool support
-    const response = await this.sendMessageWithTools(
-      [{ role: 'user', content: userPrompt }],
-      systemPrompt
-    );
+    // Call Claude with tool support (the route list is cached for tool turns and repairs)
+    const messages = [{ role: 'user' as const, content: [this.cacheable(userPrompt)] }];
+    const response = await this.sendMessageWithTools(messages, systemPrompt);
 
     await this.logProgress('Parsing and validating IA plan...', 75);
 
-    // Parse the IAPlan from response
-    const iaPlan = await this.parseIAPlan(response.text);
+    // Parse against the manifest output schema, asking the model to repair invalid output
+    const { output: iaPlan, usage } = await this.parseOutput<IAPlan>(response, messages, systemPrompt);
 
     // Validate the output
     await this.validateIAPlan(iaPlan, siteSpec);
@@ -143,8 +137,8 @@ For contractor websites specifically:
     return {
       success: true,
       output: iaPlan,
-      tokensUsed: response.usage.inputTokens + response.usage.outputTokens,
-      cost: this.calculateCost(response.usage),
+      tokensUsed: usage.inputTokens + usage.outputTokens,
+      cost: this.getUsageCost(),
       artifacts,
     };
   }
@@ -228,34 +222,6 @@ ${siteSpec.routes.map((r, i) => `${i + 1}. ${r.path} - ${r.name} (${r.purpose})`
 Output the complete IAPlan as a JSON object following the schema exactly.`;
   }
 
-  /**
-   * Parse IAPlan from Claude's response
-   */
-  private async parseIAPlan(text: string): Promise<IAPlan> {
-    try {
-      let jsonText = text.trim();
-
-      // Extract JSON from possible markdown
-      const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[1];
-      } else if (text.startsWith('```') && text.endsWith('```')) {
-        jsonText = text.slice(3, -3).trim();
-        if (jsonText.startsWith('json\n')) {
-          jsonText = jsonText.slice(5);
-        }
-      }
-
-      const parsed = JSON.parse(jsonText);
-
-      // Validate with schema
-      return IAPlanSchema.parse(parsed);
-    } catch (error: any) {
-      console.error('Failed to parse IAPlan:', error);
-      throw new Error(`Failed to parse IAPlan: ${error.message}`);
-    }
-  }
-
   /**
    * Validate IAPlan business logic
    */
@@ -408,19 +374,6 @@ ${plan.internalLinks.length > 10 ? `\n... and ${plan.internalLinks.length - 10}
       .map(([type, count]) => `${count} ${type}`)
       .join(', ');
   }
-
-  /**
-   * Calculate cost based on token usage
-   */
-  private calculateCost(usage: { inputTokens: number; outputTokens: number }): number {
-    const INPUT_COST_PER_1K = 0.003;
-    const OUTPUT_COST_PER_1K = 0.015;
-
-    return (
-      (usage.inputTokens / 1000) * INPUT_COST_PER_1K +
-      (usage.outputTokens / 1000) * OUTPUT_COST_PER_1K
-    );
-  }
 }
 
 // Export factory function
@@ -15,6 +15,7 @@ export const PlannerInputSchema = z.object({
     timeline: z.string().optional(),
     mustHaveFeatures: z.array(z.string()).optional(),
   }).optional(),
+  reviewFeedback: z.string().optional(), // Reviewer comments from a rejected approval
 });
 
 export type PlannerInput = z.infer<typeof PlannerInputSchema>;
@@ -81,9 +82,9 @@ Focus on creating a specification that is:
     super(context, {
       enableMCP: true,
       mcpServers: ['filesystem', 'memory'],
-      model: 'claude-3-5-sonnet-20241022',
       temperature: 0.7,
       maxTokens: 16384,
+      streamOutput: true, // SiteSpec generation takes a while; show it as it's written
     });
   }
 
@@ -99,9 +100,6 @@ Focus on creating a specification that is:
    * Execute the Planner Agent
    */
   protected async execute(input: PlannerInput): Promise<AgentResult> {
-    // Validate input
-    PlannerInputSchema.parse(input);
-
     await this.logProgress('Loading company profile...', 10);
 
     // Fetch company profile from database
@@ -124,16 +122,22 @@ Focus on creating a specification that is:
 
     await this.logProgress('Generating site specification...', 40);
 
-    // Call Claude with tool support
-    const response = await this.sendMessageWithTools(
-      [{ role: 'user', content: userPrompt }],
-      systemPrompt
-    );
+    // Call Claude with tool support (the profile is cached across review attempts; feedback follows it)
+    const messages = [
+      {
+        role: 'user' as const,
+        content: [
+          this.cacheable(userPrompt),
+          ...(input.reviewFeedback ? [{ type: 'text' as const, text: this.buildFeedbackPrompt(input.reviewFeedback) }] : []),
+        ],
+      },
+    ];
+    const response = await this.sendMessageWithTools(messages, systemPrompt);
 
     await this.logProgress('Parsing and validating specification...', 70);
 
-    // Parse the SiteSpec from response
-    const siteSpec = await this.parseSiteSpec(response.text);
+    // Parse against the manifest output schema, asking the model to repair invalid output
+    const { output: siteSpec, usage } = await this.parseOutput<SiteSpec>(response, messages, systemPrompt);
 
     // Validate the output
     await this.validateSiteSpec(siteSpec, companyProfile);
@@ -148,8 +152,8 @@ Focus on creating a specification that is:
     return {
       success: true,
       output: siteSpec,
-      tokensUsed: response.usage.inputTokens + response.usage.outputTokens,
-      cost: this.calculateCost(response.usage),
+      tokensUsed: usage.inputTokens + usage.outputTokens,
+      cost: this.getUsageCost(),
       artifacts,
     };
   }
@@ -203,31 +207,11 @@ Output the complete SiteSpec as a JSON object following the schema exactly.`;
   }
 
   /**
-   * Parse SiteSpec from Claude's response
+   * Build the prompt asking for a revised SiteSpec after a rejected review
    */
-  private async parseSiteSpec(text: string): Promise<SiteSpec> {
-    try {
-      // Try to extract JSON from possible markdown code blocks
-      let jsonText = text.trim();
-
-      const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[1];
-      } else if (text.startsWith('```') && text.endsWith('```')) {
-        jsonText = text.slice(3, -3).trim();
-        if (jsonText.startsWith('json\n')) {
-          jsonText = jsonText.slice(5);
-        }
-      }
-
-      const parsed = JSON.parse(jsonText);
-
-      // Validate with schema
-      return SiteSpecSchema.parse(parsed);
-    } catch (error: any) {
-      console.error('Failed to parse SiteSpec:', error);
-      throw new Error(`Failed to parse SiteSpec: ${error.message}`);
-    }
+  private buildFeedbackPrompt(reviewFeedback: string): string {
+    return `A reviewer rejected the previous SiteSpec. Address this feedback:
+${reviewFeedback}`;
   }
 
   /**
@@ -376,20 +360,6 @@ ${spec.componentSpecs.length > 5 ? `\n... and ${spec.componentSpecs.length - 5}
 - Add service guarantees and warranties
 - Include financing options`;
   }
-
-  /**
-   * Calculate cost based on token usage
-   */
-  private calculateCost(usage: { inputTokens: number; outputTokens: number }): number {
-    // Claude 3.5 Sonnet pricing (as of 2024)
-    const INPUT_COST_PER_1K = 0.003;
-    const OUTPUT_COST_PER_1K = 0.015;
-
-    return (
-      (usage.inputTokens / 1000) * INPUT_COST_PER_1K +
-      (usage.outputTokens / 1000) * OUTPUT_COST_PER_1K
-    );
-  }
 }
 
 // Export factory function
@@ -7,7 +7,7 @@ export const APP_VERSION = '1.0.0';
 
 // Agent Configuration
 export const AGENT_CONFIG = {
-  DEFAULT_MODEL: 'claude-4.5-sonnet' as const,
+  DEFAULT_MODEL: 'claude-3-5-sonnet-20241022' as const,
   DEFAULT_TEMPERATURE: 0.7,
   DEFAULT_MAX_TOKENS: 4096,
   MAX_RETRIES: 3,
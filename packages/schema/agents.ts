@@ -1,5 +1,6 @@
 // packages/schema/src/agents.ts
 import { z } from 'zod';
+import type { FailurePolicy } from './src/workflow';
 
 // Base schemas for all agents
 export const AgentRunSchema = z.object({
@@ -283,9 +284,12 @@ export interface AgentManifest {
   maxRetries: number;
   timeout?: number; // milliseconds
   priority?: number; // execution priority
+  provider?: string; // Registered LLM provider (anthropic, openai-compatible, mock, ...)
+  model?: string; // Model for LLM calls (overrides the agent's default)
   maxTokens?: number; // Max tokens for Claude calls
   temperature?: number; // Temperature for Claude calls
   systemPrompt?: string; // System prompt for Claude
+  onFailure?: FailurePolicy; // Default failure policy when a workflow step doesn't declare one
 }
 
 // Base Agent Class
@@ -13,7 +13,7 @@ export const AgentLayerSchema = z.enum([
   'quality',
 ]);
 
-export const AgentStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']);
+export const AgentStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'cancelled', 'skipped']);
 
 export const AgentRoleSchema = z.enum([
   // Orchestrator
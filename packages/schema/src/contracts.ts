@@ -6,6 +6,12 @@ import { z } from 'zod';
  * These define the stable interfaces between agent tiers
  */
 
+// Provenance - Agent execution that produced an artifact (spec, section or file)
+export const ProvenanceSchema = z.object({
+  agentExecutionId: z.string(),
+  agentRole: z.string(),
+});
+
 // ============================================================
 // TIER 1: Strategy & Planning Contracts
 // ============================================================
@@ -14,6 +20,7 @@ import { z } from 'zod';
 export const SiteSpecSchema = z.object({
   version: z.literal('1.0'),
   projectId: z.string(),
+  producedBy: ProvenanceSchema.optional(),
   routes: z.array(z.object({
     path: z.string(),
     name: z.string(),
@@ -34,6 +41,7 @@ export const SiteSpecSchema = z.object({
     componentType: z.string(),
     props: z.any(),
     contentNeeds: z.array(z.string()),
+    producedBy: ProvenanceSchema.optional(),
   })),
   componentSpecs: z.array(z.object({
     id: z.string(),
@@ -57,6 +65,7 @@ export const SiteSpecSchema = z.object({
 // DesignSpec - Output from Brand Interpreter
 export const DesignSpecSchema = z.object({
   version: z.literal('1.0'),
+  producedBy: ProvenanceSchema.optional(),
   tokens: z.object({
     colors: z.record(z.string()),
     typography: z.object({
@@ -86,6 +95,7 @@ export const DesignSpecSchema = z.object({
 // IAPlan - Output from IA Architect
 export const IAPlanSchema = z.object({
   version: z.literal('1.0'),
+  producedBy: ProvenanceSchema.optional(),
   sitemap: z.object({
     root: z.string(),
     children: z.array(z.lazy(() =>
@@ -146,8 +156,10 @@ export const PageBlueprintSchema = z.object({
   version: z.literal('1.0'),
   route: z.string(),
   layout: z.string(),
+  producedBy: ProvenanceSchema.optional(),
   sections: z.array(z.object({
     id: z.string(),
+    producedBy: ProvenanceSchema.optional(),
     component: z.string(),
     props: z.any(),
     contentNeeds: z.array(z.object({
@@ -168,10 +180,12 @@ export const PageBlueprintSchema = z.object({
 export const ComponentFilesSchema = z.object({
   version: z.literal('1.0'),
   componentId: z.string(),
+  producedBy: ProvenanceSchema.optional(),
   files: z.array(z.object({
     path: z.string(),
     content: z.string(),
     type: z.enum(['tsx', 'css', 'test', 'story']),
+    producedBy: ProvenanceSchema.optional(),
   })),
   exports: z.array(z.object({
     name: z.string(),
@@ -185,10 +199,12 @@ export const ComponentFilesSchema = z.object({
 export const PageFilesSchema = z.object({
   version: z.literal('1.0'),
   route: z.string(),
+  producedBy: ProvenanceSchema.optional(),
   files: z.array(z.object({
     path: z.string(),
     content: z.string(),
     type: z.enum(['page', 'layout', 'loading', 'error', 'route']),
+    producedBy: ProvenanceSchema.optional(),
   })),
   imports: z.array(z.string()),
   dataFetching: z.array(z.object({
@@ -223,6 +239,7 @@ export const FindingsSchema = z.object({
     autoFixable: z.boolean(),
     estimatedCost: z.number(), // in abstract units
     references: z.array(z.string()).optional(),
+    responsibleAgent: ProvenanceSchema.optional(), // Resolved from the location's provenance
   })),
   summary: z.object({
     total: z.number(),
@@ -341,6 +358,7 @@ export const AgentMessageSchema = z.object({
 // Type exports
 // ============================================================
 
+export type Provenance = z.infer<typeof ProvenanceSchema>;
 export type SiteSpec = z.infer<typeof SiteSpecSchema>;
 export type DesignSpec = z.infer<typeof DesignSpecSchema>;
 export type IAPlan = z.infer<typeof IAPlanSchema>;
@@ -349,6 +367,7 @@ export type PageBlueprint = z.infer<typeof PageBlueprintSchema>;
 export type ComponentFiles = z.infer<typeof ComponentFilesSchema>;
 export type PageFiles = z.infer<typeof PageFilesSchema>;
 export type Findings = z.infer<typeof FindingsSchema>;
+export type Finding = Findings['findings'][number];
 export type Patches = z.infer<typeof PatchesSchema>;
 export type BuildReport = z.infer<typeof BuildReportSchema>;
 export type DeployReport = z.infer<typeof DeployReportSchema>;
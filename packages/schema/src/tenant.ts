@@ -6,6 +6,11 @@ import { z } from 'zod';
 
 export const SubscriptionTierSchema = z.enum(['free', 'pro', 'enterprise']);
 
+export const ModelRouteSchema = z.object({
+  model: z.string(),
+  fallback: z.string().optional(),
+});
+
 export const TenantSettingsSchema = z.object({
   // Branding
   companyName: z.string().optional(),
@@ -36,6 +41,27 @@ export const TenantSettingsSchema = z.object({
 
   // Integrations
   integrations: z.record(z.any()).optional(),
+
+  // Agent role -> pinned version
+  agentVersions: z.record(z.string(), z.string()).optional(),
+
+  // Model per agent (manifest id) > category > tier > default, over the built-in routing
+  modelRouting: z
+    .object({
+      default: ModelRouteSchema.optional(),
+      tiers: z.record(z.string(), ModelRouteSchema).optional(),
+      categories: z.record(z.string(), ModelRouteSchema).optional(),
+      agents: z.record(z.string(), ModelRouteSchema).optional(),
+    })
+    .optional(),
+
+  // LLM provider/model used by every agent (overrides agent manifests)
+  llm: z
+    .object({
+      provider: z.enum(['anthropic', 'openai-compatible', 'mock']).optional(),
+      model: z.string().optional(),
+    })
+    .optional(),
 });
 
 export const TenantSchema = z.object({
@@ -17,18 +17,82 @@ export const WorkflowStatusSchema = z.enum([
   'queued',
   'running',
   'paused',
+  'awaiting_approval',
   'completed',
   'failed',
   'cancelled',
 ]);
 
+export const ApprovalStatusSchema = z.enum(['pending', 'approved', 'edited', 'rejected', 'expired']);
+
+// Reviewer decision at an approval gate
+export const ApprovalDecisionSchema = z.enum(['approve', 'edit', 'reject']);
+
+export const FailurePolicyTypeSchema = z.enum(['abort', 'continue', 'skip_dependents', 'fallback']);
+
+// What the engine does when a step's agent fails
+export const FailurePolicySchema = z
+  .object({
+    type: FailurePolicyTypeSchema,
+    fallbackAgentRole: z.string().optional(), // Required when type is 'fallback'
+  })
+  .refine((policy) => policy.type !== 'fallback' || !!policy.fallbackAgentRole, {
+    message: 'fallbackAgentRole is required for fallback policies',
+    path: ['fallbackAgentRole'],
+  });
+
+export const StepConditionOperatorSchema = z.enum([
+  'exists',
+  'truthy',
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'contains',
+]);
+
+// Predicate over the agent's input (workflow input plus `previousOutputs.<ROLE>`)
+export const StepConditionSchema = z.object({
+  path: z.string(), // Dot path, e.g. 'previousOutputs.BUSINESS_REQUIREMENTS.locations.length'
+  operator: StepConditionOperatorSchema.default('truthy'),
+  value: z.any().optional(),
+});
+
+// Run one agent instance per item of an array in the agent's input
+export const StepFanOutSchema = z.object({
+  path: z.string(), // Dot path to an array, e.g. 'previousOutputs.PLANNER.componentSpecs'
+  itemKey: z.string().default('item'), // Input key each instance receives its item under
+  maxItems: z.number().int().positive().optional(),
+});
+
+// Where a mapped input field comes from
+export const StepInputSourceSchema = z.object({
+  from: z.string(), // 'input' for the workflow input, otherwise an upstream agent role
+  path: z.string().optional(), // Dot path within the source; the whole value when omitted
+  default: z.any().optional(), // Used when the source has no value at runtime
+});
+
+// Hold the agents downstream of the reviewed agents until a reviewer approves their outputs
+export const StepApprovalSchema = z.object({
+  reviews: z.array(z.string()).min(1), // Agent roles whose outputs are submitted for review
+  timeout: z.string().regex(/^\d+[smhdw]$/).optional(), // e.g. '12h'; defaults to 7 days
+});
+
 export const WorkflowStepSchema: z.ZodType<any> = z.object({
   id: z.string(),
   name: z.string(),
-  type: z.enum(['agent', 'parallel', 'sequential', 'conditional', 'loop']),
+  type: z.enum(['agent', 'parallel', 'sequential', 'conditional', 'loop', 'approval']),
   agentRole: z.string().optional(),
   dependencies: z.array(z.string()).optional(),
-  condition: z.string().optional(),
+  condition: z.union([z.string(), StepConditionSchema]).optional(), // A bare string is a path that must be truthy
+  forEach: StepFanOutSchema.optional(),
+  inputs: z.record(z.string(), StepInputSourceSchema).optional(), // Target input field -> source
+  config: z.record(z.string(), z.any()).optional(), // Agent-specific config for this step
+  onFailure: FailurePolicySchema.optional(),
+  approval: StepApprovalSchema.optional(), // Required when type is 'approval'; the step id names the gate
   children: z.array(z.lazy(() => WorkflowStepSchema)).optional(),
 });
 
@@ -50,6 +114,7 @@ export const WorkflowDefinitionSchema = z.object({
     parallelism: z.number().default(5),
     iterativeRefinement: z.boolean().default(true),
     maxIterations: z.number().default(3),
+    agentVersions: z.record(z.string(), z.string()).optional(), // Agent role -> pinned version
   }),
 
   // Metadata
@@ -134,6 +199,7 @@ export const WorkflowEventSchema = z.object({
     'workflow.failed',
     'workflow.paused',
     'workflow.resumed',
+    'workflow.awaiting_approval',
   ]),
   workflowExecutionId: z.string().uuid(),
   workflowType: WorkflowTypeSchema,
@@ -146,7 +212,16 @@ export const WorkflowEventSchema = z.object({
 // Export types
 export type WorkflowType = z.infer<typeof WorkflowTypeSchema>;
 export type WorkflowStatus = z.infer<typeof WorkflowStatusSchema>;
+export type ApprovalStatus = z.infer<typeof ApprovalStatusSchema>;
+export type ApprovalDecision = z.infer<typeof ApprovalDecisionSchema>;
 export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
+export type FailurePolicyType = z.infer<typeof FailurePolicyTypeSchema>;
+export type FailurePolicy = z.infer<typeof FailurePolicySchema>;
+export type StepConditionOperator = z.infer<typeof StepConditionOperatorSchema>;
+export type StepCondition = z.infer<typeof StepConditionSchema>;
+export type StepFanOut = z.infer<typeof StepFanOutSchema>;
+export type StepApproval = z.infer<typeof StepApprovalSchema>;
+export type StepInputSource = z.infer<typeof StepInputSourceSchema>;
 export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
 export type WorkflowExecution = z.infer<typeof WorkflowExecutionSchema>;
 export type WorkflowExecutionWithRelations = z.infer<typeof WorkflowExecutionWithRelationsSchema>;